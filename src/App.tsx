@@ -1,4 +1,6 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Chart as ChartJS } from 'chart.js';
+import BN from 'bn.js';
 import {
   Header,
   PoolSelector,
@@ -7,50 +9,365 @@ import {
   SimulationResults,
   CLMMILChart,
   RebalanceSimulator,
+  BacktestPanel,
+  MonteCarloSettings,
+  RangeOptimizer,
+  SwapImpactPanel,
+  PortfolioPanel,
+  RangeComparison,
+  FeeTierComparison,
+  RangeOrderPanel,
+  StrategyBacktestPanel,
+  HedgingPanel,
+  GreeksPanel,
+  PositionAnalysisPanel,
+  ScenarioPresets,
+  ReportExport,
 } from './components';
+import { DEFAULT_MONTE_CARLO_SETTINGS, MonteCarloSettingsValue } from './components/MonteCarloSettings';
 import { SimulationResult } from './types';
-import { runSimulation, priceToTick, alignTickToSpacing, tickToPrice } from './utils';
-import { generateILCurve as generateCLMMILCurve, ILCurvePoint } from './utils/clmmMath';
-import { PoolInfo } from './services/cetusSdk';
+import {
+  runSimulation,
+  alignTickToSpacing,
+  tickToPriceWithDecimals,
+  buildLiquidityDistribution,
+  getPositionLiquidity,
+  calculateLiquidityShare,
+  runMonteCarloSimulation,
+  findOptimalRanges,
+  analyzePosition,
+  getActiveLiquidityAtTick,
+  sqrtPriceX64ToTick,
+  clampSqrtPriceX64,
+  tickToSqrtPriceX64,
+  createConstantProductQuoter,
+  createTickSwapQuoter,
+  TickLiquidity,
+  LiquidityShareResult,
+  PortfolioPosition,
+  MonteCarloResult,
+  ReportInput,
+  ReportChart,
+} from './utils';
+import { ILCurvePoint, RebalanceScenario } from './utils/clmmMath';
+import { Position, generateILCurve as generateCLMMILCurve } from './utils/position';
+import {
+  PoolInfo,
+  PoolMarketStats,
+  UserPosition,
+  fetchTickLiquidity,
+  createManualPoolStats,
+  getPoolsCacheInfo,
+  fetchPools,
+  fetchPoolById,
+  subscribePoolState,
+  applyPoolState,
+  PoolState,
+} from './services/cetusSdk';
+import { TokenPrice, getTokenPriceUSD, SUI_COIN_TYPE } from './services/priceOracle';
+import {
+  SimulationScenario,
+  SimulatorTab,
+  CurveRange,
+  RebalanceSettings,
+  DEFAULT_CURVE_RANGE,
+  encodeScenarioToQuery,
+  decodeScenarioFromQuery,
+} from './services/scenarioStorage';
+
+// Pool caches are filled by fetchPools, so load them before looking a pool up
+async function resolvePool(poolId: string): Promise<PoolInfo | null> {
+  await fetchPools();
+  return fetchPoolById(poolId);
+}
 
 function App() {
   // Pool selection - now using real pool data from SDK
-  const [selectedPool, setSelectedPool] = useState<PoolInfo | null>(null);
+  const [basePool, setBasePool] = useState<PoolInfo | null>(null);
+  // Latest polled state, only replaced when the price or tick moves
+  const [livePoolState, setLivePoolState] = useState<PoolState | null>(null);
+  const selectedPool = useMemo(
+    () => (basePool && livePoolState?.poolId === basePool.poolId ? applyPoolState(basePool, livePoolState) : basePool),
+    [basePool, livePoolState]
+  );
+
+  // 24h volume/TVL: API figures unless the user overrides them
+  const [statsOverride, setStatsOverride] = useState<PoolMarketStats | null>(null);
+  const marketStats = statsOverride ?? selectedPool?.stats ?? null;
+  const dailyVolume = marketStats?.volume24h ?? 0;
+  const poolTVL = marketStats?.tvl ?? 0;
+
+  // USD prices: Token B for valuation, SUI for gas
+  const [quotePrice, setQuotePrice] = useState<TokenPrice | null>(null);
+  const [suiPrice, setSuiPrice] = useState<TokenPrice | null>(null);
+  const [manualQuotePriceUSD, setManualQuotePriceUSD] = useState(0); // Used when the oracle has no price
+  const quotePriceUSD = quotePrice?.priceUSD ?? manualQuotePriceUSD; // 0 = not loaded yet
+  // Without a quote price every USD figure would silently assume $1
+  const hasQuotePrice = quotePriceUSD > 0;
 
   // Liquidity inputs
   const [amountA, setAmountA] = useState(100);
   const [amountB, setAmountB] = useState(100);
   
-  // Price range (ticks)
+  // Price range (on-chain ticks)
   const [tickLower, setTickLower] = useState(-2000);
   const [tickUpper, setTickUpper] = useState(2000);
 
   // Simulation result
   const [result, setResult] = useState<SimulationResult | null>(null);
   const [clmmILData, setCLMMILData] = useState<ILCurvePoint[]>([]);
+  const [liquidityShare, setLiquidityShare] = useState<LiquidityShareResult | null>(null);
+  const [monteCarloSettings, setMonteCarloSettings] = useState<MonteCarloSettingsValue>(DEFAULT_MONTE_CARLO_SETTINGS);
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloResult | null>(null);
+  const [portfolioPositions, setPortfolioPositions] = useState<PortfolioPosition[]>([]);
+  const [loadedPosition, setLoadedPosition] = useState<UserPosition | null>(null);
   const [isSimulating, setIsSimulating] = useState(false);
-  const [activeTab, setActiveTab] = useState<'simulation' | 'rebalance'>('simulation');
+  const [autoRerun, setAutoRerun] = useState(false);
+  const autoRerunPriceRef = useRef<number | null>(null);
+  const [activeTab, setActiveTab] = useState<SimulatorTab>('simulation');
+  const [curveRange, setCurveRange] = useState<CurveRange>(DEFAULT_CURVE_RANGE);
+  const [rebalanceSettings, setRebalanceSettings] = useState<RebalanceSettings | undefined>(undefined);
+  const [rebalanceResult, setRebalanceResult] = useState<RebalanceScenario | null>(null);
+  // Inputs + outputs of the last run, so exports match what is on screen
+  const [lastRun, setLastRun] = useState<Omit<ReportInput, 'rebalance'> | null>(null);
+  const ilChartRef = useRef<ChartJS<'line'>>(null);
+  // Bumped when a scenario is restored so stateful panels re-read their initial values
+  const [scenarioKey, setScenarioKey] = useState(0);
+
+  // Tick-level liquidity of the selected pool (for fee share and swap impact)
+  const [tickLiquidity, setTickLiquidity] = useState<TickLiquidity[]>([]);
+  const liquidityDistribution = useMemo(() => buildLiquidityDistribution(tickLiquidity), [tickLiquidity]);
+
+  // Swap quotes for zap-in: exact tick walk once ticks are loaded, else a TVL-sized constant-product pool
+  const zapQuoter = useMemo(() => {
+    if (!selectedPool || selectedPool.currentPrice <= 0) return undefined;
+    if (tickLiquidity.length === 0) {
+      if (!hasQuotePrice) return undefined;
+      return createConstantProductQuoter(selectedPool.currentPrice, selectedPool.feeRate, poolTVL / quotePriceUSD);
+    }
+
+    const poolSqrtPrice = new BN(selectedPool.currentSqrtPrice || '0');
+    return createTickSwapQuoter(
+      {
+        currentSqrtPrice: !poolSqrtPrice.isZero() && sqrtPriceX64ToTick(clampSqrtPriceX64(poolSqrtPrice)) === selectedPool.currentTickIndex
+          ? poolSqrtPrice
+          : tickToSqrtPriceX64(selectedPool.currentTickIndex),
+        currentTickIndex: selectedPool.currentTickIndex,
+        liquidity: getActiveLiquidityAtTick(liquidityDistribution, selectedPool.currentTickIndex),
+        feeRate: Math.round(selectedPool.feeRate * 1_000_000),
+        ticks: tickLiquidity,
+      },
+      selectedPool.coinDecimalsA,
+      selectedPool.coinDecimalsB
+    );
+  }, [selectedPool, tickLiquidity, liquidityDistribution, poolTVL, quotePriceUSD, hasQuotePrice]);
+
+  useEffect(() => {
+    if (!basePool) return;
+
+    let isCurrent = true;
+    setTickLiquidity([]);
+    fetchTickLiquidity(basePool)
+      .then(ticks => {
+        if (isCurrent) setTickLiquidity(ticks);
+      })
+      .catch(err => console.warn('Failed to load tick liquidity:', err));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [basePool]);
+
+  useEffect(() => {
+    if (!basePool) return;
+
+    let isCurrent = true;
+    setQuotePrice(null);
+    setManualQuotePriceUSD(0);
+    const { pools } = getPoolsCacheInfo();
+    Promise.all([getTokenPriceUSD(basePool.coinTypeB, pools), getTokenPriceUSD(SUI_COIN_TYPE, pools)])
+      .then(([quote, sui]) => {
+        if (!isCurrent) return;
+        setQuotePrice(quote);
+        setSuiPrice(sui);
+      })
+      .catch(err => console.warn('Failed to resolve USD prices:', err));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [basePool]);
+
+  // Keep the selected pool's sqrt price, tick and tick liquidity current
+  useEffect(() => {
+    if (!basePool) return;
+
+    let isCurrent = true;
+    setLivePoolState(null);
+    const subscription = subscribePoolState(basePool, ({ previous, current }) => {
+      const isPriceMove = current.currentSqrtPrice !== previous.currentSqrtPrice
+        || current.currentTickIndex !== previous.currentTickIndex;
+      if (isPriceMove) setLivePoolState(current);
+
+      // Liquidity changed without a tick cross: positions were opened or closed
+      if (current.liquidity !== previous.liquidity && current.currentTickIndex === previous.currentTickIndex) {
+        fetchTickLiquidity(basePool, true)
+          .then(ticks => {
+            if (isCurrent) setTickLiquidity(ticks);
+          })
+          .catch(err => console.warn('Failed to refresh tick liquidity:', err));
+      }
+    });
+    return () => {
+      isCurrent = false;
+      subscription.unsubscribe();
+    };
+  }, [basePool]);
+
+  // Share of active liquidity for a range, tick by tick
+  const measureLiquidityShare = useCallback((
+    lower: number,
+    upper: number,
+    depositA: number,
+    depositB: number
+  ): LiquidityShareResult | null => {
+    if (!selectedPool || tickLiquidity.length === 0) return null;
+
+    const positionLiquidity = getPositionLiquidity(
+      depositA,
+      depositB,
+      selectedPool.currentTickIndex,
+      lower,
+      upper,
+      selectedPool.coinDecimalsA,
+      selectedPool.coinDecimalsB
+    );
+    return calculateLiquidityShare(
+      liquidityDistribution,
+      positionLiquidity,
+      selectedPool.currentTickIndex,
+      lower,
+      upper
+    );
+  }, [selectedPool, tickLiquidity, liquidityDistribution]);
 
   // Handle pool selection
   const handlePoolSelect = useCallback((pool: PoolInfo) => {
-    setSelectedPool(pool);
+    setBasePool(pool);
+    setStatsOverride(null);
+    setLoadedPosition(null);
+    setRebalanceSettings(undefined);
+    setRebalanceResult(null);
+    setLastRun(null);
     
-    // Update tick range based on new pool
-    if (pool.currentPrice > 0) {
-      const currentTick = priceToTick(pool.currentPrice);
-      const tickRange = 2000; // Default ~20% range
-      setTickLower(alignTickToSpacing(currentTick - tickRange, pool.tickSpacing, false));
-      setTickUpper(alignTickToSpacing(currentTick + tickRange, pool.tickSpacing, true));
-    }
+    // Update tick range around the pool's on-chain tick
+    const tickRange = 2000; // Default ~20% range
+    setTickLower(alignTickToSpacing(pool.currentTickIndex - tickRange, pool.tickSpacing, false));
+    setTickUpper(alignTickToSpacing(pool.currentTickIndex + tickRange, pool.tickSpacing, true));
     
     // Reset simulation results
     setResult(null);
     setCLMMILData([]);
+    setLiquidityShare(null);
+    setMonteCarlo(null);
+  }, []);
+
+  // Load a wallet position: its pool, range and current amounts
+  const handleLoadPosition = useCallback((position: UserPosition) => {
+    const { pool } = position;
+    try {
+      const analysis = analyzePosition({
+        liquidity: new BN(position.liquidity),
+        sqrtPriceX64: new BN(pool.currentSqrtPrice),
+        tickLower: position.tickLowerIndex,
+        tickUpper: position.tickUpperIndex,
+        decimalsA: pool.coinDecimalsA,
+        decimalsB: pool.coinDecimalsB,
+        feeOwedA: new BN(position.feeOwedA),
+        feeOwedB: new BN(position.feeOwedB),
+      });
+
+      setBasePool(pool);
+      setStatsOverride(null);
+      setRebalanceSettings(undefined);
+      setRebalanceResult(null);
+      setLastRun(null);
+      setTickLower(position.tickLowerIndex);
+      setTickUpper(position.tickUpperIndex);
+      setAmountA(analysis.amountA);
+      setAmountB(analysis.amountB);
+      setLoadedPosition(position);
+
+      setResult(null);
+      setCLMMILData([]);
+      setLiquidityShare(null);
+      setMonteCarlo(null);
+    } catch (error) {
+      console.error('Failed to load position:', error);
+    }
+  }, []);
+
+  // Restore a shared or saved scenario
+  const applyScenario = useCallback((scenario: SimulationScenario, pool: PoolInfo) => {
+    setBasePool(pool);
+    setStatsOverride(null);
+    setLoadedPosition(null);
+    setAmountA(scenario.amountA);
+    setAmountB(scenario.amountB);
+    setTickLower(scenario.tickLower);
+    setTickUpper(scenario.tickUpper);
+    setActiveTab(scenario.activeTab);
+    setCurveRange(scenario.curveRange);
+    setRebalanceSettings(scenario.rebalance);
+    setRebalanceResult(null);
+    setLastRun(null);
+    setScenarioKey(key => key + 1);
+
+    setResult(null);
+    setCLMMILData([]);
+    setLiquidityShare(null);
+    setMonteCarlo(null);
   }, []);
 
+  const handleLoadScenario = useCallback((scenario: SimulationScenario) => {
+    if (selectedPool?.poolId === scenario.poolId) {
+      applyScenario(scenario, selectedPool);
+      return;
+    }
+    resolvePool(scenario.poolId)
+      .then(pool => {
+        if (pool) applyScenario(scenario, pool);
+        else console.warn('Scenario pool not found:', scenario.poolId);
+      })
+      .catch(err => console.warn('Failed to load scenario pool:', err));
+  }, [selectedPool, applyScenario]);
+
+  // Restore the scenario from a share link (first load only)
+  useEffect(() => {
+    const scenario = decodeScenarioFromQuery(window.location.search);
+    if (scenario) handleLoadScenario(scenario);
+  }, []);
+
+  const currentScenario = useMemo((): SimulationScenario | null => selectedPool && {
+    poolId: selectedPool.poolId,
+    amountA,
+    amountB,
+    tickLower,
+    tickUpper,
+    activeTab,
+    curveRange,
+    rebalance: rebalanceSettings,
+  }, [selectedPool, amountA, amountB, tickLower, tickUpper, activeTab, curveRange, rebalanceSettings]);
+
+  // Keep the URL in sync so it can be shared as-is
+  useEffect(() => {
+    if (!currentScenario) return;
+    window.history.replaceState(null, '', `${window.location.pathname}?${encodeScenarioToQuery(currentScenario)}`);
+  }, [currentScenario]);
+
   // Run simulation
   const handleSimulate = useCallback(() => {
-    if (!selectedPool) return;
+    if (!selectedPool || !hasQuotePrice) return;
 
     setIsSimulating(true);
 
@@ -58,13 +375,8 @@ function App() {
     setTimeout(() => {
       try {
         // Get price range from ticks
-        const priceLower = tickToPrice(tickLower);
-        const priceUpper = tickToPrice(tickUpper);
-        
-        console.log('Simulation params:', {
-          tickLower, tickUpper, priceLower, priceUpper,
-          amountA, amountB, currentPrice: selectedPool.currentPrice
-        });
+        const priceLower = tickToPriceWithDecimals(tickLower, selectedPool.coinDecimalsA, selectedPool.coinDecimalsB);
+        const priceUpper = tickToPriceWithDecimals(tickUpper, selectedPool.coinDecimalsA, selectedPool.coinDecimalsB);
 
         // Validate range
         if (priceLower >= priceUpper || priceLower <= 0 || priceUpper <= 0) {
@@ -73,49 +385,217 @@ function App() {
           return;
         }
 
-        console.log('Running runSimulation...');
+        // Share of active liquidity, tick by tick
+        const share = measureLiquidityShare(tickLower, tickUpper, amountA, amountB);
+
         // Run original simulation for basic metrics
         const simulationResult = runSimulation(
           amountA,
           amountB,
-          selectedPool.currentPrice,
-          1, // Price B (stablecoin = $1)
+          selectedPool.currentPrice * quotePriceUSD,
+          quotePriceUSD,
           tickLower,
           tickUpper,
           selectedPool.coinDecimalsA,
           selectedPool.coinDecimalsB,
           selectedPool.feeRate,
-          0, // volume_24h - not available from SDK fallback
-          0  // tvl - not available from SDK fallback
+          dailyVolume,
+          poolTVL,
+          share?.currentShare,
+          monteCarloSettings.annualVolatility
         );
-        console.log('runSimulation done:', simulationResult);
 
-        console.log('Running generateCLMMILCurve...');
         // Generate CLMM IL curve using CORRECT formulas
         // This uses the correct formulas for CLMM, not traditional AMM
+        // IL curve and Monte Carlo follow what is deposited, not the leftover input
+        const { depositedAmountA, depositedAmountB } = simulationResult;
         const clmmCurve = generateCLMMILCurve(
           selectedPool.currentPrice,
           priceLower,
           priceUpper,
-          amountA,
-          amountB,
-          { min: -80, max: 200, steps: 40 }
+          depositedAmountA,
+          depositedAmountB,
+          { ...curveRange, steps: 40 }
         );
-        console.log('generateCLMMILCurve done:', clmmCurve);
+
+        // Monte Carlo distribution of outcomes under the volatility assumption
+        // (optional: a deposit that mints no liquidity still shows the rest of the run)
+        let monteCarloResult: MonteCarloResult | null = null;
+        try {
+          monteCarloResult = runMonteCarloSimulation({
+            initialPrice: selectedPool.currentPrice,
+            annualVolatility: monteCarloSettings.annualVolatility,
+            annualDrift: monteCarloSettings.annualDrift,
+            days: monteCarloSettings.days,
+            stepsPerDay: 24,
+            paths: monteCarloSettings.paths,
+            jumps: monteCarloSettings.useJumps ? monteCarloSettings.jumps : undefined,
+            priceLower,
+            priceUpper,
+            amountA: depositedAmountA,
+            amountB: depositedAmountB,
+            dailyFeesInRange: simulationResult.dailyFees / quotePriceUSD, // USD -> Token B
+          });
+        } catch (error) {
+          console.warn('Monte Carlo skipped:', error);
+        }
 
         setResult(simulationResult);
         setCLMMILData(clmmCurve);
+        setLastRun({
+          poolId: selectedPool.poolId,
+          pair: selectedPool.formattedName,
+          tokenASymbol: selectedPool.coinSymbolA,
+          tokenBSymbol: selectedPool.coinSymbolB,
+          feeRate: selectedPool.feeRate,
+          currentPrice: selectedPool.currentPrice,
+          priceLower,
+          priceUpper,
+          amountA,
+          amountB,
+          volume24h: dailyVolume,
+          tvl: poolTVL,
+          quotePriceUSD,
+          result: simulationResult,
+          ilCurve: clmmCurve,
+        });
+        setLiquidityShare(share);
+        setMonteCarlo(monteCarloResult);
       } catch (error) {
         console.error('Simulation error:', error);
       } finally {
         setIsSimulating(false);
       }
     }, 500);
-  }, [selectedPool, amountA, amountB, tickLower, tickUpper]);
+  }, [selectedPool, amountA, amountB, tickLower, tickUpper, curveRange, dailyVolume, poolTVL, quotePriceUSD, hasQuotePrice, measureLiquidityShare, monteCarloSettings]);
+
+  // Re-run once per refreshed price when the last run is stale
+  useEffect(() => {
+    if (!autoRerun || !selectedPool || !lastRun || isSimulating) return;
+    if (lastRun.poolId !== selectedPool.poolId || lastRun.currentPrice === selectedPool.currentPrice) return;
+    if (autoRerunPriceRef.current === selectedPool.currentPrice) return;
+
+    autoRerunPriceRef.current = selectedPool.currentPrice;
+    handleSimulate();
+  }, [autoRerun, selectedPool, lastRun, isSimulating, handleSimulate]);
 
   // Calculate price range for display
-  const priceLower = useMemo(() => tickToPrice(tickLower), [tickLower]);
-  const priceUpper = useMemo(() => tickToPrice(tickUpper), [tickUpper]);
+  const priceLower = useMemo(
+    () => (selectedPool ? tickToPriceWithDecimals(tickLower, selectedPool.coinDecimalsA, selectedPool.coinDecimalsB) : 0),
+    [selectedPool, tickLower]
+  );
+  const priceUpper = useMemo(
+    () => (selectedPool ? tickToPriceWithDecimals(tickUpper, selectedPool.coinDecimalsA, selectedPool.coinDecimalsB) : 0),
+    [selectedPool, tickUpper]
+  );
+
+  // Fee income per day while in range (Token B), live for the greeks panel
+  const inRangeDailyFees = useMemo(() => {
+    if (!selectedPool || selectedPool.currentPrice <= 0 || priceLower >= priceUpper) return 0;
+    return Position.fromAmounts(selectedPool, { priceLower, priceUpper }, amountA, amountB).estimateFees({
+      dailyVolume,
+      poolTVL,
+      quotePriceUSD,
+      activeLiquidityShare: measureLiquidityShare(tickLower, tickUpper, amountA, amountB)?.currentShare,
+    }).dailyFees;
+  }, [selectedPool, priceLower, priceUpper, tickLower, tickUpper, amountA, amountB, dailyVolume, poolTVL, quotePriceUSD, measureLiquidityShare]);
+
+  // Candidate ranges scored by expected fees vs expected IL
+  const rangeOptimization = useMemo(() => {
+    if (!selectedPool || selectedPool.currentPrice <= 0) return null;
+
+    const capital = amountA * selectedPool.currentPrice + amountB;
+    return findOptimalRanges({
+      currentPrice: selectedPool.currentPrice,
+      currentTick: selectedPool.currentTickIndex,
+      tickSpacing: selectedPool.tickSpacing,
+      decimalsA: selectedPool.coinDecimalsA,
+      decimalsB: selectedPool.coinDecimalsB,
+      capital,
+      quotePriceUSD,
+      annualVolatility: monteCarloSettings.annualVolatility,
+      horizonDays: monteCarloSettings.days,
+      dailyVolume,
+      feeRate: selectedPool.feeRate,
+      totalPoolTVL: poolTVL,
+      getFeeShare: (lower, upper, depositA, depositB) =>
+        measureLiquidityShare(lower, upper, depositA, depositB)?.currentShare,
+    });
+  }, [selectedPool, amountA, amountB, monteCarloSettings.annualVolatility, monteCarloSettings.days, dailyVolume, poolTVL, quotePriceUSD, measureLiquidityShare]);
+
+  // Selected pool with the stats the simulation uses (incl. manual override)
+  const feeTierBasePool = useMemo(
+    () => selectedPool && { ...selectedPool, stats: marketStats ?? undefined },
+    [selectedPool, marketStats]
+  );
+
+  // Pools cache fills in the background; re-read it when the tab is opened
+  const feeTierPools = useMemo(
+    () => (activeTab === 'fees' ? getPoolsCacheInfo().pools : []),
+    [activeTab, selectedPool]
+  );
+
+  const getComparisonFeeShare = useCallback(
+    (lower: number, upper: number, depositA: number, depositB: number) =>
+      measureLiquidityShare(lower, upper, depositA, depositB)?.currentShare,
+    [measureLiquidityShare]
+  );
+
+  const reportInput = useMemo(
+    (): ReportInput | null => lastRun && { ...lastRun, rebalance: rebalanceResult },
+    [lastRun, rebalanceResult]
+  );
+
+  const getReportCharts = useCallback((): ReportChart[] => {
+    const chart = ilChartRef.current;
+    return chart ? [{ title: 'Impermanent Loss vs Price Change', dataUrl: chart.toBase64Image() }] : [];
+  }, []);
+
+  const handleApplyRange = useCallback((lower: number, upper: number) => {
+    setTickLower(lower);
+    setTickUpper(upper);
+  }, []);
+
+  const handleApplyRangeOrder = useCallback((lower: number, upper: number, depositA: number, depositB: number) => {
+    setTickLower(lower);
+    setTickUpper(upper);
+    setAmountA(depositA);
+    setAmountB(depositB);
+    setActiveTab('simulation');
+  }, []);
+
+  // Snapshot the current inputs as a portfolio position
+  const handleAddToPortfolio = useCallback(() => {
+    if (!selectedPool || !hasQuotePrice || priceLower >= priceUpper) return;
+
+    const position: PortfolioPosition = {
+      id: `${selectedPool.poolId}:${tickLower}:${tickUpper}:${Date.now()}`,
+      label: `${selectedPool.formattedName} ${priceLower.toFixed(4)}–${priceUpper.toFixed(4)}`,
+      poolId: selectedPool.poolId,
+      tokenASymbol: selectedPool.coinSymbolA,
+      tokenBSymbol: selectedPool.coinSymbolB,
+      entryPrice: selectedPool.currentPrice,
+      priceLower,
+      priceUpper,
+      amountA,
+      amountB,
+      feeRate: selectedPool.feeRate,
+      dailyVolume,
+      totalPoolTVL: poolTVL,
+      quotePriceUSD,
+      activeLiquidityShare: measureLiquidityShare(tickLower, tickUpper, amountA, amountB)?.currentShare,
+    };
+    setPortfolioPositions(prev => [...prev, position]);
+  }, [selectedPool, tickLower, tickUpper, priceLower, priceUpper, amountA, amountB, dailyVolume, poolTVL, quotePriceUSD, hasQuotePrice, measureLiquidityShare]);
+
+  const handleOverrideStats = useCallback((volume24h: number, tvl: number) => {
+    if (!selectedPool) return;
+    setStatsOverride(createManualPoolStats(volume24h, tvl, selectedPool.feeRate));
+  }, [selectedPool]);
+
+  const handleRemoveFromPortfolio = useCallback((id: string) => {
+    setPortfolioPositions(prev => prev.filter(p => p.id !== id));
+  }, []);
 
   if (!selectedPool) {
     return (
@@ -134,6 +614,7 @@ function App() {
             <PoolSelector
               selectedPoolId=""
               onSelectPool={handlePoolSelect}
+              onLoadPosition={handleLoadPosition}
             />
           </div>
         </main>
@@ -163,15 +644,24 @@ function App() {
             <PoolSelector
               selectedPoolId={selectedPool?.poolId || ''}
               onSelectPool={handlePoolSelect}
+              onLoadPosition={handleLoadPosition}
             />
 
+            {loadedPosition && (
+              <PositionAnalysisPanel key={loadedPosition.positionId} position={loadedPosition} quotePriceUSD={quotePriceUSD} />
+            )}
+
             <PoolStats
               currentPrice={selectedPool.currentPrice}
-              volume24h={0}
-              tvl={0}
+              stats={marketStats}
+              quotePrice={quotePrice}
+              manualQuotePriceUSD={manualQuotePriceUSD}
+              onManualQuotePriceChange={setManualQuotePriceUSD}
               feeRate={selectedPool.feeRate}
               tokenASymbol={selectedPool.coinSymbolA}
               tokenBSymbol={selectedPool.coinSymbolB}
+              onOverride={handleOverrideStats}
+              onClearOverride={() => setStatsOverride(null)}
             />
 
             <LiquidityInput
@@ -180,6 +670,8 @@ function App() {
               tickLower={tickLower}
               tickUpper={tickUpper}
               currentPrice={selectedPool.currentPrice}
+              decimalsA={selectedPool.coinDecimalsA}
+              decimalsB={selectedPool.coinDecimalsB}
               tokenASymbol={selectedPool.coinSymbolA}
               tokenBSymbol={selectedPool.coinSymbolB}
               tickSpacing={selectedPool.tickSpacing}
@@ -187,12 +679,21 @@ function App() {
               onAmountBChange={setAmountB}
               onTickLowerChange={setTickLower}
               onTickUpperChange={setTickUpper}
+              suggestedRanges={rangeOptimization?.ranked.slice(0, 3)}
+              quotePriceUSD={quotePriceUSD}
+              zapQuoter={zapQuoter}
+              isExactZapQuote={tickLiquidity.length > 0}
+            />
+
+            <MonteCarloSettings
+              settings={monteCarloSettings}
+              onChange={setMonteCarloSettings}
             />
 
             {/* Simulate Button */}
             <button
               onClick={handleSimulate}
-              disabled={isSimulating}
+              disabled={isSimulating || !hasQuotePrice}
               className="w-full py-3 sm:py-4 bg-gradient-to-r from-cetus-primary to-cetus-accent hover:from-cetus-primary/80 hover:to-cetus-accent/80 text-white font-bold rounded-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm sm:text-base"
             >
               {isSimulating ? (
@@ -212,6 +713,19 @@ function App() {
                 </>
               )}
             </button>
+            {!hasQuotePrice && (
+              <p className="-mt-2 text-xs text-yellow-400 text-center">
+                {selectedPool.coinSymbolB} price not loaded yet, enter it under Pool Statistics to simulate
+              </p>
+            )}
+
+            {currentScenario && (
+              <ScenarioPresets
+                scenario={currentScenario}
+                poolName={selectedPool.formattedName}
+                onLoad={handleLoadScenario}
+              />
+            )}
           </div>
 
           {/* Right Column - Results */}
@@ -228,6 +742,46 @@ function App() {
               >
                 📊 IL Simulation
               </button>
+              <button
+                onClick={() => setActiveTab('compare')}
+                className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
+                  activeTab === 'compare' 
+                    ? 'bg-cetus-primary text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                ⚖️ Compare
+              </button>
+              <button
+                onClick={() => setActiveTab('fees')}
+                className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
+                  activeTab === 'fees' 
+                    ? 'bg-cetus-primary text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                🏷️ Fee Tiers
+              </button>
+              <button
+                onClick={() => setActiveTab('orders')}
+                className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
+                  activeTab === 'orders' 
+                    ? 'bg-cetus-primary text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                📌 Range Order
+              </button>
+              <button
+                onClick={() => setActiveTab('hedge')}
+                className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
+                  activeTab === 'hedge' 
+                    ? 'bg-cetus-primary text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                🛡️ Hedge
+              </button>
               <button
                 onClick={() => setActiveTab('rebalance')}
                 className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
@@ -238,6 +792,36 @@ function App() {
               >
                 🔄 Rebalancing
               </button>
+              <button
+                onClick={() => setActiveTab('backtest')}
+                className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
+                  activeTab === 'backtest' 
+                    ? 'bg-cetus-primary text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                ⏱️ Backtest
+              </button>
+              <button
+                onClick={() => setActiveTab('optimizer')}
+                className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
+                  activeTab === 'optimizer' 
+                    ? 'bg-cetus-primary text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                🎯 Optimizer
+              </button>
+              <button
+                onClick={() => setActiveTab('portfolio')}
+                className={`flex-1 py-2 px-2 sm:px-4 rounded-md font-medium transition-all text-xs sm:text-base ${
+                  activeTab === 'portfolio' 
+                    ? 'bg-cetus-primary text-white' 
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                💼 Portfolio
+              </button>
             </div>
 
             {activeTab === 'simulation' ? (
@@ -246,35 +830,203 @@ function App() {
                 <CLMMILChart
                   ilData={clmmILData}
                   tokenASymbol={selectedPool.coinSymbolA}
+                  tokenBSymbol={selectedPool.coinSymbolB}
                   currentPrice={selectedPool.currentPrice}
                   priceLower={priceLower}
                   priceUpper={priceUpper}
+                  curveRange={curveRange}
+                  onCurveRangeChange={setCurveRange}
+                  chartRef={ilChartRef}
                 />
 
                 {/* Simulation Results */}
                 <SimulationResults
                   result={result}
                   clmmILData={clmmILData}
+                  liquidityShare={liquidityShare}
+                  monteCarlo={monteCarlo}
                   tokenASymbol={selectedPool.coinSymbolA}
                   tokenBSymbol={selectedPool.coinSymbolB}
                   tickLower={tickLower}
                   tickUpper={tickUpper}
+                  decimalsA={selectedPool.coinDecimalsA}
+                  decimalsB={selectedPool.coinDecimalsB}
+                  currentPrice={lastRun?.currentPrice ?? selectedPool.currentPrice}
+                  livePrice={lastRun ? selectedPool.currentPrice : undefined}
+                  autoRerun={autoRerun}
+                  onAutoRerunChange={setAutoRerun}
+                  onRerun={handleSimulate}
+                />
+
+                {/* Delta / gamma / theta / vega, live with range and amounts */}
+                <GreeksPanel
                   currentPrice={selectedPool.currentPrice}
+                  priceLower={priceLower}
+                  priceUpper={priceUpper}
+                  amountA={amountA}
+                  amountB={amountB}
+                  dailyFees={inRangeDailyFees}
+                  annualVolatility={monteCarloSettings.annualVolatility}
+                  tokenASymbol={selectedPool.coinSymbolA}
+                  tokenBSymbol={selectedPool.coinSymbolB}
+                />
+
+                <ReportExport input={reportInput} getCharts={getReportCharts} />
+
+                {/* Exact swap simulation against tick liquidity */}
+                <SwapImpactPanel
+                  pool={selectedPool}
+                  ticks={tickLiquidity}
+                  priceLower={priceLower}
+                  priceUpper={priceUpper}
                 />
               </>
-            ) : (
-              /* Rebalancing Simulator */
-              <RebalanceSimulator
+            ) : activeTab === 'compare' ? (
+              /* Side-by-side range comparison */
+              <RangeComparison
+                key={selectedPool.poolId}
                 currentPrice={selectedPool.currentPrice}
-                currentPriceLower={priceLower}
-                currentPriceUpper={priceUpper}
-                positionValueUSD={(amountA * selectedPool.currentPrice) + amountB}
-                dailyVolume={0}
+                tickLower={tickLower}
+                tickUpper={tickUpper}
+                tickSpacing={selectedPool.tickSpacing}
+                amountA={amountA}
+                amountB={amountB}
+                quotePriceUSD={quotePriceUSD}
+                decimalsA={selectedPool.coinDecimalsA}
+                decimalsB={selectedPool.coinDecimalsB}
                 feeRate={selectedPool.feeRate}
-                totalPoolTVL={0}
+                dailyVolume={dailyVolume}
+                totalPoolTVL={poolTVL}
+                annualVolatility={monteCarloSettings.annualVolatility}
+                curveRange={curveRange}
                 tokenASymbol={selectedPool.coinSymbolA}
                 tokenBSymbol={selectedPool.coinSymbolB}
+                getFeeShare={getComparisonFeeShare}
+              />
+            ) : activeTab === 'fees' ? (
+              /* Same pair across fee tiers */
+              <FeeTierComparison
+                basePool={feeTierBasePool ?? selectedPool}
+                pools={feeTierPools}
+                priceLower={priceLower}
+                priceUpper={priceUpper}
+                capital={amountA * selectedPool.currentPrice + amountB}
+                quotePriceUSD={quotePriceUSD}
+                onSelectPool={handlePoolSelect}
               />
+            ) : activeTab === 'orders' ? (
+              /* Range order (limit order) simulator */
+              <RangeOrderPanel
+                key={selectedPool.poolId}
+                currentPrice={selectedPool.currentPrice}
+                tickSpacing={selectedPool.tickSpacing}
+                decimalsA={selectedPool.coinDecimalsA}
+                decimalsB={selectedPool.coinDecimalsB}
+                feeRate={selectedPool.feeRate}
+                annualVolatility={monteCarloSettings.annualVolatility}
+                horizonDays={monteCarloSettings.days}
+                quotePriceUSD={quotePriceUSD}
+                tokenASymbol={selectedPool.coinSymbolA}
+                tokenBSymbol={selectedPool.coinSymbolB}
+                onApply={handleApplyRangeOrder}
+              />
+            ) : activeTab === 'hedge' ? (
+              /* Delta hedge vs unhedged IL curve */
+              <HedgingPanel
+                key={selectedPool.poolId}
+                ilData={clmmILData}
+                currentPrice={selectedPool.currentPrice}
+                priceLower={priceLower}
+                priceUpper={priceUpper}
+                amountA={amountA}
+                amountB={amountB}
+                dailyFees={result && hasQuotePrice ? result.dailyFees / quotePriceUSD : 0}
+                defaultDays={monteCarloSettings.days}
+                tokenASymbol={selectedPool.coinSymbolA}
+                tokenBSymbol={selectedPool.coinSymbolB}
+              />
+            ) : activeTab === 'portfolio' ? (
+              <>
+                {/* Current position next to the combined portfolio */}
+                <CLMMILChart
+                  ilData={clmmILData}
+                  tokenASymbol={selectedPool.coinSymbolA}
+                  tokenBSymbol={selectedPool.coinSymbolB}
+                  currentPrice={selectedPool.currentPrice}
+                  priceLower={priceLower}
+                  priceUpper={priceUpper}
+                />
+
+                <PortfolioPanel
+                  positions={portfolioPositions}
+                  onAddCurrent={handleAddToPortfolio}
+                  onRemove={handleRemoveFromPortfolio}
+                />
+              </>
+            ) : activeTab === 'optimizer' ? (
+              /* Optimal Range Finder */
+              <RangeOptimizer
+                result={rangeOptimization}
+                tickLower={tickLower}
+                tickUpper={tickUpper}
+                horizonDays={monteCarloSettings.days}
+                annualVolatility={monteCarloSettings.annualVolatility}
+                tokenBSymbol={selectedPool.coinSymbolB}
+                onApplyRange={handleApplyRange}
+              />
+            ) : activeTab === 'backtest' ? (
+              /* Historical Backtest */
+              <BacktestPanel
+                priceLower={priceLower}
+                priceUpper={priceUpper}
+                amountA={amountA}
+                amountB={amountB}
+                feeRate={selectedPool.feeRate}
+                defaultFeeShare={liquidityShare?.currentShare ?? 0}
+                tokenASymbol={selectedPool.coinSymbolA}
+                tokenBSymbol={selectedPool.coinSymbolB}
+              />
+            ) : (
+              <>
+                {/* Rebalancing Simulator */}
+                <RebalanceSimulator
+                  key={`${selectedPool.poolId}:${scenarioKey}`}
+                  currentPrice={selectedPool.currentPrice}
+                  currentPriceLower={priceLower}
+                  currentPriceUpper={priceUpper}
+                  positionValueUSD={((amountA * selectedPool.currentPrice) + amountB) * quotePriceUSD}
+                  suiPriceUSD={suiPrice?.priceUSD ?? 0}
+                  dailyVolume={dailyVolume}
+                  feeRate={selectedPool.feeRate}
+                  totalPoolTVL={poolTVL}
+                  tokenASymbol={selectedPool.coinSymbolA}
+                  tokenBSymbol={selectedPool.coinSymbolB}
+                  initialSettings={rebalanceSettings}
+                  onSettingsChange={setRebalanceSettings}
+                  onResult={setRebalanceResult}
+                />
+
+                {/* Rule-based strategies replayed over a price path */}
+                <StrategyBacktestPanel
+                  key={selectedPool.poolId}
+                  currentPrice={selectedPool.currentPrice}
+                  priceLower={priceLower}
+                  priceUpper={priceUpper}
+                  amountA={amountA}
+                  amountB={amountB}
+                  feeRate={selectedPool.feeRate}
+                  dailyVolume={dailyVolume}
+                  defaultFeeShare={liquidityShare?.currentShare ?? 0}
+                  gasCostSUI={rebalanceSettings?.gasCostSUI ?? 0.02}
+                  suiPriceUSD={suiPrice?.priceUSD ?? 0}
+                  quotePriceUSD={quotePriceUSD}
+                  annualVolatility={monteCarloSettings.annualVolatility}
+                  annualDrift={monteCarloSettings.annualDrift}
+                  days={monteCarloSettings.days}
+                  jumps={monteCarloSettings.useJumps ? monteCarloSettings.jumps : undefined}
+                  tokenBSymbol={selectedPool.coinSymbolB}
+                />
+              </>
             )}
           </div>
         </div>
@@ -293,8 +1045,8 @@ function App() {
               <h4 className="font-semibold text-white mb-2">📊 Active Liquidity</h4>
               <p className="text-sm">
                 <strong>Position states sesuai docs:</strong><br/>
-                • P &lt; Pa: 100% Token Y (quote)<br/>
-                • P &gt; Pb: 100% Token X (base)<br/>
+                • P &lt; Pa: 100% Token X (base)<br/>
+                • P &gt; Pb: 100% Token Y (quote)<br/>
                 • Pa ≤ P ≤ Pb: Mix of both tokens<br/>
                 Only in-range positions earn fees!
               </p>
@@ -349,6 +1101,12 @@ function App() {
               When price crosses your range, your tokens swap automatically. 
               But remember: if price fluctuates back, the swap may reverse!
             </p>
+            <button
+              onClick={() => setActiveTab('orders')}
+              className="mt-2 text-sm text-cetus-accent hover:underline"
+            >
+              Try the Range Order simulator →
+            </button>
           </div>
         </div>
 
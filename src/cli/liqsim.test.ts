@@ -0,0 +1,114 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PoolInfo } from '../types';
+import { priceToSqrtPriceX64, priceToTickWithDecimals } from '../utils/tickMath';
+import { CliError, main } from './liqsim';
+
+const SUI = '0x2::sui::SUI';
+const USDC = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC';
+const UNPRICED = `0x${'b'.repeat(64)}::nopx::NOPX`;
+
+function pool(poolId: string, coinTypeB: string, coinSymbolB: string): PoolInfo {
+  return {
+    poolId,
+    coinTypeA: SUI,
+    coinTypeB,
+    coinSymbolA: 'SUI',
+    coinSymbolB,
+    coinDecimalsA: 9,
+    coinDecimalsB: 6,
+    currentSqrtPrice: priceToSqrtPriceX64(2, 9, 6).toString(),
+    currentPrice: 2,
+    currentTickIndex: priceToTickWithDecimals(2, 9, 6),
+    tickSpacing: 60,
+    feeRate: 0.0025,
+    liquidity: '1000000000000',
+    formattedName: `SUI/${coinSymbolB}`,
+    stats: { volume24h: 1_000_000, tvl: 5_000_000, fees24h: 2_500, apr: 18, source: 'api', updatedAt: 0 },
+  };
+}
+
+const RANGE = ['--lower', '1.5', '--upper', '2.5', '--amount-a', '100', '--amount-b', '200'];
+
+describe('liqsim simulate', () => {
+  let dir: string;
+  let snapshot: string;
+  let stdout: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'liqsim-'));
+    snapshot = join(dir, 'pools.json');
+    await writeFile(snapshot, JSON.stringify({ pools: [pool('0xusdc', USDC, 'USDC'), pool('0xnopx', UNPRICED, 'NOPX')] }));
+
+    stdout = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      stdout += String(chunk);
+      return true;
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('prices a stablecoin quote through the oracle and says so', async () => {
+    await main(['simulate', '--snapshot', snapshot, '--pool', '0xusdc', ...RANGE]);
+
+    const [result] = JSON.parse(stdout);
+    expect(result).toMatchObject({ poolId: '0xusdc', quotePriceUSD: 1, quotePriceSource: 'stable' });
+  });
+
+  it('uses --quote-price-usd as given', async () => {
+    await main(['simulate', '--snapshot', snapshot, '--pool', '0xnopx', ...RANGE, '--quote-price-usd', '0.5', '--csv']);
+
+    const [header, row] = stdout.split('\n');
+    const columns = header.split(',');
+    const values = row.split(',');
+    expect(values[columns.indexOf('quote_price_usd')]).toBe('0.5');
+    expect(values[columns.indexOf('quote_price_source')]).toBe('input');
+  });
+
+  it('routes an unlisted quote token through the snapshot pools', async () => {
+    await main(['simulate', '--snapshot', snapshot, '--pool', '0xnopx', ...RANGE]);
+
+    const [result] = JSON.parse(stdout);
+    expect(result.quotePriceSource).toBe('pools');
+    expect(result.quotePriceUSD).toBeCloseTo(1, 9); // 1 SUI = 2 USDC = 2 NOPX
+  });
+
+  it('fails instead of guessing when the quote token has no price', async () => {
+    const isolated = join(dir, 'nopx.json');
+    await writeFile(isolated, JSON.stringify(pool('0xnopx', UNPRICED, 'NOPX')));
+    const run = main(['simulate', '--snapshot', isolated, ...RANGE]);
+
+    await expect(run).rejects.toThrow(CliError);
+    await expect(run).rejects.toThrow('No USD price for NOPX, pass --quote-price-usd');
+    expect(stdout).toBe('');
+  });
+
+  it('runs every scenario in a scenarios file with CLI flags as defaults', async () => {
+    const scenarios = join(dir, 'scenarios.json');
+    await writeFile(scenarios, JSON.stringify([{ name: 'narrow', lower: 1.9, upper: 2.1 }, { name: 'wide' }]));
+
+    await main(['simulate', '--snapshot', snapshot, '--pool', '0xusdc', ...RANGE, '--scenarios', scenarios, '--csv']);
+
+    const rows = stdout.trim().split('\n');
+    expect(rows).toHaveLength(3);
+    expect(rows[1].startsWith('narrow,')).toBe(true);
+    expect(rows[2].startsWith('wide,')).toBe(true);
+  });
+
+  it('names the missing field of an incomplete scenario', async () => {
+    await expect(main(['simulate', '--snapshot', snapshot, '--pool', '0xusdc', '--lower', '1.5']))
+      .rejects.toThrow('Scenario 1: missing upper');
+  });
+
+  it('rejects non-numeric flags and unknown commands', async () => {
+    await expect(main(['simulate', '--snapshot', snapshot, ...RANGE, '--volume', 'lots']))
+      .rejects.toThrow('--volume must be a number, got "lots"');
+    await expect(main(['backtest'])).rejects.toThrow('Unknown command "backtest"');
+  });
+});
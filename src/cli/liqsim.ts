@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+/**
+ * liqsim - headless Cetus CLMM simulator
+ *
+ * Usage:
+ *   liqsim simulate --pool <id> --lower <p> --upper <p> --amount-a <n> --amount-b <n> [--json|--csv]
+ *   liqsim simulate --snapshot pools.json --scenarios scenarios.json --csv
+ *
+ * Pool state comes from a JSON snapshot (PoolInfo, PoolInfo[] or { pools: PoolInfo[] })
+ * or, without --snapshot, from the Cetus SDK on mainnet.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { PoolInfo } from '../services/cetusSdk';
+import { resolveTokenPriceUSD, SUI_COIN_TYPE } from '../services/priceOracle';
+import { QuotePrice, Scenario, ScenarioResult, runScenario, scenariosToCsv } from './scenario';
+
+const HELP = `liqsim - Cetus CLMM liquidity simulator
+
+Usage:
+  liqsim simulate [options]
+
+Pool:
+  --pool <id>                Pool object ID
+  --snapshot <file>          Pool state JSON (skips the SDK)
+
+Position:
+  --lower <price>            Range lower price (Token B per Token A)
+  --upper <price>            Range upper price
+  --amount-a <n>             Token A deposit
+  --amount-b <n>             Token B deposit
+  --scenarios <file>         JSON array of scenarios (fields as below, camelCase); CLI flags are defaults
+
+Market:
+  --volume <usd>             24h volume override
+  --tvl <usd>                TVL override
+  --volatility <n>           Annual volatility (default 0.5)
+  --quote-price-usd <n>      USD price of Token B (default: price oracle; required if it has none)
+
+Rebalance:
+  --new-lower <price>        Target range lower price
+  --new-upper <price>        Target range upper price
+  --gas-sui <n>              Gas per transaction in SUI (default 0.01)
+  --sui-price-usd <n>        SUI price in USD (default: price oracle)
+
+Mining:
+  --mining-rewards <n>       Pool reward tokens per day
+  --reward-price-usd <n>     Reward token price in USD (default 1)
+
+Output:
+  --json                     JSON (default)
+  --csv                      One CSV row per scenario
+  -h, --help                 Show this help
+`;
+
+const NUMBER_OPTIONS = {
+  lower: 'lower',
+  upper: 'upper',
+  'amount-a': 'amountA',
+  'amount-b': 'amountB',
+  volume: 'volume24h',
+  tvl: 'tvl',
+  volatility: 'volatility',
+  'quote-price-usd': 'quotePriceUSD',
+  'new-lower': 'newLower',
+  'new-upper': 'newUpper',
+  'gas-sui': 'gasCostSUI',
+  'sui-price-usd': 'suiPriceUSD',
+  'mining-rewards': 'miningRewardsPerDay',
+  'reward-price-usd': 'rewardPriceUSD',
+} as const;
+
+type NumberOption = keyof typeof NUMBER_OPTIONS;
+
+export class CliError extends Error {}
+
+async function readJson(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    throw new CliError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+}
+
+function parseNumber(flag: string, value: string): number {
+  const parsed = Number(value);
+  if (!isFinite(parsed)) throw new CliError(`--${flag} must be a number, got "${value}"`);
+  return parsed;
+}
+
+async function loadSnapshotPools(path: string): Promise<PoolInfo[]> {
+  const data = await readJson(path);
+  const pools = Array.isArray(data)
+    ? data
+    : (data as { pools?: PoolInfo[] }).pools ?? [data];
+  return (pools as PoolInfo[]).filter(p => p && typeof p.poolId === 'string' && p.currentPrice > 0);
+}
+
+/**
+ * Resolve a pool by ID from the snapshot, or from the SDK when there is none
+ */
+async function getPool(poolId: string | undefined, snapshot: PoolInfo[] | null): Promise<PoolInfo> {
+  if (snapshot) {
+    const pool = poolId ? snapshot.find(p => p.poolId === poolId) : snapshot.length === 1 ? snapshot[0] : undefined;
+    if (!pool) throw new CliError(poolId ? `Pool ${poolId} not found in snapshot` : 'Snapshot has several pools, pass --pool');
+    return pool;
+  }
+
+  if (!poolId) throw new CliError('Pass --pool or --snapshot');
+
+  // Loaded lazily so snapshot runs never touch the SDK
+  const { fetchPoolById } = await import('../services/cetusSdk');
+  const pool = await fetchPoolById(poolId);
+  if (!pool) throw new CliError(`Pool ${poolId} could not be fetched`);
+  return pool;
+}
+
+/**
+ * USD price of Token B: the flag wins, then the price oracle
+ * There is no silent fallback, a guessed quote price would skew every USD figure.
+ */
+function resolveQuotePrice(scenario: Partial<Scenario>, pool: PoolInfo, knownPools: PoolInfo[]): QuotePrice {
+  if (scenario.quotePriceUSD !== undefined) return { priceUSD: scenario.quotePriceUSD, source: 'input' };
+
+  const price = resolveTokenPriceUSD(pool.coinTypeB, knownPools);
+  if (!price) throw new CliError(`No USD price for ${pool.coinSymbolB}, pass --quote-price-usd`);
+  return { priceUSD: price.priceUSD, source: price.source };
+}
+
+async function simulate(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      pool: { type: 'string' },
+      snapshot: { type: 'string' },
+      scenarios: { type: 'string' },
+      json: { type: 'boolean' },
+      csv: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+      ...Object.fromEntries(Object.keys(NUMBER_OPTIONS).map(flag => [flag, { type: 'string' as const }])),
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(HELP);
+    return;
+  }
+
+  // CLI flags are the defaults for every scenario
+  const flags = values as Record<string, string | boolean | undefined>;
+  const defaults: Partial<Scenario> = { pool: values.pool };
+  for (const [flag, key] of Object.entries(NUMBER_OPTIONS) as [NumberOption, keyof Scenario][]) {
+    const raw = flags[flag];
+    if (typeof raw === 'string') (defaults as Record<string, unknown>)[key] = parseNumber(flag, raw);
+  }
+
+  let scenarios: Partial<Scenario>[] = [defaults];
+  if (typeof values.scenarios === 'string') {
+    const data = await readJson(values.scenarios);
+    if (!Array.isArray(data)) throw new CliError('Scenarios file must contain a JSON array');
+    scenarios = data.map(s => ({ ...defaults, ...(s as Partial<Scenario>) }));
+  }
+
+  const snapshot = typeof values.snapshot === 'string' ? await loadSnapshotPools(values.snapshot) : null;
+  const poolCache = new Map<string, PoolInfo>();
+  const results: ScenarioResult[] = [];
+
+  for (const [index, scenario] of scenarios.entries()) {
+    for (const field of ['lower', 'upper', 'amountA', 'amountB'] as const) {
+      if (typeof scenario[field] !== 'number') {
+        throw new CliError(`Scenario ${index + 1}: missing ${field}`);
+      }
+    }
+
+    const cacheKey = scenario.pool ?? '';
+    const pool = poolCache.get(cacheKey) ?? await getPool(scenario.pool, snapshot);
+    poolCache.set(cacheKey, pool);
+
+    const knownPools = snapshot ?? [pool];
+    const suiPriceUSD = scenario.suiPriceUSD ?? resolveTokenPriceUSD(SUI_COIN_TYPE, knownPools)?.priceUSD;
+
+    try {
+      const quotePrice = resolveQuotePrice(scenario, pool, knownPools);
+      results.push(runScenario(pool, { ...scenario, suiPriceUSD } as Scenario, quotePrice));
+    } catch (error) {
+      throw new CliError(`Scenario ${index + 1}: ${(error as Error).message}`);
+    }
+  }
+
+  process.stdout.write(values.csv ? scenariosToCsv(results) : JSON.stringify(results, null, 2) + '\n');
+}
+
+export async function main(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+
+  switch (command) {
+    case 'simulate':
+      return simulate(rest);
+    case undefined:
+    case '-h':
+    case '--help':
+      process.stdout.write(HELP);
+      return;
+    default:
+      throw new CliError(`Unknown command "${command}"`);
+  }
+}
+
+// Only run when executed (including through the npm bin symlink), not when imported by tests
+const entryPath = process.argv[1];
+if (entryPath && import.meta.url === pathToFileURL(realpathSync(entryPath)).href) {
+  main(process.argv.slice(2)).catch(error => {
+    process.stderr.write(`liqsim: ${error instanceof CliError ? error.message : (error as Error).stack}\n`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { PoolInfo } from '../types';
+import { alignTickToSpacing, priceToSqrtPriceX64, priceToTickWithDecimals, tickToPriceWithDecimals } from '../utils/tickMath';
+import { runScenario, scenariosToCsv } from './scenario';
+
+const POOL: PoolInfo = {
+  poolId: '0xsuiusdc',
+  coinTypeA: '0x2::sui::SUI',
+  coinTypeB: '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+  coinSymbolA: 'SUI',
+  coinSymbolB: 'USDC',
+  coinDecimalsA: 9,
+  coinDecimalsB: 6,
+  currentSqrtPrice: priceToSqrtPriceX64(2, 9, 6).toString(),
+  currentPrice: 2,
+  currentTickIndex: priceToTickWithDecimals(2, 9, 6),
+  tickSpacing: 60,
+  feeRate: 0.0025,
+  liquidity: '1000000000000',
+  formattedName: 'SUI/USDC',
+  stats: { volume24h: 1_000_000, tvl: 5_000_000, fees24h: 2_500, apr: 18, source: 'api', updatedAt: 0 },
+};
+
+const SCENARIO = { lower: 1.5, upper: 2.5, amountA: 100, amountB: 200 };
+
+describe('runScenario', () => {
+  it('reports the tick-aligned range the position actually gets', () => {
+    const result = runScenario(POOL, SCENARIO, { priceUSD: 1, source: 'stable' });
+
+    const tickLower = alignTickToSpacing(priceToTickWithDecimals(1.5, 9, 6), 60, false);
+    const tickUpper = alignTickToSpacing(priceToTickWithDecimals(2.5, 9, 6), 60, true);
+    expect(result.priceLower).toBe(tickToPriceWithDecimals(tickLower, 9, 6));
+    expect(result.priceUpper).toBe(tickToPriceWithDecimals(tickUpper, 9, 6));
+    expect(result.priceLower).toBeLessThanOrEqual(1.5);
+    expect(result.priceUpper).toBeGreaterThanOrEqual(2.5);
+  });
+
+  it('runs the IL curve and rebalance on the aligned range', () => {
+    const raw = runScenario(POOL, { ...SCENARIO, newLower: 1.8, newUpper: 2.2 }, { priceUSD: 1, source: 'stable' });
+    const aligned = runScenario(
+      POOL,
+      { ...SCENARIO, lower: raw.priceLower, upper: raw.priceUpper, newLower: 1.8, newUpper: 2.2 },
+      { priceUSD: 1, source: 'stable' }
+    );
+
+    expect(raw.ilCurve).toEqual(aligned.ilCurve);
+    expect(raw.rebalance).toEqual(aligned.rebalance);
+  });
+
+  it('prices USD figures with the quote price and records its source', () => {
+    const inUSDC = runScenario(POOL, SCENARIO, { priceUSD: 1, source: 'stable' });
+    const inInput = runScenario(POOL, SCENARIO, { priceUSD: 2, source: 'input' });
+
+    expect(inInput.quotePriceSource).toBe('input');
+    expect(inInput.initialValueUSD).toBeCloseTo(inUSDC.initialValueUSD * 2, 6);
+  });
+
+  it('rejects an empty or inverted range', () => {
+    expect(() => runScenario(POOL, { ...SCENARIO, lower: 2.5, upper: 1.5 }, { priceUSD: 1, source: 'stable' }))
+      .toThrow('Invalid price range');
+  });
+});
+
+describe('scenariosToCsv', () => {
+  it('writes a header and one escaped row per scenario', () => {
+    const result = runScenario({ ...POOL, formattedName: 'SUI, "wrapped"' }, SCENARIO, { priceUSD: 1, source: 'pools' });
+    const [header, row, trailing] = scenariosToCsv([result]).split('\n');
+    const columns = header.split(',');
+
+    expect(trailing).toBe('');
+    expect(columns).toContain('quote_price_source');
+    expect(row).toContain('"SUI, ""wrapped"""');
+    expect(row).toContain(',pools,');
+  });
+});
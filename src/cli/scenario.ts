@@ -0,0 +1,221 @@
+/**
+ * Headless scenario runner
+ *
+ * Drives the same math as the UI for one pool + range + deposit:
+ * - runSimulation (APY, fees, break-even, risks)
+ * - CLMM IL curve
+ * - simulateRebalance, when a new range is given
+ * - calculateMiningRewards, when a daily reward budget is given
+ *
+ * Prices are Token B per Token A (decimal-adjusted), like the UI inputs.
+ */
+
+import { PoolInfo } from '../services/cetusSdk';
+import { TokenPriceSource } from '../services/priceOracle';
+import { runSimulation } from '../utils/simulation';
+import { priceToTickWithDecimals, tickToPriceWithDecimals, alignTickToSpacing } from '../utils/tickMath';
+import { generateILCurve as generateCLMMILCurve } from '../utils/position';
+import {
+  simulateRebalance,
+  calculateMiningRewards,
+  ILCurvePoint,
+  RebalanceScenario,
+  MiningRewardsResult,
+} from '../utils/clmmMath';
+import { escapeCsvField } from '../utils/report';
+import { RiskAssessment } from '../types';
+
+export interface Scenario {
+  name?: string;
+  pool?: string;               // Pool ID, defaults to the CLI --pool
+  lower: number;
+  upper: number;
+  amountA: number;
+  amountB: number;
+  volume24h?: number;          // USD, defaults to pool stats
+  tvl?: number;                // USD, defaults to pool stats
+  volatility?: number;         // Annual, for risk assessment
+  quotePriceUSD?: number;      // USD price of Token B, defaults to the price oracle
+  newLower?: number;           // Rebalance target range
+  newUpper?: number;
+  gasCostSUI?: number;
+  suiPriceUSD?: number;
+  miningRewardsPerDay?: number; // Reward tokens emitted by the pool per day
+  rewardPriceUSD?: number;
+}
+
+// Where the Token B USD price came from: the --quote-price-usd flag or the price oracle
+export type QuotePriceSource = 'input' | TokenPriceSource;
+
+export interface QuotePrice {
+  priceUSD: number;
+  source: QuotePriceSource;
+}
+
+export interface ScenarioResult {
+  name: string;
+  poolId: string;
+  pair: string;
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  volume24h: number;
+  tvl: number;
+  quotePriceUSD: number;
+  quotePriceSource: QuotePriceSource;
+  liquidity: string;
+  initialValueUSD: number;
+  estimatedAPY: number;
+  dailyFees: number;
+  yearlyFees: number;
+  breakEvenDays: number;
+  risks: RiskAssessment;
+  ilCurve: ILCurvePoint[];
+  rebalance?: RebalanceScenario;
+  mining?: MiningRewardsResult;
+}
+
+/**
+ * Run one scenario against a pool snapshot
+ */
+export function runScenario(pool: PoolInfo, scenario: Scenario, quotePrice: QuotePrice): ScenarioResult {
+  const { lower, upper, amountA, amountB } = scenario;
+  const quotePriceUSD = quotePrice.priceUSD;
+
+  if (!(lower > 0) || !(upper > lower)) {
+    throw new Error(`Invalid price range: ${lower} - ${upper}`);
+  }
+
+  const volume24h = scenario.volume24h ?? pool.stats?.volume24h ?? 0;
+  const tvl = scenario.tvl ?? pool.stats?.tvl ?? 0;
+  const positionValueUSD = (amountA * pool.currentPrice + amountB) * quotePriceUSD;
+
+  // On-chain ticks, as the UI inputs
+  const tickLower = alignTickToSpacing(priceToTickWithDecimals(lower, pool.coinDecimalsA, pool.coinDecimalsB), pool.tickSpacing, false);
+  const tickUpper = alignTickToSpacing(priceToTickWithDecimals(upper, pool.coinDecimalsA, pool.coinDecimalsB), pool.tickSpacing, true);
+  // The range the position actually gets; every output below describes this one
+  const priceLower = tickToPriceWithDecimals(tickLower, pool.coinDecimalsA, pool.coinDecimalsB);
+  const priceUpper = tickToPriceWithDecimals(tickUpper, pool.coinDecimalsA, pool.coinDecimalsB);
+
+  const simulation = runSimulation(
+    amountA,
+    amountB,
+    pool.currentPrice * quotePriceUSD,
+    quotePriceUSD,
+    tickLower,
+    tickUpper,
+    pool.coinDecimalsA,
+    pool.coinDecimalsB,
+    pool.feeRate,
+    volume24h,
+    tvl,
+    undefined,
+    scenario.volatility
+  );
+
+  const ilCurve = generateCLMMILCurve(pool.currentPrice, priceLower, priceUpper, amountA, amountB, { min: -80, max: 200, steps: 40 });
+
+  const rebalance = scenario.newLower !== undefined && scenario.newUpper !== undefined
+    ? simulateRebalance(
+        pool.currentPrice,
+        priceLower,
+        priceUpper,
+        scenario.newLower,
+        scenario.newUpper,
+        positionValueUSD,
+        volume24h,
+        pool.feeRate,
+        tvl,
+        scenario.gasCostSUI,
+        scenario.suiPriceUSD
+      )
+    : undefined;
+
+  const mining = scenario.miningRewardsPerDay
+    ? calculateMiningRewards(
+        positionValueUSD,
+        tvl,
+        volume24h,
+        pool.feeRate,
+        pool.currentPrice,
+        priceLower,
+        priceUpper,
+        scenario.miningRewardsPerDay,
+        scenario.rewardPriceUSD
+      )
+    : undefined;
+
+  return {
+    name: scenario.name ?? `${pool.formattedName} ${lower}-${upper}`,
+    poolId: pool.poolId,
+    pair: pool.formattedName,
+    currentPrice: pool.currentPrice,
+    priceLower,
+    priceUpper,
+    amountA,
+    amountB,
+    volume24h,
+    tvl,
+    quotePriceUSD,
+    quotePriceSource: quotePrice.source,
+    liquidity: simulation.liquidity.toString(),
+    initialValueUSD: simulation.initialValueUSD,
+    estimatedAPY: simulation.estimatedAPY,
+    dailyFees: simulation.dailyFees,
+    yearlyFees: simulation.yearlyFees,
+    breakEvenDays: simulation.breakEvenDays,
+    risks: simulation.risks,
+    ilCurve,
+    rebalance,
+    mining,
+  };
+}
+
+const CSV_COLUMNS: [string, (r: ScenarioResult) => string | number | undefined][] = [
+  ['name', r => r.name],
+  ['pool_id', r => r.poolId],
+  ['pair', r => r.pair],
+  ['current_price', r => r.currentPrice],
+  ['price_lower', r => r.priceLower],
+  ['price_upper', r => r.priceUpper],
+  ['amount_a', r => r.amountA],
+  ['amount_b', r => r.amountB],
+  ['volume_24h', r => r.volume24h],
+  ['tvl', r => r.tvl],
+  ['quote_price_usd', r => r.quotePriceUSD],
+  ['quote_price_source', r => r.quotePriceSource],
+  ['initial_value_usd', r => r.initialValueUSD],
+  ['estimated_apy', r => r.estimatedAPY],
+  ['daily_fees', r => r.dailyFees],
+  ['yearly_fees', r => r.yearlyFees],
+  ['break_even_days', r => r.breakEvenDays],
+  ['overall_risk', r => r.risks.overallRisk],
+  ['il_at_minus_50', r => nearestIL(r.ilCurve, -50)],
+  ['il_at_plus_50', r => nearestIL(r.ilCurve, 50)],
+  ['rebalance_new_apy', r => r.rebalance?.newAPY],
+  ['rebalance_break_even_days', r => r.rebalance?.breakEvenDays],
+  ['rebalance_recommendation', r => r.rebalance?.recommendation],
+  ['mining_total_apr', r => r.mining?.totalAPR],
+  ['mining_daily_rewards_usd', r => r.mining?.dailyMiningRewardsUSD],
+];
+
+function nearestIL(curve: ILCurvePoint[], priceChange: number): number | undefined {
+  let nearest: ILCurvePoint | undefined;
+  for (const point of curve) {
+    if (!nearest || Math.abs(point.priceChange - priceChange) < Math.abs(nearest.priceChange - priceChange)) {
+      nearest = point;
+    }
+  }
+  return nearest?.ilPercentage;
+}
+
+/**
+ * One summary row per scenario (the full IL curve is only in JSON output)
+ */
+export function scenariosToCsv(results: ScenarioResult[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = results.map(r => CSV_COLUMNS.map(([, get]) => escapeCsvField(get(r))).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,219 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { HistoricalData } from '../types';
+import { runBacktest, BacktestResult } from '../utils/backtest';
+import { loadHistoricalFile } from '../services/historicalData';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+interface BacktestPanelProps {
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  feeRate: number;
+  defaultFeeShare: number; // 0-1, e.g. measured share of active liquidity
+  tokenASymbol: string;
+  tokenBSymbol: string;
+}
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({
+  priceLower,
+  priceUpper,
+  amountA,
+  amountB,
+  feeRate,
+  defaultFeeShare,
+  tokenASymbol,
+  tokenBSymbol,
+}) => {
+  const [history, setHistory] = useState<HistoricalData[]>([]);
+  const [fileName, setFileName] = useState('');
+  // Follows the measured share until the user types their own
+  const [feeShareOverride, setFeeShareOverride] = useState<number | null>(null);
+  const feeSharePercent = feeShareOverride ?? defaultFeeShare * 100;
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const series = await loadHistoricalFile(file);
+      setHistory(series);
+      setFileName(file.name);
+      setFileError(null);
+    } catch (err) {
+      setHistory([]);
+      setFileError((err as Error).message);
+    }
+  };
+
+  const backtest = useMemo((): { result: BacktestResult | null; error: string | null } => {
+    if (history.length === 0) return { result: null, error: null };
+    try {
+      const result = runBacktest(history, {
+        priceLower,
+        priceUpper,
+        amountA,
+        amountB,
+        feeRate,
+        feeShare: feeSharePercent / 100,
+      });
+      return { result, error: null };
+    } catch (err) {
+      return { result: null, error: `Backtest failed: ${(err as Error).message}` };
+    }
+  }, [history, priceLower, priceUpper, amountA, amountB, feeRate, feeSharePercent]);
+  const { result } = backtest;
+  const error = fileError ?? backtest.error;
+
+  const chartData = useMemo(() => {
+    if (!result) return null;
+    return {
+      labels: result.points.map(p => new Date(p.timestamp).toLocaleDateString()),
+      datasets: [
+        {
+          label: 'LP Value + Fees',
+          data: result.points.map(p => p.positionValue + p.cumulativeFees),
+          borderColor: 'rgb(0, 212, 170)',
+          backgroundColor: 'transparent',
+          pointRadius: 0,
+          tension: 0.2,
+        },
+        {
+          label: 'LP Value (no fees)',
+          data: result.points.map(p => p.positionValue),
+          borderColor: 'rgb(239, 68, 68)',
+          backgroundColor: 'transparent',
+          borderDash: [5, 5],
+          pointRadius: 0,
+          tension: 0.2,
+        },
+        {
+          label: 'HODL Value',
+          data: result.points.map(p => p.holdValue),
+          borderColor: 'rgb(99, 102, 241)',
+          backgroundColor: 'transparent',
+          borderDash: [10, 5],
+          pointRadius: 0,
+          tension: 0.2,
+        },
+      ],
+    };
+  }, [result]);
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: { position: 'top' as const, labels: { color: '#9ca3af', usePointStyle: true } },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'line'>) =>
+            `${context.dataset.label}: ${(context.parsed.y ?? 0).toFixed(2)} ${tokenBSymbol}`,
+        },
+      },
+    },
+    scales: {
+      x: { ticks: { color: '#9ca3af', maxTicksLimit: 8 }, grid: { color: 'rgba(75, 85, 99, 0.3)' } },
+      y: { ticks: { color: '#9ca3af' }, grid: { color: 'rgba(75, 85, 99, 0.3)' } },
+    },
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        Historical Backtest
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Price Series (CSV / JSON)</label>
+          <input
+            type="file"
+            accept=".csv,.json"
+            onChange={handleFile}
+            className="w-full text-sm text-gray-300 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-cetus-primary/30 file:text-white"
+          />
+          <p className="text-xs text-gray-500">
+            {fileName ? `${fileName} • ${history.length} points` : 'Columns: timestamp, price, volume, fees'}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Fee Share of Active Liquidity (%)</label>
+          <input
+            type="number"
+            value={feeSharePercent}
+            onChange={(e) => setFeeShareOverride(parseFloat(e.target.value) || 0)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none"
+            min="0"
+            max="100"
+            step="0.001"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">{error}</div>
+      )}
+
+      {result && chartData && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Net PnL</p>
+              <p className={`text-xl font-bold ${result.netPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {result.netPnL.toFixed(2)}
+              </p>
+              <p className="text-xs text-gray-500">{tokenBSymbol}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">PnL vs HODL</p>
+              <p className={`text-xl font-bold ${result.netPnLVsHodl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {result.netPnLVsHodl.toFixed(2)}
+              </p>
+              <p className="text-xs text-gray-500">{tokenBSymbol}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Fees Earned</p>
+              <p className="text-xl font-bold text-cetus-accent">{result.totalFees.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">{result.feeAPR.toFixed(2)}% APR</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Time in Range</p>
+              <p className="text-xl font-bold text-white">{result.timeInRangePercent.toFixed(1)}%</p>
+              <p className="text-xs text-gray-500">{result.durationDays.toFixed(1)} days</p>
+            </div>
+          </div>
+
+          <div className="h-[320px]">
+            <Line data={chartData} options={options} />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Values in {tokenBSymbol}. Final position: {result.points[result.points.length - 1].amountA.toFixed(4)} {tokenASymbol} +{' '}
+            {result.points[result.points.length - 1].amountB.toFixed(4)} {tokenBSymbol}. Fees accrue only while price is in range.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
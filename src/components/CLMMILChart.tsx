@@ -13,6 +13,9 @@ import {
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { ILCurvePoint } from '../utils/clmmMath';
+import { CurveRange } from '../services/scenarioStorage';
+import { toViewPrice, toViewPriceChange, toViewRange, getViewTokens } from '../utils/priceOrientation';
+import { usePriceOrientation } from '../contexts/PriceOrientationContext';
 
 ChartJS.register(
   CategoryScale,
@@ -25,21 +28,42 @@ ChartJS.register(
   Filler
 );
 
+// Extra IL curve drawn over the main one (same price change steps)
+export interface ILCurveOverlay {
+  label: string;
+  ilData: ILCurvePoint[];
+  color: string;
+}
+
 interface CLMMILChartProps {
   ilData: ILCurvePoint[];
   tokenASymbol: string;
+  tokenBSymbol?: string;
   currentPrice: number;
   priceLower: number;
   priceUpper: number;
+  curveRange?: CurveRange;
+  onCurveRangeChange?: (range: CurveRange) => void;
+  chartRef?: React.Ref<ChartJS<'line'> | undefined>; // For report image export
+  ilLabel?: string;
+  overlays?: ILCurveOverlay[];
 }
 
 export const CLMMILChart: React.FC<CLMMILChartProps> = ({ 
   ilData, 
   tokenASymbol,
+  tokenBSymbol = 'Token B',
   currentPrice,
   priceLower,
-  priceUpper 
+  priceUpper,
+  curveRange,
+  onCurveRangeChange,
+  chartRef,
+  ilLabel = 'CLMM IL',
+  overlays = [],
 }) => {
+  const { isInverted } = usePriceOrientation();
+
   if (!ilData || ilData.length === 0) {
     return (
       <div className="bg-cetus-card rounded-xl p-6 card-glow">
@@ -50,14 +74,24 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
     );
   }
 
+  // Inverted, the x axis follows the view price, so points run in reverse pool order
+  const points = isInverted ? [...ilData].reverse() : ilData;
+  const overlayPoints = (curve: ILCurvePoint[]) => (isInverted ? [...curve].reverse() : curve);
+  const viewTokens = getViewTokens(tokenASymbol, tokenBSymbol, isInverted);
+
   // Find range boundary indices for annotations
-  const lowerBoundChange = ((priceLower / currentPrice) - 1) * 100;
-  const upperBoundChange = ((priceUpper / currentPrice) - 1) * 100;
+  const viewRange = toViewRange(priceLower, priceUpper, isInverted);
+  const viewPrice = toViewPrice(currentPrice, isInverted);
+  const lowerBoundChange = ((viewRange.min / viewPrice) - 1) * 100;
+  const upperBoundChange = ((viewRange.max / viewPrice) - 1) * 100;
 
-  const labels = ilData.map(d => `${d.priceChange >= 0 ? '+' : ''}${d.priceChange.toFixed(0)}%`);
+  const labels = points.map(d => {
+    const change = toViewPriceChange(d.priceChange, isInverted);
+    return `${change >= 0 ? '+' : ''}${change.toFixed(0)}%`;
+  });
   
   // Color code based on in-range vs out-of-range
-  const borderColors = ilData.map(d => {
+  const borderColors = points.map(d => {
     if (d.isOutOfRange) {
       return 'rgb(239, 68, 68)'; // Red for out of range
     }
@@ -68,8 +102,8 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
     labels,
     datasets: [
       {
-        label: 'CLMM IL (%)',
-        data: ilData.map(d => d.ilPercentage),
+        label: `${ilLabel} (%)`,
+        data: points.map(d => d.ilPercentage),
         borderColor: 'rgb(239, 68, 68)',
         backgroundColor: (context: { chart: ChartJS }) => {
           const chart = context.chart;
@@ -83,7 +117,7 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
         },
         fill: true,
         tension: 0.4,
-        pointRadius: ilData.map(d => d.isOutOfRange ? 6 : 4),
+        pointRadius: points.map(d => d.isOutOfRange ? 6 : 4),
         pointHoverRadius: 8,
         pointBackgroundColor: borderColors,
         pointBorderColor: '#fff',
@@ -91,17 +125,27 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
         segment: {
           borderColor: (ctx: { p0DataIndex: number }) => {
             const idx = ctx.p0DataIndex;
-            return ilData[idx]?.isOutOfRange ? 'rgba(239, 68, 68, 0.5)' : 'rgb(239, 68, 68)';
+            return points[idx]?.isOutOfRange ? 'rgba(239, 68, 68, 0.5)' : 'rgb(239, 68, 68)';
           },
           borderDash: (ctx: { p0DataIndex: number }) => {
             const idx = ctx.p0DataIndex;
-            return ilData[idx]?.isOutOfRange ? [5, 5] : [];
+            return points[idx]?.isOutOfRange ? [5, 5] : [];
           },
         },
       },
+      ...overlays.map(overlay => ({
+        label: `${overlay.label} IL (%)`,
+        data: overlayPoints(overlay.ilData).map(d => d.ilPercentage),
+        borderColor: overlay.color,
+        backgroundColor: 'transparent',
+        tension: 0.4,
+        pointRadius: 2,
+        pointHoverRadius: 5,
+        borderWidth: 2,
+      })),
       {
         label: 'V2 AMM IL (%)',
-        data: ilData.map(d => d.ilV2Percentage),
+        data: points.map(d => d.ilV2Percentage),
         borderColor: 'rgb(156, 163, 175)', // Gray
         backgroundColor: 'transparent',
         borderDash: [3, 3],
@@ -112,7 +156,7 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
       },
       {
         label: 'Value in Pool ($)',
-        data: ilData.map(d => d.valuePool),
+        data: points.map(d => d.valuePool),
         borderColor: 'rgb(0, 212, 170)',
         backgroundColor: 'transparent',
         borderDash: [5, 5],
@@ -123,7 +167,7 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
       },
       {
         label: 'Value if HODL ($)',
-        data: ilData.map(d => d.valueHold),
+        data: points.map(d => d.valueHold),
         borderColor: 'rgb(99, 102, 241)',
         backgroundColor: 'transparent',
         borderDash: [10, 5],
@@ -153,7 +197,7 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
       },
       title: {
         display: true,
-        text: `CLMM Impermanent Loss vs ${tokenASymbol} Price Change`,
+        text: `CLMM Impermanent Loss vs ${viewTokens.base} Price Change (in ${viewTokens.quote})`,
         color: '#fff',
         font: {
           size: 16,
@@ -172,7 +216,7 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
         padding: 12,
         callbacks: {
           afterLabel: (context: { dataIndex: number }) => {
-            const point = ilData[context.dataIndex];
+            const point = points[context.dataIndex];
             if (!point) return '';
             
             const lines: string[] = [];
@@ -268,11 +312,11 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
       <div className="mb-4 grid grid-cols-2 gap-4 text-xs">
         <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-2 text-center">
           <span className="text-red-400">Lower Bound: {lowerBoundChange.toFixed(1)}%</span>
-          <span className="text-gray-500 block">${priceLower.toFixed(4)}</span>
+          <span className="text-gray-500 block">{viewRange.min.toFixed(4)} {viewTokens.quote}</span>
         </div>
         <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-2 text-center">
           <span className="text-red-400">Upper Bound: +{upperBoundChange.toFixed(1)}%</span>
-          <span className="text-gray-500 block">${priceUpper.toFixed(4)}</span>
+          <span className="text-gray-500 block">{viewRange.max.toFixed(4)} {viewTokens.quote}</span>
         </div>
       </div>
 
@@ -295,9 +339,31 @@ export const CLMMILChart: React.FC<CLMMILChartProps> = ({
       })()}
 
       <div className="h-[400px]">
-        <Line data={data} options={options} />
+        <Line ref={chartRef} data={data} options={options} />
       </div>
 
+      {curveRange && onCurveRangeChange && (
+        <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-400">
+          <span>{tokenASymbol} price change range:</span>
+          <input
+            type="number"
+            value={curveRange.min}
+            onChange={(e) => onCurveRangeChange({ ...curveRange, min: Math.max(-99, parseFloat(e.target.value) || 0) })}
+            className="w-20 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm focus:border-cetus-accent focus:outline-none"
+            max={curveRange.max - 1}
+          />
+          <span>% to</span>
+          <input
+            type="number"
+            value={curveRange.max}
+            onChange={(e) => onCurveRangeChange({ ...curveRange, max: parseFloat(e.target.value) || 0 })}
+            className="w-20 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm focus:border-cetus-accent focus:outline-none"
+            min={curveRange.min + 1}
+          />
+          <span>% (applies on next run)</span>
+        </div>
+      )}
+
       {/* Legend explanation */}
       <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm">
         <p className="text-yellow-400 font-medium">⚠️ CLMM vs V2 AMM Impermanent Loss</p>
@@ -0,0 +1,153 @@
+import React, { useState, useMemo } from 'react';
+import { PoolInfo } from '../services/cetusSdk';
+import { compareFeeTiers, rankFeeTiers, FeeTierRankKey } from '../utils/feeTierComparison';
+
+interface FeeTierComparisonProps {
+  basePool: PoolInfo;      // Selected pool, with any manual stats override applied
+  pools: PoolInfo[];       // Pools cache to search for the same pair
+  priceLower: number;
+  priceUpper: number;
+  capital: number;         // Token B terms
+  quotePriceUSD: number;
+  onSelectPool: (pool: PoolInfo) => void;
+}
+
+const RANK_OPTIONS: { key: FeeTierRankKey; label: string }[] = [
+  { key: 'fees', label: 'Fee Income' },
+  { key: 'depth', label: 'Liquidity Depth' },
+  { key: 'il', label: 'IL Exposure' },
+];
+
+// Format large numbers nicely
+const formatNumber = (num: number): string => {
+  if (num >= 1000000000) return `${(num / 1000000000).toFixed(2)}B`;
+  if (num >= 1000000) return `${(num / 1000000).toFixed(2)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(2)}K`;
+  return num.toFixed(2);
+};
+
+export const FeeTierComparison: React.FC<FeeTierComparisonProps> = ({
+  basePool,
+  pools,
+  priceLower,
+  priceUpper,
+  capital,
+  quotePriceUSD,
+  onSelectPool,
+}) => {
+  const [rankBy, setRankBy] = useState<FeeTierRankKey>('fees');
+
+  const comparison = useMemo(
+    () => compareFeeTiers({ basePool, pools, priceLower, priceUpper, capital, quotePriceUSD }),
+    [basePool, pools, priceLower, priceUpper, capital, quotePriceUSD]
+  );
+  const ranked = useMemo(() => rankFeeTiers(comparison.results, rankBy), [comparison, rankBy]);
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+        Fee Tier Comparison
+      </h3>
+      <p className="text-xs text-gray-400">
+        Same position (${(capital * quotePriceUSD).toFixed(2)}, {((priceLower / basePool.currentPrice - 1) * 100).toFixed(1)}% to
+        +{((priceUpper / basePool.currentPrice - 1) * 100).toFixed(1)}% around current price) run through every
+        {' '}{basePool.coinSymbolA}/{basePool.coinSymbolB} pool in the cache.
+      </p>
+
+      <div className="flex gap-1 bg-gray-800/50 rounded-lg p-1">
+        {RANK_OPTIONS.map(option => (
+          <button
+            key={option.key}
+            onClick={() => setRankBy(option.key)}
+            className={`flex-1 py-1 px-2 rounded-md text-xs sm:text-sm transition-all ${
+              rankBy === option.key ? 'bg-cetus-primary text-white' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {ranked.length <= 1 ? (
+        <div className="text-center text-gray-400 py-8">
+          <p>No other {basePool.coinSymbolA}/{basePool.coinSymbolB} pools found in the loaded pool list.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="text-left py-2 px-2">#</th>
+                <th className="text-left py-2 px-2">Pool</th>
+                <th className="text-right py-2 px-2">Range Width</th>
+                <th className="text-right py-2 px-2">Daily Fees</th>
+                <th className="text-right py-2 px-2">APY</th>
+                <th className="text-right py-2 px-2">TVL</th>
+                <th className="text-right py-2 px-2">Vol/TVL</th>
+                <th className="text-right py-2 px-2">IL ±{comparison.priceMovePercent}%</th>
+                <th className="py-2 px-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map(r => (
+                <tr key={r.pool.poolId} className={`border-b border-gray-800 ${r.isBase ? 'bg-cetus-primary/10' : 'hover:bg-gray-800/30'}`}>
+                  <td className="py-2 px-2 text-gray-400">{r.ranks[rankBy]}</td>
+                  <td className="py-2 px-2">
+                    <span className="text-white">{r.pool.formattedName}</span>
+                    <span className="block text-xs text-gray-500">
+                      {(r.pool.feeRate * 100).toFixed(2)}% fee • spacing {r.pool.tickSpacing}
+                      {r.isFlipped && ' • reversed'}
+                    </span>
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-300">
+                    {r.rangeWidthPercent.toFixed(1)}%
+                    {Math.abs(r.snapWidthChange) >= 0.1 && (
+                      <span className="block text-xs text-gray-500">
+                        {r.snapWidthChange > 0 ? '+' : ''}{r.snapWidthChange.toFixed(1)} from snap
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-right text-green-400">
+                    {r.hasStats ? `$${r.dailyFeesUSD.toFixed(2)}` : <span className="text-gray-500">no stats</span>}
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-300">{r.hasStats ? `${r.apy.toFixed(1)}%` : '—'}</td>
+                  <td className="py-2 px-2 text-right text-gray-300">{r.hasStats ? `$${formatNumber(r.depthUSD)}` : '—'}</td>
+                  <td className="py-2 px-2 text-right text-gray-300">{r.hasStats ? r.volumeToTVL.toFixed(2) : '—'}</td>
+                  <td className="py-2 px-2 text-right text-red-400">
+                    {r.ilDown.toFixed(2)}% / {r.ilUp.toFixed(2)}%
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    {r.isBase ? (
+                      <span className="text-xs text-cetus-accent">Current</span>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          const pool = pools.find(p => p.poolId === r.pool.poolId);
+                          if (pool) onSelectPool(pool);
+                        }}
+                        className="px-2 py-1 rounded bg-cetus-primary/30 hover:bg-cetus-primary text-xs text-white"
+                      >
+                        Switch
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Fees assume your share of active liquidity ≈ TVL share × capital efficiency. Ranges snap to each pool's tick
+        spacing, so coarse tiers can end up wider than requested. IL columns: {basePool.coinSymbolA} down / up
+        {' '}{comparison.priceMovePercent}%.
+      </p>
+    </div>
+  );
+};
+
+export default FeeTierComparison;
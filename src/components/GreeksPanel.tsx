@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import { getDepositAmounts } from '../utils/clmmMath';
+import { calculatePositionSensitivities } from '../utils/greeks';
+
+interface GreeksPanelProps {
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  dailyFees: number;          // Fees per day while in range, Token B terms
+  annualVolatility: number;
+  tokenASymbol: string;
+  tokenBSymbol: string;
+}
+
+const PRICE_MOVES = [-20, -10, 0, 10, 20];
+
+const formatSigned = (value: number, digits: number = 4) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+export const GreeksPanel: React.FC<GreeksPanelProps> = ({
+  currentPrice,
+  priceLower,
+  priceUpper,
+  amountA,
+  amountB,
+  dailyFees,
+  annualVolatility,
+  tokenASymbol,
+  tokenBSymbol,
+}) => {
+  const sensitivities = useMemo(() => {
+    if (currentPrice <= 0 || priceLower <= 0 || priceLower >= priceUpper) return null;
+    const { liquidity } = getDepositAmounts(currentPrice, priceLower, priceUpper, Math.max(0, amountA), Math.max(0, amountB));
+    if (liquidity <= 0) return null;
+
+    const at = (price: number) =>
+      calculatePositionSensitivities(price, priceLower, priceUpper, liquidity, dailyFees, annualVolatility);
+    return {
+      current: at(currentPrice),
+      profile: PRICE_MOVES.map(move => ({ move, ...at(currentPrice * (1 + move / 100)) })),
+    };
+  }, [currentPrice, priceLower, priceUpper, amountA, amountB, dailyFees, annualVolatility]);
+
+  if (!sensitivities) {
+    return (
+      <div className="bg-cetus-card rounded-xl p-6 card-glow">
+        <div className="text-center text-gray-400 py-8">
+          <p>Enter amounts and a valid range to see position sensitivities.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { current, profile } = sensitivities;
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+        </svg>
+        Greeks & Sensitivities
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">Delta (Δ)</p>
+          <p className="text-xl font-bold text-white">{current.delta.toFixed(4)}</p>
+          <p className="text-xs text-gray-500">{tokenASymbol} • {current.deltaExposure.toFixed(2)} {tokenBSymbol} exposure</p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">Gamma (Γ)</p>
+          <p className="text-xl font-bold text-red-400">{current.gamma.toExponential(3)}</p>
+          <p className="text-xs text-gray-500">Δ change per 1 {tokenBSymbol} move</p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">Theta (θ) / day</p>
+          <p className={`text-xl font-bold ${current.netThetaPerDay >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {formatSigned(current.netThetaPerDay)}
+          </p>
+          <p className="text-xs text-gray-500">
+            {formatSigned(current.feeThetaPerDay)} fees {formatSigned(current.ilThetaPerDay)} IL
+          </p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">Vega (ν) / vol pt</p>
+          <p className="text-xl font-bold text-yellow-400">{formatSigned(current.vegaPerVolPoint)}</p>
+          <p className="text-xs text-gray-500">
+            Break-even σ {current.breakEvenVolatility === Infinity ? '∞' : `${(current.breakEvenVolatility * 100).toFixed(0)}%`}
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-gray-700">
+              <th className="text-left py-2 px-2">Price Move</th>
+              <th className="text-right py-2 px-2">Price</th>
+              <th className="text-right py-2 px-2">Δ ({tokenASymbol})</th>
+              <th className="text-right py-2 px-2">Γ</th>
+              <th className="text-right py-2 px-2">θ / day</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profile.map(p => (
+              <tr key={p.move} className={`border-b border-gray-800 ${p.move === 0 ? 'bg-cetus-primary/10' : ''}`}>
+                <td className="py-2 px-2 text-gray-300">{p.move >= 0 ? '+' : ''}{p.move}%</td>
+                <td className="py-2 px-2 text-right text-gray-300">
+                  {p.price.toFixed(6)}
+                  {!p.isInRange && <span className="ml-1 text-xs text-red-400">out</span>}
+                </td>
+                <td className="py-2 px-2 text-right text-white">{p.delta.toFixed(4)}</td>
+                <td className="py-2 px-2 text-right text-red-400">{p.gamma === 0 ? '0' : p.gamma.toExponential(2)}</td>
+                <td className={`py-2 px-2 text-right ${p.netThetaPerDay >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatSigned(p.netThetaPerDay)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Values in {tokenBSymbol} at {(annualVolatility * 100).toFixed(0)}% annual volatility. θ is fee income minus the
+        expected IL of a delta-hedged position (½·Γ·σ²·P² per year); ν is how θ changes per +1% volatility. Above the
+        break-even σ, IL outpaces fees. Instantaneous figures: they ignore price leaving the range.
+      </p>
+    </div>
+  );
+};
+
+export default GreeksPanel;
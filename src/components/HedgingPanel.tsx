@@ -0,0 +1,313 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { ILCurvePoint } from '../utils/clmmMath';
+import { simulateHedge, HedgeInstrument } from '../utils/hedging';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+interface HedgingPanelProps {
+  ilData: ILCurvePoint[];
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  dailyFees: number;        // LP fees per day, Token B terms
+  defaultDays: number;
+  tokenASymbol: string;
+  tokenBSymbol: string;
+}
+
+const INSTRUMENTS: { key: HedgeInstrument; label: string; rateLabel: string; rateHint: string; defaultRate: number }[] = [
+  { key: 'perp', label: 'Short Perp', rateLabel: 'Funding APR (%)', rateHint: 'Positive: longs pay, the short earns', defaultRate: 10 },
+  { key: 'borrow', label: 'Borrow & Sell', rateLabel: 'Borrow APR (%)', rateHint: 'Interest paid on the borrowed tokens', defaultRate: 8 },
+];
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none';
+
+export const HedgingPanel: React.FC<HedgingPanelProps> = ({
+  ilData,
+  currentPrice,
+  priceLower,
+  priceUpper,
+  amountA,
+  amountB,
+  dailyFees,
+  defaultDays,
+  tokenASymbol,
+  tokenBSymbol,
+}) => {
+  const [instrument, setInstrument] = useState<HedgeInstrument>('perp');
+  const [hedgeRatioPercent, setHedgeRatioPercent] = useState(100);
+  const [ratePercent, setRatePercent] = useState(INSTRUMENTS[0].defaultRate);
+  const [openingFeePercent, setOpeningFeePercent] = useState(0.05);
+  const [days, setDays] = useState(defaultDays);
+  const [includeFees, setIncludeFees] = useState(true);
+
+  const hedge = useMemo(() => {
+    if (ilData.length === 0) return null;
+    try {
+      return {
+        result: simulateHedge(ilData, {
+          currentPrice,
+          priceLower,
+          priceUpper,
+          amountA,
+          amountB,
+          instrument,
+          hedgeRatio: hedgeRatioPercent / 100,
+          annualRate: ratePercent / 100,
+          days,
+          openingFeeRate: openingFeePercent / 100,
+          feesEarned: includeFees ? dailyFees * days : 0,
+        }),
+        error: null,
+      };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'Hedge simulation failed' };
+    }
+  }, [ilData, currentPrice, priceLower, priceUpper, amountA, amountB, instrument, hedgeRatioPercent, ratePercent, openingFeePercent, days, includeFees, dailyFees]);
+
+  if (ilData.length === 0) {
+    return (
+      <div className="bg-cetus-card rounded-xl p-6 card-glow">
+        <div className="text-center text-gray-400 py-8">
+          <p>No IL data available. Run simulation first.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const result = hedge?.result;
+  const instrumentInfo = INSTRUMENTS.find(i => i.key === instrument);
+  const rateLabel = instrumentInfo?.rateLabel ?? 'APR (%)';
+  const rateHint = instrumentInfo?.rateHint ?? '';
+
+  const chartData = result && {
+    labels: result.curve.map(p => `${p.priceChange >= 0 ? '+' : ''}${p.priceChange.toFixed(0)}%`),
+    datasets: [
+      {
+        label: 'IL vs HODL (%)',
+        data: result.curve.map(p => p.ilPercentage),
+        borderColor: 'rgb(239, 68, 68)',
+        backgroundColor: 'transparent',
+        borderDash: [5, 5],
+        pointRadius: 2,
+        tension: 0.4,
+      },
+      {
+        label: 'Unhedged PnL (%)',
+        data: result.curve.map(p => p.unhedgedPnLPercent),
+        borderColor: 'rgb(99, 102, 241)',
+        backgroundColor: 'transparent',
+        pointRadius: 2,
+        tension: 0.4,
+      },
+      {
+        label: 'Hedged PnL (%)',
+        data: result.curve.map(p => p.hedgedPnLPercent),
+        borderColor: 'rgb(0, 212, 170)',
+        backgroundColor: 'transparent',
+        borderWidth: 3,
+        pointRadius: 3,
+        tension: 0.4,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: { position: 'top' as const, labels: { color: '#9ca3af', usePointStyle: true } },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'line'>) =>
+            `${context.dataset.label}: ${(context.parsed.y ?? 0).toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        title: { display: true, text: `${tokenASymbol} Price Change`, color: '#9ca3af' },
+        ticks: { color: '#9ca3af' },
+        grid: { color: 'rgba(75, 85, 99, 0.3)' },
+      },
+      y: {
+        title: { display: true, text: '% of Position Value', color: '#9ca3af' },
+        ticks: { color: '#9ca3af' },
+        grid: { color: 'rgba(75, 85, 99, 0.3)' },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+        </svg>
+        Delta Hedge Simulator
+      </h3>
+
+      <div className="flex gap-1 bg-gray-800/50 rounded-lg p-1">
+        {INSTRUMENTS.map(option => (
+          <button
+            key={option.key}
+            onClick={() => {
+              setInstrument(option.key);
+              setRatePercent(option.defaultRate);
+            }}
+            className={`flex-1 py-1 px-2 rounded-md text-sm transition-all ${
+              instrument === option.key ? 'bg-cetus-primary text-white' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {option.label} {tokenASymbol}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Hedge Ratio (%)</label>
+          <input
+            type="number"
+            value={hedgeRatioPercent}
+            onChange={(e) => setHedgeRatioPercent(Math.max(0, parseFloat(e.target.value) || 0))}
+            className={inputClass}
+            min="0"
+            step="5"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">{rateLabel}</label>
+          <input
+            type="number"
+            value={ratePercent}
+            onChange={(e) => setRatePercent(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+            step="0.5"
+          />
+          <p className="text-xs text-gray-500">{rateHint}</p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Opening Fee (%)</label>
+          <input
+            type="number"
+            value={openingFeePercent}
+            onChange={(e) => setOpeningFeePercent(Math.max(0, parseFloat(e.target.value) || 0))}
+            className={inputClass}
+            min="0"
+            step="0.01"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Holding Period (days)</label>
+          <input
+            type="number"
+            value={days}
+            onChange={(e) => setDays(Math.max(0, parseFloat(e.target.value) || 0))}
+            className={inputClass}
+            min="0"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={includeFees}
+          onChange={(e) => setIncludeFees(e.target.checked)}
+          className="accent-cetus-accent"
+        />
+        Include LP fees ({(dailyFees * days).toFixed(2)} {tokenBSymbol} over {days} days)
+      </label>
+
+      {hedge?.error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">{hedge.error}</div>
+      )}
+
+      {result && chartData && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Position Delta</p>
+              <p className="text-xl font-bold text-white">{result.entryDelta.toFixed(4)}</p>
+              <p className="text-xs text-gray-500">{tokenASymbol} exposure</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Gamma</p>
+              <p className="text-xl font-bold text-red-400">{result.entryGamma.toExponential(3)}</p>
+              <p className="text-xs text-gray-500">Δ change per 1 {tokenBSymbol} move</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Short Size</p>
+              <p className="text-xl font-bold text-cetus-accent">{result.hedgeSize.toFixed(4)}</p>
+              <p className="text-xs text-gray-500">{result.hedgeNotional.toFixed(2)} {tokenBSymbol} notional</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Hedge Cost</p>
+              <p className={`text-xl font-bold ${result.carryCostAtEntry + result.openingCost > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                {(result.carryCostAtEntry + result.openingCost).toFixed(2)}
+              </p>
+              <p className="text-xs text-gray-500">{tokenBSymbol} over {days}d if flat</p>
+            </div>
+          </div>
+
+          <div className="h-[320px]">
+            <Line data={chartData} options={options} />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="text-left py-2 px-2">Move</th>
+                  <th className="text-right py-2 px-2">Unhedged</th>
+                  <th className="text-right py-2 px-2">Hedge Leg</th>
+                  <th className="text-right py-2 px-2">Costs</th>
+                  <th className="text-right py-2 px-2">Hedged</th>
+                  <th className="text-right py-2 px-2">Net Delta</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.curve
+                  .filter((_, i) => i % Math.max(1, Math.round(result.curve.length / 8)) === 0)
+                  .map(p => (
+                    <tr key={p.priceChange} className="border-b border-gray-800">
+                      <td className="py-2 px-2 text-gray-300">{p.priceChange >= 0 ? '+' : ''}{p.priceChange.toFixed(0)}%</td>
+                      <td className={`py-2 px-2 text-right ${p.unhedgedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{p.unhedgedPnL.toFixed(2)}</td>
+                      <td className="py-2 px-2 text-right text-gray-300">{p.hedgePnL.toFixed(2)}</td>
+                      <td className="py-2 px-2 text-right text-yellow-400">{(-p.hedgeCost).toFixed(2)}</td>
+                      <td className={`py-2 px-2 text-right ${p.hedgedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{p.hedgedPnL.toFixed(2)}</td>
+                      <td className="py-2 px-2 text-right text-gray-300">{p.netDelta.toFixed(4)}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            PnL in {tokenBSymbol} vs the deposited value at entry. The short is opened once and never resized: LPs are
+            short gamma, so the position's delta drifts away from the hedge as price moves and the hedged curve still
+            loses on large moves in either direction.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HedgingPanel;
@@ -1,12 +1,28 @@
-import React from 'react';
-import { tickToPrice } from '../utils';
+import React, { useState, useMemo } from 'react';
+import {
+  tickToPriceWithDecimals,
+  getDepositAmounts,
+  getMatchingAmount,
+  toViewPrice,
+  toViewRange,
+  getViewTokens,
+  getBoundTickSide,
+  viewPriceToTick,
+  RangeBound,
+  RangeCandidate,
+  ZapSwapQuoter,
+} from '../utils';
+import { usePriceOrientation } from '../contexts/PriceOrientationContext';
+import { ZapCalculator } from './ZapCalculator';
 
 interface LiquidityInputProps {
   amountA: number;
   amountB: number;
-  tickLower: number;
+  tickLower: number;          // On-chain ticks
   tickUpper: number;
   currentPrice: number;
+  decimalsA: number;
+  decimalsB: number;
   tokenASymbol: string;
   tokenBSymbol: string;
   tickSpacing: number;
@@ -14,6 +30,10 @@ interface LiquidityInputProps {
   onAmountBChange: (value: number) => void;
   onTickLowerChange: (value: number) => void;
   onTickUpperChange: (value: number) => void;
+  suggestedRanges?: RangeCandidate[];
+  quotePriceUSD?: number;
+  zapQuoter?: ZapSwapQuoter;   // Enables zap mode
+  isExactZapQuote?: boolean;
 }
 
 export const LiquidityInput: React.FC<LiquidityInputProps> = ({
@@ -22,6 +42,8 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
   tickLower,
   tickUpper,
   currentPrice,
+  decimalsA,
+  decimalsB,
   tokenASymbol,
   tokenBSymbol,
   tickSpacing,
@@ -29,13 +51,49 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
   onAmountBChange,
   onTickLowerChange,
   onTickUpperChange,
+  suggestedRanges = [],
+  quotePriceUSD = 1,
+  zapQuoter,
+  isExactZapQuote = false,
 }) => {
-  const priceLower = tickToPrice(tickLower);
-  const priceUpper = tickToPrice(tickUpper);
-  
-  const rangePercent = ((priceUpper - priceLower) / currentPrice * 100).toFixed(1);
+  const [isZapMode, setIsZapMode] = useState(false);
+  const [isAutoMatch, setIsAutoMatch] = useState(true);
+  const { isInverted, toggleOrientation } = usePriceOrientation();
+
+  const priceLower = tickToPriceWithDecimals(tickLower, decimalsA, decimalsB);
+  const priceUpper = tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB);
+
+  // Min/Max inputs are in the chosen orientation; inverted, Min sets tickUpper
+  const viewRange = toViewRange(priceLower, priceUpper, isInverted);
+  const viewPrice = toViewPrice(currentPrice, isInverted);
+  const viewTokens = getViewTokens(tokenASymbol, tokenBSymbol, isInverted);
+  const minTick = isInverted ? tickUpper : tickLower;
+  const maxTick = isInverted ? tickLower : tickUpper;
+
+  const handleBoundChange = (viewBoundPrice: number, bound: RangeBound) => {
+    const tick = viewPriceToTick(viewBoundPrice, bound, tickSpacing, isInverted, decimalsA, decimalsB);
+    (getBoundTickSide(bound, isInverted) === 'lower' ? onTickLowerChange : onTickUpperChange)(tick);
+  };
+
+  const rangePercent = ((viewRange.max - viewRange.min) / viewPrice * 100).toFixed(1);
   const isInRange = currentPrice >= priceLower && currentPrice <= priceUpper;
 
+  const deposit = useMemo(
+    () => getDepositAmounts(currentPrice, priceLower, priceUpper, Math.max(0, amountA), Math.max(0, amountB)),
+    [currentPrice, priceLower, priceUpper, amountA, amountB]
+  );
+  const hasLeftover = deposit.leftoverA > deposit.depositA * 1e-6 || deposit.leftoverB > deposit.depositB * 1e-6;
+
+  // Edit one side, fill the other with the amount the range ratio needs
+  const handleAmountChange = (value: number, token: 'A' | 'B') => {
+    (token === 'A' ? onAmountAChange : onAmountBChange)(value);
+    if (!isAutoMatch) return;
+    const matching = getMatchingAmount(currentPrice, priceLower, priceUpper, value, token);
+    if (matching !== null) {
+      (token === 'A' ? onAmountBChange : onAmountAChange)(parseFloat(matching.toFixed(6)));
+    }
+  };
+
   return (
     <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-6">
       <h3 className="text-lg font-semibold text-white flex items-center gap-2">
@@ -45,49 +103,122 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
         Liquidity Amounts
       </h3>
 
+      {zapQuoter && (
+        <div className="flex gap-1 bg-gray-800/50 rounded-lg p-1">
+          {[false, true].map(zap => (
+            <button
+              key={String(zap)}
+              onClick={() => setIsZapMode(zap)}
+              className={`flex-1 py-1 px-2 rounded-md text-sm transition-all ${
+                isZapMode === zap ? 'bg-cetus-primary text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {zap ? '⚡ Zap (single token)' : 'Both Tokens'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Token Amounts */}
-      <div className="grid grid-cols-2 gap-4">
-        <div className="space-y-2">
-          <label className="text-sm text-gray-400">{tokenASymbol} Amount</label>
-          <div className="relative">
-            <input
-              type="number"
-              value={amountA}
-              onChange={(e) => onAmountAChange(parseFloat(e.target.value) || 0)}
-              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-accent focus:outline-none transition-colors"
-              placeholder="0.0"
-              min="0"
-              step="0.1"
-            />
-            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
-              {tokenASymbol}
-            </span>
+      {zapQuoter && isZapMode ? (
+        <ZapCalculator
+          currentPrice={currentPrice}
+          priceLower={priceLower}
+          priceUpper={priceUpper}
+          tokenASymbol={tokenASymbol}
+          tokenBSymbol={tokenBSymbol}
+          quotePriceUSD={quotePriceUSD}
+          quoteSwap={zapQuoter}
+          isExactQuote={isExactZapQuote}
+          onApply={(depositA, depositB) => {
+            onAmountAChange(depositA);
+            onAmountBChange(depositB);
+            setIsZapMode(false);
+          }}
+        />
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm text-gray-400">{tokenASymbol} Amount</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  value={amountA}
+                  onChange={(e) => handleAmountChange(parseFloat(e.target.value) || 0, 'A')}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-accent focus:outline-none transition-colors"
+                  placeholder="0.0"
+                  min="0"
+                  step="0.1"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
+                  {tokenASymbol}
+                </span>
+              </div>
+            </div>
+          
+            <div className="space-y-2">
+              <label className="text-sm text-gray-400">{tokenBSymbol} Amount</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  value={amountB}
+                  onChange={(e) => handleAmountChange(parseFloat(e.target.value) || 0, 'B')}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-accent focus:outline-none transition-colors"
+                  placeholder="0.0"
+                  min="0"
+                  step="0.1"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
+                  {tokenBSymbol}
+                </span>
+              </div>
+            </div>
           </div>
-        </div>
-        
-        <div className="space-y-2">
-          <label className="text-sm text-gray-400">{tokenBSymbol} Amount</label>
-          <div className="relative">
-            <input
-              type="number"
-              value={amountB}
-              onChange={(e) => onAmountBChange(parseFloat(e.target.value) || 0)}
-              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-accent focus:outline-none transition-colors"
-              placeholder="0.0"
-              min="0"
-              step="0.1"
-            />
-            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
-              {tokenBSymbol}
-            </span>
+
+          <div className="flex justify-between items-center">
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isAutoMatch}
+                onChange={(e) => setIsAutoMatch(e.target.checked)}
+                className="accent-cetus-accent"
+              />
+              Auto-match range ratio
+            </label>
+            {!isInRange && <span className="text-xs text-gray-500">Out of range: single-token deposit</span>}
+          </div>
+
+          <div className="bg-gray-800/50 rounded-lg p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Deposited</span>
+              <span className="text-white">
+                {deposit.depositA.toFixed(4)} {tokenASymbol} + {deposit.depositB.toFixed(4)} {tokenBSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Left Over</span>
+              <span className={hasLeftover ? 'text-yellow-400' : 'text-gray-500'}>
+                {hasLeftover
+                  ? `${deposit.leftoverA.toFixed(4)} ${tokenASymbol} + ${deposit.leftoverB.toFixed(4)} ${tokenBSymbol}`
+                  : 'None'}
+              </span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Price Range */}
       <div className="space-y-4">
         <div className="flex justify-between items-center">
           <h4 className="text-md font-medium text-white">Price Range</h4>
+          <button
+            onClick={toggleOrientation}
+            title="Flip price orientation"
+            className="ml-auto mr-2 px-2 py-1 rounded-md text-xs text-gray-300 bg-gray-800 border border-gray-700 hover:border-cetus-primary hover:text-white transition-all"
+          >
+            ⇄ {viewTokens.quote}/{viewTokens.base}
+          </button>
           <div className={`px-3 py-1 rounded-full text-xs font-medium ${
             isInRange ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
           }`}>
@@ -98,7 +229,7 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
         <div className="bg-gray-800/50 rounded-lg p-4">
           <div className="flex justify-between text-sm mb-2">
             <span className="text-gray-400">Current Price</span>
-            <span className="text-white font-medium">{currentPrice.toFixed(4)} {tokenBSymbol}/{tokenASymbol}</span>
+            <span className="text-white font-medium">{viewPrice.toFixed(4)} {viewTokens.quote}/{viewTokens.base}</span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-gray-400">Range Width</span>
@@ -108,16 +239,11 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
 
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
-            <label className="text-sm text-gray-400">Min Price (Tick: {tickLower})</label>
+            <label className="text-sm text-gray-400">Min Price (Tick: {minTick})</label>
             <input
               type="number"
-              value={priceLower.toFixed(6)}
-              onChange={(e) => {
-                const price = parseFloat(e.target.value) || 0;
-                const tick = Math.floor(Math.log(price) / Math.log(1.0001));
-                const alignedTick = Math.floor(tick / tickSpacing) * tickSpacing;
-                onTickLowerChange(alignedTick);
-              }}
+              value={viewRange.min.toFixed(6)}
+              onChange={(e) => handleBoundChange(parseFloat(e.target.value) || 0, 'min')}
               className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-primary focus:outline-none transition-colors"
               step="0.0001"
               min="0"
@@ -125,16 +251,11 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
           </div>
           
           <div className="space-y-2">
-            <label className="text-sm text-gray-400">Max Price (Tick: {tickUpper})</label>
+            <label className="text-sm text-gray-400">Max Price (Tick: {maxTick})</label>
             <input
               type="number"
-              value={priceUpper.toFixed(6)}
-              onChange={(e) => {
-                const price = parseFloat(e.target.value) || 0;
-                const tick = Math.ceil(Math.log(price) / Math.log(1.0001));
-                const alignedTick = Math.ceil(tick / tickSpacing) * tickSpacing;
-                onTickUpperChange(alignedTick);
-              }}
+              value={viewRange.max.toFixed(6)}
+              onChange={(e) => handleBoundChange(parseFloat(e.target.value) || 0, 'max')}
               className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-primary focus:outline-none transition-colors"
               step="0.0001"
               min="0"
@@ -148,12 +269,10 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
             <button
               key={range}
               onClick={() => {
-                const tickRange = Math.ceil(Math.log(1 + range / 100) / Math.log(1.0001));
-                const currentTick = Math.floor(Math.log(currentPrice) / Math.log(1.0001));
-                const newLower = Math.floor((currentTick - tickRange) / tickSpacing) * tickSpacing;
-                const newUpper = Math.ceil((currentTick + tickRange) / tickSpacing) * tickSpacing;
-                onTickLowerChange(newLower);
-                onTickUpperChange(newUpper);
+                // P / (1 + r) to P × (1 + r), widened to the tick spacing
+                const factor = 1 + range / 100;
+                onTickLowerChange(viewPriceToTick(currentPrice / factor, 'min', tickSpacing, false, decimalsA, decimalsB));
+                onTickUpperChange(viewPriceToTick(currentPrice * factor, 'max', tickSpacing, false, decimalsA, decimalsB));
               }}
               className="flex-1 py-2 px-3 bg-gray-800 hover:bg-cetus-primary/30 border border-gray-700 hover:border-cetus-primary rounded-lg text-sm text-gray-300 hover:text-white transition-all"
             >
@@ -161,6 +280,35 @@ export const LiquidityInput: React.FC<LiquidityInputProps> = ({
             </button>
           ))}
         </div>
+
+        {/* Suggested Ranges (from optimizer) */}
+        {suggestedRanges.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm text-gray-400">Suggested Ranges</label>
+            <div className="flex gap-2">
+              {suggestedRanges.map((range, index) => {
+                const isApplied = range.tickLower === tickLower && range.tickUpper === tickUpper;
+                return (
+                  <button
+                    key={`${range.tickLower}:${range.tickUpper}`}
+                    onClick={() => {
+                      onTickLowerChange(range.tickLower);
+                      onTickUpperChange(range.tickUpper);
+                    }}
+                    title={`Score ${range.score.toFixed(2)} ${tokenBSymbol}`}
+                    className={`flex-1 py-2 px-2 border rounded-lg text-xs transition-all ${
+                      isApplied
+                        ? 'bg-cetus-accent/20 border-cetus-accent text-white'
+                        : 'bg-gray-800 hover:bg-cetus-accent/20 border-gray-700 hover:border-cetus-accent text-gray-300 hover:text-white'
+                    }`}
+                  >
+                    #{index + 1} · {range.rangeWidthPercent.toFixed(0)}%
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
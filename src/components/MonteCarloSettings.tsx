@@ -0,0 +1,135 @@
+import React from 'react';
+import { JumpDiffusionParams } from '../utils/monteCarlo';
+
+export interface MonteCarloSettingsValue {
+  annualVolatility: number; // decimal, 0.8 = 80%
+  annualDrift: number;      // decimal
+  days: number;
+  paths: number;
+  useJumps: boolean;
+  jumps: JumpDiffusionParams;
+}
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettingsValue = {
+  annualVolatility: 0.8,
+  annualDrift: 0,
+  days: 30,
+  paths: 500,
+  useJumps: false,
+  jumps: { intensity: 6, meanJump: -0.05, jumpVolatility: 0.1 },
+};
+
+interface MonteCarloSettingsProps {
+  settings: MonteCarloSettingsValue;
+  onChange: (settings: MonteCarloSettingsValue) => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none';
+
+export const MonteCarloSettings: React.FC<MonteCarloSettingsProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<MonteCarloSettingsValue>) => onChange({ ...settings, ...patch });
+  const updateJumps = (patch: Partial<JumpDiffusionParams>) => update({ jumps: { ...settings.jumps, ...patch } });
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+        </svg>
+        Volatility Scenarios
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Annual Volatility (%)</label>
+          <input
+            type="number"
+            value={settings.annualVolatility * 100}
+            onChange={(e) => update({ annualVolatility: (parseFloat(e.target.value) || 0) / 100 })}
+            className={inputClass}
+            min="0"
+            step="5"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Annual Drift (%)</label>
+          <input
+            type="number"
+            value={settings.annualDrift * 100}
+            onChange={(e) => update({ annualDrift: (parseFloat(e.target.value) || 0) / 100 })}
+            className={inputClass}
+            step="5"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Horizon (days)</label>
+          <input
+            type="number"
+            value={settings.days}
+            onChange={(e) => update({ days: Math.max(1, parseInt(e.target.value) || 1) })}
+            className={inputClass}
+            min="1"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Paths</label>
+          <input
+            type="number"
+            value={settings.paths}
+            onChange={(e) => update({ paths: Math.min(5000, Math.max(10, parseInt(e.target.value) || 10)) })}
+            className={inputClass}
+            min="10"
+            max="5000"
+            step="100"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.useJumps}
+          onChange={(e) => update({ useJumps: e.target.checked })}
+          className="accent-cetus-accent"
+        />
+        Jump-diffusion (sudden price shocks)
+      </label>
+
+      {settings.useJumps && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs text-gray-400">Jumps / year</label>
+            <input
+              type="number"
+              value={settings.jumps.intensity}
+              onChange={(e) => updateJumps({ intensity: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className={inputClass}
+              min="0"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-gray-400">Mean jump (%)</label>
+            <input
+              type="number"
+              value={settings.jumps.meanJump * 100}
+              onChange={(e) => updateJumps({ meanJump: (parseFloat(e.target.value) || 0) / 100 })}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-gray-400">Jump vol (%)</label>
+            <input
+              type="number"
+              value={settings.jumps.jumpVolatility * 100}
+              onChange={(e) => updateJumps({ jumpVolatility: Math.max(0, parseFloat(e.target.value) || 0) / 100 })}
+              className={inputClass}
+              min="0"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloSettings;
@@ -7,22 +7,115 @@ import {
   PoolInfo,
   formatPrice,
   fetchUserPositions,
+  UserPosition,
   POPULAR_POOL_IDS,
 } from '../services/cetusSdk';
+import { tickToPriceWithDecimals } from '../utils';
 import { useWallet } from '../contexts/WalletContext';
 
 interface PoolSelectorProps {
   selectedPoolId: string;
   onSelectPool: (pool: PoolInfo) => void;
+  onLoadPosition?: (position: UserPosition) => void;
 }
 
+interface PoolCardProps {
+  pool: PoolInfo;
+  isSelected: boolean;
+  onSelect: (pool: PoolInfo) => void;
+  isUserPool?: boolean;
+}
+
+// Pool card component
+const PoolCard: React.FC<PoolCardProps> = ({ pool, isSelected, onSelect, isUserPool }) => (
+  <button
+    onClick={() => onSelect(pool)}
+    className={`w-full p-3 rounded-lg border transition-all duration-200 text-left ${
+      isSelected
+        ? 'border-cetus-accent bg-cetus-accent/10'
+        : 'border-gray-700 hover:border-cetus-primary bg-gray-800/50'
+    }`}
+  >
+    <div className="flex justify-between items-start">
+      <div className="flex items-center gap-2 sm:gap-3">
+        {/* Token Icons */}
+        <div className="flex -space-x-2">
+          <div className="w-6 h-6 sm:w-7 sm:h-7 rounded-full bg-gradient-to-r from-blue-500 to-cyan-500 flex items-center justify-center text-xs font-bold border-2 border-gray-800">
+            {pool.coinSymbolA.charAt(0)}
+          </div>
+          <div className="w-6 h-6 sm:w-7 sm:h-7 rounded-full bg-gradient-to-r from-green-500 to-emerald-500 flex items-center justify-center text-xs font-bold border-2 border-gray-800">
+            {pool.coinSymbolB.charAt(0)}
+          </div>
+        </div>
+        
+        <div>
+          <span className="font-medium text-white text-sm sm:text-base">{pool.formattedName}</span>
+          <div className="flex items-center gap-1 sm:gap-2 text-[10px] sm:text-xs text-gray-500">
+            <span className="px-1 sm:px-1.5 py-0.5 bg-gray-700/50 rounded">
+              {(pool.feeRate * 100).toFixed(2)}%
+            </span>
+            {isUserPool && (
+              <span className="px-1 sm:px-1.5 py-0.5 bg-cetus-accent/20 text-cetus-accent rounded">
+                Your Pool
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+      
+      <div className="text-right text-[10px] sm:text-xs">
+        <p className="text-cetus-accent font-medium">${formatPrice(pool.currentPrice)}</p>
+        <p className="text-gray-500 hidden sm:block">Tick: {pool.currentTickIndex}</p>
+      </div>
+    </div>
+  </button>
+);
+
+interface PositionCardProps {
+  position: UserPosition;
+  isSelected: boolean;
+  onSelect: (pool: PoolInfo) => void;
+  onLoadPosition?: (position: UserPosition) => void;
+}
+
+// Position card: pool plus the position's own range
+const PositionCard: React.FC<PositionCardProps> = ({ position, isSelected, onSelect, onLoadPosition }) => {
+  const { pool } = position;
+  const priceLower = tickToPriceWithDecimals(position.tickLowerIndex, pool.coinDecimalsA, pool.coinDecimalsB);
+  const priceUpper = tickToPriceWithDecimals(position.tickUpperIndex, pool.coinDecimalsA, pool.coinDecimalsB);
+  const isInRange = pool.currentTickIndex >= position.tickLowerIndex && pool.currentTickIndex < position.tickUpperIndex;
+
+  return (
+    <div className="space-y-1">
+      <PoolCard pool={pool} isSelected={isSelected} onSelect={onSelect} isUserPool />
+      <div className="flex justify-between items-center px-1 text-[10px] sm:text-xs">
+        <span className="text-gray-400">
+          {formatPrice(priceLower)} – {formatPrice(priceUpper)}
+          <span className={`ml-2 ${isInRange ? 'text-green-400' : 'text-red-400'}`}>
+            {isInRange ? 'In range' : 'Out of range'}
+          </span>
+        </span>
+        {onLoadPosition && (
+          <button
+            onClick={() => onLoadPosition(position)}
+            className="px-2 py-1 rounded bg-cetus-primary/30 hover:bg-cetus-primary text-white"
+          >
+            Load into simulator
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const PoolSelector: React.FC<PoolSelectorProps> = ({
   selectedPoolId,
   onSelectPool,
+  onLoadPosition,
 }) => {
   const { isConnected, address } = useWallet();
   const [pools, setPools] = useState<PoolInfo[]>([]);
-  const [userPools, setUserPools] = useState<PoolInfo[]>([]);
+  const [userPositions, setUserPositions] = useState<UserPosition[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [loadingUserPools, setLoadingUserPools] = useState(false);
@@ -116,14 +209,14 @@ export const PoolSelector: React.FC<PoolSelectorProps> = ({
   useEffect(() => {
     const loadUserPools = async () => {
       if (!isConnected || !address) {
-        setUserPools([]);
+        setUserPositions([]);
         return;
       }
 
       setLoadingUserPools(true);
       try {
         const positions = await fetchUserPositions(address);
-        setUserPools(positions);
+        setUserPositions(positions);
       } catch (err) {
         console.error('Failed to fetch user positions:', err);
       } finally {
@@ -150,51 +243,6 @@ export const PoolSelector: React.FC<PoolSelectorProps> = ({
 
   const selectedPool = pools.find(p => p.poolId === selectedPoolId);
 
-  // Pool card component
-  const PoolCard: React.FC<{ pool: PoolInfo; isUserPool?: boolean }> = ({ pool, isUserPool }) => (
-    <button
-      onClick={() => onSelectPool(pool)}
-      className={`w-full p-3 rounded-lg border transition-all duration-200 text-left ${
-        selectedPoolId === pool.poolId
-          ? 'border-cetus-accent bg-cetus-accent/10'
-          : 'border-gray-700 hover:border-cetus-primary bg-gray-800/50'
-      }`}
-    >
-      <div className="flex justify-between items-start">
-        <div className="flex items-center gap-2 sm:gap-3">
-          {/* Token Icons */}
-          <div className="flex -space-x-2">
-            <div className="w-6 h-6 sm:w-7 sm:h-7 rounded-full bg-gradient-to-r from-blue-500 to-cyan-500 flex items-center justify-center text-xs font-bold border-2 border-gray-800">
-              {pool.coinSymbolA.charAt(0)}
-            </div>
-            <div className="w-6 h-6 sm:w-7 sm:h-7 rounded-full bg-gradient-to-r from-green-500 to-emerald-500 flex items-center justify-center text-xs font-bold border-2 border-gray-800">
-              {pool.coinSymbolB.charAt(0)}
-            </div>
-          </div>
-          
-          <div>
-            <span className="font-medium text-white text-sm sm:text-base">{pool.formattedName}</span>
-            <div className="flex items-center gap-1 sm:gap-2 text-[10px] sm:text-xs text-gray-500">
-              <span className="px-1 sm:px-1.5 py-0.5 bg-gray-700/50 rounded">
-                {(pool.feeRate * 100).toFixed(2)}%
-              </span>
-              {isUserPool && (
-                <span className="px-1 sm:px-1.5 py-0.5 bg-cetus-accent/20 text-cetus-accent rounded">
-                  Your Pool
-                </span>
-              )}
-            </div>
-          </div>
-        </div>
-        
-        <div className="text-right text-[10px] sm:text-xs">
-          <p className="text-cetus-accent font-medium">${formatPrice(pool.currentPrice)}</p>
-          <p className="text-gray-500 hidden sm:block">Tick: {pool.currentTickIndex}</p>
-        </div>
-      </div>
-    </button>
-  );
-
   return (
     <div className="bg-cetus-card rounded-xl p-4 sm:p-6 card-glow">
       <h3 className="text-base sm:text-lg font-semibold text-white mb-3 sm:mb-4 flex items-center gap-2 flex-wrap">
@@ -245,7 +293,7 @@ export const PoolSelector: React.FC<PoolSelectorProps> = ({
                 : 'text-gray-400 hover:text-white'
             }`}
           >
-            👤 My Pools {userPools.length > 0 && `(${userPools.length})`}
+            👤 My Positions {userPositions.length > 0 && `(${userPositions.length})`}
           </button>
         )}
       </div>
@@ -285,7 +333,7 @@ export const PoolSelector: React.FC<PoolSelectorProps> = ({
         <div className="space-y-2">
           {popularPools.length > 0 ? (
             popularPools.map((pool) => (
-              <PoolCard key={pool.poolId} pool={pool} />
+              <PoolCard key={pool.poolId} pool={pool} isSelected={selectedPoolId === pool.poolId} onSelect={onSelectPool} />
             ))
           ) : (
             <div className="text-center py-6 text-gray-400 text-sm">
@@ -303,7 +351,7 @@ export const PoolSelector: React.FC<PoolSelectorProps> = ({
         <>
           <div className="space-y-2 max-h-[350px] sm:max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
             {displayedPools.map((pool) => (
-              <PoolCard key={pool.poolId} pool={pool} />
+              <PoolCard key={pool.poolId} pool={pool} isSelected={selectedPoolId === pool.poolId} onSelect={onSelectPool} />
             ))}
           </div>
 
@@ -340,11 +388,17 @@ export const PoolSelector: React.FC<PoolSelectorProps> = ({
           {loadingUserPools ? (
             <div className="flex flex-col items-center justify-center py-8">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cetus-accent"></div>
-              <span className="mt-2 text-gray-400 text-sm">Loading your pools...</span>
+              <span className="mt-2 text-gray-400 text-sm">Loading your positions...</span>
             </div>
-          ) : userPools.length > 0 ? (
-            userPools.map((pool) => (
-              <PoolCard key={pool.poolId} pool={pool} isUserPool />
+          ) : userPositions.length > 0 ? (
+            userPositions.map((position) => (
+              <PositionCard
+                key={position.positionId}
+                position={position}
+                isSelected={selectedPoolId === position.pool.poolId}
+                onSelect={onSelectPool}
+                onLoadPosition={onLoadPosition}
+              />
             ))
           ) : (
             <div className="text-center py-8">
@@ -1,14 +1,32 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { PoolMarketStats } from '../services/cetusSdk';
+import { TokenPrice } from '../services/priceOracle';
+import { getViewTokens, toViewPrice } from '../utils';
+import { usePriceOrientation } from '../contexts/PriceOrientationContext';
 
 interface PoolStatsProps {
   currentPrice: number;
-  volume24h: number;
-  tvl: number;
+  stats: PoolMarketStats | null;
+  quotePrice: TokenPrice | null;
+  manualQuotePriceUSD: number;           // Entered by the user when the oracle has no price, 0 if none
+  onManualQuotePriceChange: (priceUSD: number) => void;
   feeRate: number;
   tokenASymbol: string;
   tokenBSymbol: string;
+  onOverride: (volume24h: number, tvl: number) => void;
+  onClearOverride: () => void;
 }
 
+// Pool stats older than this are flagged as stale
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+const formatAge = (updatedAt: number): string => {
+  const minutes = Math.floor((Date.now() - updatedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
 // Format large numbers nicely
 const formatNumber = (num: number): string => {
   if (num >= 1000000000) return `${(num / 1000000000).toFixed(2)}B`;
@@ -28,15 +46,47 @@ const formatPrice = (price: number): string => {
 
 export const PoolStats: React.FC<PoolStatsProps> = ({
   currentPrice,
-  volume24h,
-  tvl,
+  stats,
+  quotePrice,
+  manualQuotePriceUSD,
+  onManualQuotePriceChange,
   feeRate,
   tokenASymbol,
   tokenBSymbol,
+  onOverride,
+  onClearOverride,
 }) => {
-  const fees24h = volume24h * feeRate;
+  const { isInverted } = usePriceOrientation();
+  const viewTokens = getViewTokens(tokenASymbol, tokenBSymbol, isInverted);
+  const viewPrice = toViewPrice(currentPrice, isInverted);
+  // USD value of one base token of the view
+  const quotePriceUSD = quotePrice?.priceUSD ?? manualQuotePriceUSD;
+  const basePriceUSD = isInverted ? quotePriceUSD : currentPrice * quotePriceUSD;
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftVolume, setDraftVolume] = useState('');
+  const [draftTVL, setDraftTVL] = useState('');
+
+  const volume24h = stats?.volume24h ?? 0;
+  const tvl = stats?.tvl ?? 0;
+  // Prefer the API's fee figure, otherwise derive it from volume
+  const fees24h = stats?.fees24h || volume24h * feeRate;
   const dailyAPR = tvl > 0 ? (fees24h / tvl) * 100 : 0;
   const estimatedAPY = (Math.pow(1 + dailyAPR / 100, 365) - 1) * 100;
+  const isStale = stats?.source === 'api' && Date.now() - stats.updatedAt > STALE_AFTER_MS;
+
+  const startEditing = () => {
+    setDraftVolume(volume24h > 0 ? String(volume24h) : '');
+    setDraftTVL(tvl > 0 ? String(tvl) : '');
+    setIsEditing(true);
+  };
+
+  const applyOverride = () => {
+    const volume = parseFloat(draftVolume);
+    const lockedValue = parseFloat(draftTVL);
+    if (!isFinite(volume) || !isFinite(lockedValue) || volume < 0 || lockedValue <= 0) return;
+    onOverride(volume, lockedValue);
+    setIsEditing(false);
+  };
 
   return (
     <div className="bg-cetus-card rounded-xl p-4 sm:p-6 card-glow">
@@ -45,6 +95,17 @@ export const PoolStats: React.FC<PoolStatsProps> = ({
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
         </svg>
         Pool Statistics
+        <span className={`ml-auto px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium ${
+          !stats
+            ? 'bg-red-500/20 text-red-400'
+            : stats.source === 'manual'
+              ? 'bg-blue-500/20 text-blue-400'
+              : isStale
+                ? 'bg-yellow-500/20 text-yellow-400'
+                : 'bg-green-500/20 text-green-400'
+        }`}>
+          {!stats ? 'No data' : stats.source === 'manual' ? 'Manual' : `API • ${formatAge(stats.updatedAt)}`}
+        </span>
       </h3>
 
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4">
@@ -53,11 +114,11 @@ export const PoolStats: React.FC<PoolStatsProps> = ({
           <p className="text-gray-400 text-[10px] sm:text-xs uppercase tracking-wide mb-1">
             Price
           </p>
-          <p className="text-sm sm:text-lg font-bold text-white" title={`$${currentPrice}`}>
-            ${formatPrice(currentPrice)}
+          <p className="text-sm sm:text-lg font-bold text-white" title={`${viewPrice} ${viewTokens.quote}`}>
+            {formatPrice(viewPrice)}
           </p>
           <p className="text-[10px] sm:text-xs text-gray-500">
-            {tokenASymbol}/{tokenBSymbol}
+            {quotePriceUSD > 0 ? `$${formatPrice(basePriceUSD)} • ` : ''}{viewTokens.base}/{viewTokens.quote}
           </p>
         </div>
 
@@ -115,7 +176,96 @@ export const PoolStats: React.FC<PoolStatsProps> = ({
             24h Fees: <span className="text-white font-medium">${formatNumber(fees24h)}</span>
           </span>
         </div>
+        {stats?.source === 'api' && stats.apr > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-blue-400 flex-shrink-0"></div>
+            <span className="text-xs sm:text-sm text-gray-400">
+              Pool APR: <span className="text-white font-medium">{stats.apr.toFixed(2)}%</span>
+            </span>
+          </div>
+        )}
       </div>
+
+      {/* USD valuation of the quote token */}
+      {quotePrice ? (
+        <p className="mt-3 text-[10px] sm:text-xs text-gray-500">
+          {quotePrice.source === 'stable'
+            ? `${tokenBSymbol} valued at $1 (stablecoin)`
+            : `1 ${tokenBSymbol} = $${formatPrice(quotePrice.priceUSD)} via ${
+                quotePrice.source === 'pools' ? quotePrice.route.join(' → ') : quotePrice.source === 'fixture' ? 'synthetic offline price' : quotePrice.route[0]
+              }`}
+        </p>
+      ) : (
+        <div className="mt-3 flex items-center gap-2">
+          <p className={`flex-1 text-[10px] sm:text-xs ${manualQuotePriceUSD > 0 ? 'text-gray-500' : 'text-yellow-400'}`}>
+            {manualQuotePriceUSD > 0
+              ? `1 ${tokenBSymbol} = $${formatPrice(manualQuotePriceUSD)} (entered manually)`
+              : `${tokenBSymbol} price not loaded yet, enter it to value positions in USD`}
+          </p>
+          <input
+            type="number"
+            value={manualQuotePriceUSD > 0 ? manualQuotePriceUSD : ''}
+            onChange={(e) => onManualQuotePriceChange(Math.max(0, parseFloat(e.target.value) || 0))}
+            placeholder={`${tokenBSymbol} price (USD)`}
+            className="w-32 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-xs focus:border-cetus-accent focus:outline-none"
+            min="0"
+            step="any"
+          />
+        </div>
+      )}
+
+      {/* Manual override when the API has no (or stale) figures */}
+      {isEditing ? (
+        <div className="mt-4 p-3 bg-gray-800/30 rounded-lg space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs text-gray-400">Volume 24h ($)</label>
+              <input
+                type="number"
+                value={draftVolume}
+                onChange={(e) => setDraftVolume(e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none"
+                min="0"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-gray-400">TVL ($)</label>
+              <input
+                type="number"
+                value={draftTVL}
+                onChange={(e) => setDraftTVL(e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none"
+                min="0"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={applyOverride}
+              className="flex-1 py-2 bg-cetus-primary/30 hover:bg-cetus-primary border border-cetus-primary rounded-lg text-sm text-white transition-all"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm text-gray-300 transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-3 flex justify-end gap-3 text-xs">
+          {stats?.source === 'manual' && (
+            <button onClick={onClearOverride} className="text-gray-400 hover:text-white">
+              Reset to pool data
+            </button>
+          )}
+          <button onClick={startEditing} className="text-cetus-accent hover:underline">
+            {stats ? 'Override volume/TVL' : 'Enter volume/TVL manually'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,195 @@
+import React, { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { PortfolioPosition, simulatePortfolio } from '../utils/portfolio';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+interface PortfolioPanelProps {
+  positions: PortfolioPosition[];
+  onAddCurrent: () => void;
+  onRemove: (id: string) => void;
+}
+
+const POSITION_COLORS = [
+  'rgb(99, 102, 241)',
+  'rgb(234, 179, 8)',
+  'rgb(236, 72, 153)',
+  'rgb(59, 130, 246)',
+  'rgb(168, 85, 247)',
+  'rgb(249, 115, 22)',
+];
+
+const riskColor = (level: 'LOW' | 'MEDIUM' | 'HIGH') =>
+  level === 'LOW' ? 'text-green-400' : level === 'MEDIUM' ? 'text-yellow-400' : 'text-red-400';
+
+export const PortfolioPanel: React.FC<PortfolioPanelProps> = ({ positions, onAddCurrent, onRemove }) => {
+  const portfolio = useMemo(() => simulatePortfolio(positions), [positions]);
+
+  const chartData = {
+    labels: portfolio.curve.map(p => `${p.priceChange >= 0 ? '+' : ''}${p.priceChange.toFixed(0)}%`),
+    datasets: [
+      {
+        label: 'Portfolio IL (%)',
+        data: portfolio.curve.map(p => p.ilPercentage),
+        borderColor: 'rgb(0, 212, 170)',
+        backgroundColor: 'transparent',
+        borderWidth: 3,
+        pointRadius: 0,
+        tension: 0.3,
+      },
+      ...positions.map((position, index) => ({
+        label: position.label,
+        data: portfolio.curve.map(p => p.positionIL[index]),
+        borderColor: POSITION_COLORS[index % POSITION_COLORS.length],
+        backgroundColor: 'transparent',
+        borderDash: [5, 5],
+        borderWidth: 1.5,
+        pointRadius: 0,
+        tension: 0.3,
+      })),
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: { position: 'top' as const, labels: { color: '#9ca3af', usePointStyle: true } },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'line'>) =>
+            `${context.dataset.label}: ${(context.parsed.y ?? 0).toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        title: { display: true, text: 'Price Change', color: '#9ca3af' },
+        ticks: { color: '#9ca3af', maxTicksLimit: 10 },
+        grid: { color: 'rgba(75, 85, 99, 0.3)' },
+      },
+      y: {
+        title: { display: true, text: 'IL (%)', color: '#9ca3af' },
+        ticks: { color: '#9ca3af' },
+        grid: { color: 'rgba(75, 85, 99, 0.3)' },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+          </svg>
+          Portfolio
+        </h3>
+        <button
+          onClick={onAddCurrent}
+          className="px-3 py-2 bg-cetus-primary/30 hover:bg-cetus-primary border border-cetus-primary rounded-lg text-sm text-white transition-all"
+        >
+          + Add Current Position
+        </button>
+      </div>
+
+      {positions.length === 0 ? (
+        <div className="text-center text-gray-400 py-8">
+          <p>Add positions to build a ladder across ranges and pools.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Total Value</p>
+              <p className="text-xl font-bold text-white">${portfolio.totalValueUSD.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">{positions.length} positions</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Daily Fees</p>
+              <p className="text-xl font-bold text-cetus-accent">${portfolio.totalDailyFeesUSD.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">{portfolio.weightedAPY.toFixed(2)}% APY</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Value In Range</p>
+              <p className="text-xl font-bold text-white">{portfolio.inRangeValuePercent.toFixed(0)}%</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Overall Risk</p>
+              <p className={`text-xl font-bold ${riskColor(portfolio.risks.overallRisk)}`}>{portfolio.risks.overallRisk}</p>
+            </div>
+          </div>
+
+          <div className="h-[320px]">
+            <Line data={chartData} options={options} />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="text-left py-2 px-2">Position</th>
+                  <th className="text-right py-2 px-2">Range</th>
+                  <th className="text-right py-2 px-2">Value</th>
+                  <th className="text-right py-2 px-2">Daily Fees</th>
+                  <th className="text-right py-2 px-2">Health</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {portfolio.positions.map(({ position, valueUSD, dailyFeesUSD, isInRange, health }, index) => (
+                  <tr key={position.id} className="border-b border-gray-800">
+                    <td className="py-2 px-2">
+                      <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: POSITION_COLORS[index % POSITION_COLORS.length] }} />
+                      <span className="text-white">{position.label}</span>
+                      {!isInRange && <span className="ml-2 text-xs text-red-400">out of range</span>}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-300">
+                      {position.priceLower.toFixed(4)} – {position.priceUpper.toFixed(4)}
+                    </td>
+                    <td className="py-2 px-2 text-right text-white">${valueUSD.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-right text-green-400">${dailyFeesUSD.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-right text-gray-300">{health.score}</td>
+                    <td className="py-2 px-2 text-right">
+                      <button onClick={() => onRemove(position.id)} className="text-gray-500 hover:text-red-400 text-xs">
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {portfolio.risks.warnings.length > 0 && (
+            <div className="space-y-2">
+              {portfolio.risks.warnings.map((warning, i) => (
+                <div key={i} className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+                  {warning}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Portfolio curve applies the same % move in each base token to every position (assumes correlated assets).
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioPanel;
@@ -0,0 +1,147 @@
+import React, { useState, useMemo } from 'react';
+import BN from 'bn.js';
+import { UserPosition } from '../services/cetusSdk';
+import { analyzePosition, PositionAnalysis } from '../utils/positionAnalysis';
+import { getViewTokens, toViewPrice, toViewRange } from '../utils/priceOrientation';
+import { usePriceOrientation } from '../contexts/PriceOrientationContext';
+
+interface PositionAnalysisPanelProps {
+  position: UserPosition;
+  quotePriceUSD: number;
+}
+
+const healthColor = (status: PositionAnalysis['health']['status']) =>
+  status === 'excellent' || status === 'good'
+    ? 'text-green-400'
+    : status === 'fair'
+      ? 'text-yellow-400'
+      : 'text-red-400';
+
+export const PositionAnalysisPanel: React.FC<PositionAnalysisPanelProps> = ({ position, quotePriceUSD }) => {
+  const { pool } = position;
+  const { isInverted } = usePriceOrientation();
+  const viewTokens = getViewTokens(pool.coinSymbolA, pool.coinSymbolB, isInverted);
+  // Typed in the orientation shown at the time; null = range mid price
+  const [entryInput, setEntryInput] = useState<{ viewPrice: number; isInverted: boolean } | null>(null);
+  const entryPrice = entryInput ? toViewPrice(entryInput.viewPrice, entryInput.isInverted) : 0;
+
+  const analysis = useMemo(() => {
+    try {
+      return analyzePosition({
+        liquidity: new BN(position.liquidity),
+        sqrtPriceX64: new BN(pool.currentSqrtPrice),
+        tickLower: position.tickLowerIndex,
+        tickUpper: position.tickUpperIndex,
+        decimalsA: pool.coinDecimalsA,
+        decimalsB: pool.coinDecimalsB,
+        feeOwedA: new BN(position.feeOwedA),
+        feeOwedB: new BN(position.feeOwedB),
+        entryPrice,
+        quotePriceUSD,
+      });
+    } catch (err) {
+      console.warn('Position analysis failed:', err);
+      return null;
+    }
+  }, [position, pool, entryPrice, quotePriceUSD]);
+
+  if (!analysis) return null;
+  const viewRange = toViewRange(analysis.priceLower, analysis.priceUpper, isInverted);
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+          </svg>
+          Your Position
+        </h3>
+        <div className={`px-3 py-1 rounded-full text-xs font-medium ${
+          analysis.isInRange ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+        }`}>
+          {analysis.isInRange ? 'In Range' : 'Out of Range'}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 break-all">
+        {pool.formattedName} • {position.positionId.slice(0, 10)}…{position.positionId.slice(-6)}
+      </p>
+
+      <div className="bg-gray-800/50 rounded-lg p-4 space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-400">Range</span>
+          <span className="text-white">
+            {viewRange.min.toFixed(4)} – {viewRange.max.toFixed(4)} {viewTokens.quote}/{viewTokens.base}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Holdings</span>
+          <span className="text-white">
+            {analysis.amountA.toFixed(4)} {pool.coinSymbolA} + {analysis.amountB.toFixed(4)} {pool.coinSymbolB}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Value</span>
+          <span className="text-white">
+            {analysis.positionValue.toFixed(2)} {pool.coinSymbolB}
+            <span className="text-gray-500"> (${analysis.positionValueUSD.toFixed(2)})</span>
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Uncollected Fees</span>
+          <span className="text-green-400">
+            {analysis.feesA.toFixed(4)} {pool.coinSymbolA} + {analysis.feesB.toFixed(4)} {pool.coinSymbolB}
+          </span>
+        </div>
+        {position.rewards.map(reward => (
+          <div key={reward.coinType} className="flex justify-between">
+            <span className="text-gray-400">Reward</span>
+            <span className="text-cetus-accent">
+              {(parseFloat(reward.amountOwed) / Math.pow(10, reward.decimals)).toFixed(4)} {reward.symbol}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Entry Price ({viewTokens.quote}/{viewTokens.base})</label>
+          <input
+            type="number"
+            value={entryInput?.isInverted === isInverted
+              ? entryInput.viewPrice
+              : Number(toViewPrice(analysis.entryPrice, isInverted).toFixed(6))}
+            onChange={(e) => {
+              const viewPrice = parseFloat(e.target.value) || 0;
+              setEntryInput(viewPrice > 0 ? { viewPrice, isInverted } : null);
+            }}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none"
+            min="0"
+            step="0.0001"
+          />
+          <p className="text-xs text-gray-500">{entryInput ? 'Custom' : 'Assumed range mid price'}</p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">IL vs Entry</p>
+          <p className={`text-xl font-bold ${analysis.ilPercentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {analysis.ilPercentage.toFixed(2)}%
+          </p>
+          <p className="text-xs text-gray-500">HODL {analysis.holdValue.toFixed(2)} {pool.coinSymbolB}</p>
+        </div>
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg p-4">
+        <div className="flex justify-between items-center">
+          <span className="text-gray-400 text-sm">Position Health</span>
+          <span className={`text-xl font-bold ${healthColor(analysis.health.status)}`}>
+            {analysis.health.score}/100
+          </span>
+        </div>
+        <p className="text-xs text-gray-400 mt-2">{analysis.health.summary}</p>
+      </div>
+    </div>
+  );
+};
+
+export default PositionAnalysisPanel;
@@ -0,0 +1,272 @@
+import React, { useState, useMemo } from 'react';
+import { CLMMILChart } from './CLMMILChart';
+import { CurveRange } from '../services/scenarioStorage';
+import { alignTickToSpacing, priceToTickWithDecimals, tickToPriceWithDecimals } from '../utils/tickMath';
+import {
+  compareRanges,
+  ComparisonRange,
+  RangeComparisonRow,
+  MIN_COMPARISON_RANGES,
+  MAX_COMPARISON_RANGES,
+} from '../utils/rangeComparison';
+
+interface RangeComparisonProps {
+  currentPrice: number;
+  tickLower: number;        // Current range, used as the first candidate
+  tickUpper: number;
+  tickSpacing: number;
+  amountA: number;          // Capital shared by every candidate
+  amountB: number;
+  quotePriceUSD: number;
+  decimalsA: number;
+  decimalsB: number;
+  feeRate: number;
+  dailyVolume: number;
+  totalPoolTVL: number;
+  annualVolatility: number;
+  curveRange: CurveRange;
+  tokenASymbol: string;
+  tokenBSymbol: string;
+  getFeeShare?: (tickLower: number, tickUpper: number, amountA: number, amountB: number) => number | undefined;
+}
+
+interface CandidateInput {
+  id: number;
+  priceLower: number;
+  priceUpper: number;
+}
+
+// First color matches the main CLMM IL line
+const RANGE_COLORS = [
+  'rgb(239, 68, 68)',
+  'rgb(99, 102, 241)',
+  'rgb(234, 179, 8)',
+  'rgb(236, 72, 153)',
+  'rgb(59, 130, 246)',
+];
+
+const healthColor = (status: RangeComparisonRow['health']['status']) =>
+  status === 'excellent' || status === 'good'
+    ? 'text-green-400'
+    : status === 'fair'
+      ? 'text-yellow-400'
+      : 'text-red-400';
+
+const formatDays = (days: number) => (days === Infinity ? '∞' : `${Math.round(days)}d`);
+
+export const RangeComparison: React.FC<RangeComparisonProps> = ({
+  currentPrice,
+  tickLower,
+  tickUpper,
+  tickSpacing,
+  amountA,
+  amountB,
+  quotePriceUSD,
+  decimalsA,
+  decimalsB,
+  feeRate,
+  dailyVolume,
+  totalPoolTVL,
+  annualVolatility,
+  curveRange,
+  tokenASymbol,
+  tokenBSymbol,
+  getFeeShare,
+}) => {
+  const [candidates, setCandidates] = useState<CandidateInput[]>(() => [
+    {
+      id: 1,
+      priceLower: tickToPriceWithDecimals(tickLower, decimalsA, decimalsB),
+      priceUpper: tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB),
+    },
+    { id: 2, priceLower: currentPrice * 0.9, priceUpper: currentPrice * 1.1 },
+    { id: 3, priceLower: currentPrice * 0.5, priceUpper: currentPrice * 1.5 },
+  ]);
+  const [nextId, setNextId] = useState(4);
+
+  const capital = amountA * currentPrice + amountB;
+
+  const comparison = useMemo(() => {
+    const ranges: ComparisonRange[] = candidates.map((c, index) => ({
+      id: String(c.id),
+      label: `Range ${index + 1}`,
+      tickLower: c.priceLower > 0
+        ? alignTickToSpacing(priceToTickWithDecimals(c.priceLower, decimalsA, decimalsB), tickSpacing, false)
+        : 0,
+      tickUpper: c.priceUpper > 0
+        ? alignTickToSpacing(priceToTickWithDecimals(c.priceUpper, decimalsA, decimalsB), tickSpacing, true)
+        : 0,
+    }));
+
+    try {
+      const rows = compareRanges(ranges, {
+        currentPrice,
+        capital,
+        quotePriceUSD,
+        decimalsA,
+        decimalsB,
+        feeRate,
+        dailyVolume,
+        totalPoolTVL,
+        annualVolatility,
+        priceChangeRange: { ...curveRange, steps: 40 },
+        getFeeShare,
+      });
+      return { rows, error: null };
+    } catch (err) {
+      return { rows: [], error: err instanceof Error ? err.message : 'Comparison failed' };
+    }
+  }, [candidates, tickSpacing, currentPrice, capital, quotePriceUSD, decimalsA, decimalsB, feeRate, dailyVolume, totalPoolTVL, annualVolatility, curveRange, getFeeShare]);
+
+  const updateCandidate = (id: number, field: 'priceLower' | 'priceUpper', value: number) => {
+    setCandidates(prev => prev.map(c => (c.id === id ? { ...c, [field]: value } : c)));
+  };
+
+  const handleAdd = () => {
+    setCandidates(prev => [...prev, { id: nextId, priceLower: currentPrice * 0.8, priceUpper: currentPrice * 1.25 }]);
+    setNextId(id => id + 1);
+  };
+
+  const handleRemove = (id: number) => {
+    setCandidates(prev => prev.filter(c => c.id !== id));
+  };
+
+  const { rows, error } = comparison;
+  const [primary, ...others] = rows;
+
+  // Best value per column, highlighted in the table
+  const bestAPY = Math.max(...rows.map(r => r.apy));
+  const bestEfficiency = Math.max(...rows.map(r => r.capitalEfficiency));
+  const bestBreakEven = Math.min(...rows.map(r => r.breakEvenDays));
+  const bestHealth = Math.max(...rows.map(r => r.health.score));
+  const best = (isBest: boolean) => (isBest && rows.length > 1 ? 'font-bold text-cetus-accent' : 'text-gray-300');
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {primary && (
+        <CLMMILChart
+          ilData={primary.ilCurve}
+          tokenASymbol={tokenASymbol}
+          tokenBSymbol={tokenBSymbol}
+          currentPrice={currentPrice}
+          priceLower={primary.priceLower}
+          priceUpper={primary.priceUpper}
+          ilLabel={primary.range.label}
+          overlays={others.map((row, index) => ({
+            label: row.range.label,
+            ilData: row.ilCurve,
+            color: RANGE_COLORS[(index + 1) % RANGE_COLORS.length],
+          }))}
+        />
+      )}
+
+      <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+            </svg>
+            Range Comparison
+          </h3>
+          <button
+            onClick={handleAdd}
+            disabled={candidates.length >= MAX_COMPARISON_RANGES}
+            className="px-3 py-2 bg-cetus-primary/30 hover:bg-cetus-primary border border-cetus-primary rounded-lg text-sm text-white transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            + Add Range
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">
+          Each range is funded with the same {capital.toFixed(2)} {tokenBSymbol} (${(capital * quotePriceUSD).toFixed(2)}),
+          split into the token ratio it needs at the current price of {currentPrice.toFixed(4)}.
+        </p>
+
+        <div className="space-y-2">
+          {candidates.map((c, index) => (
+            <div key={c.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: RANGE_COLORS[index % RANGE_COLORS.length] }} />
+              <span className="w-16 text-white">Range {index + 1}</span>
+              <input
+                type="number"
+                value={c.priceLower}
+                onChange={(e) => updateCandidate(c.id, 'priceLower', parseFloat(e.target.value) || 0)}
+                className="w-28 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm focus:border-cetus-accent focus:outline-none"
+                min="0"
+                step="0.0001"
+              />
+              <span className="text-gray-400">to</span>
+              <input
+                type="number"
+                value={c.priceUpper}
+                onChange={(e) => updateCandidate(c.id, 'priceUpper', parseFloat(e.target.value) || 0)}
+                className="w-28 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm focus:border-cetus-accent focus:outline-none"
+                min="0"
+                step="0.0001"
+              />
+              <span className="text-gray-500">{tokenBSymbol}</span>
+              {candidates.length > MIN_COMPARISON_RANGES && (
+                <button onClick={() => handleRemove(c.id)} className="ml-auto text-gray-500 hover:text-red-400 text-xs">
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">{error}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="text-left py-2 px-2">Range</th>
+                  <th className="text-right py-2 px-2">Width</th>
+                  <th className="text-right py-2 px-2">APY</th>
+                  <th className="text-right py-2 px-2">Capital Eff.</th>
+                  <th className="text-right py-2 px-2">Break-even</th>
+                  <th className="text-right py-2 px-2">Amplification</th>
+                  <th className="text-right py-2 px-2">Health</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.range.id} className="border-b border-gray-800">
+                    <td className="py-2 px-2">
+                      <span className="text-white">{row.range.label}</span>
+                      <span className="block text-xs text-gray-500">
+                        {row.priceLower.toFixed(4)} – {row.priceUpper.toFixed(4)}
+                      </span>
+                      {!row.isInRange && <span className="text-xs text-red-400">out of range</span>}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-300">{row.rangeWidthPercent.toFixed(1)}%</td>
+                    <td className={`py-2 px-2 text-right ${best(row.apy === bestAPY)}`}>{row.apy.toFixed(2)}%</td>
+                    <td className={`py-2 px-2 text-right ${best(row.capitalEfficiency === bestEfficiency)}`}>
+                      {row.capitalEfficiency.toFixed(1)}x
+                    </td>
+                    <td className={`py-2 px-2 text-right ${best(row.breakEvenDays === bestBreakEven)}`}>
+                      {formatDays(row.breakEvenDays)}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-300">{row.amplificationFactor.toFixed(2)}x</td>
+                    <td className={`py-2 px-2 text-right ${healthColor(row.health.status)} ${
+                      row.health.score === bestHealth && rows.length > 1 ? 'font-bold' : ''
+                    }`}>
+                      {row.health.score}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Capital efficiency = liquidity per unit of capital vs a full-range position. Amplification = IL multiple vs V2 AMM.
+          Ranges snap to the pool's tick spacing ({tickSpacing}).
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RangeComparison;
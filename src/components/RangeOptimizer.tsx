@@ -0,0 +1,159 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { RangeCandidate, RangeOptimizerResult } from '../utils/rangeOptimizer';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface RangeOptimizerProps {
+  result: RangeOptimizerResult | null;
+  tickLower: number;
+  tickUpper: number;
+  horizonDays: number;
+  annualVolatility: number;
+  tokenBSymbol: string;
+  onApplyRange: (tickLower: number, tickUpper: number) => void;
+}
+
+export const RangeOptimizer: React.FC<RangeOptimizerProps> = ({
+  result,
+  tickLower,
+  tickUpper,
+  horizonDays,
+  annualVolatility,
+  tokenBSymbol,
+  onApplyRange,
+}) => {
+  if (!result || result.ranked.length === 0) {
+    return (
+      <div className="bg-cetus-card rounded-xl p-6 card-glow">
+        <div className="text-center text-gray-400 py-8">
+          <p>Enter a position size to search for optimal ranges.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const toPoint = (c: RangeCandidate) => ({ x: -c.expectedIL, y: c.expectedFees });
+
+  const data = {
+    datasets: [
+      {
+        label: 'Candidates',
+        data: result.ranked.filter(c => !c.isEfficient).map(toPoint),
+        backgroundColor: 'rgba(156, 163, 175, 0.6)',
+        pointRadius: 4,
+      },
+      {
+        label: 'Efficient Frontier',
+        data: result.frontier.map(toPoint),
+        backgroundColor: 'rgb(0, 212, 170)',
+        borderColor: 'rgb(0, 212, 170)',
+        showLine: true,
+        pointRadius: 5,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'top' as const, labels: { color: '#9ca3af', usePointStyle: true } },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'scatter'>) =>
+            `IL loss ${(context.parsed.x ?? 0).toFixed(2)} • Fees ${(context.parsed.y ?? 0).toFixed(2)} ${tokenBSymbol}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        title: { display: true, text: `Expected IL Loss (${tokenBSymbol})`, color: '#9ca3af' },
+        ticks: { color: '#9ca3af' },
+        grid: { color: 'rgba(75, 85, 99, 0.3)' },
+      },
+      y: {
+        title: { display: true, text: `Expected Fees (${tokenBSymbol})`, color: '#9ca3af' },
+        ticks: { color: '#9ca3af' },
+        grid: { color: 'rgba(75, 85, 99, 0.3)' },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        Optimal Range Finder
+      </h3>
+      <p className="text-xs text-gray-400">
+        {result.ranked.length} ranges scored over {horizonDays} days at {(annualVolatility * 100).toFixed(0)}% annual volatility.
+        Score = expected fees − expected IL.
+      </p>
+
+      <div className="h-[300px]">
+        <Scatter data={data} options={options} />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-gray-700">
+              <th className="text-left py-2 px-2">#</th>
+              <th className="text-right py-2 px-2">Range</th>
+              <th className="text-right py-2 px-2">Width</th>
+              <th className="text-right py-2 px-2">In Range</th>
+              <th className="text-right py-2 px-2">Fees</th>
+              <th className="text-right py-2 px-2">IL</th>
+              <th className="text-right py-2 px-2">Score</th>
+              <th className="py-2 px-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.ranked.slice(0, 10).map((c, index) => {
+              const isApplied = c.tickLower === tickLower && c.tickUpper === tickUpper;
+              return (
+                <tr key={`${c.tickLower}:${c.tickUpper}`} className="border-b border-gray-800 hover:bg-gray-800/30">
+                  <td className="py-2 px-2 text-gray-400">
+                    {index + 1}
+                    {c.isEfficient && <span className="ml-1 text-cetus-accent" title="On efficient frontier">★</span>}
+                  </td>
+                  <td className="py-2 px-2 text-right text-white">{c.priceLower.toFixed(4)} – {c.priceUpper.toFixed(4)}</td>
+                  <td className="py-2 px-2 text-right text-gray-300">{c.rangeWidthPercent.toFixed(1)}%</td>
+                  <td className="py-2 px-2 text-right text-gray-300">{(c.expectedTimeInRange * 100).toFixed(0)}%</td>
+                  <td className="py-2 px-2 text-right text-green-400">{c.expectedFees.toFixed(2)}</td>
+                  <td className="py-2 px-2 text-right text-red-400">{c.expectedIL.toFixed(2)}</td>
+                  <td className={`py-2 px-2 text-right font-medium ${c.score >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {c.score.toFixed(2)}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <button
+                      onClick={() => onApplyRange(c.tickLower, c.tickUpper)}
+                      disabled={isApplied}
+                      className="px-2 py-1 rounded bg-cetus-primary/30 hover:bg-cetus-primary text-xs text-white disabled:opacity-40"
+                    >
+                      {isApplied ? 'Applied' : 'Apply'}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RangeOptimizer;
@@ -0,0 +1,239 @@
+import React, { useState, useMemo } from 'react';
+import { simulateRangeOrder, RangeOrderSide } from '../utils/rangeOrder';
+
+interface RangeOrderPanelProps {
+  currentPrice: number;
+  tickSpacing: number;
+  decimalsA: number;
+  decimalsB: number;
+  feeRate: number;
+  annualVolatility: number;
+  horizonDays: number;
+  quotePriceUSD: number;
+  tokenASymbol: string;
+  tokenBSymbol: string;
+  onApply: (tickLower: number, tickUpper: number, amountA: number, amountB: number) => void;
+}
+
+const REACTION_OPTIONS = [0.25, 1, 4, 24]; // Hours until the filled order is withdrawn
+
+export const RangeOrderPanel: React.FC<RangeOrderPanelProps> = ({
+  currentPrice,
+  tickSpacing,
+  decimalsA,
+  decimalsB,
+  feeRate,
+  annualVolatility,
+  horizonDays,
+  quotePriceUSD,
+  tokenASymbol,
+  tokenBSymbol,
+  onApply,
+}) => {
+  const [side, setSide] = useState<RangeOrderSide>('sell');
+  const [targetPrice, setTargetPrice] = useState(() => parseFloat((currentPrice * 1.05).toPrecision(6)));
+  const [size, setSize] = useState(100);
+  const [reactionHours, setReactionHours] = useState(1);
+
+  const order = useMemo(() => {
+    if (targetPrice <= 0 || size <= 0) return null;
+    try {
+      return {
+        result: simulateRangeOrder({
+          currentPrice,
+          targetPrice,
+          side,
+          size,
+          tickSpacing,
+          decimalsA,
+          decimalsB,
+          feeRate,
+          annualVolatility,
+          horizonDays,
+          reactionHours,
+        }),
+        error: null,
+      };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'Range order simulation failed' };
+    }
+  }, [currentPrice, targetPrice, side, size, tickSpacing, decimalsA, decimalsB, feeRate, annualVolatility, horizonDays, reactionHours]);
+
+  const result = order?.result;
+  const inSymbol = side === 'sell' ? tokenASymbol : tokenBSymbol;
+  const outSymbol = side === 'sell' ? tokenBSymbol : tokenASymbol;
+
+  const handleSideChange = (next: RangeOrderSide) => {
+    setSide(next);
+    // Keep the target on the side that fills without adjusting
+    setTargetPrice(parseFloat((currentPrice * (next === 'sell' ? 1.05 : 0.95)).toPrecision(6)));
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+        </svg>
+        Range Order
+      </h3>
+      <p className="text-xs text-gray-400">
+        A one-tick-spacing position on one side of the price acts as a limit order: it converts entirely once
+        price crosses it, earning the swap fee instead of paying it.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Order</label>
+          <div className="flex gap-2">
+            {(['sell', 'buy'] as RangeOrderSide[]).map(s => (
+              <button
+                key={s}
+                onClick={() => handleSideChange(s)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm border transition-all ${
+                  side === s
+                    ? s === 'sell' ? 'bg-red-500/30 border-red-500 text-white' : 'bg-green-500/30 border-green-500 text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white'
+                }`}
+              >
+                {s === 'sell' ? 'Sell' : 'Buy'} {tokenASymbol}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Target Price</label>
+          <div className="relative">
+            <input
+              type="number"
+              value={targetPrice}
+              onChange={(e) => setTargetPrice(parseFloat(e.target.value) || 0)}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white focus:border-cetus-accent focus:outline-none transition-colors"
+              min="0"
+              step="0.0001"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-xs">
+              {tokenBSymbol}/{tokenASymbol}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">Spot {currentPrice.toFixed(6)}</p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Size</label>
+          <div className="relative">
+            <input
+              type="number"
+              value={size}
+              onChange={(e) => setSize(parseFloat(e.target.value) || 0)}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white focus:border-cetus-accent focus:outline-none transition-colors"
+              min="0"
+              step="0.1"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">{inSymbol}</span>
+          </div>
+        </div>
+      </div>
+
+      {order?.error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">{order.error}</div>
+      )}
+
+      {result && (
+        <>
+          {result.isTargetAdjusted && (
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+              A {side} order needs a range {side === 'sell' ? 'above' : 'below'} the current price — moved to the
+              nearest valid range. This fills almost immediately and is close to a market swap.
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Range</p>
+              <p className="text-lg font-bold text-white">
+                {result.priceLower.toFixed(6)} – {result.priceUpper.toFixed(6)}
+              </p>
+              <p className="text-xs text-gray-500">Ticks {result.tickLower} → {result.tickUpper}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Effective Price</p>
+              <p className="text-lg font-bold text-cetus-accent">{result.effectivePrice.toFixed(6)}</p>
+              <p className={`text-xs ${result.targetDiffPercent >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {result.targetDiffPercent >= 0 ? '+' : ''}{result.targetDiffPercent.toFixed(2)}% vs target
+              </p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">You Receive</p>
+              <p className="text-lg font-bold text-white">{result.filledAmount.toFixed(4)} {outSymbol}</p>
+              <p className="text-xs text-green-400">+{result.feesEarned.toFixed(4)} {outSymbol} fees</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Fill Chance ({horizonDays}d)</p>
+              <p className="text-lg font-bold text-white">{(result.fillProbability * 100).toFixed(1)}%</p>
+              <p className="text-xs text-gray-500">
+                Needs {result.triggerDistancePercent >= 0 ? '+' : ''}{result.triggerDistancePercent.toFixed(2)}% move
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-gray-800/50 rounded-lg p-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Average Execution</span>
+              <span className="text-white">{result.executionPrice.toFixed(6)} (√(Pa·Pb))</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Fees Earned While Crossing</span>
+              <span className="text-green-400">
+                {result.feesEarnedValue.toFixed(4)} {tokenBSymbol} (${(result.feesEarnedValue * quotePriceUSD).toFixed(2)})
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">vs. Swapping Now</span>
+              <span className={result.spotDiffPercent >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {result.spotDiffPercent >= 0 ? '+' : ''}{result.spotDiffPercent.toFixed(2)}% (before swap fees)
+              </span>
+            </div>
+          </div>
+
+          <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg space-y-2 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-white font-medium">Reversal Risk</span>
+              <div className="flex gap-1">
+                {REACTION_OPTIONS.map(hours => (
+                  <button
+                    key={hours}
+                    onClick={() => setReactionHours(hours)}
+                    className={`px-2 py-0.5 rounded text-xs ${
+                      reactionHours === hours ? 'bg-cetus-primary text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {hours < 1 ? `${hours * 60}m` : `${hours}h`}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-gray-300">
+              Until you withdraw, a retrace of {Math.abs(result.reversalRetracePercent).toFixed(2)}% back to{' '}
+              {result.reversalPrice.toFixed(6)} turns the position back into {inSymbol}.
+              Chance of a full reversal within {reactionHours < 1 ? `${reactionHours * 60} minutes` : `${reactionHours}h`} of
+              filling: <span className="text-red-400 font-medium">{(result.reversalProbability * 100).toFixed(1)}%</span>
+            </p>
+          </div>
+
+          <button
+            onClick={() => onApply(result.tickLower, result.tickUpper, result.depositA, result.depositB)}
+            className="w-full py-2 bg-cetus-primary/30 hover:bg-cetus-primary border border-cetus-primary rounded-lg text-sm text-white transition-all"
+          >
+            Use as Position
+          </button>
+        </>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Probabilities assume driftless log-normal moves at {(annualVolatility * 100).toFixed(0)}% annual volatility.
+      </p>
+    </div>
+  );
+};
+
+export default RangeOrderPanel;
@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { simulateRebalance, RebalanceScenario } from '../utils/clmmMath';
+import { RebalanceSettings } from '../services/scenarioStorage';
+import { toViewPrice, toViewRange, getViewTokens, getBoundTickSide, RangeBound } from '../utils/priceOrientation';
+import { usePriceOrientation } from '../contexts/PriceOrientationContext';
 
 interface RebalanceSimulatorProps {
   currentPrice: number;
@@ -9,8 +12,12 @@ interface RebalanceSimulatorProps {
   dailyVolume: number;
   feeRate: number;
   totalPoolTVL: number;
+  suiPriceUSD: number; // From the price oracle, 0 if unknown
   tokenASymbol: string;
   tokenBSymbol: string;
+  initialSettings?: RebalanceSettings; // Restored from a share link or preset
+  onSettingsChange?: (settings: RebalanceSettings) => void;
+  onResult?: (result: RebalanceScenario) => void;
 }
 
 export const RebalanceSimulator: React.FC<RebalanceSimulatorProps> = ({
@@ -21,17 +28,49 @@ export const RebalanceSimulator: React.FC<RebalanceSimulatorProps> = ({
   dailyVolume,
   feeRate,
   totalPoolTVL,
+  suiPriceUSD: oracleSuiPriceUSD,
+  tokenASymbol,
+  tokenBSymbol,
+  initialSettings,
+  onSettingsChange,
+  onResult,
 }) => {
-  const [newPriceLower, setNewPriceLower] = useState(currentPrice * 0.9);
-  const [newPriceUpper, setNewPriceUpper] = useState(currentPrice * 1.1);
-  const [gasCostSUI, setGasCostSUI] = useState(0.02);
-  const [suiPriceUSD, setSuiPriceUSD] = useState(currentPrice);
+  const [newPriceLower, setNewPriceLower] = useState(initialSettings?.newPriceLower ?? currentPrice * 0.9);
+  const [newPriceUpper, setNewPriceUpper] = useState(initialSettings?.newPriceUpper ?? currentPrice * 1.1);
+  const [gasCostSUI, setGasCostSUI] = useState(initialSettings?.gasCostSUI ?? 0.02);
+  const [suiPriceUSD, setSuiPriceUSD] = useState(oracleSuiPriceUSD); // 0 = not loaded yet
   const [result, setResult] = useState<RebalanceScenario | null>(null);
+  const { isInverted } = usePriceOrientation();
+
+  // Prices are entered in the chosen orientation; state and settings stay in pool orientation
+  const viewTokens = getViewTokens(tokenASymbol, tokenBSymbol, isInverted);
+  const viewPrice = toViewPrice(currentPrice, isInverted);
+  const viewCurrentRange = toViewRange(currentPriceLower, currentPriceUpper, isInverted);
+  const viewNewRange = toViewRange(newPriceLower, newPriceUpper, isInverted);
+  const formatInput = (price: number) => parseFloat(price.toPrecision(10));
+
+  const handleBoundChange = (viewBoundPrice: number, bound: RangeBound) => {
+    const poolPrice = toViewPrice(viewBoundPrice, isInverted);
+    (getBoundTickSide(bound, isInverted) === 'lower' ? setNewPriceLower : setNewPriceUpper)(poolPrice);
+  };
+
+  // Follow oracle updates; the field stays editable
+  useEffect(() => {
+    if (oracleSuiPriceUSD > 0) setSuiPriceUSD(oracleSuiPriceUSD);
+  }, [oracleSuiPriceUSD]);
+
+  useEffect(() => {
+    onSettingsChange?.({ newPriceLower, newPriceUpper, gasCostSUI });
+  }, [newPriceLower, newPriceUpper, gasCostSUI, onSettingsChange]);
 
   // Check if position is out of range
   const isOutOfRange = currentPrice < currentPriceLower || currentPrice > currentPriceUpper;
 
+  // Without a SUI price the gas cost would silently be free
+  const hasSuiPrice = suiPriceUSD > 0;
+
   const handleSimulate = () => {
+    if (!hasSuiPrice) return;
     const scenario = simulateRebalance(
       currentPrice,
       currentPriceLower,
@@ -46,13 +85,14 @@ export const RebalanceSimulator: React.FC<RebalanceSimulatorProps> = ({
       suiPriceUSD
     );
     setResult(scenario);
+    onResult?.(scenario);
   };
 
-  // Auto-center around current price
+  // Auto-center around current price (symmetric in the displayed orientation)
   const handleAutoCenter = (rangePercent: number) => {
-    const range = currentPrice * (rangePercent / 100);
-    setNewPriceLower(currentPrice - range);
-    setNewPriceUpper(currentPrice + range);
+    const range = viewPrice * (rangePercent / 100);
+    handleBoundChange(viewPrice - range, 'min');
+    handleBoundChange(viewPrice + range, 'max');
   };
 
   const getRecommendationColor = (rec: string) => {
@@ -90,11 +130,11 @@ export const RebalanceSimulator: React.FC<RebalanceSimulatorProps> = ({
         <div className="mt-2 grid grid-cols-3 gap-2 text-sm">
           <div>
             <span className="text-gray-500">Current Range:</span>
-            <span className="text-white ml-2">${currentPriceLower.toFixed(4)} - ${currentPriceUpper.toFixed(4)}</span>
+            <span className="text-white ml-2">{viewCurrentRange.min.toFixed(4)} - {viewCurrentRange.max.toFixed(4)} {viewTokens.quote}</span>
           </div>
           <div>
             <span className="text-gray-500">Current Price:</span>
-            <span className="text-white ml-2">${currentPrice.toFixed(4)}</span>
+            <span className="text-white ml-2">{viewPrice.toFixed(4)} {viewTokens.quote}/{viewTokens.base}</span>
           </div>
           <div>
             <span className="text-gray-500">Position Value:</span>
@@ -110,8 +150,8 @@ export const RebalanceSimulator: React.FC<RebalanceSimulatorProps> = ({
             <label className="text-sm text-gray-400">New Min Price</label>
             <input
               type="number"
-              value={newPriceLower}
-              onChange={(e) => setNewPriceLower(parseFloat(e.target.value) || 0)}
+              value={formatInput(viewNewRange.min)}
+              onChange={(e) => handleBoundChange(parseFloat(e.target.value) || 0, 'min')}
               className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-accent focus:outline-none"
               step="0.0001"
             />
@@ -120,8 +160,8 @@ export const RebalanceSimulator: React.FC<RebalanceSimulatorProps> = ({
             <label className="text-sm text-gray-400">New Max Price</label>
             <input
               type="number"
-              value={newPriceUpper}
-              onChange={(e) => setNewPriceUpper(parseFloat(e.target.value) || 0)}
+              value={formatInput(viewNewRange.max)}
+              onChange={(e) => handleBoundChange(parseFloat(e.target.value) || 0, 'max')}
               className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-cetus-accent focus:outline-none"
               step="0.0001"
             />
@@ -157,17 +197,23 @@ export const RebalanceSimulator: React.FC<RebalanceSimulatorProps> = ({
             <label className="text-sm text-gray-400">SUI Price (USD)</label>
             <input
               type="number"
-              value={suiPriceUSD}
-              onChange={(e) => setSuiPriceUSD(parseFloat(e.target.value) || 0)}
+              value={hasSuiPrice ? suiPriceUSD : ''}
+              onChange={(e) => setSuiPriceUSD(Math.max(0, parseFloat(e.target.value) || 0))}
+              placeholder="Enter SUI price"
               className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none"
+              min="0"
               step="0.01"
             />
+            {!hasSuiPrice && (
+              <p className="text-xs text-yellow-400">SUI price not loaded yet, enter it to price gas</p>
+            )}
           </div>
         </div>
 
         <button
           onClick={handleSimulate}
-          className="w-full py-3 bg-gradient-to-r from-orange-500 to-yellow-500 hover:from-orange-600 hover:to-yellow-600 text-white font-bold rounded-xl transition-all"
+          disabled={!hasSuiPrice}
+          className="w-full py-3 bg-gradient-to-r from-orange-500 to-yellow-500 hover:from-orange-600 hover:to-yellow-600 text-white font-bold rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
         >
           🔄 Simulate Rebalance
         </button>
@@ -0,0 +1,77 @@
+import React from 'react';
+import {
+  ReportInput,
+  ReportChart,
+  buildSimulationReport,
+  reportToJSON,
+  reportToCSV,
+  reportToHTML,
+} from '../utils/report';
+
+interface ReportExportProps {
+  input: ReportInput | null;      // Snapshot of the last simulation run
+  getCharts: () => ReportChart[]; // Charts currently on screen
+}
+
+const buttonClass = 'flex-1 py-2 px-3 bg-gray-800 hover:bg-cetus-primary/30 border border-gray-700 hover:border-cetus-primary rounded-lg text-sm text-gray-300 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed';
+
+function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export const ReportExport: React.FC<ReportExportProps> = ({ input, getCharts }) => {
+  const baseName = input
+    ? `liqsim-${input.pair.replace(/[^a-zA-Z0-9]+/g, '-')}-${new Date().toISOString().slice(0, 10)}`
+    : 'liqsim-report';
+
+  const exportAs = (format: 'json' | 'csv' | 'html') => {
+    if (!input) return;
+    const report = buildSimulationReport(input);
+
+    if (format === 'json') downloadFile(`${baseName}.json`, reportToJSON(report), 'application/json');
+    else if (format === 'csv') downloadFile(`${baseName}.csv`, reportToCSV(report), 'text/csv');
+    else downloadFile(`${baseName}.html`, reportToHTML(report, getCharts()), 'text/html');
+  };
+
+  // Print dialog doubles as "Save as PDF"
+  const handlePrint = () => {
+    if (!input) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    printWindow.document.write(reportToHTML(buildSimulationReport(input), getCharts()));
+    printWindow.document.close();
+    printWindow.onload = () => printWindow.print();
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-3">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        Export Report
+      </h3>
+
+      <div className="flex gap-2">
+        <button onClick={() => exportAs('json')} disabled={!input} className={buttonClass}>JSON</button>
+        <button onClick={() => exportAs('csv')} disabled={!input} className={buttonClass}>CSV</button>
+        <button onClick={() => exportAs('html')} disabled={!input} className={buttonClass}>HTML</button>
+        <button onClick={handlePrint} disabled={!input} className={buttonClass}>Print / PDF</button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {input
+          ? 'Includes results, IL curve, health, warnings and the last rebalance scenario.'
+          : 'Run a simulation to enable export.'}
+      </p>
+    </div>
+  );
+};
+
+export default ReportExport;
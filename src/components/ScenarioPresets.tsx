@@ -0,0 +1,143 @@
+import React, { useState, useRef } from 'react';
+import {
+  SimulationScenario,
+  ScenarioPreset,
+  loadPresets,
+  savePreset,
+  deletePreset,
+  exportPresets,
+  importPresets,
+  encodeScenarioToQuery,
+} from '../services/scenarioStorage';
+
+interface ScenarioPresetsProps {
+  scenario: SimulationScenario;
+  poolName: string;
+  onLoad: (scenario: SimulationScenario) => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none';
+
+export const ScenarioPresets: React.FC<ScenarioPresetsProps> = ({ scenario, poolName, onLoad }) => {
+  const [presets, setPresets] = useState<ScenarioPreset[]>(() => loadPresets());
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const notify = (text: string, isError = false) => setMessage({ text, isError });
+
+  const handleSave = () => {
+    try {
+      setPresets(savePreset(name || `${poolName} ${new Date().toLocaleString()}`, scenario));
+      setName('');
+      notify('Preset saved');
+    } catch (error) {
+      notify((error as Error).message, true);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}?${encodeScenarioToQuery(scenario)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      notify('Share link copied');
+    } catch {
+      notify('Clipboard unavailable, copy the URL from the address bar', true);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'liqsim-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const merged = importPresets(await file.text());
+      setPresets(merged);
+      notify(`Imported presets from ${file.name}`);
+    } catch (error) {
+      notify((error as Error).message, true);
+    }
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+          Scenarios
+        </h3>
+        <button
+          onClick={handleCopyLink}
+          className="px-3 py-1 bg-cetus-primary/30 hover:bg-cetus-primary border border-cetus-primary rounded-lg text-xs text-white transition-all"
+        >
+          🔗 Copy Link
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Preset name"
+          maxLength={60}
+          className={inputClass}
+        />
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-gray-800 hover:bg-cetus-primary/30 border border-gray-700 hover:border-cetus-primary rounded-lg text-sm text-gray-300 hover:text-white transition-all"
+        >
+          Save
+        </button>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {presets.map(preset => (
+            <div key={preset.name} className="flex items-center justify-between bg-gray-800/50 rounded-lg px-3 py-2 text-sm">
+              <button onClick={() => onLoad(preset.scenario)} className="text-left text-white hover:text-cetus-accent truncate">
+                {preset.name}
+              </button>
+              <button
+                onClick={() => setPresets(deletePreset(preset.name))}
+                className="ml-2 text-gray-500 hover:text-red-400 text-xs flex-shrink-0"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3 text-xs">
+        <button onClick={() => fileInputRef.current?.click()} className="text-cetus-accent hover:underline">
+          Import JSON
+        </button>
+        <button onClick={handleExport} disabled={presets.length === 0} className="text-cetus-accent hover:underline disabled:text-gray-600 disabled:no-underline">
+          Export JSON
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPresets;
@@ -1,29 +1,64 @@
 import React, { useMemo } from 'react';
 import { SimulationResult } from '../types';
-import { tickToPrice } from '../utils';
-import { ILCurvePoint, getILWarnings, calculatePositionHealth, CETUS_LP_FEE_SHARE } from '../utils/clmmMath';
+import {
+  tickToPriceWithDecimals,
+  getViewTokens,
+  toViewPrice,
+  toViewPriceChange,
+  toViewRange,
+  LiquidityShareResult,
+  MonteCarloResult,
+} from '../utils';
+import { usePriceOrientation } from '../contexts/PriceOrientationContext';
+import { ILCurvePoint, assessILCurve, CETUS_LP_FEE_SHARE } from '../utils/clmmMath';
 
 interface SimulationResultsProps {
   result: SimulationResult | null;
   clmmILData: ILCurvePoint[];
+  liquidityShare?: LiquidityShareResult | null;
+  monteCarlo?: MonteCarloResult | null;
   tokenASymbol: string;
   tokenBSymbol: string;
-  tickLower: number;
+  tickLower: number;       // On-chain ticks
   tickUpper: number;
-  currentPrice?: number;
+  decimalsA: number;
+  decimalsB: number;
+  currentPrice?: number;      // Pool price the simulation ran at
+  livePrice?: number;         // Latest pool price from the refresh subscription
+  autoRerun?: boolean;
+  onAutoRerunChange?: (autoRerun: boolean) => void;
+  onRerun?: () => void;
 }
 
 export const SimulationResults: React.FC<SimulationResultsProps> = ({
   result,
   clmmILData,
+  liquidityShare = null,
+  monteCarlo = null,
   tokenASymbol,
   tokenBSymbol,
   tickLower,
   tickUpper,
+  decimalsA,
+  decimalsB,
   currentPrice = 0,
+  livePrice,
+  autoRerun = false,
+  onAutoRerunChange,
+  onRerun,
 }) => {
-  const priceLower = useMemo(() => tickToPrice(tickLower), [tickLower]);
-  const priceUpper = useMemo(() => tickToPrice(tickUpper), [tickUpper]);
+  const { isInverted } = usePriceOrientation();
+  const priceLower = useMemo(() => tickToPriceWithDecimals(tickLower, decimalsA, decimalsB), [tickLower, decimalsA, decimalsB]);
+  const priceUpper = useMemo(() => tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB), [tickUpper, decimalsA, decimalsB]);
+  const viewTokens = getViewTokens(tokenASymbol, tokenBSymbol, isInverted);
+  const viewRange = toViewRange(priceLower, priceUpper, isInverted);
+  // Inverted, rows run in view price order (reverse pool order) and "below" becomes "above"
+  const ilRows = useMemo(() => {
+    const rows = clmmILData.filter((_, i) => i % 4 === 0 || clmmILData.length < 20);
+    return isInverted ? rows.reverse() : rows;
+  }, [clmmILData, isInverted]);
+  const toViewDirection = (direction: ILCurvePoint['outOfRangeDirection']) =>
+    !isInverted || direction === 'in-range' ? direction : direction === 'below' ? 'above' : 'below';
   
   // Calculate position health and IL warnings
   const { positionHealth, ilWarnings } = useMemo(() => {
@@ -31,34 +66,8 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({
       return { positionHealth: null, ilWarnings: [], currentIL: 0 };
     }
     
-    // Find current IL (at 0% price change)
-    const currentPoint = clmmILData.find(d => Math.abs(d.priceChange) < 1);
-    const currentIL = currentPoint?.ilPercentage || 0;
-    const isOutOfRange = currentPoint?.isOutOfRange || false;
-    const outOfRangeDirection = currentPoint?.outOfRangeDirection || 'in-range';
-    
-    const rangeWidth = (priceUpper - priceLower) / currentPrice;
-    
-    // Get IL warnings sesuai Cetus docs
-    const ilWarnings = getILWarnings(
-      currentIL,
-      isOutOfRange,
-      outOfRangeDirection,
-      rangeWidth,
-      result.estimatedAPY
-    );
-    
-    // Calculate position health
-    const positionHealth = calculatePositionHealth(
-      currentPrice,
-      priceLower,
-      priceUpper,
-      currentIL,
-      result.estimatedAPY,
-      30 // Assume 30 days in position
-    );
-    
-    return { positionHealth, ilWarnings, currentIL };
+    // IL warnings sesuai Cetus docs, assuming 30 days in position
+    return assessILCurve(clmmILData, currentPrice, priceLower, priceUpper, result.estimatedAPY, 30);
   }, [result, clmmILData, currentPrice, priceLower, priceUpper]);
 
   if (!result) {
@@ -94,8 +103,47 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({
     }
   };
 
+  // Move of the displayed price since the run
+  const priceMovePercent = livePrice !== undefined && currentPrice > 0
+    ? toViewPriceChange((livePrice / currentPrice - 1) * 100, isInverted)
+    : null;
+
   return (
     <div className="space-y-6">
+      {/* Live price vs simulated price */}
+      {priceMovePercent !== null && (
+        <div className={`flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border text-sm ${
+          Math.abs(priceMovePercent) >= 1
+            ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300'
+            : 'bg-gray-800/50 border-gray-700 text-gray-400'
+        }`}>
+          <span>
+            Price moved <strong>{priceMovePercent >= 0 ? '+' : ''}{priceMovePercent.toFixed(2)}%</strong> since simulation
+          </span>
+          <div className="flex items-center gap-3">
+            {onAutoRerunChange && (
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoRerun}
+                  onChange={(e) => onAutoRerunChange(e.target.checked)}
+                  className="accent-cetus-accent"
+                />
+                Auto re-run
+              </label>
+            )}
+            {onRerun && priceMovePercent !== 0 && (
+              <button
+                onClick={onRerun}
+                className="px-3 py-1 rounded-md text-xs bg-cetus-primary/30 border border-cetus-primary text-white hover:bg-cetus-primary/50 transition-all"
+              >
+                Re-run
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Position Health Score */}
       {positionHealth && (
         <div className="bg-cetus-card rounded-xl p-6 card-glow">
@@ -181,6 +229,11 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({
           <div className="bg-gray-800/50 rounded-lg p-4">
             <p className="text-gray-400 text-sm">Position Value</p>
             <p className="text-2xl font-bold text-white">${result.initialValueUSD.toFixed(2)}</p>
+            {(result.leftoverAmountA > result.depositedAmountA * 1e-6 || result.leftoverAmountB > result.depositedAmountB * 1e-6) && (
+              <p className="text-xs text-yellow-400">
+                Not deposited: {result.leftoverAmountA.toFixed(4)} {tokenASymbol} + {result.leftoverAmountB.toFixed(4)} {tokenBSymbol}
+              </p>
+            )}
           </div>
           
           <div className="bg-gray-800/50 rounded-lg p-4">
@@ -203,19 +256,89 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({
         </div>
       </div>
 
+      {/* Fee Share from tick-level liquidity */}
+      {liquidityShare && (
+        <div className="bg-cetus-card rounded-xl p-6 card-glow">
+          <h3 className="text-lg font-semibold text-white mb-4">Share of Active Liquidity</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">At Current Tick</p>
+              <p className="text-xl font-semibold text-cetus-accent">{(liquidityShare.currentShare * 100).toFixed(4)}%</p>
+              <p className="text-xs text-gray-500">{liquidityShare.isInRange ? 'Earning fees' : 'Out of range'}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Range Average</p>
+              <p className="text-xl font-semibold text-white">{(liquidityShare.averageShare * 100).toFixed(4)}%</p>
+              <p className="text-xs text-gray-500">{liquidityShare.ticks.length} liquidity segments</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Competing Liquidity</p>
+              <p className="text-xl font-semibold text-white">{liquidityShare.activeLiquidity.toExponential(2)}</p>
+              <p className="text-xs text-gray-500">Yours: {liquidityShare.positionLiquidity.toExponential(2)}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Monte Carlo Distribution */}
+      {monteCarlo && (
+        <div className="bg-cetus-card rounded-xl p-6 card-glow overflow-x-auto">
+          <h3 className="text-lg font-semibold text-white mb-1">Monte Carlo Outcomes</h3>
+          <p className="text-xs text-gray-400 mb-4">
+            {monteCarlo.paths} simulated price paths • Values in {tokenBSymbol}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="text-left py-2 px-2">Metric</th>
+                <th className="text-right py-2 px-2">P5</th>
+                <th className="text-right py-2 px-2">P50</th>
+                <th className="text-right py-2 px-2">P95</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[
+                { label: 'Final Value', stats: monteCarlo.finalValue, format: (v: number) => v.toFixed(2) },
+                { label: `${tokenASymbol} Price`, stats: monteCarlo.finalPrice, format: (v: number) => v.toFixed(6) },
+                { label: 'Impermanent Loss', stats: monteCarlo.ilPercentage, format: (v: number) => `${v.toFixed(2)}%` },
+                { label: 'Fees Earned', stats: monteCarlo.feesEarned, format: (v: number) => v.toFixed(4) },
+                { label: 'Time in Range', stats: monteCarlo.timeInRangePercent, format: (v: number) => `${v.toFixed(1)}%` },
+              ].map(row => (
+                <tr key={row.label} className="border-b border-gray-800">
+                  <td className="py-2 px-2 text-gray-300">{row.label}</td>
+                  <td className="py-2 px-2 text-right text-red-400">{row.format(row.stats.p5)}</td>
+                  <td className="py-2 px-2 text-right text-white">{row.format(row.stats.p50)}</td>
+                  <td className="py-2 px-2 text-right text-green-400">{row.format(row.stats.p95)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
+            <div className="bg-gray-800/50 rounded-lg p-3">
+              <p className="text-gray-400">Out of range at horizon</p>
+              <p className="text-white font-semibold">{(monteCarlo.probabilityOutOfRangeAtEnd * 100).toFixed(1)}%</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-3">
+              <p className="text-gray-400">Probability of loss</p>
+              <p className="text-white font-semibold">{(monteCarlo.probabilityLoss * 100).toFixed(1)}%</p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Price Range Summary */}
       <div className="bg-cetus-card rounded-xl p-6 card-glow">
         <h3 className="text-lg font-semibold text-white mb-4">Price Range</h3>
         <div className="grid grid-cols-2 gap-4">
           <div className="bg-gray-800/50 rounded-lg p-4">
             <p className="text-gray-400 text-sm">Min Price</p>
-            <p className="text-xl font-semibold text-white">{priceLower.toFixed(6)}</p>
-            <p className="text-xs text-gray-500">{tokenBSymbol}/{tokenASymbol}</p>
+            <p className="text-xl font-semibold text-white">{viewRange.min.toFixed(6)}</p>
+            <p className="text-xs text-gray-500">{viewTokens.quote}/{viewTokens.base}</p>
           </div>
           <div className="bg-gray-800/50 rounded-lg p-4">
             <p className="text-gray-400 text-sm">Max Price</p>
-            <p className="text-xl font-semibold text-white">{priceUpper.toFixed(6)}</p>
-            <p className="text-xs text-gray-500">{tokenBSymbol}/{tokenASymbol}</p>
+            <p className="text-xl font-semibold text-white">{viewRange.max.toFixed(6)}</p>
+            <p className="text-xs text-gray-500">{viewTokens.quote}/{viewTokens.base}</p>
           </div>
         </div>
       </div>
@@ -281,7 +404,7 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({
           <thead>
             <tr className="text-gray-400 border-b border-gray-700">
               <th className="text-left py-3 px-2">Price Change</th>
-              <th className="text-right py-3 px-2">New Price</th>
+              <th className="text-right py-3 px-2">New Price ({viewTokens.quote})</th>
               <th className="text-right py-3 px-2">Value if HODL</th>
               <th className="text-right py-3 px-2">Value in Pool</th>
               <th className="text-right py-3 px-2">IL (CLMM)</th>
@@ -289,47 +412,51 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({
             </tr>
           </thead>
           <tbody>
-            {clmmILData.filter((_, i) => i % 4 === 0 || clmmILData.length < 20).map((data, index) => (
-              <tr key={index} className={`border-b border-gray-800 hover:bg-gray-800/30 ${data.isOutOfRange ? 'bg-red-900/20' : ''}`}>
-                <td className={`py-3 px-2 ${data.priceChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                  {data.priceChange >= 0 ? '+' : ''}{data.priceChange.toFixed(0)}%
-                  {data.isOutOfRange && (
-                    <span 
-                      className="ml-1 text-xs text-red-400 cursor-help relative group"
-                      title={data.outOfRangeDirection === 'below' 
-                        ? 'OUT OF RANGE: Price below your range. Position holds 100% quote token. NO FEES earned!'
-                        : 'OUT OF RANGE: Price above your range. Position holds 100% base token. NO FEES earned!'
-                      }
-                    >
-                      ⚠️
-                      <span className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-gray-900 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50 shadow-lg border border-gray-700">
-                        {data.outOfRangeDirection === 'below' 
-                          ? '⚠️ OUT OF RANGE (Below)'
-                          : '⚠️ OUT OF RANGE (Above)'
+            {ilRows.map((data, index) => {
+              const priceChange = toViewPriceChange(data.priceChange, isInverted);
+              const direction = toViewDirection(data.outOfRangeDirection);
+              return (
+                <tr key={index} className={`border-b border-gray-800 hover:bg-gray-800/30 ${data.isOutOfRange ? 'bg-red-900/20' : ''}`}>
+                  <td className={`py-3 px-2 ${priceChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {priceChange >= 0 ? '+' : ''}{priceChange.toFixed(0)}%
+                    {data.isOutOfRange && (
+                      <span 
+                        className="ml-1 text-xs text-red-400 cursor-help relative group"
+                        title={direction === 'below' 
+                          ? 'OUT OF RANGE: Price below your range. Position holds 100% base token. NO FEES earned!'
+                          : 'OUT OF RANGE: Price above your range. Position holds 100% quote token. NO FEES earned!'
                         }
-                        <br/>
-                        <span className="text-red-400">Position earns NO FEES!</span>
+                      >
+                        ⚠️
+                        <span className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-gray-900 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50 shadow-lg border border-gray-700">
+                          {direction === 'below' 
+                            ? '⚠️ OUT OF RANGE (Below)'
+                            : '⚠️ OUT OF RANGE (Above)'
+                          }
+                          <br/>
+                          <span className="text-red-400">Position earns NO FEES!</span>
+                        </span>
                       </span>
-                    </span>
-                  )}
-                </td>
-                <td className="text-right py-3 px-2 text-white">
-                  ${data.targetPrice.toFixed(4)}
-                </td>
-                <td className="text-right py-3 px-2 text-gray-300">
-                  ${data.valueHold.toFixed(2)}
-                </td>
-                <td className="text-right py-3 px-2 text-gray-300">
-                  ${data.valuePool.toFixed(2)}
-                </td>
-                <td className={`text-right py-3 px-2 font-medium ${data.ilPercentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                  {data.ilPercentage >= 0 ? '+' : ''}{data.ilPercentage.toFixed(2)}%
-                </td>
-                <td className="text-right py-3 px-2 text-gray-500">
-                  {data.ilV2Percentage.toFixed(2)}%
-                </td>
-              </tr>
-            ))}
+                    )}
+                  </td>
+                  <td className="text-right py-3 px-2 text-white">
+                    {toViewPrice(data.targetPrice, isInverted).toFixed(4)}
+                  </td>
+                  <td className="text-right py-3 px-2 text-gray-300">
+                    ${data.valueHold.toFixed(2)}
+                  </td>
+                  <td className="text-right py-3 px-2 text-gray-300">
+                    ${data.valuePool.toFixed(2)}
+                  </td>
+                  <td className={`text-right py-3 px-2 font-medium ${data.ilPercentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {data.ilPercentage >= 0 ? '+' : ''}{data.ilPercentage.toFixed(2)}%
+                  </td>
+                  <td className="text-right py-3 px-2 text-gray-500">
+                    {data.ilV2Percentage.toFixed(2)}%
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
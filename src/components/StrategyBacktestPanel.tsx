@@ -0,0 +1,426 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { HistoricalData } from '../types';
+import { generatePricePaths, JumpDiffusionParams } from '../utils/monteCarlo';
+import {
+  runStrategyBacktest,
+  getDefaultRebalanceStrategies,
+  getStrategyLabel,
+  pricePathToHistory,
+  RebalanceStrategy,
+  RebalanceTrigger,
+  StrategyComparisonResult,
+} from '../utils/strategyBacktest';
+import { loadHistoricalFile } from '../services/historicalData';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+interface StrategyBacktestPanelProps {
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  feeRate: number;
+  dailyVolume: number;
+  defaultFeeShare: number;    // 0-1, e.g. measured share of active liquidity
+  gasCostSUI: number;         // Per transaction
+  suiPriceUSD: number;
+  quotePriceUSD: number;
+  annualVolatility: number;   // Simulated path settings (Monte Carlo panel)
+  annualDrift: number;
+  days: number;
+  jumps?: JumpDiffusionParams;
+  tokenBSymbol: string;
+}
+
+type PriceSource = 'simulated' | 'file';
+
+const MAX_STRATEGIES = 5;
+const STEPS_PER_DAY = 24;
+
+// Passive first, matching the BacktestPanel HODL/LP palette
+const STRATEGY_COLORS = [
+  'rgb(156, 163, 175)',
+  'rgb(0, 212, 170)',
+  'rgb(99, 102, 241)',
+  'rgb(234, 179, 8)',
+  'rgb(236, 72, 153)',
+  'rgb(59, 130, 246)',
+];
+
+const TRIGGER_OPTIONS: { type: RebalanceTrigger['type']; label: string; create: () => RebalanceTrigger }[] = [
+  { type: 'out-of-range', label: 'Out of range', create: () => ({ type: 'out-of-range' }) },
+  { type: 'edge', label: 'Near edge', create: () => ({ type: 'edge', threshold: 0.8 }) },
+  { type: 'interval', label: 'Every N days', create: () => ({ type: 'interval', days: 7 }) },
+];
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none';
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+export const StrategyBacktestPanel: React.FC<StrategyBacktestPanelProps> = ({
+  currentPrice,
+  priceLower,
+  priceUpper,
+  amountA,
+  amountB,
+  feeRate,
+  dailyVolume,
+  defaultFeeShare,
+  gasCostSUI,
+  suiPriceUSD,
+  quotePriceUSD,
+  annualVolatility,
+  annualDrift,
+  days,
+  jumps,
+  tokenBSymbol,
+}) => {
+  const [source, setSource] = useState<PriceSource>('simulated');
+  const [seed, setSeed] = useState(42);
+  const [history, setHistory] = useState<HistoricalData[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  // Follows the measured share until the user types their own
+  const [feeShareOverride, setFeeShareOverride] = useState<number | null>(null);
+  const feeSharePercent = feeShareOverride ?? defaultFeeShare * 100;
+  const [strategies, setStrategies] = useState<RebalanceStrategy[]>(() =>
+    getDefaultRebalanceStrategies(((priceUpper - priceLower) / 2 / currentPrice) * 100)
+  );
+
+  // Two transactions (remove + add), same as the single rebalance simulator
+  const gasCostPerRebalance = quotePriceUSD > 0 ? (gasCostSUI * 2 * suiPriceUSD) / quotePriceUSD : 0;
+
+  const series = useMemo(() => {
+    if (source === 'file') return history;
+    const [path] = generatePricePaths({
+      initialPrice: currentPrice,
+      annualVolatility,
+      annualDrift,
+      days,
+      stepsPerDay: STEPS_PER_DAY,
+      paths: 1,
+      jumps,
+      seed,
+    });
+    return pricePathToHistory(path, Date.now(), (24 * 60 * 60 * 1000) / STEPS_PER_DAY, dailyVolume);
+  }, [source, history, currentPrice, annualVolatility, annualDrift, days, jumps, seed, dailyVolume]);
+
+  const backtest = useMemo((): { result: StrategyComparisonResult | null; error: string | null } => {
+    if (series.length === 0) return { result: null, error: null };
+    try {
+      return {
+        result: runStrategyBacktest(series, {
+          priceLower,
+          priceUpper,
+          amountA,
+          amountB,
+          feeRate,
+          feeShare: feeSharePercent / 100,
+          gasCostPerRebalance,
+          strategies,
+        }),
+        error: null,
+      };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'Strategy backtest failed' };
+    }
+  }, [series, priceLower, priceUpper, amountA, amountB, feeRate, feeSharePercent, gasCostPerRebalance, strategies]);
+
+  const result = backtest.result;
+  const runs = useMemo(() => (result ? [result.passive, ...result.strategies] : []), [result]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const loaded = await loadHistoricalFile(file);
+      setHistory(loaded);
+      setFileName(file.name);
+      setFileError(null);
+    } catch (err) {
+      setHistory([]);
+      setFileError((err as Error).message);
+    }
+  };
+
+  const updateStrategy = (index: number, patch: Partial<Pick<RebalanceStrategy, 'trigger' | 'rangePercent'>>) => {
+    setStrategies(prev => prev.map((s, i) => {
+      if (i !== index) return s;
+      const next = { ...s, ...patch };
+      return { ...next, label: getStrategyLabel(next.trigger, next.rangePercent) };
+    }));
+  };
+
+  const addStrategy = () => {
+    const trigger: RebalanceTrigger = { type: 'out-of-range' };
+    const rangePercent = strategies[strategies.length - 1]?.rangePercent ?? 10;
+    setStrategies(prev => [
+      ...prev,
+      { id: `custom-${Date.now()}`, label: getStrategyLabel(trigger, rangePercent), trigger, rangePercent },
+    ]);
+  };
+
+  const chartData = useMemo(() => {
+    if (runs.length === 0) return null;
+    return {
+      labels: runs[0].points.map(p => new Date(p.timestamp).toLocaleDateString()),
+      datasets: runs.map((run, i) => ({
+        label: run.strategy.label,
+        data: run.points.map(p => p.netValue),
+        borderColor: STRATEGY_COLORS[i % STRATEGY_COLORS.length],
+        backgroundColor: 'transparent',
+        borderDash: i === 0 ? [5, 5] : undefined,
+        pointRadius: 0,
+        tension: 0.2,
+      })),
+    };
+  }, [runs]);
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: { position: 'top' as const, labels: { color: '#9ca3af', usePointStyle: true } },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'line'>) =>
+            `${context.dataset.label}: ${(context.parsed.y ?? 0).toFixed(2)} ${tokenBSymbol}`,
+        },
+      },
+    },
+    scales: {
+      x: { ticks: { color: '#9ca3af', maxTicksLimit: 8 }, grid: { color: 'rgba(75, 85, 99, 0.3)' } },
+      y: { ticks: { color: '#9ca3af' }, grid: { color: 'rgba(75, 85, 99, 0.3)' } },
+    },
+  };
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+        Rebalancing Strategy Backtest
+      </h3>
+
+      {/* Price source */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Price Path</label>
+          <div className="flex gap-1 bg-gray-800/50 rounded-lg p-1">
+            {(['simulated', 'file'] as PriceSource[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setSource(s)}
+                className={`flex-1 py-1 px-2 rounded-md text-sm transition-all ${
+                  source === s ? 'bg-cetus-primary text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {s === 'simulated' ? 'Simulated' : 'Historical'}
+              </button>
+            ))}
+          </div>
+          {source === 'simulated' ? (
+            <div className="flex justify-between items-center text-xs text-gray-500">
+              <span>{days}d at {(annualVolatility * 100).toFixed(0)}% vol, hourly</span>
+              <button onClick={() => setSeed(s => s + 1)} className="text-cetus-accent hover:underline">
+                New path
+              </button>
+            </div>
+          ) : (
+            <>
+              <input
+                type="file"
+                accept=".csv,.json"
+                onChange={handleFile}
+                className="w-full text-sm text-gray-300 file:mr-3 file:py-1 file:px-3 file:rounded-lg file:border-0 file:bg-cetus-primary/30 file:text-white"
+              />
+              <p className="text-xs text-gray-500">
+                {fileName ? `${fileName} • ${history.length} points` : 'Columns: timestamp, price, volume, fees'}
+              </p>
+            </>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Fee Share of Active Liquidity (%)</label>
+          <input
+            type="number"
+            value={feeSharePercent}
+            onChange={(e) => setFeeShareOverride(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+            min="0"
+            max="100"
+            step="0.001"
+          />
+          <p className="text-xs text-gray-500">Starting position; scales with liquidity after rebalancing</p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Gas per Rebalance</label>
+          <p className="text-white text-sm py-2">
+            {gasCostPerRebalance.toFixed(4)} {tokenBSymbol}
+          </p>
+          <p className="text-xs text-gray-500">{gasCostSUI} SUI × 2 tx, from the rebalancing simulator</p>
+        </div>
+      </div>
+
+      {/* Strategy editor */}
+      <div className="space-y-2">
+        <label className="text-sm text-gray-400">Strategies</label>
+        {strategies.map((strategy, index) => (
+          <div key={strategy.id} className="grid grid-cols-12 gap-2 items-center">
+            <span className="col-span-1 h-3 w-3 rounded-full" style={{ backgroundColor: STRATEGY_COLORS[(index + 1) % STRATEGY_COLORS.length] }} />
+            <select
+              value={strategy.trigger.type}
+              onChange={(e) => {
+                const option = TRIGGER_OPTIONS.find(o => o.type === e.target.value);
+                if (option) updateStrategy(index, { trigger: option.create() });
+              }}
+              className={`col-span-4 ${inputClass}`}
+            >
+              {TRIGGER_OPTIONS.map(o => (
+                <option key={o.type} value={o.type}>{o.label}</option>
+              ))}
+            </select>
+            <div className="col-span-3 relative">
+              {strategy.trigger.type === 'edge' && (
+                <>
+                  <input
+                    type="number"
+                    value={Math.round(strategy.trigger.threshold * 100)}
+                    onChange={(e) => updateStrategy(index, {
+                      trigger: { type: 'edge', threshold: Math.min(100, Math.max(1, parseFloat(e.target.value) || 0)) / 100 },
+                    })}
+                    className={inputClass}
+                    min="1"
+                    max="100"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-xs">% of range</span>
+                </>
+              )}
+              {strategy.trigger.type === 'interval' && (
+                <>
+                  <input
+                    type="number"
+                    value={strategy.trigger.days}
+                    onChange={(e) => updateStrategy(index, {
+                      trigger: { type: 'interval', days: Math.max(0.25, parseFloat(e.target.value) || 0) },
+                    })}
+                    className={inputClass}
+                    min="0.25"
+                    step="1"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-xs">days</span>
+                </>
+              )}
+            </div>
+            <div className="col-span-3 relative">
+              <input
+                type="number"
+                value={strategy.rangePercent}
+                onChange={(e) => updateStrategy(index, { rangePercent: Math.min(99, Math.max(0.1, parseFloat(e.target.value) || 0)) })}
+                className={inputClass}
+                min="0.1"
+                max="99"
+                step="1"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-xs">± %</span>
+            </div>
+            <button
+              onClick={() => setStrategies(prev => prev.filter((_, i) => i !== index))}
+              className="col-span-1 text-gray-500 hover:text-red-400"
+              title="Remove strategy"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {strategies.length < MAX_STRATEGIES && (
+          <button onClick={addStrategy} className="text-sm text-cetus-accent hover:underline">
+            + Add strategy
+          </button>
+        )}
+      </div>
+
+      {(fileError || backtest.error) && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+          {fileError ?? backtest.error}
+        </div>
+      )}
+
+      {result && chartData && (
+        <>
+          <div className="h-[320px]">
+            <Line data={chartData} options={options} />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="text-left py-2 px-2">Strategy</th>
+                  <th className="text-right py-2 px-2">Rebalances</th>
+                  <th className="text-right py-2 px-2">Fees</th>
+                  <th className="text-right py-2 px-2">Gas</th>
+                  <th className="text-right py-2 px-2">Swap Fees</th>
+                  <th className="text-right py-2 px-2">Realized IL</th>
+                  <th className="text-right py-2 px-2">In Range</th>
+                  <th className="text-right py-2 px-2">Net PnL</th>
+                  <th className="text-right py-2 px-2">vs Passive</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run, i) => (
+                  <tr
+                    key={run.strategy.id}
+                    className={`border-b border-gray-800 ${run === result.best ? 'bg-cetus-accent/10' : 'hover:bg-gray-800/30'}`}
+                  >
+                    <td className="py-2 px-2">
+                      <span className="inline-block h-2 w-2 rounded-full mr-2" style={{ backgroundColor: STRATEGY_COLORS[i % STRATEGY_COLORS.length] }} />
+                      <span className="text-white">{run.strategy.label}</span>
+                      {run === result.best && <span className="ml-2 text-xs text-cetus-accent">Best</span>}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-300">{run.rebalances.length}</td>
+                    <td className="py-2 px-2 text-right text-green-400">{run.totalFees.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-right text-gray-300">{run.totalGas.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-right text-gray-300">{run.totalSwapFees.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-right text-red-400">{run.totalRealizedIL.toFixed(2)}</td>
+                    <td className="py-2 px-2 text-right text-gray-300">{run.timeInRangePercent.toFixed(1)}%</td>
+                    <td className={`py-2 px-2 text-right ${run.netPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatSigned(run.netPnL)}
+                    </td>
+                    <td className={`py-2 px-2 text-right ${run.netPnLVsPassive >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {i === 0 ? '—' : formatSigned(run.netPnLVsPassive)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Values in {tokenBSymbol} over {result.durationDays.toFixed(1)} days, net of gas and swap fees. Realized IL is
+            locked in at each rebalance vs holding that leg's tokens; the open leg's IL is in the final value. Swaps to
+            re-ratio pay the pool fee but ignore price impact.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StrategyBacktestPanel;
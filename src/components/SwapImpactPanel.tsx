@@ -0,0 +1,160 @@
+import React, { useState, useMemo } from 'react';
+import BN from 'bn.js';
+import { PoolInfo } from '../services/cetusSdk';
+import {
+  TickLiquidity,
+  buildLiquidityDistribution,
+  getActiveLiquidityAtTick,
+  computeSwap,
+  calculatePriceImpact,
+  sqrtPriceX64ToTick,
+  clampSqrtPriceX64,
+  tickToSqrtPriceX64,
+  SwapResult,
+} from '../utils';
+
+interface SwapImpactPanelProps {
+  pool: PoolInfo;
+  ticks: TickLiquidity[];
+  priceLower: number;
+  priceUpper: number;
+}
+
+const toRawAmount = (amount: number, decimals: number): BN =>
+  new BN(BigInt(Math.floor(amount * Math.pow(10, decimals))).toString());
+
+const fromRawAmount = (amount: BN, decimals: number): number =>
+  parseFloat(amount.toString()) / Math.pow(10, decimals);
+
+export const SwapImpactPanel: React.FC<SwapImpactPanelProps> = ({ pool, ticks, priceLower, priceUpper }) => {
+  const [tradeSize, setTradeSize] = useState(1000);
+  const [sellTokenA, setSellTokenA] = useState(true);
+
+  const swap: { result: SwapResult; priceImpact: number } | null = useMemo(() => {
+    if (ticks.length === 0 || tradeSize <= 0) return null;
+
+    // Active liquidity is derived from the same tick set, so crossings stay consistent
+    const distribution = buildLiquidityDistribution(ticks);
+    const poolSqrtPrice = new BN(pool.currentSqrtPrice || '0');
+    const currentSqrtPrice = !poolSqrtPrice.isZero() && sqrtPriceX64ToTick(clampSqrtPriceX64(poolSqrtPrice)) === pool.currentTickIndex
+      ? poolSqrtPrice
+      : tickToSqrtPriceX64(pool.currentTickIndex);
+
+    try {
+      const result = computeSwap(
+        {
+          currentSqrtPrice,
+          currentTickIndex: pool.currentTickIndex,
+          liquidity: getActiveLiquidityAtTick(distribution, pool.currentTickIndex),
+          feeRate: Math.round(pool.feeRate * 1_000_000),
+          ticks,
+        },
+        toRawAmount(tradeSize, sellTokenA ? pool.coinDecimalsA : pool.coinDecimalsB),
+        sellTokenA,
+        true
+      );
+      return { result, priceImpact: calculatePriceImpact(result) };
+    } catch (err) {
+      console.warn('Swap simulation failed:', err);
+      return null;
+    }
+  }, [pool, ticks, tradeSize, sellTokenA]);
+
+  const priceAfter = swap ? pool.currentPrice * (1 + swap.priceImpact / 100) : pool.currentPrice;
+  const endsInRange = priceAfter >= priceLower && priceAfter <= priceUpper;
+  const inSymbol = sellTokenA ? pool.coinSymbolA : pool.coinSymbolB;
+  const outSymbol = sellTokenA ? pool.coinSymbolB : pool.coinSymbolA;
+
+  return (
+    <div className="bg-cetus-card rounded-xl p-6 card-glow space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <svg className="w-5 h-5 text-cetus-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+        </svg>
+        Swap Price Impact
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Trade Size ({inSymbol})</label>
+          <input
+            type="number"
+            value={tradeSize}
+            onChange={(e) => setTradeSize(parseFloat(e.target.value) || 0)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white text-sm focus:border-cetus-accent focus:outline-none"
+            min="0"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Direction</label>
+          <div className="flex gap-2">
+            {[true, false].map((aToB) => (
+              <button
+                key={String(aToB)}
+                onClick={() => setSellTokenA(aToB)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm border transition-all ${
+                  sellTokenA === aToB
+                    ? 'bg-cetus-primary border-cetus-primary text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white'
+                }`}
+              >
+                Sell {aToB ? pool.coinSymbolA : pool.coinSymbolB}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {swap ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Amount Out</p>
+              <p className="text-xl font-bold text-white">
+                {fromRawAmount(swap.result.amountOut, sellTokenA ? pool.coinDecimalsB : pool.coinDecimalsA).toFixed(4)}
+              </p>
+              <p className="text-xs text-gray-500">{outSymbol}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Price Impact</p>
+              <p className={`text-xl font-bold ${Math.abs(swap.priceImpact) < 1 ? 'text-green-400' : 'text-red-400'}`}>
+                {swap.priceImpact.toFixed(3)}%
+              </p>
+              <p className="text-xs text-gray-500">→ {priceAfter.toFixed(6)}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Swap Fee</p>
+              <p className="text-xl font-bold text-cetus-accent">
+                {fromRawAmount(swap.result.feeAmount, sellTokenA ? pool.coinDecimalsA : pool.coinDecimalsB).toFixed(4)}
+              </p>
+              <p className="text-xs text-gray-500">{inSymbol}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Ticks Crossed</p>
+              <p className="text-xl font-bold text-white">{swap.result.crossedTicks.length}</p>
+              <p className="text-xs text-gray-500">Tick {pool.currentTickIndex} → {swap.result.nextTickIndex}</p>
+            </div>
+          </div>
+
+          {swap.result.isExceed && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+              Not enough liquidity to fill the full trade — only {fromRawAmount(swap.result.amountIn.add(swap.result.feeAmount), sellTokenA ? pool.coinDecimalsA : pool.coinDecimalsB).toFixed(4)} {inSymbol} was swapped.
+            </div>
+          )}
+
+          <p className={`text-sm ${endsInRange ? 'text-green-400' : 'text-yellow-400'}`}>
+            {endsInRange
+              ? 'Price stays inside your range after this trade.'
+              : 'This trade pushes price outside your range — your position would stop earning fees.'}
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">
+          {ticks.length === 0 ? 'Loading tick liquidity…' : 'Enter a trade size to simulate.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SwapImpactPanel;
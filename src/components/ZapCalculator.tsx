@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import { calculateZap, ZapSwapQuoter, ZapToken } from '../utils/zap';
+
+interface ZapCalculatorProps {
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  tokenASymbol: string;
+  tokenBSymbol: string;
+  quotePriceUSD: number;
+  quoteSwap: ZapSwapQuoter;
+  isExactQuote: boolean; // Tick-level swap vs constant-product estimate
+  onApply: (amountA: number, amountB: number) => void;
+}
+
+export const ZapCalculator: React.FC<ZapCalculatorProps> = ({
+  currentPrice,
+  priceLower,
+  priceUpper,
+  tokenASymbol,
+  tokenBSymbol,
+  quotePriceUSD,
+  quoteSwap,
+  isExactQuote,
+  onApply,
+}) => {
+  const [tokenIn, setTokenIn] = useState<ZapToken>('B');
+  const [amount, setAmount] = useState(1000);
+  const [inUSD, setInUSD] = useState(false);
+
+  const inSymbol = tokenIn === 'A' ? tokenASymbol : tokenBSymbol;
+  const tokenPriceUSD = tokenIn === 'A' ? currentPrice * quotePriceUSD : quotePriceUSD;
+  const amountIn = inUSD ? (tokenPriceUSD > 0 ? amount / tokenPriceUSD : 0) : amount;
+
+  const zap = useMemo(() => {
+    if (amountIn <= 0) return null;
+    try {
+      return { result: calculateZap({ currentPrice, priceLower, priceUpper, tokenIn, amountIn, quoteSwap }), error: null };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'Zap calculation failed' };
+    }
+  }, [currentPrice, priceLower, priceUpper, tokenIn, amountIn, quoteSwap]);
+
+  const result = zap?.result;
+  const outSymbol = tokenIn === 'A' ? tokenBSymbol : tokenASymbol;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Deposit With</label>
+          <div className="flex gap-2">
+            {(['A', 'B'] as ZapToken[]).map(token => (
+              <button
+                key={token}
+                onClick={() => setTokenIn(token)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm border transition-all ${
+                  tokenIn === token
+                    ? 'bg-cetus-primary border-cetus-primary text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white'
+                }`}
+              >
+                {token === 'A' ? tokenASymbol : tokenBSymbol}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400 flex justify-between">
+            <span>Amount</span>
+            <button onClick={() => setInUSD(!inUSD)} className="text-xs text-cetus-accent hover:underline">
+              {inUSD ? `in ${inSymbol}` : 'in USD'}
+            </button>
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white focus:border-cetus-accent focus:outline-none transition-colors"
+              min="0"
+              step="0.1"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
+              {inUSD ? 'USD' : inSymbol}
+            </span>
+          </div>
+          {inUSD && <p className="text-xs text-gray-500">≈ {amountIn.toFixed(4)} {inSymbol}</p>}
+        </div>
+      </div>
+
+      {zap?.error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">{zap.error}</div>
+      )}
+
+      {result && (
+        <div className="bg-gray-800/50 rounded-lg p-4 space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-400">Swap</span>
+            <span className="text-white">
+              {result.swapAmountIn > 0
+                ? `${result.swapAmountIn.toFixed(4)} ${inSymbol} → ${result.swapAmountOut.toFixed(4)} ${outSymbol}`
+                : 'No swap needed'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Swap Fee</span>
+            <span className="text-white">{result.swapFee.toFixed(4)} {inSymbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Price Impact {isExactQuote ? '' : '(est.)'}</span>
+            <span className={Math.abs(result.priceImpact) < 1 ? 'text-green-400' : 'text-red-400'}>
+              {result.priceImpact.toFixed(3)}% → {result.priceAfter.toFixed(6)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Deposit</span>
+            <span className="text-white">
+              {result.depositA.toFixed(4)} {tokenASymbol} + {result.depositB.toFixed(4)} {tokenBSymbol}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Leftover</span>
+            <span className="text-gray-300">
+              {result.leftoverA.toFixed(6)} {tokenASymbol} + {result.leftoverB.toFixed(6)} {tokenBSymbol}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Zap Cost</span>
+            <span className="text-yellow-400">
+              {result.zapCost.toFixed(4)} {tokenBSymbol} ({result.inputValue > 0 ? ((result.zapCost / result.inputValue) * 100).toFixed(3) : '0'}%)
+            </span>
+          </div>
+          <button
+            onClick={() => onApply(result.depositA, result.depositB)}
+            className="w-full mt-2 py-2 bg-cetus-primary/30 hover:bg-cetus-primary border border-cetus-primary rounded-lg text-sm text-white transition-all"
+          >
+            Use Deposit Amounts
+          </button>
+        </div>
+      )}
+
+      {!isExactQuote && (
+        <p className="text-xs text-gray-500">
+          Tick liquidity not loaded — price impact estimated from TVL as a constant-product pool.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ZapCalculator;
@@ -6,3 +6,18 @@ export { Header } from './Header';
 export { PoolStats } from './PoolStats';
 export { CLMMILChart } from './CLMMILChart';
 export { RebalanceSimulator } from './RebalanceSimulator';
+export { BacktestPanel } from './BacktestPanel';
+export { MonteCarloSettings } from './MonteCarloSettings';
+export { RangeOptimizer } from './RangeOptimizer';
+export { SwapImpactPanel } from './SwapImpactPanel';
+export { PortfolioPanel } from './PortfolioPanel';
+export { PositionAnalysisPanel } from './PositionAnalysisPanel';
+export { ScenarioPresets } from './ScenarioPresets';
+export { ReportExport } from './ReportExport';
+export { RangeComparison } from './RangeComparison';
+export { FeeTierComparison } from './FeeTierComparison';
+export { ZapCalculator } from './ZapCalculator';
+export { RangeOrderPanel } from './RangeOrderPanel';
+export { StrategyBacktestPanel } from './StrategyBacktestPanel';
+export { HedgingPanel } from './HedgingPanel';
+export { GreeksPanel } from './GreeksPanel';
@@ -0,0 +1,48 @@
+/**
+ * Price Orientation Context
+ * Global choice of quoting prices as Token B per Token A (pool order) or inverted
+ */
+
+import React, { createContext, useContext, useState, useCallback } from 'react';
+
+interface PriceOrientationContextType {
+  isInverted: boolean;
+  setInverted: (isInverted: boolean) => void;
+  toggleOrientation: () => void;
+}
+
+const PriceOrientationContext = createContext<PriceOrientationContextType | null>(null);
+
+const STORAGE_KEY = 'price_orientation_inverted';
+
+export const PriceOrientationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [isInverted, setIsInverted] = useState(() => localStorage.getItem(STORAGE_KEY) === 'true');
+
+  const setInverted = useCallback((value: boolean) => {
+    setIsInverted(value);
+    localStorage.setItem(STORAGE_KEY, String(value));
+  }, []);
+
+  const toggleOrientation = useCallback(() => {
+    setIsInverted(prev => {
+      localStorage.setItem(STORAGE_KEY, String(!prev));
+      return !prev;
+    });
+  }, []);
+
+  return (
+    <PriceOrientationContext.Provider value={{ isInverted, setInverted, toggleOrientation }}>
+      {children}
+    </PriceOrientationContext.Provider>
+  );
+};
+
+export const usePriceOrientation = (): PriceOrientationContextType => {
+  const context = useContext(PriceOrientationContext);
+  if (!context) {
+    throw new Error('usePriceOrientation must be used within a PriceOrientationProvider');
+  }
+  return context;
+};
+
+export default PriceOrientationContext;
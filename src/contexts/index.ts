@@ -1 +1,2 @@
 export { WalletProvider, useWallet } from './WalletContext';
+export { PriceOrientationProvider, usePriceOrientation } from './PriceOrientationContext';
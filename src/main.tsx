@@ -3,11 +3,14 @@ import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
 import { WalletProvider } from './contexts/WalletContext';
+import { PriceOrientationProvider } from './contexts/PriceOrientationContext';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <WalletProvider>
-      <App />
+      <PriceOrientationProvider>
+        <App />
+      </PriceOrientationProvider>
     </WalletProvider>
   </StrictMode>
 );
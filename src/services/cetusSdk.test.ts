@@ -0,0 +1,390 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The real SDK bundle pulls in packages that are not needed here; every test injects its own
+vi.mock('@cetusprotocol/sui-clmm-sdk', () => ({
+  CetusClmmSDK: { createSDK: vi.fn(() => ({})) },
+}));
+
+import { PoolInfo } from '../types';
+import { priceToSqrtPriceX64, priceToTickWithDecimals, tickToPriceWithDecimals } from '../utils/tickMath';
+import {
+  createMockPoolStateTransport,
+  fetchPopularPoolsFast,
+  fetchUserPositions,
+  getPoolState,
+  PoolState,
+  PoolStateTransport,
+  PositionSdk,
+  subscribePoolState,
+} from './cetusSdk';
+
+const WALLET = `0x${'a'.repeat(64)}`;
+const SUI = '0x2::sui::SUI';
+const USDC = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC';
+const CETUS = '0x6864a6f921804860930db6ddbe2e16acdf8504495ea7481637a1c8b9a8fe54b::cetus::CETUS';
+
+function sdkPool(id: string, rewarders: string[] = []) {
+  return {
+    id,
+    coin_type_a: SUI,
+    coin_type_b: USDC,
+    current_sqrt_price: '18446744073709551616',
+    current_tick_index: 0,
+    tick_spacing: 60,
+    fee_rate: 2500,
+    liquidity: '1000000',
+    rewarder_infos: rewarders.map(coin_type => ({ coin_type })),
+  };
+}
+
+function sdkPosition(id: string, pool: string, lower: number, upper: number) {
+  return {
+    pos_object_id: id,
+    pool,
+    coin_type_a: SUI,
+    coin_type_b: USDC,
+    tick_lower_index: lower,
+    tick_upper_index: upper,
+    liquidity: '5000',
+  };
+}
+
+function mockSdk(overrides: {
+  positions?: unknown[] | Error;
+  pools?: Record<string, unknown>;
+  fees?: unknown[] | Error;
+  rewards?: unknown[] | Error;
+} = {}) {
+  const resolveOrReject = (value: unknown) => (value instanceof Error ? Promise.reject(value) : Promise.resolve(value));
+  const sdk = {
+    Position: {
+      getPositionList: vi.fn(() => resolveOrReject(overrides.positions ?? [])),
+      fetchPosFeeAmount: vi.fn(() => resolveOrReject(overrides.fees ?? [])),
+    },
+    Pool: {
+      getPool: vi.fn((id: string) => {
+        const pool = overrides.pools?.[id];
+        return pool ? Promise.resolve(pool) : Promise.reject(new Error(`No pool ${id}`));
+      }),
+    },
+    Rewarder: {
+      fetchPosRewardersAmount: vi.fn(() => resolveOrReject(overrides.rewards ?? [])),
+    },
+  };
+  return { sdk, positionSdk: sdk as unknown as PositionSdk };
+}
+
+describe('fetchUserPositions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns nothing for an invalid address without calling the SDK', async () => {
+    const { sdk, positionSdk } = mockSdk();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await fetchUserPositions('0x123', positionSdk)).toEqual([]);
+    expect(sdk.Position.getPositionList).not.toHaveBeenCalled();
+  });
+
+  it('returns nothing for an empty wallet', async () => {
+    const { sdk, positionSdk } = mockSdk({ positions: [] });
+
+    expect(await fetchUserPositions(WALLET, positionSdk)).toEqual([]);
+    expect(sdk.Pool.getPool).not.toHaveBeenCalled();
+  });
+
+  it('loads several positions with fees and rewards, fetching each pool once', async () => {
+    const { sdk, positionSdk } = mockSdk({
+      positions: [
+        sdkPosition('0xp1', '0xpool1', -600, 600),
+        sdkPosition('0xp2', '0xpool1', -120, 120),
+        sdkPosition('0xp3', '0xpool2', 60, 1200),
+      ],
+      pools: { '0xpool1': sdkPool('0xpool1', [CETUS]), '0xpool2': sdkPool('0xpool2') },
+      fees: [
+        { position_id: '0xp1', fee_owned_a: '11', fee_owned_b: '22' },
+        { position_id: '0xp3', fee_owned_a: '33', fee_owned_b: '44' },
+      ],
+      rewards: [
+        { position_id: '0xp2', rewarder_amounts: [{ coin_type: CETUS, amount_owned: 7 }] },
+      ],
+    });
+
+    const positions = await fetchUserPositions(WALLET, positionSdk);
+
+    expect(sdk.Pool.getPool).toHaveBeenCalledTimes(2);
+    expect(positions.map(p => p.positionId)).toEqual(['0xp1', '0xp2', '0xp3']);
+    expect(positions[0]).toMatchObject({ tickLowerIndex: -600, tickUpperIndex: 600, liquidity: '5000', feeOwedA: '11', feeOwedB: '22' });
+    expect(positions[1]).toMatchObject({ feeOwedA: '0', feeOwedB: '0' });
+    expect(positions[1].rewards).toEqual([{ coinType: CETUS, symbol: 'CETUS', decimals: 9, amountOwed: '7' }]);
+    expect(positions[2].pool).toMatchObject({ poolId: '0xpool2', coinSymbolA: 'SUI', tickSpacing: 60, feeRate: 0.0025 });
+
+    // Only positions in pools with rewarders ask for rewards
+    const rewardArgs = sdk.Rewarder.fetchPosRewardersAmount.mock.calls[0] as unknown as [{ position_id: string }[]];
+    expect(rewardArgs[0].map(p => p.position_id)).toEqual(['0xp1', '0xp2']);
+  });
+
+  it('drops positions whose pool cannot be loaded', async () => {
+    const { positionSdk } = mockSdk({
+      positions: [sdkPosition('0xp1', '0xpool1', -600, 600), sdkPosition('0xp2', '0xmissing', -60, 60)],
+      pools: { '0xpool1': sdkPool('0xpool1') },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const positions = await fetchUserPositions(WALLET, positionSdk);
+    expect(positions.map(p => p.positionId)).toEqual(['0xp1']);
+  });
+
+  it('refreshes a cached pool with the state it just fetched', async () => {
+    // Offline, the popular pools cache falls back to its bundled copies (SUI/USDC at 3.85)
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('offline'))));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const [cached] = await fetchPopularPoolsFast();
+    vi.unstubAllGlobals();
+
+    const { positionSdk } = mockSdk({
+      positions: [sdkPosition('0xp1', cached.poolId, -600, 600)],
+      pools: {
+        [cached.poolId]: {
+          ...sdkPool(cached.poolId),
+          current_sqrt_price: priceToSqrtPriceX64(2, 9, 6).toString(),
+          current_tick_index: priceToTickWithDecimals(2, 9, 6),
+          liquidity: '42',
+        },
+      },
+    });
+
+    const [position] = await fetchUserPositions(WALLET, positionSdk);
+    expect(position.pool).toMatchObject({
+      poolId: cached.poolId,
+      formattedName: cached.formattedName,
+      coinTypeB: cached.coinTypeB,
+      currentSqrtPrice: priceToSqrtPriceX64(2, 9, 6).toString(),
+      currentTickIndex: priceToTickWithDecimals(2, 9, 6),
+      liquidity: '42',
+    });
+    expect(position.pool.currentPrice).toBeCloseTo(2, 9);
+  });
+
+  it('still loads positions when fees or rewards fail', async () => {
+    const { positionSdk } = mockSdk({
+      positions: [sdkPosition('0xp1', '0xpool1', -600, 600)],
+      pools: { '0xpool1': sdkPool('0xpool1', [CETUS]) },
+      fees: new Error('fees down'),
+      rewards: new Error('rewards down'),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const [position] = await fetchUserPositions(WALLET, positionSdk);
+    expect(position).toMatchObject({ positionId: '0xp1', feeOwedA: '0', feeOwedB: '0', rewards: [] });
+  });
+
+  it('returns nothing when the position list fails', async () => {
+    const { positionSdk } = mockSdk({ positions: new Error('RPC unavailable') });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await fetchUserPositions(WALLET, positionSdk)).toEqual([]);
+    expect(error).toHaveBeenCalledWith('Failed to fetch user positions:', expect.any(Error));
+  });
+});
+
+// SUI/USDC at 2 USDC per SUI
+const SUI_USDC: PoolInfo = {
+  poolId: '0xsuiusdc',
+  coinTypeA: SUI,
+  coinTypeB: USDC,
+  coinSymbolA: 'SUI',
+  coinSymbolB: 'USDC',
+  coinDecimalsA: 9,
+  coinDecimalsB: 6,
+  currentSqrtPrice: priceToSqrtPriceX64(2, 9, 6).toString(),
+  currentPrice: 2,
+  currentTickIndex: priceToTickWithDecimals(2, 9, 6),
+  tickSpacing: 60,
+  feeRate: 0.0025,
+  liquidity: '1000000000',
+  formattedName: 'SUI/USDC',
+};
+
+describe('createMockPoolStateTransport', () => {
+  it('serves the pool as given until it is moved', async () => {
+    const transport = createMockPoolStateTransport();
+    const state = await transport.fetchPoolState(SUI_USDC);
+
+    expect(state).toMatchObject({
+      poolId: SUI_USDC.poolId,
+      currentSqrtPrice: SUI_USDC.currentSqrtPrice,
+      currentPrice: 2,
+      liquidity: SUI_USDC.liquidity,
+    });
+  });
+
+  it('keeps sqrt price, price and tick consistent when the price moves', async () => {
+    const transport = createMockPoolStateTransport();
+    await transport.fetchPoolState(SUI_USDC);
+
+    transport.movePrice(SUI_USDC.poolId, 10);
+    const state = await transport.fetchPoolState(SUI_USDC);
+
+    expect(state.currentPrice).toBeCloseTo(2.2, 9);
+    expect(state.currentSqrtPrice).toBe(priceToSqrtPriceX64(2.2, 9, 6).toString());
+    expect(tickToPriceWithDecimals(state.currentTickIndex, 9, 6)).toBeLessThanOrEqual(state.currentPrice);
+    expect(tickToPriceWithDecimals(state.currentTickIndex + 1, 9, 6)).toBeGreaterThan(state.currentPrice);
+  });
+
+  it('updates liquidity without touching the price', async () => {
+    const transport = createMockPoolStateTransport();
+    await transport.fetchPoolState(SUI_USDC);
+
+    transport.setLiquidity(SUI_USDC.poolId, '42');
+    const state = await transport.fetchPoolState(SUI_USDC);
+
+    expect(state.liquidity).toBe('42');
+    expect(state.currentSqrtPrice).toBe(SUI_USDC.currentSqrtPrice);
+  });
+
+  it('rejects unknown pools and invalid prices', async () => {
+    const transport = createMockPoolStateTransport();
+    expect(() => transport.setPrice(SUI_USDC.poolId, 3)).toThrow('has not been read');
+
+    await transport.fetchPoolState(SUI_USDC);
+    expect(() => transport.setPrice(SUI_USDC.poolId, 0)).toThrow('Price must be positive');
+    expect(() => transport.movePrice(SUI_USDC.poolId, -100)).toThrow('Price must be positive');
+  });
+});
+
+describe('subscribePoolState', () => {
+  const INTERVAL_MS = 1000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays quiet while the pool does not move', async () => {
+    const transport = createMockPoolStateTransport();
+    const onChange = vi.fn();
+    const subscription = subscribePoolState(SUI_USDC, onChange, { intervalMs: INTERVAL_MS, transport });
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS * 3);
+    expect(onChange).not.toHaveBeenCalled();
+    subscription.unsubscribe();
+  });
+
+  it('flags a price move with its percent change and the updated pool', async () => {
+    const transport = createMockPoolStateTransport();
+    const onChange = vi.fn();
+    const subscription = subscribePoolState(SUI_USDC, onChange, { intervalMs: INTERVAL_MS, transport });
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    transport.movePrice(SUI_USDC.poolId, -5);
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const [change] = onChange.mock.calls[0];
+    expect(change.priceChangePercent).toBeCloseTo(-5, 6);
+    expect(change.previous.currentPrice).toBe(2);
+    expect(change.pool.currentPrice).toBeCloseTo(1.9, 9);
+    expect(change.pool.currentTickIndex).toBe(change.current.currentTickIndex);
+    expect(change.pool.formattedName).toBe('SUI/USDC');
+
+    // The next change is measured from the last one, not from subscription
+    transport.movePrice(SUI_USDC.poolId, 10);
+    await subscription.refresh();
+    expect(onChange.mock.calls[1][0].priceChangePercent).toBeCloseTo(10, 6);
+    subscription.unsubscribe();
+  });
+
+  it('reports liquidity changes at an unchanged price', async () => {
+    const transport = createMockPoolStateTransport();
+    const onChange = vi.fn();
+    const subscription = subscribePoolState(SUI_USDC, onChange, { intervalMs: INTERVAL_MS, transport });
+
+    await subscription.refresh();
+    transport.setLiquidity(SUI_USDC.poolId, '2000000000');
+    await subscription.refresh();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0]).toMatchObject({ priceChangePercent: 0, pool: { liquidity: '2000000000' } });
+    subscription.unsubscribe();
+  });
+
+  it('stops polling after unsubscribe', async () => {
+    const transport = createMockPoolStateTransport();
+    const fetchPoolState = vi.spyOn(transport, 'fetchPoolState');
+    const onChange = vi.fn();
+    const subscription = subscribePoolState(SUI_USDC, onChange, { intervalMs: INTERVAL_MS, transport });
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(fetchPoolState).toHaveBeenCalledTimes(1);
+
+    subscription.unsubscribe();
+    transport.movePrice(SUI_USDC.poolId, 5);
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS * 5);
+    await subscription.refresh();
+
+    expect(fetchPoolState).toHaveBeenCalledTimes(1);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('drops a read that settles after unsubscribe', async () => {
+    let resolveRead: (state: PoolState) => void = () => {};
+    const transport: PoolStateTransport = {
+      fetchPoolState: () => new Promise(resolve => { resolveRead = resolve; }),
+    };
+    const onChange = vi.fn();
+    const subscription = subscribePoolState(SUI_USDC, onChange, { intervalMs: INTERVAL_MS, transport });
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    subscription.unsubscribe();
+    resolveRead({ poolId: SUI_USDC.poolId, currentSqrtPrice: '1', currentPrice: 1, currentTickIndex: 0, liquidity: '1', updatedAt: 0 });
+    await vi.runAllTimersAsync();
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('waits for a slow read before scheduling the next one', async () => {
+    const fetchPoolState = vi.fn((pool: PoolInfo) => new Promise<PoolState>(resolve => {
+      setTimeout(() => resolve(getPoolState(pool)), INTERVAL_MS * 3);
+    }));
+    const subscription = subscribePoolState(SUI_USDC, vi.fn(), { intervalMs: INTERVAL_MS, transport: { fetchPoolState } });
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(fetchPoolState).toHaveBeenCalledTimes(1);
+
+    // The read is still pending, so no second read starts
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS * 2);
+    expect(fetchPoolState).toHaveBeenCalledTimes(1);
+
+    // Read settles at 4 intervals, next poll fires one interval later
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(fetchPoolState).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(fetchPoolState).toHaveBeenCalledTimes(2);
+    subscription.unsubscribe();
+  });
+
+  it('reports failed reads and keeps polling', async () => {
+    const onError = vi.fn();
+    const fetchPoolState = vi.fn()
+      .mockRejectedValueOnce(new Error('RPC timeout'))
+      .mockResolvedValue({ ...getPoolState(SUI_USDC), currentPrice: 3, currentSqrtPrice: priceToSqrtPriceX64(3, 9, 6).toString() });
+    const onChange = vi.fn();
+    const subscription = subscribePoolState(SUI_USDC, onChange, { intervalMs: INTERVAL_MS, transport: { fetchPoolState }, onError });
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'RPC timeout' }));
+    expect(onChange).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0].priceChangePercent).toBeCloseTo(50, 6);
+    subscription.unsubscribe();
+  });
+});
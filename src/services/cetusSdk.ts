@@ -12,8 +12,20 @@
  * - https://api-sui.cetus.zone/v2/sui/stats_pools - Pre-cached pool data (FAST!)
  */
 
-import { CetusClmmSDK } from '@cetusprotocol/sui-clmm-sdk';
+import { CetusClmmSDK, Pool } from '@cetusprotocol/sui-clmm-sdk';
 import BN from 'bn.js';
+import { PoolInfo, PoolMarketStats } from '../types';
+import { TickLiquidity } from '../utils/liquidityDistribution';
+import {
+  MIN_TICK,
+  MAX_TICK,
+  clampSqrtPriceX64,
+  sqrtPriceX64ToTick,
+  decimalPriceFromSqrtPriceX64,
+  decimalPriceToNumber,
+  priceToSqrtPriceX64,
+} from '../utils/tickMath';
+import tickLiquidityFixture from '../fixtures/tickLiquidity.json';
 
 // Cetus API Base URL - for fast cached pool data
 const CETUS_API_URL = 'https://api-sui.cetus.zone/v2/sui/stats_pools';
@@ -31,23 +43,7 @@ export function getSDK(): CetusClmmSDK {
   return sdkInstance;
 }
 
-// Pool interface matching SDK response
-export interface PoolInfo {
-  poolId: string;
-  coinTypeA: string;
-  coinTypeB: string;
-  coinSymbolA: string;
-  coinSymbolB: string;
-  coinDecimalsA: number;
-  coinDecimalsB: number;
-  currentSqrtPrice: string;
-  currentPrice: number;
-  currentTickIndex: number;
-  tickSpacing: number;
-  feeRate: number;
-  liquidity: string;
-  formattedName: string;
-}
+export type { PoolInfo, PoolMarketStats, PoolStatsSource } from '../types';
 
 // Known coin symbols mapping
 const COIN_SYMBOLS: Record<string, { symbol: string; decimals: number }> = {
@@ -89,39 +85,26 @@ function getCoinInfo(coinType: string): { symbol: string; decimals: number } {
   return { symbol, decimals: 9 }; // Default to 9 decimals
 }
 
+// Parse an on-chain u128 sqrt price that may arrive as a string, number or BN
+function parseSqrtPriceX64(sqrtPriceX64: string | number | BN): BN | null {
+  if (BN.isBN(sqrtPriceX64)) return sqrtPriceX64;
+  const text = typeof sqrtPriceX64 === 'number'
+    ? (isFinite(sqrtPriceX64) && sqrtPriceX64 >= 0 ? BigInt(Math.floor(sqrtPriceX64)).toString() : '')
+    : sqrtPriceX64.trim();
+  return /^\d+$/.test(text) ? new BN(text) : null;
+}
+
 /**
  * Convert sqrtPriceX64 to actual price
- * sqrtPriceX64 = sqrt(price) * 2^64
- * price = (sqrtPriceX64 / 2^64)^2 * 10^(decimalsA - decimalsB)
+ * price = (sqrtPriceX64 / 2^64)^2 * 10^(decimalsA - decimalsB), in exact integer math
  */
 function sqrtPriceX64ToPrice(sqrtPriceX64: string | number | BN, decimalsA: number, decimalsB: number): number {
-  try {
-    let sqrtPriceNum: number;
-    
-    if (sqrtPriceX64 instanceof BN) {
-      sqrtPriceNum = parseFloat(sqrtPriceX64.toString());
-    } else if (typeof sqrtPriceX64 === 'string') {
-      sqrtPriceNum = parseFloat(sqrtPriceX64);
-    } else {
-      sqrtPriceNum = sqrtPriceX64;
-    }
-    
-    // 2^64 = 18446744073709551616
-    const Q64 = 18446744073709551616;
-    
-    // Calculate price: (sqrtPriceX64 / 2^64)^2
-    const sqrtPrice = sqrtPriceNum / Q64;
-    const rawPrice = sqrtPrice * sqrtPrice;
-    
-    // Adjust for decimals difference
-    const decimalsDiff = decimalsA - decimalsB;
-    const price = rawPrice * Math.pow(10, decimalsDiff);
-    
-    return price;
-  } catch (e) {
-    console.warn('Failed to convert sqrt price:', e);
+  const sqrtPrice = parseSqrtPriceX64(sqrtPriceX64);
+  if (!sqrtPrice) {
+    console.warn('Failed to convert sqrt price:', sqrtPriceX64);
     return 0;
   }
+  return decimalPriceToNumber(decimalPriceFromSqrtPriceX64(sqrtPrice, decimalsA, decimalsB));
 }
 
 // Popular pool IDs on Cetus Mainnet (exported for use in UI)
@@ -320,8 +303,14 @@ function parseApiPoolData(apiPool: CetusApiPool): PoolInfo | null {
     
     const price = parseFloat(apiPool.price);
     if (!isFinite(price) || price <= 0) return null;
+
+    const sqrtPrice = parseSqrtPriceX64(apiPool.object?.current_sqrt_price || 0);
     
     const feeRate = parseFloat(apiPool.fee) / 100; // Convert from percentage (e.g., "0.25" -> 0.0025)
+    const toUsd = (value: string) => {
+      const parsed = parseFloat(value);
+      return isFinite(parsed) && parsed > 0 ? parsed : 0;
+    };
     
     return {
       poolId: apiPool.address,
@@ -333,11 +322,19 @@ function parseApiPoolData(apiPool: CetusApiPool): PoolInfo | null {
       coinDecimalsB: coinB.decimals,
       currentSqrtPrice: String(apiPool.object?.current_sqrt_price || 0),
       currentPrice: price,
-      currentTickIndex: 0,
+      currentTickIndex: sqrtPrice && !sqrtPrice.isZero() ? sqrtPriceX64ToTick(clampSqrtPriceX64(sqrtPrice)) : 0,
       tickSpacing: parseInt(apiPool.tick_spacing) || 60,
       feeRate: feeRate,
       liquidity: String(apiPool.object?.liquidity || 0),
       formattedName: `${coinA.symbol}/${coinB.symbol}`,
+      stats: {
+        volume24h: toUsd(apiPool.vol_in_usd_24h),
+        tvl: toUsd(apiPool.pure_tvl_in_usd),
+        fees24h: toUsd(apiPool.fee_24_h),
+        apr: toUsd(apiPool.total_apr),
+        source: 'api',
+        updatedAt: Date.now(),
+      },
     };
   } catch (e) {
     console.warn('Failed to parse API pool:', apiPool?.address, e);
@@ -698,6 +695,53 @@ export function getPoolsCacheInfo(): {
   };
 }
 
+/**
+ * Convert an SDK pool object to PoolInfo
+ */
+function sdkPoolToPoolInfo(pool: Pool): PoolInfo {
+  const coinInfoA = getCoinInfo(pool.coin_type_a);
+  const coinInfoB = getCoinInfo(pool.coin_type_b);
+
+  const currentPrice = sqrtPriceX64ToPrice(
+    pool.current_sqrt_price,
+    coinInfoA.decimals,
+    coinInfoB.decimals
+  );
+
+  return {
+    poolId: pool.id,
+    coinTypeA: pool.coin_type_a,
+    coinTypeB: pool.coin_type_b,
+    coinSymbolA: coinInfoA.symbol,
+    coinSymbolB: coinInfoB.symbol,
+    coinDecimalsA: coinInfoA.decimals,
+    coinDecimalsB: coinInfoB.decimals,
+    currentSqrtPrice: String(pool.current_sqrt_price),
+    currentPrice: currentPrice,
+    currentTickIndex: Number(pool.current_tick_index),
+    tickSpacing: Number(pool.tick_spacing),
+    feeRate: Number(pool.fee_rate) / 1000000,
+    liquidity: String(pool.liquidity),
+    formattedName: `${coinInfoA.symbol}/${coinInfoB.symbol}`,
+    stats: apiPoolsCache.find(p => p.poolId === pool.id)?.stats,
+  };
+}
+
+/**
+ * Market stats entered by the user when the API has no figures for a pool
+ */
+export function createManualPoolStats(volume24h: number, tvl: number, feeRate: number): PoolMarketStats {
+  const fees24h = volume24h * feeRate;
+  return {
+    volume24h,
+    tvl,
+    fees24h,
+    apr: tvl > 0 ? (fees24h / tvl) * 365 * 100 : 0,
+    source: 'manual',
+    updatedAt: Date.now(),
+  };
+}
+
 /**
  * Fetch a single pool by ID (with validation)
  */
@@ -708,45 +752,289 @@ export async function fetchPoolById(poolId: string): Promise<PoolInfo | null> {
     return null;
   }
   
-  // Check cache first
-  const cached = poolsCache.find(p => p.poolId === poolId);
+  // Check cache first (API pools carry market stats)
+  const cached = apiPoolsCache.find(p => p.poolId === poolId) ?? poolsCache.find(p => p.poolId === poolId);
   if (cached) return cached;
   
   try {
     const sdk = getSDK();
     const pool = await sdk.Pool.getPool(poolId);
-    
-    const coinInfoA = getCoinInfo(pool.coin_type_a);
-    const coinInfoB = getCoinInfo(pool.coin_type_b);
-    
-    const currentPrice = sqrtPriceX64ToPrice(
-      pool.current_sqrt_price,
-      coinInfoA.decimals,
-      coinInfoB.decimals
-    );
-    
-    return {
-      poolId: pool.id,
-      coinTypeA: pool.coin_type_a,
-      coinTypeB: pool.coin_type_b,
-      coinSymbolA: coinInfoA.symbol,
-      coinSymbolB: coinInfoB.symbol,
-      coinDecimalsA: coinInfoA.decimals,
-      coinDecimalsB: coinInfoB.decimals,
-      currentSqrtPrice: String(pool.current_sqrt_price),
-      currentPrice: currentPrice,
-      currentTickIndex: Number(pool.current_tick_index),
-      tickSpacing: Number(pool.tick_spacing),
-      feeRate: Number(pool.fee_rate) / 1000000,
-      liquidity: String(pool.liquidity),
-      formattedName: `${coinInfoA.symbol}/${coinInfoB.symbol}`,
-    };
+    return sdkPoolToPoolInfo(pool);
   } catch (error) {
     console.error('Failed to fetch pool:', poolId, error);
     return null;
   }
 }
 
+// Tick liquidity cache per pool
+const tickLiquidityCache = new Map<string, TickLiquidity[]>();
+
+interface TickLiquidityFixturePool {
+  currentTickIndex: number;
+  tickSpacing: number;
+  ticks: TickLiquidity[];
+}
+
+/**
+ * Offline stand-in for tick data
+ * Fixture profiles are re-anchored to the pool's current tick so the shape of
+ * the book stays centered on price. Pools without a profile get a flat
+ * full-range book holding the pool's current liquidity.
+ */
+function getFixtureTickLiquidity(pool: PoolInfo): TickLiquidity[] {
+  const fixture = (tickLiquidityFixture.pools as Record<string, TickLiquidityFixturePool>)[pool.poolId];
+
+  if (!fixture) {
+    return [
+      { index: MIN_TICK, liquidityNet: pool.liquidity },
+      { index: MAX_TICK, liquidityNet: new BN(pool.liquidity).neg().toString() },
+    ];
+  }
+
+  const spacing = fixture.tickSpacing;
+  const shift = Math.round((pool.currentTickIndex - fixture.currentTickIndex) / spacing) * spacing;
+  return fixture.ticks.map(t => ({ index: t.index + shift, liquidityNet: t.liquidityNet }));
+}
+
+/**
+ * Fetch per-tick liquidity_net for a pool
+ * Priority: 1. Memory cache (skipped on forceRefresh) -> 2. SDK fetchTicks -> 3. Local JSON fixture
+ */
+export async function fetchTickLiquidity(pool: PoolInfo, forceRefresh: boolean = false): Promise<TickLiquidity[]> {
+  const cached = tickLiquidityCache.get(pool.poolId);
+  if (cached && !forceRefresh) return cached;
+
+  try {
+    const sdk = getSDK();
+    const ticks = await sdk.Pool.fetchTicks({
+      pool_id: pool.poolId,
+      coin_type_a: pool.coinTypeA,
+      coin_type_b: pool.coinTypeB,
+    });
+
+    if (ticks.length > 0) {
+      const parsed = ticks.map(t => ({ index: Number(t.index), liquidityNet: t.liquidity_net.toString() }));
+      tickLiquidityCache.set(pool.poolId, parsed);
+      return parsed;
+    }
+  } catch (error) {
+    console.warn(cached ? 'Tick refresh failed, keeping loaded ticks:' : 'Tick fetch failed, using fixture data:', error);
+  }
+
+  return cached ?? getFixtureTickLiquidity(pool);
+}
+
+// Pool state refresh
+export const POOL_STATE_POLL_INTERVAL_MS = 15_000;
+
+// The part of a pool that moves with trading
+export interface PoolState {
+  poolId: string;
+  currentSqrtPrice: string;
+  currentPrice: number;
+  currentTickIndex: number;
+  liquidity: string;
+  updatedAt: number;      // Unix ms when the state was read
+}
+
+export interface PoolStateChange {
+  pool: PoolInfo;         // Pool with the new state applied
+  previous: PoolState;
+  current: PoolState;
+  priceChangePercent: number;
+}
+
+// Where pool state is read from (injectable so refresh works offline with a mock)
+export interface PoolStateTransport {
+  fetchPoolState(pool: PoolInfo): Promise<PoolState>;
+}
+
+export interface PoolStateSubscription {
+  refresh(): Promise<void>;  // Read now instead of waiting for the next tick
+  unsubscribe(): void;
+}
+
+export interface PoolStateSubscriptionOptions {
+  intervalMs?: number;
+  transport?: PoolStateTransport;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Read a pool's state from a SDK pool object
+ */
+function sdkPoolToPoolState(pool: Pool, decimalsA: number, decimalsB: number): PoolState {
+  return {
+    poolId: pool.id,
+    currentSqrtPrice: String(pool.current_sqrt_price),
+    currentPrice: sqrtPriceX64ToPrice(pool.current_sqrt_price, decimalsA, decimalsB),
+    currentTickIndex: Number(pool.current_tick_index),
+    liquidity: String(pool.liquidity),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * State currently held by a PoolInfo
+ */
+export function getPoolState(pool: PoolInfo): PoolState {
+  return {
+    poolId: pool.poolId,
+    currentSqrtPrice: pool.currentSqrtPrice,
+    currentPrice: pool.currentPrice,
+    currentTickIndex: pool.currentTickIndex,
+    liquidity: pool.liquidity,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Copy of the pool with a newer state; metadata and market stats are kept
+ */
+export function applyPoolState(pool: PoolInfo, state: PoolState): PoolInfo {
+  return {
+    ...pool,
+    currentSqrtPrice: state.currentSqrtPrice,
+    currentPrice: state.currentPrice,
+    currentTickIndex: state.currentTickIndex,
+    liquidity: state.liquidity,
+  };
+}
+
+function isSamePoolState(a: PoolState, b: PoolState): boolean {
+  return a.currentSqrtPrice === b.currentSqrtPrice
+    && a.currentTickIndex === b.currentTickIndex
+    && a.liquidity === b.liquidity;
+}
+
+/**
+ * Mainnet transport: bypasses the SDK's pool cache on every read
+ */
+export const sdkPoolStateTransport: PoolStateTransport = {
+  async fetchPoolState(pool) {
+    const sdkPool = await getSDK().Pool.getPool(pool.poolId, true);
+    return sdkPoolToPoolState(sdkPool, pool.coinDecimalsA, pool.coinDecimalsB);
+  },
+};
+
+export interface MockPoolStateTransport extends PoolStateTransport {
+  setPrice(poolId: string, price: number): void;
+  movePrice(poolId: string, percent: number): void;
+  setLiquidity(poolId: string, liquidity: string): void;
+}
+
+/**
+ * Offline transport: pools keep their last state until moved by hand
+ */
+export function createMockPoolStateTransport(): MockPoolStateTransport {
+  const pools = new Map<string, { pool: PoolInfo; state: PoolState }>();
+
+  const getEntry = (poolId: string) => {
+    const entry = pools.get(poolId);
+    if (!entry) {
+      throw new Error(`Pool ${poolId} has not been read through the mock transport`);
+    }
+    return entry;
+  };
+
+  const setPrice = (poolId: string, price: number) => {
+    if (!(price > 0) || !isFinite(price)) {
+      throw new Error('Price must be positive');
+    }
+    const entry = getEntry(poolId);
+    const sqrtPrice = priceToSqrtPriceX64(price, entry.pool.coinDecimalsA, entry.pool.coinDecimalsB);
+    entry.state = {
+      ...entry.state,
+      currentSqrtPrice: sqrtPrice.toString(),
+      currentPrice: sqrtPriceX64ToPrice(sqrtPrice, entry.pool.coinDecimalsA, entry.pool.coinDecimalsB),
+      currentTickIndex: sqrtPriceX64ToTick(clampSqrtPriceX64(sqrtPrice)),
+    };
+  };
+
+  return {
+    async fetchPoolState(pool) {
+      if (!pools.has(pool.poolId)) {
+        pools.set(pool.poolId, { pool, state: getPoolState(pool) });
+      }
+      return { ...getEntry(pool.poolId).state, updatedAt: Date.now() };
+    },
+    setPrice,
+    movePrice(poolId, percent) {
+      setPrice(poolId, getEntry(poolId).state.currentPrice * (1 + percent / 100));
+    },
+    setLiquidity(poolId, liquidity) {
+      const entry = getEntry(poolId);
+      entry.state = { ...entry.state, liquidity };
+    },
+  };
+}
+
+/**
+ * Poll a pool's sqrt price, tick and liquidity, calling onChange when any of them moves
+ * Reads never overlap: the next poll is scheduled only once the previous read settles
+ */
+export function subscribePoolState(
+  pool: PoolInfo,
+  onChange: (change: PoolStateChange) => void,
+  options: PoolStateSubscriptionOptions = {}
+): PoolStateSubscription {
+  const {
+    intervalMs = POOL_STATE_POLL_INTERVAL_MS,
+    transport = sdkPoolStateTransport,
+    onError = (error: unknown) => console.warn('Pool state refresh failed:', error),
+  } = options;
+
+  let latest = getPoolState(pool);
+  let currentPool = pool;
+  let inFlight: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let isActive = true;
+
+  const refresh = (): Promise<void> => {
+    if (!isActive) return Promise.resolve();
+    if (inFlight) return inFlight;
+
+    inFlight = transport.fetchPoolState(currentPool)
+      .then(state => {
+        if (!isActive || isSamePoolState(latest, state)) return;
+        const previous = latest;
+        latest = state;
+        currentPool = applyPoolState(currentPool, state);
+        onChange({
+          pool: currentPool,
+          previous,
+          current: state,
+          priceChangePercent: previous.currentPrice > 0
+            ? (state.currentPrice / previous.currentPrice - 1) * 100
+            : 0,
+        });
+      })
+      .catch(error => {
+        if (isActive) onError(error);
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
+
+  const scheduleNext = () => {
+    if (!isActive) return;
+    timer = setTimeout(() => {
+      void refresh().then(scheduleNext);
+    }, intervalMs);
+  };
+  scheduleNext();
+
+  return {
+    refresh,
+    unsubscribe() {
+      isActive = false;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
 /**
  * Format price for display
  */
@@ -767,11 +1055,36 @@ function isValidWalletAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{64}$/.test(address);
 }
 
+// User position with on-chain liquidity, fees and rewards
+export interface UserPositionReward {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  amountOwed: string;     // Raw on-chain units
+}
+
+export interface UserPosition {
+  positionId: string;
+  pool: PoolInfo;
+  tickLowerIndex: number; // On-chain ticks
+  tickUpperIndex: number;
+  liquidity: string;
+  feeOwedA: string;       // Uncollected fees, raw on-chain units
+  feeOwedB: string;
+  rewards: UserPositionReward[];
+}
+
+// SDK modules used to load positions (injectable so callers can pass a mock)
+export type PositionSdk = Pick<CetusClmmSDK, 'Pool' | 'Position' | 'Rewarder'>;
+
 /**
  * Fetch user's liquidity positions
- * Returns pools where the user has active positions
+ * Returns each position with its range, liquidity, uncollected fees and rewards
  */
-export async function fetchUserPositions(walletAddress: string): Promise<PoolInfo[]> {
+export async function fetchUserPositions(
+  walletAddress: string,
+  sdk: PositionSdk = getSDK()
+): Promise<UserPosition[]> {
   // Validate wallet address format
   if (!isValidWalletAddress(walletAddress)) {
     console.error('Invalid wallet address format');
@@ -779,8 +1092,6 @@ export async function fetchUserPositions(walletAddress: string): Promise<PoolInf
   }
   
   try {
-    const sdk = getSDK();
-    
     // Fetch user's positions
     const positions = await sdk.Position.getPositionList(walletAddress);
     
@@ -788,21 +1099,83 @@ export async function fetchUserPositions(walletAddress: string): Promise<PoolInf
       return [];
     }
     
-    // Get unique pool IDs from positions
-    const poolIds = [...new Set(positions.map((p: any) => p.pool))];
-    
-    // Fetch pool data for each position
-    const poolPromises = poolIds.map(async (poolId: string) => {
+    // Fetch each pool once (rewarder types come from the SDK pool object)
+    const poolIds = [...new Set(positions.map(p => p.pool))];
+    const sdkPools = new Map<string, Pool>();
+    await Promise.all(poolIds.map(async (poolId) => {
       try {
-        return await fetchPoolById(poolId);
+        sdkPools.set(poolId, await sdk.Pool.getPool(poolId));
       } catch (e) {
         console.warn('Failed to fetch pool for position:', poolId, e);
-        return null;
       }
+    }));
+
+    // Positions whose pool could not be fetched are dropped
+    const owned = positions.flatMap(position => {
+      const pool = sdkPools.get(position.pool);
+      return pool ? [{ position, pool }] : [];
+    });
+    if (owned.length === 0) {
+      return [];
+    }
+
+    // Uncollected fees (non-fatal: positions still load without them)
+    const feesById = new Map<string, { a: string; b: string }>();
+    try {
+      const fees = await sdk.Position.fetchPosFeeAmount(owned.map(({ position: p }) => ({
+        pool_id: p.pool,
+        position_id: p.pos_object_id,
+        coin_type_a: p.coin_type_a,
+        coin_type_b: p.coin_type_b,
+      })));
+      fees.forEach(f => feesById.set(f.position_id, { a: f.fee_owned_a, b: f.fee_owned_b }));
+    } catch (e) {
+      console.warn('Failed to fetch position fees:', e);
+    }
+
+    // Pending rewards
+    const rewardsById = new Map<string, UserPositionReward[]>();
+    const withRewarders = owned.filter(({ pool }) => (pool.rewarder_infos ?? []).length > 0);
+    if (withRewarders.length > 0) {
+      try {
+        const rewards = await sdk.Rewarder.fetchPosRewardersAmount(withRewarders.map(({ position: p, pool }) => ({
+          pool_id: p.pool,
+          position_id: p.pos_object_id,
+          coin_type_a: p.coin_type_a,
+          coin_type_b: p.coin_type_b,
+          rewarder_types: pool.rewarder_infos.map((r: { coin_type: string }) => r.coin_type),
+        })));
+        rewards.forEach(r => rewardsById.set(r.position_id, r.rewarder_amounts.map(amount => {
+          const info = getCoinInfo(amount.coin_type);
+          return {
+            coinType: amount.coin_type,
+            symbol: info.symbol,
+            decimals: info.decimals,
+            amountOwed: String(amount.amount_owned),
+          };
+        })));
+      } catch (e) {
+        console.warn('Failed to fetch position rewards:', e);
+      }
+    }
+
+    return owned.map(({ position: p, pool: sdkPool }) => {
+      const fees = feesById.get(p.pos_object_id);
+      // The pool was just read, so its price and tick win over the cached copy's
+      const cached = poolsCache.find(c => c.poolId === p.pool);
+      return {
+        positionId: p.pos_object_id,
+        pool: cached
+          ? applyPoolState(cached, sdkPoolToPoolState(sdkPool, cached.coinDecimalsA, cached.coinDecimalsB))
+          : sdkPoolToPoolInfo(sdkPool),
+        tickLowerIndex: Number(p.tick_lower_index),
+        tickUpperIndex: Number(p.tick_upper_index),
+        liquidity: String(p.liquidity),
+        feeOwedA: fees?.a ?? '0',
+        feeOwedB: fees?.b ?? '0',
+        rewards: rewardsById.get(p.pos_object_id) ?? [],
+      };
     });
-    
-    const pools = await Promise.all(poolPromises);
-    return pools.filter((p): p is PoolInfo => p !== null);
   } catch (error) {
     console.error('Failed to fetch user positions:', error);
     return [];
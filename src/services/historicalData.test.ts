@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { loadHistoricalFile, parseHistoricalCSV, parseHistoricalJSON } from './historicalData';
+
+describe('parseHistoricalCSV', () => {
+  it('reads columns in any order and defaults missing volume and fees to 0', () => {
+    const csv = 'Price,Timestamp,fees\r\n2.5,1700000000,12\n\n2.6,1700003600,\n';
+    expect(parseHistoricalCSV(csv)).toEqual([
+      { timestamp: 1700000000000, price: 2.5, volume: 0, fees: 12 },
+      { timestamp: 1700003600000, price: 2.6, volume: 0, fees: 0 },
+    ]);
+  });
+
+  it('accepts millisecond and ISO timestamps', () => {
+    const csv = 'timestamp,price\n1700000000000,1\n2024-01-01T00:00:00Z,1';
+    expect(parseHistoricalCSV(csv).map(p => p.timestamp)).toEqual([1700000000000, Date.parse('2024-01-01T00:00:00Z')]);
+  });
+
+  it('names the row that fails', () => {
+    expect(() => parseHistoricalCSV('timestamp,price\n1700000000,2\nyesterday,2')).toThrow('CSV row 3: Invalid timestamp: yesterday');
+    expect(() => parseHistoricalCSV('timestamp,price\n1700000000,0')).toThrow('CSV row 2: Invalid price: 0');
+  });
+
+  it('requires a header with timestamp and price', () => {
+    expect(() => parseHistoricalCSV('timestamp,price')).toThrow('header row and at least one data row');
+    expect(() => parseHistoricalCSV('time,close\n1,2')).toThrow('"timestamp" and "price"');
+  });
+});
+
+describe('parseHistoricalJSON', () => {
+  it('reads a bare array or a { data } wrapper', () => {
+    const points = [{ timestamp: 1700000000, price: 2, volume: 1000 }];
+    const expected = [{ timestamp: 1700000000000, price: 2, volume: 1000, fees: 0 }];
+    expect(parseHistoricalJSON(JSON.stringify(points))).toEqual(expected);
+    expect(parseHistoricalJSON(JSON.stringify({ data: points }))).toEqual(expected);
+  });
+
+  it('rejects other shapes and names the failing item', () => {
+    expect(() => parseHistoricalJSON('{"points": []}')).toThrow('"data" array');
+    expect(() => parseHistoricalJSON('[{"timestamp": 1, "price": -1}]')).toThrow('JSON item 0: Invalid price: -1');
+  });
+});
+
+describe('loadHistoricalFile', () => {
+  it('picks the parser by extension and sorts by time', async () => {
+    const json = new File(['[{"timestamp": 20, "price": 2}, {"timestamp": 10, "price": 1}]'], 'series.JSON');
+    const csv = new File(['timestamp,price\n20,2\n10,1'], 'series.csv');
+
+    expect((await loadHistoricalFile(json)).map(p => p.price)).toEqual([1, 2]);
+    expect((await loadHistoricalFile(csv)).map(p => p.price)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Historical Data Loader
+ * Parses price/volume series from CSV or JSON so backtests can run offline
+ *
+ * CSV: header row with `timestamp,price[,volume][,fees]` (any column order)
+ * JSON: array of { timestamp, price, volume?, fees? } or { data: [...] }
+ *
+ * Timestamps may be unix seconds, unix milliseconds or ISO date strings.
+ */
+
+import { HistoricalData } from '../types';
+
+/**
+ * Normalize a timestamp to unix milliseconds
+ */
+function parseTimestamp(value: unknown): number {
+  if (typeof value === 'number') {
+    // Values below 1e12 are unix seconds
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      return parseTimestamp(parseFloat(trimmed));
+    }
+    const parsed = Date.parse(trimmed);
+    if (!isNaN(parsed)) return parsed;
+  }
+  throw new Error(`Invalid timestamp: ${String(value)}`);
+}
+
+function toNumber(value: unknown): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isFinite(num) ? num : 0;
+}
+
+function toHistoricalPoint(row: Record<string, unknown>): HistoricalData {
+  const price = toNumber(row.price);
+  if (price <= 0) {
+    throw new Error(`Invalid price: ${String(row.price)}`);
+  }
+  return {
+    timestamp: parseTimestamp(row.timestamp),
+    price,
+    volume: toNumber(row.volume),
+    fees: toNumber(row.fees),
+  };
+}
+
+/**
+ * Parse CSV text into a historical series
+ */
+export function parseHistoricalCSV(text: string): HistoricalData[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+  if (lines.length < 2) {
+    throw new Error('CSV must contain a header row and at least one data row');
+  }
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+  if (!header.includes('timestamp') || !header.includes('price')) {
+    throw new Error('CSV header must include "timestamp" and "price" columns');
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(',');
+    const row: Record<string, unknown> = {};
+    header.forEach((key, col) => {
+      row[key] = cells[col]?.trim();
+    });
+    try {
+      return toHistoricalPoint(row);
+    } catch (e) {
+      throw new Error(`CSV row ${i + 2}: ${(e as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Parse JSON text into a historical series
+ */
+export function parseHistoricalJSON(text: string): HistoricalData[] {
+  const parsed: unknown = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { data?: unknown })?.data;
+
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON must be an array of points or an object with a "data" array');
+  }
+
+  return rows.map((row, i) => {
+    try {
+      return toHistoricalPoint(row as Record<string, unknown>);
+    } catch (e) {
+      throw new Error(`JSON item ${i}: ${(e as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Load a historical series from a user-selected file (.csv or .json)
+ */
+export async function loadHistoricalFile(file: File): Promise<HistoricalData[]> {
+  const text = await file.text();
+  const series = file.name.toLowerCase().endsWith('.json')
+    ? parseHistoricalJSON(text)
+    : parseHistoricalCSV(text);
+
+  return series.sort((a, b) => a.timestamp - b.timestamp);
+}
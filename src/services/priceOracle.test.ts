@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PoolInfo } from '../types';
+import {
+  getTokenPriceUSD,
+  resolveTokenPriceUSD,
+  routeTokenPriceUSD,
+  setTokenPriceProvider,
+  SUI_COIN_TYPE,
+  TokenPriceProvider,
+} from './priceOracle';
+
+const USDC = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC';
+const CETUS = '0x6864a6f921804860930db6ddbe2e16acdf8504495ea7481637a1c8b9a8fe54b::cetus::CETUS';
+const UNKNOWN = `0x${'c'.repeat(64)}::unknown::UNKNOWN`;
+
+function pool(coinTypeA: string, coinSymbolA: string, coinTypeB: string, coinSymbolB: string, currentPrice: number, tvl = 1_000_000): PoolInfo {
+  return {
+    poolId: `${coinSymbolA}-${coinSymbolB}-${tvl}`,
+    coinTypeA,
+    coinTypeB,
+    coinSymbolA,
+    coinSymbolB,
+    coinDecimalsA: 9,
+    coinDecimalsB: 6,
+    currentSqrtPrice: '0',
+    currentPrice,
+    currentTickIndex: 0,
+    tickSpacing: 60,
+    feeRate: 0.0025,
+    liquidity: '1000000',
+    formattedName: `${coinSymbolA}/${coinSymbolB}`,
+    stats: { volume24h: 0, tvl, fees24h: 0, apr: 0, source: 'api', updatedAt: 0 },
+  };
+}
+
+// CETUS -> SUI -> USDC: 1 SUI = 2 USDC, 1 SUI = 10 CETUS
+const SUI_USDC = pool(SUI_COIN_TYPE, 'SUI', USDC, 'USDC', 2);
+const CETUS_SUI = pool(CETUS, 'CETUS', SUI_COIN_TYPE, 'SUI', 0.1);
+
+const provider = (getPriceUSD: TokenPriceProvider['getPriceUSD']): TokenPriceProvider => ({
+  name: 'test-api',
+  getPriceUSD: vi.fn(getPriceUSD),
+});
+
+describe('resolveTokenPriceUSD', () => {
+  it('pins stablecoins at $1, whatever the address padding', () => {
+    const padded = USDC.replace('0x', '0x000');
+    expect(resolveTokenPriceUSD(padded, [])).toMatchObject({ priceUSD: 1, source: 'stable', route: [] });
+  });
+
+  it('routes through pools to a stablecoin before using the fixture', () => {
+    const price = resolveTokenPriceUSD(CETUS, [SUI_USDC, CETUS_SUI]);
+    expect(price).toMatchObject({ source: 'pools', route: ['CETUS', 'SUI', 'USDC'] });
+    expect(price!.priceUSD).toBeCloseTo(0.2, 12);
+  });
+
+  it('stops at a stablecoin written with a padded address', () => {
+    const padded = pool(SUI_COIN_TYPE, 'SUI', USDC.replace('0x', '0x00'), 'USDC', 2);
+    expect(routeTokenPriceUSD(SUI_COIN_TYPE, [padded])).toMatchObject({ priceUSD: 2, route: ['SUI', 'USDC'] });
+  });
+
+  it('prefers the deeper pool when routes are equally short', () => {
+    const shallow = pool(SUI_COIN_TYPE, 'SUI', USDC, 'USDC', 1.5, 10_000);
+    expect(resolveTokenPriceUSD(SUI_COIN_TYPE, [shallow, SUI_USDC])!.priceUSD).toBe(2);
+  });
+
+  it('falls back to the synthetic fixture without a route', () => {
+    expect(resolveTokenPriceUSD(CETUS, [SUI_USDC])).toMatchObject({ priceUSD: 0.25, source: 'fixture', route: ['CETUS'] });
+  });
+
+  it('returns null when nothing prices the token', () => {
+    expect(resolveTokenPriceUSD(UNKNOWN, [SUI_USDC, CETUS_SUI])).toBeNull();
+  });
+});
+
+describe('getTokenPriceUSD', () => {
+  afterEach(() => {
+    setTokenPriceProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('asks the provider first and caches its answer', async () => {
+    const api = provider(async () => 3.5);
+    setTokenPriceProvider(api);
+
+    const first = await getTokenPriceUSD(SUI_COIN_TYPE, [SUI_USDC]);
+    const second = await getTokenPriceUSD(SUI_COIN_TYPE, [SUI_USDC]);
+
+    expect(first).toMatchObject({ priceUSD: 3.5, source: 'provider', route: ['test-api'] });
+    expect(second).toBe(first);
+    expect(api.getPriceUSD).toHaveBeenCalledTimes(1);
+  });
+
+  it('never asks the provider about stablecoins', async () => {
+    const api = provider(async () => 0.99);
+    setTokenPriceProvider(api);
+
+    expect(await getTokenPriceUSD(USDC, [])).toMatchObject({ priceUSD: 1, source: 'stable' });
+    expect(api.getPriceUSD).not.toHaveBeenCalled();
+  });
+
+  it('routes through pools when the provider has no price or fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    setTokenPriceProvider(provider(async () => null));
+    expect(await getTokenPriceUSD(SUI_COIN_TYPE, [SUI_USDC])).toMatchObject({ priceUSD: 2, source: 'pools' });
+
+    setTokenPriceProvider(provider(async () => { throw new Error('rate limited'); }));
+    expect(await getTokenPriceUSD(SUI_COIN_TYPE, [SUI_USDC])).toMatchObject({ priceUSD: 2, source: 'pools' });
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it('returns null when no source knows the token', async () => {
+    setTokenPriceProvider(provider(async () => null));
+    expect(await getTokenPriceUSD(UNKNOWN, [])).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Token USD Price Oracle
+ *
+ * Resolves a USD price for any coin type:
+ * 1. Stablecoins are pinned at $1
+ * 2. A pluggable provider (e.g. a price API), if one is registered
+ * 3. Routing through known pools to a stablecoin (deepest pools first)
+ * 4. Synthetic fixture prices for offline use (placeholders, not market data)
+ *
+ * Pool routing uses each pool's current price (Token B per Token A):
+ * price(A) = P × price(B), price(B) = price(A) / P
+ */
+
+import { PoolInfo } from './cetusSdk';
+import tokenPricesFixture from '../fixtures/tokenPrices.json';
+
+export type TokenPriceSource = 'stable' | 'provider' | 'pools' | 'fixture';
+
+export interface TokenPrice {
+  coinType: string;
+  priceUSD: number;
+  source: TokenPriceSource;
+  route: string[];     // Symbols hopped through, e.g. ['CETUS', 'SUI', 'USDC']
+  updatedAt: number;
+}
+
+export interface TokenPriceProvider {
+  name: string;
+  getPriceUSD(coinType: string): Promise<number | null>;
+}
+
+export const SUI_COIN_TYPE = '0x2::sui::SUI';
+
+// Stablecoins used as routing anchors
+const STABLE_COIN_TYPES = new Set([
+  '0x5d4b302506645c37ff133b98c4b50a5ae14841659738d6d733d59d0d217a93bf::coin::COIN', // USDC (Wormhole)
+  '0xc060006111016b8a020ad5b33834984a437aaa7d3c74c18e09a95d48aceab08c::coin::COIN', // USDT (Wormhole)
+  '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC', // USDC (native)
+]);
+
+const MAX_ROUTE_HOPS = 3;
+const PROVIDER_CACHE_DURATION = 2 * 60 * 1000; // Same as API pool cache
+
+let priceProvider: TokenPriceProvider | null = null;
+const providerCache = new Map<string, TokenPrice>();
+
+/**
+ * Normalize coin type addresses so 0x2::sui::SUI and 0x000…002::sui::SUI match
+ */
+function normalizeCoinType(coinType: string): string {
+  const [address, ...rest] = coinType.split('::');
+  const hex = address.toLowerCase().replace(/^0x0*/, '');
+  return [`0x${hex || '0'}`, ...rest].join('::');
+}
+
+const isStable = (coinType: string) => STABLE_COIN_TYPES.has(normalizeCoinType(coinType));
+
+/**
+ * Register a price provider (pass null to remove it)
+ */
+export function setTokenPriceProvider(provider: TokenPriceProvider | null): void {
+  priceProvider = provider;
+  providerCache.clear();
+}
+
+/**
+ * Price a token by walking pools until a stablecoin is reached
+ * Breadth-first, so the shortest route wins; ties go to the deeper pool.
+ */
+export function routeTokenPriceUSD(coinType: string, pools: PoolInfo[]): TokenPrice | null {
+  const start = normalizeCoinType(coinType);
+  const ranked = pools
+    .filter(p => p.currentPrice > 0 && isFinite(p.currentPrice))
+    .sort((a, b) => (b.stats?.tvl ?? 0) - (a.stats?.tvl ?? 0) || parseFloat(b.liquidity) - parseFloat(a.liquidity));
+
+  // priceInNode = price of the start token in units of `node`
+  const startSymbol = ranked.find(p => normalizeCoinType(p.coinTypeA) === start)?.coinSymbolA
+    ?? ranked.find(p => normalizeCoinType(p.coinTypeB) === start)?.coinSymbolB
+    ?? start.split('::').pop()
+    ?? start;
+  let frontier = [{ node: start, priceInNode: 1, route: [startSymbol] }];
+  const visited = new Set([start]);
+
+  for (let hop = 0; hop < MAX_ROUTE_HOPS && frontier.length > 0; hop++) {
+    const next: typeof frontier = [];
+
+    for (const { node, priceInNode, route } of frontier) {
+      for (const pool of ranked) {
+        const typeA = normalizeCoinType(pool.coinTypeA);
+        const typeB = normalizeCoinType(pool.coinTypeB);
+
+        let other: string;
+        let otherSymbol: string;
+        let priceInOther: number;
+        if (typeA === node) {
+          other = typeB;
+          otherSymbol = pool.coinSymbolB;
+          priceInOther = priceInNode * pool.currentPrice;
+        } else if (typeB === node) {
+          other = typeA;
+          otherSymbol = pool.coinSymbolA;
+          priceInOther = priceInNode / pool.currentPrice;
+        } else {
+          continue;
+        }
+
+        if (visited.has(other)) continue;
+        visited.add(other);
+
+        if (isStable(other)) {
+          return {
+            coinType,
+            priceUSD: priceInOther,
+            source: 'pools',
+            route: [...route, otherSymbol],
+            updatedAt: Date.now(),
+          };
+        }
+        next.push({ node: other, priceInNode: priceInOther, route: [...route, otherSymbol] });
+      }
+    }
+
+    frontier = next;
+  }
+
+  return null;
+}
+
+/**
+ * Offline synthetic price
+ */
+function getFixturePrice(coinType: string): TokenPrice | null {
+  const prices = tokenPricesFixture.prices as Record<string, { symbol: string; priceUSD: number }>;
+  const target = normalizeCoinType(coinType);
+  const entry = Object.entries(prices).find(([type]) => normalizeCoinType(type) === target);
+  if (!entry) return null;
+
+  return {
+    coinType,
+    priceUSD: entry[1].priceUSD,
+    source: 'fixture',
+    route: [entry[1].symbol],
+    updatedAt: new Date(tokenPricesFixture.asOf).getTime(),
+  };
+}
+
+/**
+ * Resolve a USD price without the async provider
+ * Priority: 1. Stablecoin -> 2. Pool routing -> 3. Fixture
+ */
+export function resolveTokenPriceUSD(coinType: string, pools: PoolInfo[]): TokenPrice | null {
+  if (isStable(coinType)) {
+    return { coinType, priceUSD: 1, source: 'stable', route: [], updatedAt: Date.now() };
+  }
+  return routeTokenPriceUSD(coinType, pools) ?? getFixturePrice(coinType);
+}
+
+/**
+ * Get the USD price of a token
+ * Priority: 1. Stablecoin -> 2. Provider (cached) -> 3. Pool routing -> 4. Fixture
+ */
+export async function getTokenPriceUSD(coinType: string, pools: PoolInfo[]): Promise<TokenPrice | null> {
+  if (priceProvider && !isStable(coinType)) {
+    const cached = providerCache.get(coinType);
+    if (cached && Date.now() - cached.updatedAt < PROVIDER_CACHE_DURATION) return cached;
+
+    try {
+      const priceUSD = await priceProvider.getPriceUSD(coinType);
+      if (priceUSD !== null && isFinite(priceUSD) && priceUSD > 0) {
+        const price: TokenPrice = { coinType, priceUSD, source: 'provider', route: [priceProvider.name], updatedAt: Date.now() };
+        providerCache.set(coinType, price);
+        return price;
+      }
+    } catch (error) {
+      console.warn(`Price provider ${priceProvider.name} failed, routing through pools:`, error);
+    }
+  }
+
+  return resolveTokenPriceUSD(coinType, pools);
+}
@@ -0,0 +1,219 @@
+/**
+ * Scenario persistence
+ * - Share links: simulation inputs encoded in the URL query string
+ * - Presets: named scenarios in localStorage, importable/exportable as JSON
+ */
+
+import { MIN_TICK, MAX_TICK } from '../utils/tickMath';
+
+export type SimulatorTab = 'simulation' | 'compare' | 'fees' | 'orders' | 'hedge' | 'rebalance' | 'backtest' | 'optimizer' | 'portfolio';
+
+export const SIMULATOR_TABS: SimulatorTab[] = ['simulation', 'compare', 'fees', 'orders', 'hedge', 'rebalance', 'backtest', 'optimizer', 'portfolio'];
+
+export interface CurveRange {
+  min: number; // Price change %, e.g. -80
+  max: number;
+}
+
+export interface RebalanceSettings {
+  newPriceLower: number;
+  newPriceUpper: number;
+  gasCostSUI: number;
+}
+
+export interface SimulationScenario {
+  poolId: string;
+  amountA: number;
+  amountB: number;
+  tickLower: number;
+  tickUpper: number;
+  activeTab: SimulatorTab;
+  curveRange: CurveRange;
+  rebalance?: RebalanceSettings;
+}
+
+export interface ScenarioPreset {
+  name: string;
+  savedAt: number;
+  scenario: SimulationScenario;
+}
+
+export const DEFAULT_CURVE_RANGE: CurveRange = { min: -80, max: 200 };
+
+const PRESETS_STORAGE_KEY = 'liqsim_presets';
+const PRESETS_EXPORT_VERSION = 1;
+
+// Short query keys keep share links readable
+const URL_KEYS = {
+  poolId: 'pool',
+  amountA: 'a',
+  amountB: 'b',
+  tickLower: 'tl',
+  tickUpper: 'tu',
+  activeTab: 'tab',
+  curveMin: 'cmin',
+  curveMax: 'cmax',
+  newPriceLower: 'rl',
+  newPriceUpper: 'ru',
+  gasCostSUI: 'gas',
+} as const;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isPoolId = (value: unknown): value is string => typeof value === 'string' && /^0x[a-fA-F0-9]{64}$/.test(value);
+
+function isRebalanceSettings(value: unknown): value is RebalanceSettings {
+  const r = value as RebalanceSettings;
+  return !!r && isFiniteNumber(r.newPriceLower) && isFiniteNumber(r.newPriceUpper) && isFiniteNumber(r.gasCostSUI);
+}
+
+/**
+ * Validate untrusted scenario data (URL, localStorage or an imported file)
+ */
+export function isSimulationScenario(value: unknown): value is SimulationScenario {
+  const s = value as SimulationScenario;
+  return (
+    !!s &&
+    isPoolId(s.poolId) &&
+    isFiniteNumber(s.amountA) && s.amountA >= 0 &&
+    isFiniteNumber(s.amountB) && s.amountB >= 0 &&
+    Number.isInteger(s.tickLower) && s.tickLower >= MIN_TICK &&
+    Number.isInteger(s.tickUpper) && s.tickUpper <= MAX_TICK &&
+    s.tickLower < s.tickUpper &&
+    SIMULATOR_TABS.includes(s.activeTab) &&
+    !!s.curveRange && isFiniteNumber(s.curveRange.min) && isFiniteNumber(s.curveRange.max) &&
+    s.curveRange.min < s.curveRange.max &&
+    (s.rebalance === undefined || isRebalanceSettings(s.rebalance))
+  );
+}
+
+/**
+ * Encode a scenario as a URL query string (without the leading '?')
+ */
+export function encodeScenarioToQuery(scenario: SimulationScenario): string {
+  const params = new URLSearchParams({
+    [URL_KEYS.poolId]: scenario.poolId,
+    [URL_KEYS.amountA]: String(scenario.amountA),
+    [URL_KEYS.amountB]: String(scenario.amountB),
+    [URL_KEYS.tickLower]: String(scenario.tickLower),
+    [URL_KEYS.tickUpper]: String(scenario.tickUpper),
+    [URL_KEYS.activeTab]: scenario.activeTab,
+    [URL_KEYS.curveMin]: String(scenario.curveRange.min),
+    [URL_KEYS.curveMax]: String(scenario.curveRange.max),
+  });
+
+  if (scenario.rebalance) {
+    params.set(URL_KEYS.newPriceLower, String(scenario.rebalance.newPriceLower));
+    params.set(URL_KEYS.newPriceUpper, String(scenario.rebalance.newPriceUpper));
+    params.set(URL_KEYS.gasCostSUI, String(scenario.rebalance.gasCostSUI));
+  }
+
+  return params.toString();
+}
+
+/**
+ * Decode a scenario from a URL query string, null if absent or invalid
+ */
+export function decodeScenarioFromQuery(query: string): SimulationScenario | null {
+  const params = new URLSearchParams(query);
+  if (!params.has(URL_KEYS.poolId)) return null;
+
+  const num = (key: string) => {
+    const raw = params.get(key);
+    return raw === null || raw === '' ? NaN : Number(raw);
+  };
+
+  const rebalance = {
+    newPriceLower: num(URL_KEYS.newPriceLower),
+    newPriceUpper: num(URL_KEYS.newPriceUpper),
+    gasCostSUI: num(URL_KEYS.gasCostSUI),
+  };
+
+  const scenario = {
+    poolId: params.get(URL_KEYS.poolId),
+    amountA: num(URL_KEYS.amountA),
+    amountB: num(URL_KEYS.amountB),
+    tickLower: num(URL_KEYS.tickLower),
+    tickUpper: num(URL_KEYS.tickUpper),
+    activeTab: params.get(URL_KEYS.activeTab) ?? 'simulation',
+    curveRange: {
+      min: params.has(URL_KEYS.curveMin) ? num(URL_KEYS.curveMin) : DEFAULT_CURVE_RANGE.min,
+      max: params.has(URL_KEYS.curveMax) ? num(URL_KEYS.curveMax) : DEFAULT_CURVE_RANGE.max,
+    },
+    rebalance: isRebalanceSettings(rebalance) ? rebalance : undefined,
+  };
+
+  return isSimulationScenario(scenario) ? scenario : null;
+}
+
+/**
+ * Load saved presets (invalid entries are dropped)
+ */
+export function loadPresets(): ScenarioPreset[] {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isScenarioPreset) : [];
+  } catch (error) {
+    console.warn('Failed to read presets:', error);
+    return [];
+  }
+}
+
+function isScenarioPreset(value: unknown): value is ScenarioPreset {
+  const p = value as ScenarioPreset;
+  return !!p && typeof p.name === 'string' && p.name.trim().length > 0 && isSimulationScenario(p.scenario);
+}
+
+function storePresets(presets: ScenarioPreset[]): void {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+}
+
+/**
+ * Save a preset, replacing any preset with the same name
+ */
+export function savePreset(name: string, scenario: SimulationScenario): ScenarioPreset[] {
+  const trimmed = name.trim().slice(0, 60);
+  if (!trimmed) throw new Error('Preset name is required');
+
+  const presets = [
+    ...loadPresets().filter(p => p.name !== trimmed),
+    { name: trimmed, savedAt: Date.now(), scenario },
+  ];
+  storePresets(presets);
+  return presets;
+}
+
+export function deletePreset(name: string): ScenarioPreset[] {
+  const presets = loadPresets().filter(p => p.name !== name);
+  storePresets(presets);
+  return presets;
+}
+
+/**
+ * Serialize presets for download
+ */
+export function exportPresets(presets: ScenarioPreset[]): string {
+  return JSON.stringify({ version: PRESETS_EXPORT_VERSION, presets }, null, 2);
+}
+
+/**
+ * Merge presets from an exported file (same-name presets are overwritten)
+ * Returns the merged list; throws if the file has no valid presets.
+ */
+export function importPresets(json: string): ScenarioPreset[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+  const imported = Array.isArray(entries) ? entries.filter(isScenarioPreset) : [];
+  if (imported.length === 0) throw new Error('No valid presets found in file');
+
+  const names = new Set(imported.map(p => p.name));
+  const presets = [...loadPresets().filter(p => !names.has(p.name)), ...imported];
+  storePresets(presets);
+  return presets;
+}
@@ -1,17 +1,35 @@
 import BN from 'bn.js';
 
-// Pool info dari Cetus
+// Where a pool's market stats came from
+export type PoolStatsSource = 'api' | 'manual';
+
+// 24h market stats (USD) - only the REST API reports these, SDK pools have none
+export interface PoolMarketStats {
+  volume24h: number;
+  tvl: number;
+  fees24h: number;
+  apr: number;             // Total APR in %, as reported by the API
+  source: PoolStatsSource;
+  updatedAt: number;       // Unix ms when the figures were fetched or entered
+}
+
+// Pool info dari Cetus (REST API, SDK or cache), the one pool shape used across the app
 export interface PoolInfo {
   poolId: string;
-  tokenA: TokenInfo;
-  tokenB: TokenInfo;
-  currentSqrtPrice: BN;
+  coinTypeA: string;
+  coinTypeB: string;
+  coinSymbolA: string;
+  coinSymbolB: string;
+  coinDecimalsA: number;
+  coinDecimalsB: number;
+  currentSqrtPrice: string;
   currentPrice: number;
-  liquidity: BN;
+  currentTickIndex: number;
   tickSpacing: number;
   feeRate: number;
-  volume24h: number;
-  tvl: number;
+  liquidity: string;
+  formattedName: string;
+  stats?: PoolMarketStats;
 }
 
 export interface TokenInfo {
@@ -34,7 +52,11 @@ export interface SimulationInput {
 
 export interface SimulationResult {
   liquidity: BN;
-  initialValueUSD: number;
+  initialValueUSD: number;       // Value of the deposited amounts only
+  depositedAmountA: number;      // Input that fits the range ratio (human units)
+  depositedAmountB: number;
+  leftoverAmountA: number;       // Input left in the wallet
+  leftoverAmountB: number;
   ilByPriceChange: ILDataPoint[];
   estimatedAPY: number;
   dailyFees: number;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { HistoricalData } from '../types';
+import { runBacktest } from './backtest';
+import { CETUS_LP_FEE_SHARE, getAmountsForLiquidity, getLiquidityFromAmounts } from './clmmMath';
+
+const DAY = 24 * 60 * 60 * 1000;
+const CONFIG = { priceLower: 1.5, priceUpper: 2.5, amountA: 100, amountB: 200, feeRate: 0.0025, feeShare: 0.01 };
+
+const series = (prices: number[], volume = 1_000_000): HistoricalData[] =>
+  prices.map((price, day) => ({ timestamp: day * DAY, price, volume, fees: 0 }));
+
+describe('runBacktest', () => {
+  it('earns fees only for in-range steps after the entry', () => {
+    const result = runBacktest(series([2, 2.2, 3, 1.8]), CONFIG);
+    const stepFees = 1_000_000 * 0.0025 * 0.01 * CETUS_LP_FEE_SHARE;
+
+    expect(result.points.map(p => p.feesEarned)).toEqual([0, stepFees, 0, stepFees]);
+    expect(result.totalFees).toBeCloseTo(2 * stepFees, 12);
+    expect(result.timeInRangePercent).toBe(75);
+  });
+
+  it('prefers recorded pool fees over volume × fee rate', () => {
+    const history = series([2, 2]);
+    history[1].fees = 400;
+    const result = runBacktest(history, CONFIG);
+    expect(result.totalFees).toBeCloseTo(400 * 0.01 * CETUS_LP_FEE_SHARE, 12);
+  });
+
+  it('values the position from the liquidity minted at entry, against holding the deposit', () => {
+    const result = runBacktest(series([2, 3]), CONFIG);
+    const L = getLiquidityFromAmounts(Math.sqrt(2), Math.sqrt(1.5), Math.sqrt(2.5), 100, 200);
+    const deposit = getAmountsForLiquidity(Math.sqrt(2), Math.sqrt(1.5), Math.sqrt(2.5), L);
+    const exit = getAmountsForLiquidity(Math.sqrt(3), Math.sqrt(1.5), Math.sqrt(2.5), L);
+
+    expect(result.initialValue).toBeCloseTo(deposit.amount0 * 2 + deposit.amount1, 9);
+    expect(result.points[1].amountA).toBe(0); // Above the range: all Token B
+    expect(result.points[1].positionValue).toBeCloseTo(exit.amount1, 9);
+    expect(result.finalHoldValue).toBeCloseTo(deposit.amount0 * 3 + deposit.amount1, 9);
+    expect(result.points[1].ilPercentage).toBeLessThan(0);
+    expect(result.netPnLVsHodl).toBeCloseTo(result.finalValue - result.finalHoldValue, 9);
+  });
+
+  it('sorts the series and skips invalid prices', () => {
+    const history = series([2, 2.1, 2.2]).reverse();
+    history.push({ timestamp: 5 * DAY, price: NaN, volume: 0, fees: 0 });
+    const result = runBacktest(history, CONFIG);
+
+    expect(result.points.map(p => p.price)).toEqual([2, 2.1, 2.2]);
+    expect(result.durationDays).toBe(2);
+  });
+
+  it('annualizes fees over the backtest duration', () => {
+    const result = runBacktest(series([2, 2, 2]), CONFIG);
+    expect(result.feeAPR).toBeCloseTo((result.totalFees / result.initialValue) * (365 / 2) * 100, 9);
+  });
+
+  it('rejects inverted ranges, empty series and deposits that mint nothing', () => {
+    expect(() => runBacktest(series([2]), { ...CONFIG, priceLower: 3 })).toThrow('Price lower must be less than price upper');
+    expect(() => runBacktest([], CONFIG)).toThrow('no valid price points');
+    expect(() => runBacktest(series([2]), { ...CONFIG, amountA: 0, amountB: 0 })).toThrow('do not mint any liquidity');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountsForLiquidity, getLiquidityFromAmounts, simulateRebalance } from './clmmMath';
+
+const sqrtLower = Math.sqrt(1.5);
+const sqrtUpper = Math.sqrt(2.5);
+const L = 1000;
+
+describe('getAmountsForLiquidity', () => {
+  it('holds only Token A below the range', () => {
+    const { amount0, amount1 } = getAmountsForLiquidity(Math.sqrt(1), sqrtLower, sqrtUpper, L);
+    expect(amount0).toBeCloseTo(L * (1 / sqrtLower - 1 / sqrtUpper), 9);
+    expect(amount1).toBe(0);
+  });
+
+  it('holds only Token B above the range', () => {
+    const { amount0, amount1 } = getAmountsForLiquidity(Math.sqrt(3), sqrtLower, sqrtUpper, L);
+    expect(amount0).toBe(0);
+    expect(amount1).toBeCloseTo(L * (sqrtUpper - sqrtLower), 9);
+  });
+
+  it('meets the out-of-range amounts at the bounds', () => {
+    const atLower = getAmountsForLiquidity(sqrtLower, sqrtLower, sqrtUpper, L);
+    const justAbove = getAmountsForLiquidity(sqrtLower * (1 + 1e-12), sqrtLower, sqrtUpper, L);
+    expect(justAbove.amount0).toBeCloseTo(atLower.amount0, 6);
+    expect(justAbove.amount1).toBeCloseTo(0, 6);
+
+    const atUpper = getAmountsForLiquidity(sqrtUpper, sqrtLower, sqrtUpper, L);
+    const justBelow = getAmountsForLiquidity(sqrtUpper * (1 - 1e-12), sqrtLower, sqrtUpper, L);
+    expect(justBelow.amount0).toBeCloseTo(0, 6);
+    expect(justBelow.amount1).toBeCloseTo(atUpper.amount1, 6);
+  });
+
+  it('inverts getLiquidityFromAmounts on either side of the range', () => {
+    [1, 2, 3].forEach(price => {
+      const amounts = getAmountsForLiquidity(Math.sqrt(price), sqrtLower, sqrtUpper, L);
+      const liquidity = getLiquidityFromAmounts(Math.sqrt(price), sqrtLower, sqrtUpper, amounts.amount0, amounts.amount1);
+      expect(liquidity).toBeCloseTo(L, 6);
+    });
+  });
+});
+
+describe('simulateRebalance', () => {
+  it('counts an out-of-range old range as earning nothing', () => {
+    const stuck = simulateRebalance(2, 2.5, 3, 1.8, 2.2, 10_000, 1_000_000, 0.0025, 5_000_000, 0.01, 2);
+    const inRange = simulateRebalance(2, 1.5, 2.5, 1.8, 2.2, 10_000, 1_000_000, 0.0025, 5_000_000, 0.01, 2);
+
+    expect(stuck.recommendation).toBe('recommended');
+    expect(stuck.breakEvenDays).toBeLessThan(inRange.breakEvenDays);
+  });
+
+  it('gives a new range outside the price no APY', () => {
+    const result = simulateRebalance(2, 1.5, 2.5, 2.5, 3, 10_000, 1_000_000, 0.0025, 5_000_000, 0.01, 2);
+    expect(result.newAPY).toBe(0);
+    expect(result.breakEvenDays).toBe(Infinity);
+    expect(result.recommendation).toBe('not-recommended');
+  });
+});
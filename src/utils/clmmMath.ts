@@ -46,63 +46,6 @@ export function calculateV2_IL(priceRatio: number): number {
   return ((2 * sqrtK) / (1 + priceRatio) - 1) * 100;
 }
 
-/**
- * Rumus derivasi lengkap untuk IL CLMM di range [p_a, p_b]
- * Berdasarkan formula:
- * 
- * IL_{a,b}(k) = IL(k) × (√k + 1/√k - 2) / [√k(1 - 1/√n) + 1/√k(√n - 1) - (√n - 1/√n)]
- * 
- * dimana:
- * - k = P'/P (price ratio, harga baru / harga awal)
- * - n = √(Pb/Pa) (ukuran lebar range)
- * - IL(k) = 2√k/(1+k) - 1 (formula IL V2 standar)
- * 
- * Catatan: Rumus ini hanya berlaku saat harga DALAM range.
- * Jika harga keluar range, gunakan perhitungan value-based.
- * 
- * @param priceRatio k = P'/P
- * @param priceLower Pa
- * @param priceUpper Pb
- * @returns IL dalam persentase (negatif = loss)
- */
-export function calculateCLMM_IL_Analytical(
-  priceRatio: number,  // k = P'/P
-  priceLower: number,  // Pa
-  priceUpper: number   // Pb
-): number {
-  if (priceRatio <= 0 || priceLower <= 0 || priceUpper <= 0) return 0;
-  if (priceRatio === 1) return 0; // No price change = no IL
-  
-  const k = priceRatio;
-  const sqrtK = Math.sqrt(k);
-  
-  // n = √(Pb/Pa) - range width factor
-  const n = Math.sqrt(priceUpper / priceLower);
-  const sqrtN = Math.sqrt(n);
-  
-  // IL V2 standar (dalam decimal, bukan persen)
-  const ilV2 = (2 * sqrtK) / (1 + k) - 1;
-  
-  // Numerator: √k + 1/√k - 2
-  const numerator = sqrtK + (1 / sqrtK) - 2;
-  
-  // Denominator: √k(1 - 1/√n) + 1/√k(√n - 1) - (√n - 1/√n)
-  const denominator = 
-    sqrtK * (1 - 1 / sqrtN) + 
-    (1 / sqrtK) * (sqrtN - 1) - 
-    (sqrtN - 1 / sqrtN);
-  
-  // Avoid division by zero
-  if (Math.abs(denominator) < 1e-10) {
-    return ilV2 * 100; // Fallback to V2 IL
-  }
-  
-  // IL CLMM = IL(k) × (numerator / denominator)
-  const ilCLMM = ilV2 * (numerator / denominator);
-  
-  return ilCLMM * 100; // Convert to percentage
-}
-
 /**
  * Menghitung jumlah Token A (X) dan Token B (Y) yang dimiliki user
  * berdasarkan harga saat ini (P) relatif terhadap Range (Pa, Pb) dan Liquidity (L).
@@ -116,8 +59,8 @@ export function calculateCLMM_IL_Analytical(
  * berdasarkan harga saat ini (P) relatif terhadap Range (Pa, Pb) dan Liquidity (L).
  * 
  * PENTING - Sesuai Cetus CLMM Mechanics:
- * - If P < P_low: position holds only token Y (amount1)
- * - If P > P_high: position holds only token X (amount0)
+ * - If P < P_low: position holds only token X (amount0)
+ * - If P > P_high: position holds only token Y (amount1)
  * - If P_low ≤ P ≤ P_high: position holds both tokens
  * 
  * Token X = base token (coin_a), Token Y = quote token (coin_b)
@@ -136,18 +79,17 @@ export function getAmountsForLiquidity(
   let amount1 = 0; // Token Y
 
   // Case 1: Harga saat ini di BAWAH Range (P < Pa)
-  // Sesuai Cetus docs: "position holds only token Y"
-  // User memegang 100% Token Y (quote token)
+  // Token X sudah dijual ke pool seluruhnya oleh trader → posisi 100% Token X (base token)
+  // (konsisten dengan getLiquidityFromAmounts dan liquidityMath.ts)
   if (sqrtPrice <= sqrtPriceLower) {
-    amount0 = 0;
-    amount1 = liquidity * (sqrtPriceUpper - sqrtPriceLower);
+    amount0 = liquidity * (1 / sqrtPriceLower - 1 / sqrtPriceUpper);
+    amount1 = 0;
   }
   // Case 2: Harga saat ini di ATAS Range (P > Pb)
-  // Sesuai Cetus docs: "position holds only token X"
-  // User memegang 100% Token X (base token)
+  // User memegang 100% Token Y (quote token)
   else if (sqrtPrice >= sqrtPriceUpper) {
-    amount0 = liquidity * (1 / sqrtPriceLower - 1 / sqrtPriceUpper);
-    amount1 = 0;
+    amount0 = 0;
+    amount1 = liquidity * (sqrtPriceUpper - sqrtPriceLower);
   }
   // Case 3: Harga di DALAM Range (Pa ≤ P ≤ Pb)
   // User memegang campuran Token X dan Y
@@ -197,6 +139,53 @@ export function getLiquidityFromAmounts(
   }
 }
 
+/**
+ * Amounts a deposit actually uses
+ * Liquidity = min(L_a, L_b), so whichever side exceeds the range ratio is left over
+ */
+export function getDepositAmounts(
+  currentPrice: number,
+  priceLower: number,
+  priceUpper: number,
+  amountA: number,
+  amountB: number
+): { liquidity: number; depositA: number; depositB: number; leftoverA: number; leftoverB: number } {
+  const sqrtPrice = Math.sqrt(currentPrice);
+  const sqrtPriceLower = Math.sqrt(priceLower);
+  const sqrtPriceUpper = Math.sqrt(priceUpper);
+
+  const rawLiquidity = getLiquidityFromAmounts(sqrtPrice, sqrtPriceLower, sqrtPriceUpper, amountA, amountB);
+  const liquidity = Number.isFinite(rawLiquidity) ? rawLiquidity : 0;
+  const { amount0, amount1 } = getAmountsForLiquidity(sqrtPrice, sqrtPriceLower, sqrtPriceUpper, liquidity);
+
+  // Clamp float noise so an exact-ratio input shows zero leftover
+  const depositA = Math.min(amount0, amountA);
+  const depositB = Math.min(amount1, amountB);
+  return {
+    liquidity,
+    depositA,
+    depositB,
+    leftoverA: amountA - depositA,
+    leftoverB: amountB - depositB,
+  };
+}
+
+/**
+ * Counterpart amount that matches the range ratio at the current price
+ * null when the range only takes one token (out of range)
+ */
+export function getMatchingAmount(
+  currentPrice: number,
+  priceLower: number,
+  priceUpper: number,
+  amount: number,
+  token: 'A' | 'B'
+): number | null {
+  const unit = getAmountsForLiquidity(Math.sqrt(currentPrice), Math.sqrt(priceLower), Math.sqrt(priceUpper), 1);
+  if (unit.amount0 <= 0 || unit.amount1 <= 0) return null;
+  return token === 'A' ? amount * (unit.amount1 / unit.amount0) : amount * (unit.amount0 / unit.amount1);
+}
+
 /**
  * Menghitung Impermanent Loss (IL) untuk CLMM
  * 
@@ -226,93 +215,8 @@ export interface CLMMILResult {
   outOfRangeDirection: 'below' | 'above' | 'in-range';
 }
 
-export function calculateCLMM_IL(
-  entryPrice: number,    // Harga saat masuk LP
-  targetPrice: number,   // Harga target untuk simulasi
-  priceLower: number,    // Batas bawah range
-  priceUpper: number,    // Batas atas range
-  amountAInitial: number, // Jumlah Token A awal (dalam unit token, sudah normalized)
-  amountBInitial: number  // Jumlah Token B awal
-): CLMMILResult {
-  // Validate inputs
-  if (priceLower >= priceUpper) {
-    throw new Error('Price lower must be less than price upper');
-  }
-  if (entryPrice <= 0 || targetPrice <= 0) {
-    throw new Error('Prices must be positive');
-  }
-
-  // 1. Calculate sqrt prices
-  const sqrtEntry = Math.sqrt(entryPrice);
-  const sqrtTarget = Math.sqrt(targetPrice);
-  const sqrtLower = Math.sqrt(priceLower);
-  const sqrtUpper = Math.sqrt(priceUpper);
-
-  // 2. Calculate liquidity dari initial amounts pada entry price
-  const liquidity = getLiquidityFromAmounts(
-    sqrtEntry,
-    sqrtLower,
-    sqrtUpper,
-    amountAInitial,
-    amountBInitial
-  );
-  
-  // Validate liquidity
-  if (liquidity <= 0 || !isFinite(liquidity)) {
-    // Return zero IL if we can't calculate liquidity
-    return {
-      ilPercentage: 0,
-      valueHold: (amountAInitial * targetPrice) + amountBInitial,
-      valuePool: (amountAInitial * targetPrice) + amountBInitial,
-      initialAmountA: amountAInitial,
-      initialAmountB: amountBInitial,
-      finalAmountA: amountAInitial,
-      finalAmountB: amountBInitial,
-      isOutOfRange: false,
-      outOfRangeDirection: 'in-range',
-    };
-  }
-
-  // 3. Calculate actual initial amounts (might differ from input due to ratio)
-  const initialPos = getAmountsForLiquidity(sqrtEntry, sqrtLower, sqrtUpper, liquidity);
-  
-  // 4. Calculate final amounts at target price
-  const finalPos = getAmountsForLiquidity(sqrtTarget, sqrtLower, sqrtUpper, liquidity);
-
-  // 5. Calculate values in quote asset (Token B / USD terms)
-  // Value If Hold: Keep original tokens, don't LP
-  const valueHold = (initialPos.amount0 * targetPrice) + initialPos.amount1;
-  
-  // Value If Pool: Tokens after CLMM rebalancing
-  const valuePool = (finalPos.amount0 * targetPrice) + finalPos.amount1;
-
-  // 6. Impermanent Loss percentage
-  const ilPercentage = valueHold > 0 ? ((valuePool - valueHold) / valueHold) * 100 : 0;
-
-  // 7. Determine out-of-range status
-  let outOfRangeDirection: 'below' | 'above' | 'in-range' = 'in-range';
-  if (targetPrice < priceLower) {
-    outOfRangeDirection = 'below';
-  } else if (targetPrice > priceUpper) {
-    outOfRangeDirection = 'above';
-  }
-
-  return {
-    ilPercentage,
-    valueHold,
-    valuePool,
-    initialAmountA: initialPos.amount0,
-    initialAmountB: initialPos.amount1,
-    finalAmountA: finalPos.amount0,
-    finalAmountB: finalPos.amount1,
-    isOutOfRange: outOfRangeDirection !== 'in-range',
-    outOfRangeDirection,
-  };
-}
-
 /**
- * Generate IL curve data untuk charting
- * Mensimulasikan IL untuk berbagai skenario harga
+ * Satu titik IL curve untuk charting (lihat Position.ilCurve)
  * Termasuk perbandingan dengan V2 IL
  */
 export interface ILCurvePoint {
@@ -327,80 +231,6 @@ export interface ILCurvePoint {
   outOfRangeDirection: 'below' | 'above' | 'in-range';
 }
 
-export function generateILCurve(
-  currentPrice: number,
-  priceLower: number,
-  priceUpper: number,
-  amountA: number,
-  amountB: number,
-  priceChangeRange: { min: number; max: number; steps: number } = { min: -80, max: 200, steps: 50 }
-): ILCurvePoint[] {
-  const curve: ILCurvePoint[] = [];
-  const { min, max, steps } = priceChangeRange;
-  const stepSize = (max - min) / steps;
-
-  // Hitung faktor amplifikasi untuk range ini
-  const baseAmplification = calculateAmplificationFactor(priceLower, priceUpper);
-
-  for (let i = 0; i <= steps; i++) {
-    const priceChangePercent = min + (i * stepSize);
-    const targetPrice = currentPrice * (1 + priceChangePercent / 100);
-    
-    // Skip invalid prices
-    if (targetPrice <= 0) continue;
-
-    try {
-      const result = calculateCLMM_IL(
-        currentPrice,
-        targetPrice,
-        priceLower,
-        priceUpper,
-        amountA,
-        amountB
-      );
-
-      // Hitung V2 IL untuk perbandingan
-      const priceRatio = targetPrice / currentPrice;
-      const ilV2 = calculateV2_IL(priceRatio);
-      
-      // Note: Untuk validasi rumus, bisa gunakan calculateCLMM_IL_Analytical()
-      // yang mengimplementasikan formula:
-      // IL_{a,b}(k) = IL(k) × (√k + 1/√k - 2) / [√k(1-1/√n) + 1/√k(√n-1) - (√n-1/√n)]
-      // Nilai tersebut seharusnya mendekati result.ilPercentage saat dalam range
-      
-      // Gunakan value-based IL (lebih akurat untuk semua kasus termasuk out-of-range)
-      const ilFinal = result.ilPercentage;
-      
-      // Hitung actual amplification (berapa kali lebih buruk dari V2)
-      // Untuk out-of-range, amplifikasi bisa sangat tinggi
-      let actualAmplification = baseAmplification;
-      if (ilV2 !== 0) {
-        actualAmplification = Math.abs(ilFinal / ilV2);
-      }
-      if (result.isOutOfRange) {
-        // Out of range = amplifikasi lebih ekstrem
-        actualAmplification = Math.max(actualAmplification, baseAmplification * 2);
-      }
-
-      curve.push({
-        priceChange: priceChangePercent,
-        targetPrice,
-        ilPercentage: result.ilPercentage,
-        ilV2Percentage: ilV2,
-        amplificationFactor: actualAmplification,
-        valueHold: result.valueHold,
-        valuePool: result.valuePool,
-        isOutOfRange: result.isOutOfRange,
-        outOfRangeDirection: result.outOfRangeDirection,
-      });
-    } catch (e) {
-      // Skip errors for edge cases
-    }
-  }
-
-  return curve;
-}
-
 /**
  * Compare CLMM IL vs Standard AMM IL
  * Untuk menunjukkan perbedaan antara concentrated vs full-range liquidity
@@ -440,24 +270,34 @@ export const CETUS_FEE_TIERS = [
  * Sesuai Cetus docs:
  * - Swap fees distributed proportionally to in-range liquidity
  * - Protocol takes 20%, LP gets 80%
+ * 
+ * Jika activeLiquidityShare tersedia (dari distribusi liquidity per tick),
+ * share tersebut dipakai langsung menggantikan heuristik capital efficiency.
  */
 export function calculateCLMMAPY(
   dailyVolume: number,
   feeRate: number,
   positionValueUSD: number,
   totalPoolTVL: number,
-  priceRangeWidth: number // sebagai ratio (priceUpper - priceLower) / currentPrice
+  priceRangeWidth: number, // sebagai ratio (priceUpper - priceLower) / currentPrice
+  activeLiquidityShare?: number // 0-1, share of active liquidity at current tick
 ): { apy: number; dailyFees: number; capitalEfficiency: number; protocolFee: number } {
-  if (positionValueUSD <= 0 || totalPoolTVL <= 0) {
+  const hasMeasuredShare = activeLiquidityShare !== undefined;
+  if (positionValueUSD <= 0 || (totalPoolTVL <= 0 && !hasMeasuredShare)) {
     return { apy: 0, dailyFees: 0, capitalEfficiency: 1, protocolFee: 0 };
   }
 
+  const tvlShare = totalPoolTVL > 0 ? positionValueUSD / totalPoolTVL : 0;
+
   // Capital efficiency multiplier (narrower range = higher efficiency)
   // Approximate: if range is 10% of full range, efficiency is ~10x
-  const capitalEfficiency = priceRangeWidth > 0 ? Math.min(1 / priceRangeWidth, 100) : 1;
+  // With a measured share, efficiency is how much more we earn than our TVL share
+  const capitalEfficiency = hasMeasuredShare
+    ? (tvlShare > 0 ? activeLiquidityShare / tvlShare : 1)
+    : (priceRangeWidth > 0 ? Math.min(1 / priceRangeWidth, 100) : 1);
 
   // Share of pool's active liquidity
-  const effectiveShare = (positionValueUSD / totalPoolTVL) * capitalEfficiency;
+  const effectiveShare = hasMeasuredShare ? activeLiquidityShare : tvlShare * capitalEfficiency;
   
   // Total swap fees generated
   const totalSwapFees = dailyVolume * feeRate * Math.min(effectiveShare, 1);
@@ -507,13 +347,21 @@ export function simulateRebalance(
 ): RebalanceScenario {
   const gasCostUSD = gasCostSUI * suiPriceUSD * 2; // 2 transactions: remove + add
 
-  // Calculate old APY
+  const isInNewRange = currentPrice >= newPriceLower && currentPrice <= newPriceUpper;
+  const wasOutOfRange = currentPrice < oldPriceLower || currentPrice > oldPriceUpper;
+  const noFees = { apy: 0, dailyFees: 0 };
+
+  // Calculate old APY (an out-of-range range earns nothing)
   const oldRangeWidth = (oldPriceUpper - oldPriceLower) / currentPrice;
-  const oldAPY = calculateCLMMAPY(dailyVolume, feeRate, positionValueUSD, totalPoolTVL, oldRangeWidth);
+  const oldAPY = wasOutOfRange
+    ? noFees
+    : calculateCLMMAPY(dailyVolume, feeRate, positionValueUSD, totalPoolTVL, oldRangeWidth);
 
   // Calculate new APY
   const newRangeWidth = (newPriceUpper - newPriceLower) / currentPrice;
-  const newAPY = calculateCLMMAPY(dailyVolume, feeRate, positionValueUSD, totalPoolTVL, newRangeWidth);
+  const newAPY = isInNewRange
+    ? calculateCLMMAPY(dailyVolume, feeRate, positionValueUSD, totalPoolTVL, newRangeWidth)
+    : noFees;
 
   // Calculate break-even
   const dailyGain = newAPY.dailyFees - oldAPY.dailyFees;
@@ -523,9 +371,6 @@ export function simulateRebalance(
   let recommendation: 'recommended' | 'neutral' | 'not-recommended' = 'neutral';
   let reason = '';
 
-  const isInNewRange = currentPrice >= newPriceLower && currentPrice <= newPriceUpper;
-  const wasOutOfRange = currentPrice < oldPriceLower || currentPrice > oldPriceUpper;
-
   if (!isInNewRange) {
     recommendation = 'not-recommended';
     reason = 'Current price is outside the new range. Position will not earn fees.';
@@ -672,8 +517,8 @@ export function getILWarnings(
     warnings.push({
       level: 'danger',
       message: outOfRangeDirection === 'below' 
-        ? '⚠️ Price is BELOW your range. Position holds 100% quote token (Token Y). NO FEES earned.'
-        : '⚠️ Price is ABOVE your range. Position holds 100% base token (Token X). NO FEES earned.',
+        ? '⚠️ Price is BELOW your range. Position holds 100% base token (Token X). NO FEES earned.'
+        : '⚠️ Price is ABOVE your range. Position holds 100% quote token (Token Y). NO FEES earned.',
       recommendation: 'Consider rebalancing to a new range around current price to resume earning fees.',
     });
   }
@@ -791,4 +636,30 @@ export function calculatePositionHealth(
     },
     summary,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Health score + IL warnings for a simulated position
+ * IL is read from the curve point at 0% price change (the position at entry).
+ */
+export function assessILCurve(
+  ilCurve: ILCurvePoint[],
+  currentPrice: number,
+  priceLower: number,
+  priceUpper: number,
+  estimatedAPY: number,
+  daysInPosition: number = 30
+): { positionHealth: PositionHealth; ilWarnings: ILWarning[]; currentIL: number } {
+  const currentPoint = ilCurve.find(d => Math.abs(d.priceChange) < 1);
+  const currentIL = currentPoint?.ilPercentage || 0;
+  const isOutOfRange = currentPoint?.isOutOfRange || false;
+  const outOfRangeDirection = currentPoint?.outOfRangeDirection || 'in-range';
+
+  const rangeWidth = (priceUpper - priceLower) / currentPrice;
+
+  return {
+    positionHealth: calculatePositionHealth(currentPrice, priceLower, priceUpper, currentIL, estimatedAPY, daysInPosition),
+    ilWarnings: getILWarnings(currentIL, isOutOfRange, outOfRangeDirection, rangeWidth, estimatedAPY),
+    currentIL,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Fee Tier Comparison
+ *
+ * The same pair often trades in several pools with different fee rates and
+ * tick spacings. This runs one position (same capital, same range relative to
+ * the current price) through every pool of the pair and ranks them by:
+ * - Projected fee income: calculateCLMMAPY with an estimated active share of
+ *   TVL share × capital efficiency (no tick data is loaded for sibling pools)
+ * - Liquidity depth: pool TVL in USD
+ * - IL exposure: worst IL for a ±move in Token A, on the range after it snaps
+ *   to the pool's tickSpacing (coarse spacings widen or shift the range)
+ *
+ * Pools listed as B/A are handled by inverting prices: a range [Pa, Pb] around P
+ * becomes [1/Pb, 1/Pa] around 1/P, and a +x% move in A is a 1/(1+x) move there.
+ */
+
+import { alignTickToSpacing, priceToTickWithDecimals, tickToPriceWithDecimals } from './tickMath';
+import { calculateCLMMAPY } from './clmmMath';
+import { calculateCLMM_IL } from './position';
+import { getAmountsForCapital } from './rangeOptimizer';
+import { calculateCapitalEfficiency } from './rangeComparison';
+
+// Structural subset of PoolInfo, so services stay out of utils
+export interface FeeTierPool {
+  poolId: string;
+  coinTypeA: string;
+  coinTypeB: string;
+  formattedName: string;
+  currentPrice: number;   // Token B per Token A of this pool
+  tickSpacing: number;
+  coinDecimalsA: number;
+  coinDecimalsB: number;
+  feeRate: number;
+  stats?: { volume24h: number; tvl: number };
+}
+
+export interface FeeTierComparisonConfig {
+  basePool: FeeTierPool;  // Pool the position is configured in
+  pools: FeeTierPool[];   // Search space, e.g. the pools cache
+  priceLower: number;     // Base pool orientation
+  priceUpper: number;
+  capital: number;        // Base pool Token B terms
+  quotePriceUSD: number;  // USD value of 1 base Token B
+  priceMovePercent?: number; // IL exposure reference move (default 20%)
+}
+
+export type FeeTierRankKey = 'fees' | 'depth' | 'il';
+
+export interface FeeTierResult {
+  pool: FeeTierPool;
+  isBase: boolean;
+  isFlipped: boolean;     // Pool lists the pair as B/A
+  hasStats: boolean;      // False when volume/TVL are unknown
+  tickLower: number;      // Snapped, pool orientation
+  tickUpper: number;
+  priceLower: number;
+  priceUpper: number;
+  rangeWidthPercent: number;
+  snapWidthChange: number; // Snapped width vs requested width, in % points
+  capitalUSD: number;
+  dailyFeesUSD: number;
+  apy: number;
+  depthUSD: number;
+  volumeToTVL: number;
+  ilDown: number;         // IL % when Token A (base orientation) falls by the move
+  ilUp: number;
+  worstIL: number;
+  ranks: Record<FeeTierRankKey, number>; // 1 = best
+}
+
+export interface FeeTierComparisonResult {
+  results: FeeTierResult[]; // Ranked by projected fee income
+  priceMovePercent: number;
+}
+
+/**
+ * Pools holding the same two coin types, regardless of A/B order
+ */
+export function findSamePairPools<T extends FeeTierPool>(basePool: T, pools: T[]): T[] {
+  const matches = pools.filter(p =>
+    (p.coinTypeA === basePool.coinTypeA && p.coinTypeB === basePool.coinTypeB) ||
+    (p.coinTypeA === basePool.coinTypeB && p.coinTypeB === basePool.coinTypeA)
+  );
+  return matches.some(p => p.poolId === basePool.poolId) ? matches : [basePool, ...matches];
+}
+
+const compareBy: Record<FeeTierRankKey, (a: FeeTierResult, b: FeeTierResult) => number> = {
+  fees: (a, b) => b.dailyFeesUSD - a.dailyFeesUSD,
+  depth: (a, b) => b.depthUSD - a.depthUSD,
+  il: (a, b) => b.worstIL - a.worstIL,
+};
+
+/**
+ * Sort results by one metric (best first)
+ */
+export function rankFeeTiers(results: FeeTierResult[], key: FeeTierRankKey): FeeTierResult[] {
+  return [...results].sort(compareBy[key]);
+}
+
+/**
+ * Run the configured position through every pool of the pair
+ */
+export function compareFeeTiers(config: FeeTierComparisonConfig): FeeTierComparisonResult {
+  const { basePool, priceLower, priceUpper, capital, quotePriceUSD, priceMovePercent = 20 } = config;
+  const basePrice = basePool.currentPrice;
+
+  if (basePrice <= 0 || capital <= 0 || priceLower <= 0 || priceLower >= priceUpper) {
+    return { results: [], priceMovePercent };
+  }
+
+  const lowerRatio = priceLower / basePrice;
+  const upperRatio = priceUpper / basePrice;
+  const capitalUSD = capital * quotePriceUSD;
+  const move = priceMovePercent / 100;
+
+  const results = findSamePairPools(basePool, config.pools)
+    .filter(pool => pool.currentPrice > 0 && pool.tickSpacing > 0)
+    .map((pool): FeeTierResult => {
+      const isFlipped = pool.coinTypeA !== basePool.coinTypeA;
+      const price = pool.currentPrice;
+
+      // Same range relative to this pool's price, snapped to its on-chain tick spacing
+      const { coinDecimalsA: decimalsA, coinDecimalsB: decimalsB } = pool;
+      const tickLower = alignTickToSpacing(
+        priceToTickWithDecimals(price * (isFlipped ? 1 / upperRatio : lowerRatio), decimalsA, decimalsB),
+        pool.tickSpacing,
+        false
+      );
+      const tickUpper = alignTickToSpacing(
+        priceToTickWithDecimals(price * (isFlipped ? 1 / lowerRatio : upperRatio), decimalsA, decimalsB),
+        pool.tickSpacing,
+        true
+      );
+      const poolLower = tickToPriceWithDecimals(tickLower, decimalsA, decimalsB);
+      const poolUpper = tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB);
+      const rangeWidthPercent = ((poolUpper - poolLower) / price) * 100;
+      const requestedWidth = (isFlipped ? 1 / lowerRatio - 1 / upperRatio : upperRatio - lowerRatio) * 100;
+
+      // Capital in this pool's Token B: base Token A when flipped
+      const poolCapital = isFlipped ? capital * price : capital;
+      const { amountA, amountB } = getAmountsForCapital(poolCapital, price, poolLower, poolUpper);
+
+      const volume24h = pool.stats?.volume24h ?? 0;
+      const tvl = pool.stats?.tvl ?? 0;
+      const isInRange = price >= poolLower && price <= poolUpper;
+      const activeShare = tvl > 0 && isInRange
+        ? Math.min(1, (capitalUSD / tvl) * calculateCapitalEfficiency(price, poolLower, poolUpper))
+        : 0;
+      const { apy, dailyFees } = calculateCLMMAPY(volume24h, pool.feeRate, capitalUSD, tvl, rangeWidthPercent / 100, activeShare);
+
+      // Token A (base orientation) moves down / up by priceMovePercent
+      const ilAt = (factor: number) => {
+        const target = price * (isFlipped ? 1 / factor : factor);
+        return calculateCLMM_IL(price, target, poolLower, poolUpper, amountA, amountB).ilPercentage;
+      };
+      const ilDown = ilAt(1 - move);
+      const ilUp = ilAt(1 + move);
+
+      return {
+        pool,
+        isBase: pool.poolId === basePool.poolId,
+        isFlipped,
+        hasStats: pool.stats !== undefined,
+        tickLower,
+        tickUpper,
+        priceLower: poolLower,
+        priceUpper: poolUpper,
+        rangeWidthPercent,
+        snapWidthChange: rangeWidthPercent - requestedWidth,
+        capitalUSD,
+        dailyFeesUSD: dailyFees,
+        apy,
+        depthUSD: tvl,
+        volumeToTVL: tvl > 0 ? volume24h / tvl : 0,
+        ilDown,
+        ilUp,
+        worstIL: Math.min(ilDown, ilUp),
+        ranks: { fees: 0, depth: 0, il: 0 },
+      };
+    });
+
+  for (const key of Object.keys(compareBy) as FeeTierRankKey[]) {
+    rankFeeTiers(results, key).forEach((r, index) => {
+      r.ranks[key] = index + 1;
+    });
+  }
+
+  return { results: rankFeeTiers(results, 'fees'), priceMovePercent };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountsForLiquidity } from './clmmMath';
+import { calculatePositionGreeks, calculatePositionSensitivities } from './greeks';
+
+const LOWER = 1.5;
+const UPPER = 2.5;
+const L = 1000;
+
+const amounts = (price: number) => getAmountsForLiquidity(Math.sqrt(price), Math.sqrt(LOWER), Math.sqrt(UPPER), L);
+const value = (price: number) => {
+  const { amount0, amount1 } = amounts(price);
+  return amount0 * price + amount1;
+};
+
+describe('calculatePositionGreeks', () => {
+  it('has delta equal to the Token A held, at any price', () => {
+    [1, 1.5, 1.8, 2, 2.4, 2.5, 3].forEach(price => {
+      expect(calculatePositionGreeks(price, LOWER, UPPER, L).delta).toBe(amounts(price).amount0);
+    });
+  });
+
+  it('matches finite differences of the position value in range', () => {
+    const h = 1e-4;
+    [1.6, 2, 2.4].forEach(price => {
+      const { delta, gamma, deltaExposure } = calculatePositionGreeks(price, LOWER, UPPER, L);
+      expect(delta).toBeCloseTo((value(price + h) - value(price - h)) / (2 * h), 4);
+      expect(gamma).toBeCloseTo((value(price + h) - 2 * value(price) + value(price - h)) / (h * h), 2);
+      expect(deltaExposure).toBeCloseTo(delta * price, 9);
+    });
+  });
+
+  it('is short gamma everywhere', () => {
+    for (let price = 1; price <= 3; price += 0.05) {
+      expect(calculatePositionGreeks(price, LOWER, UPPER, L).gamma).toBeLessThanOrEqual(0);
+    }
+  });
+
+  it('has no gamma out of range: all Token A below, no delta above', () => {
+    const below = calculatePositionGreeks(1, LOWER, UPPER, L);
+    const above = calculatePositionGreeks(3, LOWER, UPPER, L);
+
+    expect(below).toMatchObject({ gamma: 0, isInRange: false });
+    expect(below.delta).toBeCloseTo(L * (1 / Math.sqrt(LOWER) - 1 / Math.sqrt(UPPER)), 9);
+    expect(above).toMatchObject({ delta: 0, gamma: 0, deltaExposure: 0, isInRange: false });
+  });
+
+  it('rejects invalid prices', () => {
+    expect(() => calculatePositionGreeks(0, LOWER, UPPER, L)).toThrow('Prices must be positive');
+    expect(() => calculatePositionGreeks(2, UPPER, LOWER, L)).toThrow('price lower below price upper');
+  });
+});
+
+describe('calculatePositionSensitivities', () => {
+  it('nets fee income against IL decay and breaks even at the break-even volatility', () => {
+    const result = calculatePositionSensitivities(2, LOWER, UPPER, L, 5, 0.8);
+    expect(result.feeThetaPerDay).toBe(5);
+    expect(result.ilThetaPerDay).toBeLessThan(0);
+    expect(result.netThetaPerDay).toBeCloseTo(5 + result.ilThetaPerDay, 12);
+    expect(result.vegaPerVolPoint).toBeCloseTo((2 * result.ilThetaPerDay / 0.8) * 0.01, 12);
+
+    const atBreakEven = calculatePositionSensitivities(2, LOWER, UPPER, L, 5, result.breakEvenVolatility);
+    expect(atBreakEven.netThetaPerDay).toBeCloseTo(0, 9);
+  });
+
+  it('earns and decays nothing out of range', () => {
+    const result = calculatePositionSensitivities(3, LOWER, UPPER, L, 5, 0.8);
+    expect(result).toMatchObject({ feeThetaPerDay: 0, ilThetaPerDay: 0, netThetaPerDay: 0, breakEvenVolatility: Infinity });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Position Greeks
+ *
+ * Sensitivities of a CLMM position's value V(P) = x(P)·P + y(P) to the price
+ * of Token A (P = Token B per Token A), from getAmountsForLiquidity:
+ *
+ *   In range:   dy = -P·dx, so the amount terms cancel and
+ *               Δ = ∂V/∂P = x(P) = L(1/√P - 1/√Pb)
+ *               Γ = ∂²V/∂P² = -L / (2·P^(3/2))
+ *   Below Pa:   100% Token A → Δ = L(1/√Pa - 1/√Pb), Γ = 0
+ *   Above Pb:   100% Token B → Δ = 0, Γ = 0
+ *
+ * Γ ≤ 0 everywhere: an LP is short gamma, which is where IL comes from.
+ */
+
+import { getAmountsForLiquidity } from './clmmMath';
+
+export interface PositionGreeks {
+  price: number;
+  delta: number;          // ∂V/∂P in Token A units (= Token A held)
+  gamma: number;          // ∂Δ/∂P, Token A per unit of price
+  deltaExposure: number;  // Δ·P, Token B terms
+  isInRange: boolean;
+}
+
+/**
+ * Delta and gamma at a price
+ */
+export function calculatePositionGreeks(
+  price: number,
+  priceLower: number,
+  priceUpper: number,
+  liquidity: number
+): PositionGreeks {
+  if (price <= 0 || priceLower <= 0 || priceLower >= priceUpper) {
+    throw new Error('Prices must be positive and price lower below price upper');
+  }
+
+  const { amount0 } = getAmountsForLiquidity(Math.sqrt(price), Math.sqrt(priceLower), Math.sqrt(priceUpper), liquidity);
+  const isInRange = price > priceLower && price < priceUpper;
+  const gamma = isInRange ? -liquidity / (2 * Math.pow(price, 1.5)) : 0;
+
+  return {
+    price,
+    delta: amount0,
+    gamma,
+    deltaExposure: amount0 * price,
+    isInRange,
+  };
+}
+
+export interface PositionSensitivities extends PositionGreeks {
+  feeThetaPerDay: number;       // Fees earned per day at this price (0 out of range)
+  ilThetaPerDay: number;        // Expected IL decay per day, ½·Γ·σ²·P² / 365 (≤ 0)
+  netThetaPerDay: number;
+  vegaPerVolPoint: number;      // Change in netThetaPerDay for +1% annual volatility
+  breakEvenVolatility: number;  // σ where fees = IL decay (Infinity if no gamma)
+}
+
+/**
+ * Greeks plus theta/vega equivalents under a volatility assumption
+ *
+ * Holding the position delta-hedged, the expected value change per unit time
+ * is fees + ½·Γ·σ²·P² (Itô), so:
+ *   θ = fees/day + ½·Γ·σ²·P² / 365
+ *   ν = ∂θ/∂σ = Γ·σ·P² / 365
+ *   σ* = √(2·fees/day·365 / (-Γ·P²))
+ * These are instantaneous: they ignore price leaving the range over time.
+ */
+export function calculatePositionSensitivities(
+  price: number,
+  priceLower: number,
+  priceUpper: number,
+  liquidity: number,
+  dailyFeesInRange: number,   // Token B terms
+  annualVolatility: number
+): PositionSensitivities {
+  const greeks = calculatePositionGreeks(price, priceLower, priceUpper, liquidity);
+  const dollarGamma = greeks.gamma * price * price; // Γ·P²
+
+  const feeThetaPerDay = greeks.isInRange ? dailyFeesInRange : 0;
+  const ilThetaPerDay = (0.5 * dollarGamma * annualVolatility * annualVolatility) / 365;
+  const vegaPerVolPoint = (dollarGamma * annualVolatility * 0.01) / 365;
+  const breakEvenVolatility = dollarGamma < 0 ? Math.sqrt((2 * feeThetaPerDay * 365) / -dollarGamma) : Infinity;
+
+  return {
+    ...greeks,
+    feeThetaPerDay,
+    ilThetaPerDay,
+    netThetaPerDay: feeThetaPerDay + ilThetaPerDay,
+    vegaPerVolPoint,
+    breakEvenVolatility,
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { HedgeConfig, simulateHedge } from './hedging';
+import { generateILCurve } from './position';
+
+const base: HedgeConfig = {
+  currentPrice: 2,
+  priceLower: 1.5,
+  priceUpper: 2.5,
+  amountA: 100,
+  amountB: 200,
+  instrument: 'perp',
+  hedgeRatio: 1,
+  annualRate: 0.1,
+  days: 365,
+};
+
+const ilCurve = generateILCurve(base.currentPrice, base.priceLower, base.priceUpper, base.amountA, base.amountB);
+
+describe('simulateHedge', () => {
+  it('credits the short with positive funding', () => {
+    const result = simulateHedge(ilCurve, base);
+    expect(result.carryCostAtEntry).toBeCloseTo(-result.hedgeNotional * 0.1, 9);
+  });
+
+  it('charges the short when funding is negative', () => {
+    const result = simulateHedge(ilCurve, { ...base, annualRate: -0.1 });
+    expect(result.carryCostAtEntry).toBeCloseTo(result.hedgeNotional * 0.1, 9);
+  });
+
+  it('charges borrow interest in Token A at the repayment price', () => {
+    const result = simulateHedge(ilCurve, { ...base, instrument: 'borrow', annualRate: 0.08 });
+    const point = result.curve[result.curve.length - 1];
+    expect(point.hedgeCost).toBeCloseTo(result.hedgeSize * 0.08 * point.targetPrice, 9);
+  });
+});
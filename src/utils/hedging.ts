@@ -0,0 +1,139 @@
+/**
+ * LP Hedging Simulator
+ *
+ * Offsets a CLMM position's Token A exposure with a static short opened at
+ * entry, sized as hedgeRatio × entry delta:
+ *
+ *   perp    short h Token A on a perpetual; funding on the entry notional
+ *           (exchange convention: positive rate = longs pay shorts, so the
+ *           short earns; negative = the short pays)
+ *   borrow  borrow h Token A and sell it; interest accrues in Token A, so its
+ *           cost is valued at the price when the loan is repaid
+ *
+ * Both pay h·(P0 - P') on the move. Delta drifts with price (the LP is short
+ * gamma), so a static hedge only stays neutral near entry.
+ *
+ * PnL is measured against the deposited value at entry, in Token B terms.
+ */
+
+import { ILCurvePoint, getDepositAmounts } from './clmmMath';
+import { calculatePositionGreeks } from './greeks';
+
+export type HedgeInstrument = 'perp' | 'borrow';
+
+export interface HedgeConfig {
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  instrument: HedgeInstrument;
+  hedgeRatio: number;         // 1 = delta-neutral at entry
+  annualRate: number;         // Perp funding APR (positive earns the short) or borrow APR, e.g. 0.1 = 10%
+  days: number;               // Holding period for carry
+  openingFeeRate?: number;    // Perp taker fee or swap fee on the borrowed tokens (default 0)
+  feesEarned?: number;        // LP fees over the period, Token B (default 0)
+}
+
+export interface HedgedCurvePoint {
+  priceChange: number;
+  targetPrice: number;
+  ilPercentage: number;       // Unhedged IL vs HODL, from the IL curve
+  unhedgedPnL: number;        // Position + fees - entry value
+  hedgePnL: number;           // Short leg, before costs
+  hedgeCost: number;          // Carry + opening fee
+  hedgedPnL: number;
+  unhedgedPnLPercent: number;
+  hedgedPnLPercent: number;
+  delta: number;              // Position delta at the target price
+  netDelta: number;           // delta - hedge size
+}
+
+export interface HedgeSimulationResult {
+  liquidity: number;
+  initialValue: number;
+  entryDelta: number;
+  entryGamma: number;
+  hedgeSize: number;          // Token A shorted
+  hedgeNotional: number;      // Token B terms at entry
+  openingCost: number;
+  carryCostAtEntry: number;   // Carry over the period if price does not move
+  curve: HedgedCurvePoint[];
+}
+
+/**
+ * Run an IL curve through a static hedge
+ */
+export function simulateHedge(ilCurve: ILCurvePoint[], config: HedgeConfig): HedgeSimulationResult {
+  const {
+    currentPrice,
+    priceLower,
+    priceUpper,
+    amountA,
+    amountB,
+    instrument,
+    hedgeRatio,
+    annualRate,
+    days,
+    openingFeeRate = 0,
+    feesEarned = 0,
+  } = config;
+
+  if (hedgeRatio < 0) {
+    throw new Error('Hedge ratio cannot be negative');
+  }
+  if (instrument === 'borrow' && annualRate < 0) {
+    throw new Error('Borrow rate cannot be negative');
+  }
+
+  const deposit = getDepositAmounts(currentPrice, priceLower, priceUpper, amountA, amountB);
+  const initialValue = deposit.depositA * currentPrice + deposit.depositB;
+  const entry = calculatePositionGreeks(currentPrice, priceLower, priceUpper, deposit.liquidity);
+
+  const hedgeSize = entry.delta * hedgeRatio;
+  const hedgeNotional = hedgeSize * currentPrice;
+  const openingCost = hedgeNotional * openingFeeRate;
+  const years = days / 365;
+
+  // Perp funding is on the entry notional and received by the short when positive;
+  // borrow interest is owed in Token A
+  const carryCost = (price: number) =>
+    instrument === 'perp'
+      ? -hedgeNotional * annualRate * years
+      : hedgeSize * annualRate * years * price;
+
+  const curve = ilCurve.map(point => {
+    const price = point.targetPrice;
+    const unhedgedPnL = point.valuePool + feesEarned - initialValue;
+    const hedgePnL = hedgeSize * (currentPrice - price);
+    const hedgeCost = carryCost(price) + openingCost;
+    const hedgedPnL = unhedgedPnL + hedgePnL - hedgeCost;
+    const delta = calculatePositionGreeks(price, priceLower, priceUpper, deposit.liquidity).delta;
+
+    return {
+      priceChange: point.priceChange,
+      targetPrice: price,
+      ilPercentage: point.ilPercentage,
+      unhedgedPnL,
+      hedgePnL,
+      hedgeCost,
+      hedgedPnL,
+      unhedgedPnLPercent: initialValue > 0 ? (unhedgedPnL / initialValue) * 100 : 0,
+      hedgedPnLPercent: initialValue > 0 ? (hedgedPnL / initialValue) * 100 : 0,
+      delta,
+      netDelta: delta - hedgeSize,
+    };
+  });
+
+  return {
+    liquidity: deposit.liquidity,
+    initialValue,
+    entryDelta: entry.delta,
+    entryGamma: entry.gamma,
+    hedgeSize,
+    hedgeNotional,
+    openingCost,
+    carryCostAtEntry: carryCost(currentPrice),
+    curve,
+  };
+}
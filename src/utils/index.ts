@@ -1,20 +1,45 @@
-export { tickToSqrtPriceX64, sqrtPriceX64ToTick, priceToTick, tickToPrice, sqrtPriceX64ToPrice, priceToSqrtPriceX64, alignTickToSpacing, getDefaultTickRange } from './tickMath';
+export {
+  tickToSqrtPriceX64,
+  sqrtPriceX64ToTick,
+  priceToTick,
+  tickToPrice,
+  tickToPriceWithDecimals,
+  priceToTickWithDecimals,
+  sqrtPriceX64ToPrice,
+  priceToSqrtPriceX64,
+  alignTickToSpacing,
+  clampTick,
+  clampSqrtPriceX64,
+  getMinTick,
+  getMaxTick,
+  getDefaultTickRange,
+  decimalPriceFromSqrtPriceX64,
+  decimalPriceFromTick,
+  decimalPriceFromNumber,
+  decimalPriceToNumber,
+  decimalPriceToTick,
+  formatDecimalPrice,
+  MIN_TICK,
+  MAX_TICK,
+  MIN_SQRT_PRICE_X64,
+  MAX_SQRT_PRICE_X64,
+  type DecimalPrice,
+} from './tickMath';
 export { estimateLiquidityFromAmounts, getCoinAmountsFromLiquidity, calculatePositionValueUSD, calculateFeesInRange } from './liquidityMath';
-export { calculateImpermanentLoss, generateILCurve, calculateStandardAMMIL, calculateAPY, assessRisk, calculateBreakEvenDays, runSimulation } from './simulation';
+export { generateILDataPoints, calculateStandardAMMIL, calculateAPY, assessRisk, calculateBreakEvenDays, runSimulation } from './simulation';
 
 // New CLMM Math - Corrected formulas sesuai Cetus docs
 export { 
   // Position calculations
   getAmountsForLiquidity, 
   getLiquidityFromAmounts, 
+  getDepositAmounts,
+  getMatchingAmount,
   
   // IL calculations
-  calculateCLMM_IL, 
-  generateILCurve as generateCLMMILCurve,
   calculateStandardAMM_IL,
   calculateAmplificationFactor,
   calculateV2_IL,
-  calculateCLMM_IL_Analytical,
   
   // Fee & APY calculations
   calculateCLMMAPY,
@@ -31,6 +56,7 @@ export {
   // Risk & Health assessment
   getILWarnings,
   calculatePositionHealth,
+  assessILCurve,
   
   // Types
   type CLMMILResult,
@@ -40,3 +66,171 @@ export {
   type ILWarning,
   type PositionHealth,
 } from './clmmMath';
+
+// Position engine (amounts, value, IL, fees and health for one position)
+export {
+  Position,
+  calculateCLMM_IL,
+  generateILCurve as generateCLMMILCurve,
+  type PositionPool,
+  type PositionRange,
+  type PositionAmounts,
+  type PositionFeeMarket,
+  type PositionFeeEstimate,
+  type PriceChangeRange,
+} from './position';
+
+// Tick-level liquidity distribution
+export {
+  buildLiquidityDistribution,
+  getActiveLiquidityAtTick,
+  getPositionLiquidity,
+  calculateLiquidityShare,
+  type TickLiquidity,
+  type LiquiditySegment,
+  type TickShare,
+  type LiquidityShareResult,
+} from './liquidityDistribution';
+
+// Historical backtesting
+export { runBacktest, type BacktestConfig, type BacktestPoint, type BacktestResult } from './backtest';
+
+// Monte Carlo price paths
+export {
+  generatePricePaths,
+  runMonteCarloSimulation,
+  calculatePercentiles,
+  type JumpDiffusionParams,
+  type PricePathConfig,
+  type MonteCarloConfig,
+  type MonteCarloResult,
+  type MonteCarloPathResult,
+  type Percentiles,
+} from './monteCarlo';
+
+// Optimal range finder
+export { findOptimalRanges, type RangeOptimizerConfig, type RangeCandidate, type RangeOptimizerResult } from './rangeOptimizer';
+
+// Side-by-side range comparison
+export {
+  compareRanges,
+  MIN_COMPARISON_RANGES,
+  MAX_COMPARISON_RANGES,
+  type ComparisonRange,
+  type RangeComparisonConfig,
+  type RangeComparisonRow,
+} from './rangeComparison';
+
+// Same pair across fee tiers
+export {
+  compareFeeTiers,
+  findSamePairPools,
+  rankFeeTiers,
+  type FeeTierPool,
+  type FeeTierComparisonConfig,
+  type FeeTierRankKey,
+  type FeeTierResult,
+  type FeeTierComparisonResult,
+} from './feeTierComparison';
+
+// Exact swap simulation
+export {
+  computeSwap,
+  computeSwapStep,
+  getDeltaA,
+  getDeltaB,
+  calculatePriceImpact,
+  FEE_RATE_DENOMINATOR,
+  type SwapPoolState,
+  type SwapStepResult,
+  type SwapResult,
+} from './swapMath';
+
+// Single-token zap-in
+export {
+  calculateZap,
+  createConstantProductQuoter,
+  createTickSwapQuoter,
+  type ZapToken,
+  type ZapSwapQuote,
+  type ZapSwapQuoter,
+  type ZapConfig,
+  type ZapResult,
+} from './zap';
+
+// Range (limit) orders
+export {
+  buildRangeOrderTicks,
+  simulateRangeOrder,
+  type RangeOrderSide,
+  type RangeOrderConfig,
+  type RangeOrderResult,
+} from './rangeOrder';
+
+// Rule-based rebalancing strategies
+export {
+  runStrategyBacktest,
+  getDefaultRebalanceStrategies,
+  getStrategyLabel,
+  pricePathToHistory,
+  swapToRangeRatio,
+  PASSIVE_STRATEGY,
+  type RebalanceTrigger,
+  type RebalanceStrategy,
+  type StrategyBacktestConfig,
+  type StrategyBacktestPoint,
+  type RebalanceEvent,
+  type StrategyBacktestResult,
+  type StrategyComparisonResult,
+} from './strategyBacktest';
+
+// Position greeks and delta hedging
+export {
+  calculatePositionGreeks,
+  calculatePositionSensitivities,
+  type PositionGreeks,
+  type PositionSensitivities,
+} from './greeks';
+export {
+  simulateHedge,
+  type HedgeInstrument,
+  type HedgeConfig,
+  type HedgedCurvePoint,
+  type HedgeSimulationResult,
+} from './hedging';
+
+// Multi-position portfolio
+export {
+  simulatePortfolio,
+  type PortfolioPosition,
+  type PortfolioPositionResult,
+  type PortfolioCurvePoint,
+  type PortfolioResult,
+} from './portfolio';
+
+// Live wallet position analysis
+export { analyzePosition, type PositionAnalysisInput, type PositionAnalysis } from './positionAnalysis';
+
+// Report export
+export {
+  buildSimulationReport,
+  reportToJSON,
+  reportToCSV,
+  reportToHTML,
+  escapeCsvField,
+  type ReportInput,
+  type SimulationReport,
+  type ReportChart,
+} from './report';
+
+// Price orientation (display only; pool ticks stay Token B per Token A)
+export {
+  toViewPrice,
+  toViewRange,
+  toViewPriceChange,
+  getViewTokens,
+  getBoundTickSide,
+  viewPriceToTick,
+  type RangeBound,
+  type ViewRange,
+} from './priceOrientation';
@@ -0,0 +1,107 @@
+import BN from 'bn.js';
+import { describe, expect, it } from 'vitest';
+import {
+  buildLiquidityDistribution,
+  calculateLiquidityShare,
+  getActiveLiquidityAtTick,
+  getPositionLiquidity,
+  TickLiquidity,
+} from './liquidityDistribution';
+import { getLiquidityFromAmounts } from './clmmMath';
+import { MAX_TICK, MIN_TICK, tickToPrice } from './tickMath';
+
+// Two overlapping positions: 1000 over [-120, 120), 500 over [0, 240)
+const TICKS: TickLiquidity[] = [
+  { index: 240, liquidityNet: '-500' },
+  { index: -120, liquidityNet: '1000' },
+  { index: 120, liquidityNet: '-1000' },
+  { index: 0, liquidityNet: '500' },
+];
+
+const summarize = (ticks: TickLiquidity[]) =>
+  buildLiquidityDistribution(ticks).map(s => [s.tickLower, s.tickUpper, s.liquidity.toString()]);
+
+describe('buildLiquidityDistribution', () => {
+  it('sums liquidity_net in tick order from MIN_TICK to MAX_TICK', () => {
+    expect(summarize(TICKS)).toEqual([
+      [MIN_TICK, -120, '0'],
+      [-120, 0, '1000'],
+      [0, 120, '1500'],
+      [120, 240, '500'],
+      [240, MAX_TICK, '0'],
+    ]);
+  });
+
+  it('keeps i128 values beyond float precision exact', () => {
+    const huge = '340282366920938463463374607431768211455';
+    const [, inside] = buildLiquidityDistribution([
+      { index: -60, liquidityNet: huge },
+      { index: 60, liquidityNet: `-${huge}` },
+    ]);
+    expect(inside.liquidity.toString()).toBe(huge);
+  });
+
+  it('covers the whole tick space with nothing when there are no ticks', () => {
+    expect(summarize([])).toEqual([[MIN_TICK, MAX_TICK, '0']]);
+  });
+});
+
+describe('getActiveLiquidityAtTick', () => {
+  const distribution = buildLiquidityDistribution(TICKS);
+
+  it('treats segments as [lower, upper)', () => {
+    expect(getActiveLiquidityAtTick(distribution, -1).toString()).toBe('1000');
+    expect(getActiveLiquidityAtTick(distribution, 0).toString()).toBe('1500');
+    expect(getActiveLiquidityAtTick(distribution, 120).toString()).toBe('500');
+  });
+
+  it('is zero outside the curve', () => {
+    expect(getActiveLiquidityAtTick(distribution, MAX_TICK).isZero()).toBe(true);
+    expect(getActiveLiquidityAtTick([], 0).eq(new BN(0))).toBe(true);
+  });
+});
+
+describe('getPositionLiquidity', () => {
+  it('scales human amounts to on-chain units before minting', () => {
+    const liquidity = getPositionLiquidity(1, 2, 0, -600, 600, 9, 6);
+    const expected = getLiquidityFromAmounts(1, Math.sqrt(tickToPrice(-600)), Math.sqrt(tickToPrice(600)), 1e9, 2e6);
+    expect(liquidity).toBeCloseTo(expected, 6);
+  });
+
+  it('is zero for an empty deposit', () => {
+    expect(getPositionLiquidity(0, 0, 0, -600, 600, 9, 6)).toBe(0);
+  });
+});
+
+describe('calculateLiquidityShare', () => {
+  const distribution = buildLiquidityDistribution(TICKS);
+
+  it('shares fees with the liquidity active at the current tick', () => {
+    const result = calculateLiquidityShare(distribution, 500, 60, -120, 240);
+    expect(result.isInRange).toBe(true);
+    expect(result.activeLiquidity).toBe(1500);
+    expect(result.currentShare).toBeCloseTo(500 / 2000, 12);
+  });
+
+  it('weights the average share by segment width inside the range', () => {
+    const result = calculateLiquidityShare(distribution, 500, 60, -120, 240);
+    expect(result.ticks.map(t => [t.tickLower, t.tickUpper, t.poolLiquidity])).toEqual([
+      [-120, 0, 1000],
+      [0, 120, 1500],
+      [120, 240, 500],
+    ]);
+    expect(result.averageShare).toBeCloseTo((120 * (500 / 1500) + 120 * (500 / 2000) + 120 * (500 / 1000)) / 360, 12);
+  });
+
+  it('earns no current share out of range', () => {
+    const result = calculateLiquidityShare(distribution, 500, 240, -120, 240);
+    expect(result.isInRange).toBe(false);
+    expect(result.currentShare).toBe(0);
+    expect(result.averageShare).toBeGreaterThan(0);
+  });
+
+  it('takes every fee in an empty segment', () => {
+    const result = calculateLiquidityShare(distribution, 500, 300, 240, 360);
+    expect(result.currentShare).toBe(1);
+  });
+});
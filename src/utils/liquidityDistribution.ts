@@ -0,0 +1,146 @@
+/**
+ * Tick-level Liquidity Distribution
+ *
+ * Rebuilds the pool's active liquidity curve from per-tick `liquidity_net`
+ * data so fee share can be estimated against the liquidity that actually
+ * competes with a position, instead of a capped capital-efficiency guess.
+ *
+ * Active liquidity at tick t = Σ liquidity_net(i) for every initialized tick i ≤ t
+ * Fee share while price sits in a tick = L_position / (L_active + L_position)
+ */
+
+import BN from 'bn.js';
+import { tickToPrice, MIN_TICK, MAX_TICK } from './tickMath';
+import { getLiquidityFromAmounts } from './clmmMath';
+
+/**
+ * Initialized tick with its net liquidity change (i128, as decimal string)
+ */
+export interface TickLiquidity {
+  index: number;
+  liquidityNet: string;
+}
+
+/**
+ * Range of ticks [tickLower, tickUpper) with constant active liquidity
+ */
+export interface LiquiditySegment {
+  tickLower: number;
+  tickUpper: number;
+  liquidity: BN;
+}
+
+export interface TickShare {
+  tickLower: number;
+  tickUpper: number;
+  poolLiquidity: number;  // Liquidity from other LPs in this segment
+  share: number;          // 0-1, our share of fees while price is here
+}
+
+export interface LiquidityShareResult {
+  positionLiquidity: number;
+  activeLiquidity: number;  // Competing liquidity at the current tick
+  currentShare: number;     // 0-1, share of swap fees at the current tick
+  averageShare: number;     // 0-1, tick-width weighted share across our range
+  isInRange: boolean;
+  ticks: TickShare[];
+}
+
+/**
+ * Build the active liquidity curve from initialized ticks
+ * Segments with zero liquidity are kept so gaps in the book stay visible
+ */
+export function buildLiquidityDistribution(ticks: TickLiquidity[]): LiquiditySegment[] {
+  const sorted = [...ticks].sort((a, b) => a.index - b.index);
+  const segments: LiquiditySegment[] = [];
+
+  let active = new BN(0);
+  let previousTick = MIN_TICK;
+
+  for (const tick of sorted) {
+    if (tick.index > previousTick) {
+      segments.push({ tickLower: previousTick, tickUpper: tick.index, liquidity: active });
+    }
+    active = active.add(new BN(tick.liquidityNet));
+    previousTick = tick.index;
+  }
+
+  if (previousTick < MAX_TICK) {
+    segments.push({ tickLower: previousTick, tickUpper: MAX_TICK, liquidity: active });
+  }
+
+  return segments;
+}
+
+/**
+ * Active liquidity at a given tick (0 when the tick is outside the curve)
+ */
+export function getActiveLiquidityAtTick(distribution: LiquiditySegment[], tick: number): BN {
+  const segment = distribution.find(s => tick >= s.tickLower && tick < s.tickUpper);
+  return segment ? segment.liquidity : new BN(0);
+}
+
+/**
+ * Liquidity (on-chain units) a position would mint from human-readable amounts
+ * Ticks must be on-chain ticks (raw price = 1.0001^tick, no decimal adjustment)
+ */
+export function getPositionLiquidity(
+  amountA: number,
+  amountB: number,
+  currentTick: number,
+  tickLower: number,
+  tickUpper: number,
+  decimalsA: number,
+  decimalsB: number
+): number {
+  const liquidity = getLiquidityFromAmounts(
+    Math.sqrt(tickToPrice(currentTick)),
+    Math.sqrt(tickToPrice(tickLower)),
+    Math.sqrt(tickToPrice(tickUpper)),
+    amountA * Math.pow(10, decimalsA),
+    amountB * Math.pow(10, decimalsB)
+  );
+  return isFinite(liquidity) && liquidity > 0 ? liquidity : 0;
+}
+
+/**
+ * Calculate our share of active liquidity, tick segment by tick segment
+ */
+export function calculateLiquidityShare(
+  distribution: LiquiditySegment[],
+  positionLiquidity: number,
+  currentTick: number,
+  tickLower: number,
+  tickUpper: number
+): LiquidityShareResult {
+  const ticks: TickShare[] = [];
+  let weightedShare = 0;
+  let totalWidth = 0;
+
+  for (const segment of distribution) {
+    const lower = Math.max(segment.tickLower, tickLower);
+    const upper = Math.min(segment.tickUpper, tickUpper);
+    if (lower >= upper) continue;
+
+    const poolLiquidity = parseFloat(segment.liquidity.toString());
+    const total = poolLiquidity + positionLiquidity;
+    const share = total > 0 ? positionLiquidity / total : 0;
+
+    ticks.push({ tickLower: lower, tickUpper: upper, poolLiquidity, share });
+    weightedShare += share * (upper - lower);
+    totalWidth += upper - lower;
+  }
+
+  const isInRange = currentTick >= tickLower && currentTick < tickUpper;
+  const activeLiquidity = parseFloat(getActiveLiquidityAtTick(distribution, currentTick).toString());
+  const currentTotal = activeLiquidity + positionLiquidity;
+
+  return {
+    positionLiquidity,
+    activeLiquidity,
+    currentShare: isInRange && currentTotal > 0 ? positionLiquidity / currentTotal : 0,
+    averageShare: totalWidth > 0 ? weightedShare / totalWidth : 0,
+    isInRange,
+    ticks,
+  };
+}
@@ -151,6 +151,7 @@ function getAmountBFromLiquidity(
 
 /**
  * Calculate position value in USD
+ * priceA/priceB are USD prices (see services/priceOracle)
  */
 export function calculatePositionValueUSD(
   amountA: BN,
@@ -160,8 +161,8 @@ export function calculatePositionValueUSD(
   decimalsA: number,
   decimalsB: number
 ): number {
-  const valueA = amountA.toNumber() / Math.pow(10, decimalsA) * priceA;
-  const valueB = amountB.toNumber() / Math.pow(10, decimalsB) * priceB;
+  const valueA = parseFloat(amountA.toString()) / Math.pow(10, decimalsA) * priceA;
+  const valueB = parseFloat(amountB.toString()) / Math.pow(10, decimalsB) * priceB;
   return valueA + valueB;
 }
 
@@ -189,7 +190,7 @@ export function calculateFeesInRange(
   }
 
   // Proportional share of fees
-  const liquidityShare = liquidity.toNumber() / totalLiquidity.toNumber();
+  const liquidityShare = parseFloat(liquidity.toString()) / parseFloat(totalLiquidity.toString());
   const dailyFees = volume24h * feeRate * liquidityShare;
   
   return dailyFees;
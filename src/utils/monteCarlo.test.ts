@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePercentiles, generatePricePaths, runMonteCarloSimulation } from './monteCarlo';
+
+const PATHS = { initialPrice: 2, annualVolatility: 0.8, annualDrift: 0, days: 30, stepsPerDay: 4, paths: 200, seed: 7 };
+const POSITION = { priceLower: 1.5, priceUpper: 2.5, amountA: 100, amountB: 200, dailyFeesInRange: 10 };
+
+describe('calculatePercentiles', () => {
+  it('interpolates between sorted samples', () => {
+    const values = Array.from({ length: 101 }, (_, i) => 100 - i);
+    expect(calculatePercentiles(values)).toEqual({ p5: 5, p50: 50, p95: 95, mean: 50 });
+    expect(calculatePercentiles([0, 10]).p5).toBeCloseTo(0.5, 12);
+  });
+
+  it('is all zero for an empty sample', () => {
+    expect(calculatePercentiles([])).toEqual({ p5: 0, p50: 0, p95: 0, mean: 0 });
+  });
+});
+
+describe('generatePricePaths', () => {
+  it('starts every path at the initial price with days × stepsPerDay steps', () => {
+    const paths = generatePricePaths(PATHS);
+    expect(paths).toHaveLength(200);
+    paths.forEach(path => {
+      expect(path).toHaveLength(121);
+      expect(path[0]).toBe(2);
+      expect(path.every(price => price > 0)).toBe(true);
+    });
+  });
+
+  it('is reproducible for a seed and differs across seeds', () => {
+    expect(generatePricePaths(PATHS)).toEqual(generatePricePaths(PATHS));
+    expect(generatePricePaths({ ...PATHS, seed: 8 })[0]).not.toEqual(generatePricePaths(PATHS)[0]);
+  });
+
+  it('stays flat without volatility or drift', () => {
+    const [path] = generatePricePaths({ ...PATHS, annualVolatility: 0, paths: 1 });
+    path.forEach(price => expect(price).toBeCloseTo(2, 12));
+  });
+
+  it('keeps the expected price at the drift once jumps are compensated', () => {
+    const config = {
+      ...PATHS,
+      annualVolatility: 0.3,
+      annualDrift: 0.1,
+      days: 365,
+      stepsPerDay: 1,
+      paths: 2000,
+      jumps: { intensity: 4, meanJump: -0.1, jumpVolatility: 0.1 },
+    };
+    const finals = generatePricePaths(config).map(path => path[path.length - 1]);
+    const mean = finals.reduce((sum, p) => sum + p, 0) / finals.length;
+    expect(mean / 2).toBeCloseTo(Math.exp(0.1), 1);
+  });
+
+  it('rejects a non-positive initial price', () => {
+    expect(() => generatePricePaths({ ...PATHS, initialPrice: 0 })).toThrow('Initial price must be positive');
+  });
+});
+
+describe('runMonteCarloSimulation', () => {
+  it('earns the daily fee for every in-range day when the price never moves', () => {
+    const result = runMonteCarloSimulation({ ...PATHS, ...POSITION, annualVolatility: 0, paths: 5 });
+    expect(result.feesEarned.p50).toBeCloseTo(30 * 10, 9);
+    expect(result.timeInRangePercent.p5).toBe(100);
+    expect(result.ilPercentage.p50).toBeCloseTo(0, 9);
+    expect(result.finalValue.p50).toBeCloseTo(result.initialValue + 300, 9);
+    expect(result.probabilityOutOfRangeAtEnd).toBe(0);
+    expect(result.probabilityLoss).toBe(0);
+  });
+
+  it('summarizes every path', () => {
+    const result = runMonteCarloSimulation({ ...PATHS, ...POSITION });
+    expect(result.paths).toBe(200);
+    expect(result.results).toHaveLength(200);
+    expect(result.finalValue.p5).toBeLessThanOrEqual(result.finalValue.p50);
+    expect(result.finalValue.p50).toBeLessThanOrEqual(result.finalValue.p95);
+    // CLMM IL is never a gain
+    expect(result.ilPercentage.p95).toBeLessThanOrEqual(1e-9);
+
+    const outOfRange = result.results.filter(r => r.finalPrice < 1.5 || r.finalPrice > 2.5).length;
+    expect(result.probabilityOutOfRangeAtEnd).toBeCloseTo(outOfRange / 200, 12);
+    result.results.forEach(r => {
+      expect(r.feesEarned).toBeCloseTo((r.timeInRangePercent / 100) * 30 * 10, 9);
+    });
+  });
+
+  it('rejects inverted ranges and deposits that mint nothing', () => {
+    expect(() => runMonteCarloSimulation({ ...PATHS, ...POSITION, priceLower: 3 })).toThrow('Price lower must be less than price upper');
+    expect(() => runMonteCarloSimulation({ ...PATHS, ...POSITION, amountA: 0, amountB: 0 })).toThrow('do not mint any liquidity');
+  });
+});
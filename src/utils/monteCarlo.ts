@@ -0,0 +1,232 @@
+/**
+ * Monte Carlo Price Path Simulation
+ *
+ * Generates price paths with Geometric Brownian Motion (GBM), optionally with
+ * Merton jump-diffusion, and runs every path through the CLMM position math:
+ *
+ *   GBM step:  S(t+dt) = S(t) · exp((μ - σ²/2)·dt + σ·√dt·Z)
+ *   Jumps:     N ~ Poisson(λ·dt), each jump multiplies S by exp(J), J ~ N(μJ, σJ²)
+ *
+ * Results are returned as distributions with P5/P50/P95 percentiles.
+ * Values are in Token B (quote) terms, price = Token B per Token A.
+ */
+
+import { getAmountsForLiquidity, getLiquidityFromAmounts } from './clmmMath';
+
+export interface JumpDiffusionParams {
+  intensity: number;      // λ, expected jumps per year
+  meanJump: number;       // μJ, mean log jump size (e.g. -0.05)
+  jumpVolatility: number; // σJ, std dev of log jump size
+}
+
+export interface PricePathConfig {
+  initialPrice: number;
+  annualVolatility: number; // σ, e.g. 0.8 = 80%
+  annualDrift: number;      // μ, e.g. 0.1 = 10%
+  days: number;
+  stepsPerDay: number;
+  paths: number;
+  jumps?: JumpDiffusionParams;
+  seed?: number;
+}
+
+export interface MonteCarloConfig extends PricePathConfig {
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  dailyFeesInRange: number; // Fees earned per day while in range (quote terms)
+}
+
+export interface Percentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+  mean: number;
+}
+
+export interface MonteCarloPathResult {
+  finalPrice: number;
+  finalValue: number;       // Position value + fees
+  ilPercentage: number;
+  feesEarned: number;
+  timeInRangePercent: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  initialValue: number;
+  finalValue: Percentiles;
+  finalPrice: Percentiles;
+  ilPercentage: Percentiles;
+  feesEarned: Percentiles;
+  timeInRangePercent: Percentiles;
+  probabilityOutOfRangeAtEnd: number; // 0-1
+  probabilityLoss: number;            // 0-1, final value below initial value
+  results: MonteCarloPathResult[];
+}
+
+/**
+ * Seeded PRNG (mulberry32) so runs are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample via Box-Muller
+ */
+function sampleNormal(random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Poisson sample via Knuth (fine for the small λ·dt used per step)
+ */
+function samplePoisson(random: () => number, lambda: number): number {
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = random();
+  while (p > limit) {
+    k++;
+    p *= random();
+  }
+  return k;
+}
+
+/**
+ * Compute P5/P50/P95 and mean of a sample
+ */
+export function calculatePercentiles(values: number[]): Percentiles {
+  if (values.length === 0) {
+    return { p5: 0, p50: 0, p95: 0, mean: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => {
+    const pos = (sorted.length - 1) * q;
+    const lower = Math.floor(pos);
+    const upper = Math.ceil(pos);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+  };
+  return {
+    p5: at(0.05),
+    p50: at(0.5),
+    p95: at(0.95),
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+  };
+}
+
+/**
+ * Generate price paths (each path includes the initial price at index 0)
+ */
+export function generatePricePaths(config: PricePathConfig): number[][] {
+  const { initialPrice, annualVolatility, annualDrift, days, stepsPerDay, paths, jumps, seed = 42 } = config;
+
+  if (initialPrice <= 0) {
+    throw new Error('Initial price must be positive');
+  }
+
+  const random = createRandom(seed);
+  const steps = Math.max(1, Math.round(days * stepsPerDay));
+  const dt = 1 / (365 * stepsPerDay);
+  const sigma = Math.max(0, annualVolatility);
+  const diffusionDrift = (annualDrift - 0.5 * sigma * sigma) * dt;
+  const diffusionScale = sigma * Math.sqrt(dt);
+
+  // Compensate jump drift so the expected return stays equal to μ
+  const jumpCompensation = jumps
+    ? jumps.intensity * (Math.exp(jumps.meanJump + 0.5 * jumps.jumpVolatility ** 2) - 1) * dt
+    : 0;
+
+  const result: number[][] = [];
+  for (let p = 0; p < paths; p++) {
+    const path = [initialPrice];
+    let logPrice = Math.log(initialPrice);
+
+    for (let s = 0; s < steps; s++) {
+      logPrice += diffusionDrift - jumpCompensation + diffusionScale * sampleNormal(random);
+
+      if (jumps && jumps.intensity > 0) {
+        const jumpCount = samplePoisson(random, jumps.intensity * dt);
+        for (let j = 0; j < jumpCount; j++) {
+          logPrice += jumps.meanJump + jumps.jumpVolatility * sampleNormal(random);
+        }
+      }
+
+      path.push(Math.exp(logPrice));
+    }
+    result.push(path);
+  }
+
+  return result;
+}
+
+/**
+ * Run Monte Carlo simulation of a CLMM position
+ */
+export function runMonteCarloSimulation(config: MonteCarloConfig): MonteCarloResult {
+  const { priceLower, priceUpper, amountA, amountB, dailyFeesInRange, stepsPerDay } = config;
+
+  if (priceLower >= priceUpper) {
+    throw new Error('Price lower must be less than price upper');
+  }
+
+  const sqrtLower = Math.sqrt(priceLower);
+  const sqrtUpper = Math.sqrt(priceUpper);
+  const sqrtEntry = Math.sqrt(config.initialPrice);
+
+  const liquidity = getLiquidityFromAmounts(sqrtEntry, sqrtLower, sqrtUpper, amountA, amountB);
+  if (!isFinite(liquidity) || liquidity <= 0) {
+    throw new Error('Initial amounts do not mint any liquidity for this range');
+  }
+
+  const initial = getAmountsForLiquidity(sqrtEntry, sqrtLower, sqrtUpper, liquidity);
+  const initialValue = initial.amount0 * config.initialPrice + initial.amount1;
+  const feesPerStep = dailyFeesInRange / stepsPerDay;
+
+  const results: MonteCarloPathResult[] = generatePricePaths(config).map(path => {
+    let stepsInRange = 0;
+    for (let i = 1; i < path.length; i++) {
+      if (path[i] >= priceLower && path[i] <= priceUpper) stepsInRange++;
+    }
+
+    const finalPrice = path[path.length - 1];
+    const final = getAmountsForLiquidity(Math.sqrt(finalPrice), sqrtLower, sqrtUpper, liquidity);
+    const valuePool = final.amount0 * finalPrice + final.amount1;
+    const valueHold = initial.amount0 * finalPrice + initial.amount1;
+    const feesEarned = stepsInRange * feesPerStep;
+
+    return {
+      finalPrice,
+      finalValue: valuePool + feesEarned,
+      ilPercentage: valueHold > 0 ? (valuePool / valueHold - 1) * 100 : 0,
+      feesEarned,
+      timeInRangePercent: path.length > 1 ? (stepsInRange / (path.length - 1)) * 100 : 100,
+    };
+  });
+
+  const outOfRangeAtEnd = results.filter(r => r.finalPrice < priceLower || r.finalPrice > priceUpper).length;
+  const losses = results.filter(r => r.finalValue < initialValue).length;
+
+  return {
+    paths: results.length,
+    initialValue,
+    finalValue: calculatePercentiles(results.map(r => r.finalValue)),
+    finalPrice: calculatePercentiles(results.map(r => r.finalPrice)),
+    ilPercentage: calculatePercentiles(results.map(r => r.ilPercentage)),
+    feesEarned: calculatePercentiles(results.map(r => r.feesEarned)),
+    timeInRangePercent: calculatePercentiles(results.map(r => r.timeInRangePercent)),
+    probabilityOutOfRangeAtEnd: results.length > 0 ? outOfRangeAtEnd / results.length : 0,
+    probabilityLoss: results.length > 0 ? losses / results.length : 0,
+    results,
+  };
+}
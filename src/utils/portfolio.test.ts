@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { PortfolioPosition, simulatePortfolio } from './portfolio';
+import { Position } from './position';
+
+const position = (id: string, overrides: Partial<PortfolioPosition> = {}): PortfolioPosition => ({
+  id,
+  label: id,
+  poolId: '0xpool',
+  tokenASymbol: 'SUI',
+  tokenBSymbol: 'USDC',
+  entryPrice: 2,
+  priceLower: 1.5,
+  priceUpper: 2.5,
+  amountA: 100,
+  amountB: 200,
+  feeRate: 0.0025,
+  dailyVolume: 1_000_000,
+  totalPoolTVL: 5_000_000,
+  quotePriceUSD: 1,
+  ...overrides,
+});
+
+const engine = (p: PortfolioPosition) => Position.fromAmounts(
+  { currentPrice: p.entryPrice, feeRate: p.feeRate, coinDecimalsA: 0, coinDecimalsB: 0 },
+  { priceLower: p.priceLower, priceUpper: p.priceUpper },
+  p.amountA,
+  p.amountB
+);
+
+// A ladder: one range around the price, one above it holding only Token A
+const NEAR = position('near');
+const ABOVE = position('above', { priceLower: 2.5, priceUpper: 3.5, amountA: 100, amountB: 0, quotePriceUSD: 2 });
+
+describe('simulatePortfolio', () => {
+  it('sums values and fees in USD with each position’s quote price', () => {
+    const result = simulatePortfolio([NEAR, ABOVE]);
+
+    const nearValue = engine(NEAR).valueAt(2);
+    const aboveValue = engine(ABOVE).valueAt(2) * 2;
+    expect(result.totalValueUSD).toBeCloseTo(nearValue + aboveValue, 9);
+    expect(result.positions.map(p => p.isInRange)).toEqual([true, false]);
+    expect(result.positions[1].dailyFeesUSD).toBe(0);
+    expect(result.totalDailyFeesUSD).toBeCloseTo(result.positions[0].dailyFeesUSD, 12);
+    expect(result.inRangeValuePercent).toBeCloseTo((nearValue / (nearValue + aboveValue)) * 100, 9);
+  });
+
+  it('weights APY by position value', () => {
+    const result = simulatePortfolio([NEAR, ABOVE]);
+    const [near, above] = result.positions;
+    expect(result.weightedAPY).toBeCloseTo((near.apy * near.valueUSD) / (near.valueUSD + above.valueUSD), 9);
+  });
+
+  it('combines IL as total pool value over total hold value', () => {
+    const result = simulatePortfolio([NEAR, ABOVE], { min: -50, max: 100, steps: 15 });
+    const point = result.curve.find(c => c.priceChange === 30)!;
+
+    const near = engine(NEAR).impermanentLossAt(2.6);
+    const above = engine(ABOVE).impermanentLossAt(2.6);
+    expect(point.positionIL).toEqual([near.ilPercentage, above.ilPercentage]);
+    expect(point.valuePoolUSD).toBeCloseTo(near.valuePool + above.valuePool * 2, 9);
+    expect(point.ilPercentage).toBeCloseTo(
+      ((near.valuePool + above.valuePool * 2) / (near.valueHold + above.valueHold * 2) - 1) * 100,
+      9
+    );
+    expect(point.positionsInRange).toBe(1); // 2.6 is only inside [2.5, 3.5]
+  });
+
+  it('skips price moves of -100% or worse', () => {
+    const result = simulatePortfolio([NEAR], { min: -100, max: 100, steps: 4 });
+    expect(result.curve.map(c => c.priceChange)).toEqual([-50, 0, 50, 100]);
+  });
+
+  it('flags out-of-range value and concentration', () => {
+    const { risks } = simulatePortfolio([NEAR, { ...ABOVE, amountA: 10 }]);
+    expect(risks.outOfRangeRisk).toBe('MEDIUM');
+    expect(risks.warnings.some(w => w.includes('out of range'))).toBe(true);
+
+    const concentrated = simulatePortfolio([NEAR, position('small', { amountA: 1, amountB: 2 })]).risks;
+    expect(concentrated.volatilityRisk).toBe('MEDIUM');
+    expect(concentrated.warnings.some(w => w.startsWith('One position holds'))).toBe(true);
+  });
+
+  it('rates a fully out-of-range portfolio HIGH', () => {
+    const { inRangeValuePercent, risks } = simulatePortfolio([ABOVE]);
+    expect(inRangeValuePercent).toBe(0);
+    expect(risks.outOfRangeRisk).toBe('HIGH');
+    expect(risks.overallRisk).toBe('HIGH');
+  });
+
+  it('is empty without positions', () => {
+    const result = simulatePortfolio([]);
+    expect(result).toMatchObject({ totalValueUSD: 0, totalDailyFeesUSD: 0, weightedAPY: 0, inRangeValuePercent: 0, curve: [] });
+  });
+});
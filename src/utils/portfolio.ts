@@ -0,0 +1,193 @@
+/**
+ * Multi-Position Portfolio Simulator
+ *
+ * Aggregates several CLMM positions (laddered ranges in one pool or across
+ * pools) into a single view:
+ * - Value, fees and APY are summed in USD (Token B value × quote USD price)
+ * - The combined IL curve applies the same % move in Token A to every position,
+ *   i.e. it assumes the base assets move together (e.g. several SUI/x pools)
+ *
+ * Combined IL = Σ V_pool / Σ V_hold - 1
+ */
+
+import { PositionHealth } from './clmmMath';
+import { Position } from './position';
+import { RiskAssessment } from '../types';
+
+export interface PortfolioPosition {
+  id: string;
+  label: string;
+  poolId: string;
+  tokenASymbol: string;
+  tokenBSymbol: string;
+  entryPrice: number;      // Token B per Token A when the position is opened
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  feeRate: number;
+  dailyVolume: number;
+  totalPoolTVL: number;
+  quotePriceUSD: number;   // USD value of 1 Token B
+  activeLiquidityShare?: number;
+}
+
+export interface PortfolioPositionResult {
+  position: PortfolioPosition;
+  valueUSD: number;
+  dailyFeesUSD: number;
+  apy: number;
+  isInRange: boolean;
+  health: PositionHealth;
+}
+
+export interface PortfolioCurvePoint {
+  priceChange: number;     // % move applied to every position
+  valuePoolUSD: number;
+  valueHoldUSD: number;
+  ilPercentage: number;    // Combined IL
+  positionIL: number[];    // IL per position, same order as input
+  positionsInRange: number;
+}
+
+export interface PortfolioResult {
+  positions: PortfolioPositionResult[];
+  totalValueUSD: number;
+  totalDailyFeesUSD: number;
+  weightedAPY: number;        // Value-weighted APY
+  inRangeValuePercent: number; // Share of value currently earning fees
+  curve: PortfolioCurvePoint[];
+  risks: RiskAssessment;
+}
+
+/**
+ * Combined IL for a uniform price move across all positions
+ */
+function simulatePriceMove(positions: PortfolioPosition[], engines: Position[], priceChange: number): PortfolioCurvePoint {
+  let valuePoolUSD = 0;
+  let valueHoldUSD = 0;
+  let positionsInRange = 0;
+  const positionIL: number[] = [];
+
+  positions.forEach((p, index) => {
+    const il = engines[index].impermanentLossAt(p.entryPrice * (1 + priceChange / 100));
+    valuePoolUSD += il.valuePool * p.quotePriceUSD;
+    valueHoldUSD += il.valueHold * p.quotePriceUSD;
+    positionIL.push(il.ilPercentage);
+    if (!il.isOutOfRange) positionsInRange++;
+  });
+
+  return {
+    priceChange,
+    valuePoolUSD,
+    valueHoldUSD,
+    ilPercentage: valueHoldUSD > 0 ? (valuePoolUSD / valueHoldUSD - 1) * 100 : 0,
+    positionIL,
+    positionsInRange,
+  };
+}
+
+/**
+ * Portfolio-level risk from range coverage and combined IL at ±20%
+ */
+function assessPortfolioRisk(
+  positions: PortfolioPositionResult[],
+  inRangeValuePercent: number,
+  ilDown: number,
+  ilUp: number
+): RiskAssessment {
+  const warnings: string[] = [];
+
+  const outOfRangeRisk = inRangeValuePercent < 50 ? 'HIGH' : inRangeValuePercent < 100 ? 'MEDIUM' : 'LOW';
+  if (inRangeValuePercent < 100) {
+    warnings.push(`${(100 - inRangeValuePercent).toFixed(0)}% of portfolio value is out of range and not earning fees.`);
+  }
+
+  const worstIL = Math.min(ilDown, ilUp);
+  const ilRisk = worstIL < -5 ? 'HIGH' : worstIL < -2 ? 'MEDIUM' : 'LOW';
+  if (ilRisk !== 'LOW') {
+    warnings.push(`A 20% move costs the portfolio ${Math.abs(worstIL).toFixed(2)}% vs holding.`);
+  }
+
+  // Concentration: one position dominating the portfolio removes the benefit of laddering
+  const totalValue = positions.reduce((sum, p) => sum + p.valueUSD, 0);
+  const largestShare = totalValue > 0 ? Math.max(...positions.map(p => p.valueUSD)) / totalValue : 0;
+  const volatilityRisk = positions.length > 1 && largestShare > 0.8 ? 'MEDIUM' : 'LOW';
+  if (volatilityRisk !== 'LOW') {
+    warnings.push(`One position holds ${(largestShare * 100).toFixed(0)}% of portfolio value.`);
+  }
+
+  const levels = [outOfRangeRisk, ilRisk, volatilityRisk];
+  const overallRisk = levels.includes('HIGH') ? 'HIGH' : levels.includes('MEDIUM') ? 'MEDIUM' : 'LOW';
+
+  return { outOfRangeRisk, volatilityRisk, ilRisk, overallRisk, warnings };
+}
+
+/**
+ * Simulate all positions together
+ */
+export function simulatePortfolio(
+  positions: PortfolioPosition[],
+  priceChangeRange: { min: number; max: number; steps: number } = { min: -80, max: 200, steps: 40 }
+): PortfolioResult {
+  const engines = positions.map(p => Position.fromAmounts(
+    { currentPrice: p.entryPrice, feeRate: p.feeRate, coinDecimalsA: 0, coinDecimalsB: 0 },
+    { priceLower: p.priceLower, priceUpper: p.priceUpper },
+    p.amountA,
+    p.amountB
+  ));
+
+  const results: PortfolioPositionResult[] = positions.map((p, index) => {
+    const engine = engines[index];
+    const valueUSD = engine.valueAt(p.entryPrice) * p.quotePriceUSD;
+    const isInRange = engine.isInRange();
+    const { apy, dailyFeesUSD } = isInRange
+      ? engine.estimateFees({
+          dailyVolume: p.dailyVolume,
+          poolTVL: p.totalPoolTVL,
+          quotePriceUSD: p.quotePriceUSD,
+          activeLiquidityShare: p.activeLiquidityShare,
+        })
+      : { apy: 0, dailyFeesUSD: 0 };
+
+    return {
+      position: p,
+      valueUSD,
+      dailyFeesUSD,
+      apy,
+      isInRange,
+      health: engine.health(apy),
+    };
+  });
+
+  const totalValueUSD = results.reduce((sum, r) => sum + r.valueUSD, 0);
+  const totalDailyFeesUSD = results.reduce((sum, r) => sum + r.dailyFeesUSD, 0);
+  const weightedAPY = totalValueUSD > 0
+    ? results.reduce((sum, r) => sum + r.apy * r.valueUSD, 0) / totalValueUSD
+    : 0;
+  const inRangeValue = results.filter(r => r.isInRange).reduce((sum, r) => sum + r.valueUSD, 0);
+  const inRangeValuePercent = totalValueUSD > 0 ? (inRangeValue / totalValueUSD) * 100 : 0;
+
+  const curve: PortfolioCurvePoint[] = [];
+  if (positions.length > 0) {
+    const { min, max, steps } = priceChangeRange;
+    for (let i = 0; i <= steps; i++) {
+      const priceChange = min + (i * (max - min)) / steps;
+      if (priceChange <= -100) continue;
+      curve.push(simulatePriceMove(positions, engines, priceChange));
+    }
+  }
+
+  const ilDown = positions.length > 0 ? simulatePriceMove(positions, engines, -20).ilPercentage : 0;
+  const ilUp = positions.length > 0 ? simulatePriceMove(positions, engines, 20).ilPercentage : 0;
+
+  return {
+    positions: results,
+    totalValueUSD,
+    totalDailyFeesUSD,
+    weightedAPY,
+    inRangeValuePercent,
+    curve,
+    risks: assessPortfolioRisk(results, inRangeValuePercent, ilDown, ilUp),
+  };
+}
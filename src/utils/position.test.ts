@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Position } from './position';
+import { simulatePortfolio } from './portfolio';
+import { runSimulation } from './simulation';
+import { priceToTickWithDecimals, tickToPriceWithDecimals } from './tickMath';
+
+// SUI/USDC at 2 USDC per SUI; USDC is the quote token at $1
+const ENTRY_PRICE = 2;
+const FEE_RATE = 0.0025;
+const DAILY_VOLUME = 1_000_000;
+const POOL_TVL = 5_000_000;
+const GRID = { min: -50, max: 100, steps: 15 }; // 10% steps
+
+/**
+ * The same position through the simulation, the Position engine and a one-position portfolio
+ */
+function threeWays(lower: number, upper: number, amountA: number, amountB: number) {
+  const tickLower = priceToTickWithDecimals(lower, 9, 6);
+  const tickUpper = priceToTickWithDecimals(upper, 9, 6);
+  const priceLower = tickToPriceWithDecimals(tickLower, 9, 6);
+  const priceUpper = tickToPriceWithDecimals(tickUpper, 9, 6);
+
+  const simulation = runSimulation(
+    amountA, amountB, ENTRY_PRICE, 1, tickLower, tickUpper, 9, 6, FEE_RATE, DAILY_VOLUME, POOL_TVL
+  );
+  const position = Position.fromAmounts(
+    { currentPrice: ENTRY_PRICE, feeRate: FEE_RATE, coinDecimalsA: 9, coinDecimalsB: 6 },
+    { priceLower, priceUpper },
+    amountA,
+    amountB
+  );
+  const portfolio = simulatePortfolio([{
+    id: 'p1',
+    label: 'SUI/USDC',
+    poolId: '0xpool',
+    tokenASymbol: 'SUI',
+    tokenBSymbol: 'USDC',
+    entryPrice: ENTRY_PRICE,
+    priceLower,
+    priceUpper,
+    amountA,
+    amountB,
+    feeRate: FEE_RATE,
+    dailyVolume: DAILY_VOLUME,
+    totalPoolTVL: POOL_TVL,
+    quotePriceUSD: 1,
+  }], GRID);
+
+  return { simulation, position, portfolio };
+}
+
+describe.each([
+  ['in range', 1.5, 2.5, 100, 200],
+  ['in range, excess Token A', 1.5, 2.5, 300, 50],
+  ['below the range', 2.5, 3, 100, 0],
+  ['above the range', 1, 1.5, 0, 200],
+])('runSimulation, Position and the portfolio agree (%s)', (_, lower, upper, amountA, amountB) => {
+  const { simulation, position, portfolio } = threeWays(lower, upper, amountA, amountB);
+
+  it('on the deposit and its value', () => {
+    expect(simulation.depositedAmountA).toBeCloseTo(position.deposited.amountA, 9);
+    expect(simulation.depositedAmountB).toBeCloseTo(position.deposited.amountB, 9);
+    expect(simulation.liquidity.toString()).toBe(position.rawLiquidity().toString());
+    expect(simulation.initialValueUSD).toBeCloseTo(position.valueAt(ENTRY_PRICE), 9);
+    expect(portfolio.totalValueUSD).toBeCloseTo(simulation.initialValueUSD, 9);
+  });
+
+  it('on fees and APY', () => {
+    const fees = position.estimateFees({ dailyVolume: DAILY_VOLUME, poolTVL: POOL_TVL, quotePriceUSD: 1 });
+    expect(simulation.dailyFees).toBeCloseTo(fees.dailyFeesUSD, 9);
+    expect(simulation.estimatedAPY).toBeCloseTo(fees.apy, 9);
+    expect(portfolio.totalDailyFeesUSD).toBeCloseTo(fees.dailyFeesUSD, 9);
+    expect(portfolio.weightedAPY).toBeCloseTo(fees.apy, 9);
+  });
+
+  it('on IL at every shared price move', () => {
+    const curve = position.ilCurve(GRID);
+    let compared = 0;
+
+    simulation.ilByPriceChange.forEach(point => {
+      const onCurve = curve.find(c => c.priceChange === point.priceChange);
+      const inPortfolio = portfolio.curve.find(c => c.priceChange === point.priceChange);
+      if (!onCurve || !inPortfolio) return;
+
+      expect(point.impermanentLoss).toBeCloseTo(onCurve.ilPercentage, 9);
+      expect(inPortfolio.positionIL[0]).toBeCloseTo(onCurve.ilPercentage, 9);
+      expect(inPortfolio.ilPercentage).toBeCloseTo(onCurve.ilPercentage, 9);
+      expect(point.valueInPool).toBeCloseTo(onCurve.valuePool, 9);
+      compared++;
+    });
+
+    expect(compared).toBeGreaterThanOrEqual(10);
+  });
+});
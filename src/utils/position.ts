@@ -0,0 +1,315 @@
+/**
+ * Position Engine
+ *
+ * One model of a CLMM position shared by runSimulation, the IL charts and the
+ * portfolio, so every panel reads the same amounts, value, IL, fees and health.
+ *
+ * - Prices are Token B per Token A (decimal-adjusted), amounts in token units
+ * - Values are in Token B; multiply by the quote token's USD price for USD
+ * - Liquidity is the float L of clmmMath; rawLiquidity() gives on-chain units
+ *
+ * Input that does not fit the range ratio is not deposited (see getDepositAmounts)
+ * and is kept as leftover: it is not part of the position's value or IL.
+ */
+
+import BN from 'bn.js';
+import { PoolInfo } from '../types';
+import {
+  CLMMILResult,
+  ILCurvePoint,
+  PositionHealth,
+  calculateAmplificationFactor,
+  calculateCLMMAPY,
+  calculatePositionHealth,
+  calculateV2_IL,
+  getAmountsForLiquidity,
+  getDepositAmounts,
+} from './clmmMath';
+
+// Only the pool fields the engine reads, so callers can pass a PoolInfo or a plain snapshot
+export type PositionPool = Pick<PoolInfo, 'currentPrice' | 'feeRate' | 'coinDecimalsA' | 'coinDecimalsB'>;
+
+export interface PositionRange {
+  priceLower: number;
+  priceUpper: number;
+}
+
+export interface PositionAmounts {
+  amountA: number;
+  amountB: number;
+}
+
+export interface PositionFeeMarket {
+  dailyVolume: number;          // USD
+  poolTVL: number;              // USD
+  quotePriceUSD: number;        // USD value of 1 Token B
+  activeLiquidityShare?: number; // Measured from the tick-level liquidity distribution
+}
+
+export interface PositionFeeEstimate {
+  dailyFees: number;            // LP share, Token B, while in range
+  dailyFeesUSD: number;
+  apy: number;
+  capitalEfficiency: number;
+  protocolFeeUSD: number;
+}
+
+export type PriceChangeRange = { min: number; max: number; steps: number };
+
+export class Position {
+  readonly pool: PositionPool;
+  readonly priceLower: number;
+  readonly priceUpper: number;
+  readonly liquidity: number;
+  readonly leftoverA: number;
+  readonly leftoverB: number;
+
+  private constructor(pool: PositionPool, range: PositionRange, liquidity: number, leftoverA: number, leftoverB: number) {
+    if (range.priceLower >= range.priceUpper) {
+      throw new Error('Price lower must be less than price upper');
+    }
+    if (pool.currentPrice <= 0 || range.priceLower <= 0) {
+      throw new Error('Prices must be positive');
+    }
+    this.pool = pool;
+    this.priceLower = range.priceLower;
+    this.priceUpper = range.priceUpper;
+    this.liquidity = liquidity;
+    this.leftoverA = leftoverA;
+    this.leftoverB = leftoverB;
+  }
+
+  /**
+   * Deposit amounts at the pool's current price; the excess side is left over
+   */
+  static fromAmounts(pool: PositionPool, range: PositionRange, amountA: number, amountB: number): Position {
+    const deposit = getDepositAmounts(
+      pool.currentPrice,
+      range.priceLower,
+      range.priceUpper,
+      Math.max(0, amountA),
+      Math.max(0, amountB)
+    );
+    return new Position(pool, range, deposit.liquidity, deposit.leftoverA, deposit.leftoverB);
+  }
+
+  static fromLiquidity(pool: PositionPool, range: PositionRange, liquidity: number): Position {
+    return new Position(pool, range, Math.max(0, liquidity), 0, 0);
+  }
+
+  get entryPrice(): number {
+    return this.pool.currentPrice;
+  }
+
+  /**
+   * Amounts deposited at entry
+   */
+  get deposited(): PositionAmounts {
+    return this.amountsAt(this.entryPrice);
+  }
+
+  amountsAt(price: number): PositionAmounts {
+    const { amount0, amount1 } = getAmountsForLiquidity(
+      Math.sqrt(price),
+      Math.sqrt(this.priceLower),
+      Math.sqrt(this.priceUpper),
+      this.liquidity
+    );
+    return { amountA: amount0, amountB: amount1 };
+  }
+
+  valueAt(price: number): number {
+    const { amountA, amountB } = this.amountsAt(price);
+    return amountA * price + amountB;
+  }
+
+  /**
+   * Value of the deposited amounts if they had been held instead
+   */
+  holdValueAt(price: number): number {
+    const { amountA, amountB } = this.deposited;
+    return amountA * price + amountB;
+  }
+
+  rangeStatus(price: number = this.entryPrice): 'below' | 'above' | 'in-range' {
+    if (price < this.priceLower) return 'below';
+    if (price > this.priceUpper) return 'above';
+    return 'in-range';
+  }
+
+  isInRange(price: number = this.entryPrice): boolean {
+    return this.rangeStatus(price) === 'in-range';
+  }
+
+  /**
+   * IL at a target price vs holding the deposited amounts
+   */
+  impermanentLossAt(targetPrice: number): CLMMILResult {
+    if (targetPrice <= 0) {
+      throw new Error('Prices must be positive');
+    }
+    const initial = this.deposited;
+    const final = this.amountsAt(targetPrice);
+    const valueHold = initial.amountA * targetPrice + initial.amountB;
+    const valuePool = final.amountA * targetPrice + final.amountB;
+    const outOfRangeDirection = this.rangeStatus(targetPrice);
+
+    return {
+      ilPercentage: valueHold > 0 ? ((valuePool - valueHold) / valueHold) * 100 : 0,
+      valueHold,
+      valuePool,
+      initialAmountA: initial.amountA,
+      initialAmountB: initial.amountB,
+      finalAmountA: final.amountA,
+      finalAmountB: final.amountB,
+      isOutOfRange: outOfRangeDirection !== 'in-range',
+      outOfRangeDirection,
+    };
+  }
+
+  /**
+   * IL across a sweep of % price moves from entry, with V2 IL for comparison
+   */
+  ilCurve(priceChangeRange: PriceChangeRange = { min: -80, max: 200, steps: 50 }): ILCurvePoint[] {
+    const { min, max, steps } = priceChangeRange;
+    const stepSize = (max - min) / steps;
+    const baseAmplification = calculateAmplificationFactor(this.priceLower, this.priceUpper);
+    const curve: ILCurvePoint[] = [];
+
+    for (let i = 0; i <= steps; i++) {
+      const priceChange = min + i * stepSize;
+      const targetPrice = this.entryPrice * (1 + priceChange / 100);
+      if (targetPrice <= 0) continue;
+
+      const il = this.impermanentLossAt(targetPrice);
+      const ilV2 = calculateV2_IL(targetPrice / this.entryPrice);
+
+      // How many times worse than V2; out of range is at least twice the in-range factor
+      let amplificationFactor = ilV2 !== 0 ? Math.abs(il.ilPercentage / ilV2) : baseAmplification;
+      if (il.isOutOfRange) {
+        amplificationFactor = Math.max(amplificationFactor, baseAmplification * 2);
+      }
+
+      curve.push({
+        priceChange,
+        targetPrice,
+        ilPercentage: il.ilPercentage,
+        ilV2Percentage: ilV2,
+        amplificationFactor,
+        valueHold: il.valueHold,
+        valuePool: il.valuePool,
+        isOutOfRange: il.isOutOfRange,
+        outOfRangeDirection: il.outOfRangeDirection,
+      });
+    }
+
+    return curve;
+  }
+
+  /**
+   * LP fee income at the entry price (after the protocol share)
+   * Out of range the position holds no active liquidity, so it earns nothing.
+   */
+  estimateFees(market: PositionFeeMarket): PositionFeeEstimate {
+    if (!this.isInRange()) {
+      return { dailyFees: 0, dailyFeesUSD: 0, apy: 0, capitalEfficiency: 0, protocolFeeUSD: 0 };
+    }
+
+    const { dailyVolume, poolTVL, quotePriceUSD, activeLiquidityShare } = market;
+    const valueUSD = this.valueAt(this.entryPrice) * quotePriceUSD;
+    const rangeWidth = (this.priceUpper - this.priceLower) / this.entryPrice;
+    const { apy, dailyFees, capitalEfficiency, protocolFee } = calculateCLMMAPY(
+      dailyVolume,
+      this.pool.feeRate,
+      valueUSD,
+      poolTVL,
+      rangeWidth,
+      activeLiquidityShare
+    );
+
+    return {
+      dailyFees: quotePriceUSD > 0 ? dailyFees / quotePriceUSD : 0,
+      dailyFeesUSD: dailyFees,
+      apy,
+      capitalEfficiency,
+      protocolFeeUSD: protocolFee,
+    };
+  }
+
+  /**
+   * Health score at a price, using the IL from entry to that price
+   */
+  health(feeAPR: number, price: number = this.entryPrice, daysInPosition: number = 30): PositionHealth {
+    const { ilPercentage } = this.impermanentLossAt(price);
+    return calculatePositionHealth(price, this.priceLower, this.priceUpper, ilPercentage, feeAPR, daysInPosition);
+  }
+
+  /**
+   * Liquidity in on-chain units: L_raw = L × 10^((decimalsA + decimalsB) / 2)
+   */
+  rawLiquidity(): BN {
+    const raw = this.liquidity * Math.pow(10, (this.pool.coinDecimalsA + this.pool.coinDecimalsB) / 2);
+    return Number.isFinite(raw) && raw > 0 ? new BN(BigInt(Math.floor(raw)).toString()) : new BN(0);
+  }
+}
+
+/**
+ * IL between two prices for a position opened with the given amounts
+ * (see Position.impermanentLossAt)
+ */
+export function calculateCLMM_IL(
+  entryPrice: number,
+  targetPrice: number,
+  priceLower: number,
+  priceUpper: number,
+  amountAInitial: number,
+  amountBInitial: number
+): CLMMILResult {
+  if (entryPrice <= 0 || targetPrice <= 0) {
+    throw new Error('Prices must be positive');
+  }
+  const position = Position.fromAmounts(
+    { currentPrice: entryPrice, feeRate: 0, coinDecimalsA: 0, coinDecimalsB: 0 },
+    { priceLower, priceUpper },
+    amountAInitial,
+    amountBInitial
+  );
+
+  // Zero IL if the amounts cannot open a position
+  if (position.liquidity <= 0) {
+    const value = amountAInitial * targetPrice + amountBInitial;
+    return {
+      ilPercentage: 0,
+      valueHold: value,
+      valuePool: value,
+      initialAmountA: amountAInitial,
+      initialAmountB: amountBInitial,
+      finalAmountA: amountAInitial,
+      finalAmountB: amountBInitial,
+      isOutOfRange: false,
+      outOfRangeDirection: 'in-range',
+    };
+  }
+
+  return position.impermanentLossAt(targetPrice);
+}
+
+/**
+ * IL curve for charting (see Position.ilCurve)
+ */
+export function generateILCurve(
+  currentPrice: number,
+  priceLower: number,
+  priceUpper: number,
+  amountA: number,
+  amountB: number,
+  priceChangeRange: PriceChangeRange = { min: -80, max: 200, steps: 50 }
+): ILCurvePoint[] {
+  if (priceLower >= priceUpper || currentPrice <= 0 || priceLower <= 0) return [];
+  return Position.fromAmounts(
+    { currentPrice, feeRate: 0, coinDecimalsA: 0, coinDecimalsB: 0 },
+    { priceLower, priceUpper },
+    amountA,
+    amountB
+  ).ilCurve(priceChangeRange);
+}
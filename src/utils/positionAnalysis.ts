@@ -0,0 +1,104 @@
+/**
+ * Live Position Analysis
+ *
+ * Turns an on-chain position (liquidity + tick range) into simulator inputs
+ * and health metrics:
+ * - Current token amounts come from getCoinAmountsFromLiquidity (exact BN math)
+ * - Prices are decimal-adjusted: P = 1.0001^tick × 10^(decimalsA - decimalsB)
+ * - IL is measured against holding the tokens the position had at entry
+ *
+ * In human units the liquidity scales as L_h = L_raw × 10^(-(decimalsA + decimalsB) / 2),
+ * so the float CLMM formulas can be reused on decimal-adjusted prices.
+ */
+
+import BN from 'bn.js';
+import { tickToPriceWithDecimals } from './tickMath';
+import { getCoinAmountsFromLiquidity, calculatePositionValueUSD } from './liquidityMath';
+import { calculatePositionHealth, getAmountsForLiquidity, PositionHealth } from './clmmMath';
+import { calculateCLMM_IL } from './position';
+
+export interface PositionAnalysisInput {
+  liquidity: BN;
+  sqrtPriceX64: BN;      // Current pool sqrt price
+  tickLower: number;     // On-chain ticks
+  tickUpper: number;
+  decimalsA: number;
+  decimalsB: number;
+  feeOwedA: BN;          // Uncollected fees, raw units
+  feeOwedB: BN;
+  entryPrice?: number;   // Defaults to the range's geometric mid price
+  feeAPR?: number;       // For the health score
+  quotePriceUSD?: number; // USD price of Token B, defaults to $1
+}
+
+export interface PositionAnalysis {
+  amountA: number;       // Current amounts, human units
+  amountB: number;
+  priceLower: number;
+  priceUpper: number;
+  currentPrice: number;
+  entryPrice: number;
+  entryAmountA: number;
+  entryAmountB: number;
+  isInRange: boolean;
+  positionValue: number; // Token B terms
+  positionValueUSD: number;
+  holdValue: number;     // Entry tokens valued at current price
+  ilPercentage: number;
+  feesA: number;
+  feesB: number;
+  feesValue: number;
+  health: PositionHealth;
+}
+
+const toHuman = (amount: BN, decimals: number): number => parseFloat(amount.toString()) / Math.pow(10, decimals);
+
+/**
+ * Analyze an on-chain position at the current pool price
+ */
+export function analyzePosition(input: PositionAnalysisInput): PositionAnalysis {
+  const { liquidity, sqrtPriceX64, tickLower, tickUpper, decimalsA, decimalsB } = input;
+
+  if (tickLower >= tickUpper) {
+    throw new Error('Tick lower must be less than tick upper');
+  }
+
+  const priceLower = tickToPriceWithDecimals(tickLower, decimalsA, decimalsB);
+  const priceUpper = tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB);
+  const sqrtPrice = parseFloat(sqrtPriceX64.toString()) / Math.pow(2, 64);
+  const currentPrice = sqrtPrice * sqrtPrice * Math.pow(10, decimalsA - decimalsB);
+  const entryPrice = input.entryPrice && input.entryPrice > 0 ? input.entryPrice : Math.sqrt(priceLower * priceUpper);
+
+  const { amountA: rawA, amountB: rawB } = getCoinAmountsFromLiquidity(liquidity, sqrtPriceX64, tickLower, tickUpper);
+  const amountA = toHuman(rawA, decimalsA);
+  const amountB = toHuman(rawB, decimalsB);
+
+  // Tokens the position held at entry
+  const humanLiquidity = parseFloat(liquidity.toString()) * Math.pow(10, -(decimalsA + decimalsB) / 2);
+  const entry = getAmountsForLiquidity(Math.sqrt(entryPrice), Math.sqrt(priceLower), Math.sqrt(priceUpper), humanLiquidity);
+  const il = calculateCLMM_IL(entryPrice, currentPrice, priceLower, priceUpper, entry.amount0, entry.amount1);
+
+  const quotePriceUSD = input.quotePriceUSD ?? 1;
+  const feesA = toHuman(input.feeOwedA, decimalsA);
+  const feesB = toHuman(input.feeOwedB, decimalsB);
+
+  return {
+    amountA,
+    amountB,
+    priceLower,
+    priceUpper,
+    currentPrice,
+    entryPrice,
+    entryAmountA: entry.amount0,
+    entryAmountB: entry.amount1,
+    isInRange: currentPrice >= priceLower && currentPrice <= priceUpper,
+    positionValue: amountA * currentPrice + amountB,
+    positionValueUSD: calculatePositionValueUSD(rawA, rawB, currentPrice * quotePriceUSD, quotePriceUSD, decimalsA, decimalsB),
+    holdValue: il.valueHold,
+    ilPercentage: il.ilPercentage,
+    feesA,
+    feesB,
+    feesValue: feesA * currentPrice + feesB,
+    health: calculatePositionHealth(currentPrice, priceLower, priceUpper, il.ilPercentage, input.feeAPR ?? 0),
+  };
+}
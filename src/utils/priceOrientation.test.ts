@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { tickToPriceWithDecimals } from './tickMath';
+import {
+  getBoundTickSide,
+  getViewTokens,
+  toViewPrice,
+  toViewPriceChange,
+  toViewRange,
+  viewPriceToTick,
+} from './priceOrientation';
+
+describe('toViewPrice / toViewRange', () => {
+  it('passes pool prices through when not inverted', () => {
+    expect(toViewPrice(2, false)).toBe(2);
+    expect(toViewRange(1.5, 2.5, false)).toEqual({ min: 1.5, max: 2.5 });
+  });
+
+  it('inverts prices and swaps the bounds so min < max', () => {
+    expect(toViewPrice(4, true)).toBe(0.25);
+    expect(toViewPrice(toViewPrice(3, true), true)).toBeCloseTo(3, 12);
+    expect(toViewPrice(0, true)).toBe(0);
+    expect(toViewRange(2, 4, true)).toEqual({ min: 0.25, max: 0.5 });
+  });
+});
+
+describe('toViewPriceChange', () => {
+  it('maps a pool move to the matching view move', () => {
+    expect(toViewPriceChange(25, false)).toBe(25);
+    expect(toViewPriceChange(100, true)).toBeCloseTo(-50, 9);
+    expect(toViewPriceChange(-50, true)).toBeCloseTo(100, 9);
+    expect(toViewPriceChange(0, true)).toBeCloseTo(0, 12);
+  });
+});
+
+describe('getViewTokens', () => {
+  it('quotes Token B per Token A, or the reverse when inverted', () => {
+    expect(getViewTokens('SUI', 'USDC', false)).toEqual({ base: 'SUI', quote: 'USDC' });
+    expect(getViewTokens('SUI', 'USDC', true)).toEqual({ base: 'USDC', quote: 'SUI' });
+  });
+});
+
+describe('getBoundTickSide', () => {
+  it('maps view bounds to ticks, swapping them when inverted', () => {
+    expect(getBoundTickSide('min', false)).toBe('lower');
+    expect(getBoundTickSide('max', false)).toBe('upper');
+    expect(getBoundTickSide('min', true)).toBe('upper');
+    expect(getBoundTickSide('max', true)).toBe('lower');
+  });
+});
+
+describe('viewPriceToTick', () => {
+  const SPACING = 60;
+  const DECIMALS_A = 9;
+  const DECIMALS_B = 6;
+  const price = (tick: number) => tickToPriceWithDecimals(tick, DECIMALS_A, DECIMALS_B);
+
+  it('aligns outwards so the range covers the view bounds', () => {
+    const lower = viewPriceToTick(1.5, 'min', SPACING, false, DECIMALS_A, DECIMALS_B);
+    const upper = viewPriceToTick(2.5, 'max', SPACING, false, DECIMALS_A, DECIMALS_B);
+
+    expect(Math.abs(lower % SPACING)).toBe(0);
+    expect(Math.abs(upper % SPACING)).toBe(0);
+    expect(price(lower)).toBeLessThanOrEqual(1.5);
+    expect(price(lower + SPACING)).toBeGreaterThan(1.5);
+    expect(price(upper)).toBeGreaterThanOrEqual(2.5);
+    expect(price(upper - SPACING)).toBeLessThan(2.5);
+  });
+
+  it('sets the upper tick from an inverted view minimum', () => {
+    // View 0.4 - 0.5 (Token A per Token B) is pool 2 - 2.5
+    const upper = viewPriceToTick(0.4, 'min', SPACING, true, DECIMALS_A, DECIMALS_B);
+    const lower = viewPriceToTick(0.5, 'max', SPACING, true, DECIMALS_A, DECIMALS_B);
+
+    expect(upper).toBeGreaterThan(lower);
+    expect(price(upper)).toBeGreaterThanOrEqual(2.5);
+    expect(price(upper - SPACING)).toBeLessThan(2.5);
+    expect(price(lower)).toBeLessThanOrEqual(2);
+    expect(price(lower + SPACING)).toBeGreaterThan(2);
+
+    const view = toViewRange(price(lower), price(upper), true);
+    expect(view.min).toBeLessThanOrEqual(0.4);
+    expect(view.max).toBeGreaterThanOrEqual(0.5);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Price Orientation
+ *
+ * Pool prices and ticks are always Token B per Token A (on-chain semantics).
+ * The inverted view quotes Token A per Token B instead; only display and
+ * input go through these helpers, stored ticks never change meaning.
+ *
+ * Inverting reverses order: the pool's upper bound is the view's minimum,
+ * so a view minimum sets tickUpper and a view maximum sets tickLower.
+ */
+
+import { alignTickToSpacing, priceToTickWithDecimals, tickToPriceWithDecimals } from './tickMath';
+
+export type RangeBound = 'min' | 'max';
+
+export interface ViewRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Pool price → view price (or back: the inversion is its own inverse)
+ */
+export function toViewPrice(price: number, isInverted: boolean): number {
+  if (!isInverted) return price;
+  return price > 0 ? 1 / price : 0;
+}
+
+/**
+ * Pool range → view range, keeping min < max
+ */
+export function toViewRange(priceLower: number, priceUpper: number, isInverted: boolean): ViewRange {
+  return isInverted
+    ? { min: toViewPrice(priceUpper, true), max: toViewPrice(priceLower, true) }
+    : { min: priceLower, max: priceUpper };
+}
+
+/**
+ * % move of the pool price → % move of the view price
+ */
+export function toViewPriceChange(priceChange: number, isInverted: boolean): number {
+  if (!isInverted) return priceChange;
+  return (1 / (1 + priceChange / 100) - 1) * 100;
+}
+
+/**
+ * Base and quote symbols of the view price (quote per base)
+ */
+export function getViewTokens(
+  tokenASymbol: string,
+  tokenBSymbol: string,
+  isInverted: boolean
+): { base: string; quote: string } {
+  return isInverted ? { base: tokenBSymbol, quote: tokenASymbol } : { base: tokenASymbol, quote: tokenBSymbol };
+}
+
+/**
+ * Which pool tick a view bound sets
+ */
+export function getBoundTickSide(bound: RangeBound, isInverted: boolean): 'lower' | 'upper' {
+  return (bound === 'min') !== isInverted ? 'lower' : 'upper';
+}
+
+/**
+ * On-chain tick for a view bound price, aligned outwards so the range covers it
+ */
+export function viewPriceToTick(
+  viewPrice: number,
+  bound: RangeBound,
+  tickSpacing: number,
+  isInverted: boolean,
+  decimalsA: number,
+  decimalsB: number
+): number {
+  const poolPrice = toViewPrice(viewPrice, isInverted);
+  const floorTick = priceToTickWithDecimals(poolPrice, decimalsA, decimalsB);
+
+  if (getBoundTickSide(bound, isInverted) === 'lower') {
+    return alignTickToSpacing(floorTick, tickSpacing, false);
+  }
+  const ceilTick = tickToPriceWithDecimals(floorTick, decimalsA, decimalsB) < poolPrice ? floorTick + 1 : floorTick;
+  return alignTickToSpacing(ceilTick, tickSpacing, true);
+}
@@ -0,0 +1,159 @@
+/**
+ * Side-by-side Range Comparison
+ *
+ * Simulates two to five candidate ranges for the same pool and the same capital.
+ * Each range receives the token split it needs at the current price, so rows
+ * differ only in where the liquidity sits:
+ * - APY and break-even days come from runSimulation (same path as the main run)
+ * - Capital efficiency compares liquidity per unit of capital with a full-range
+ *   (V2) position, which holds L = V / (2√P):
+ *
+ *     efficiency = L_range / L_fullRange = 2√P / (x₁·P + y₁)
+ *
+ *   where (x₁, y₁) are the amounts for L = 1 in the range
+ * - Without a measured fee share, an in-range position is assumed to earn
+ *   TVL share × capital efficiency (pool liquidity treated as full-range), so
+ *   narrower ranges earn more instead of every row getting the same APY
+ *
+ * Ticks are on-chain ticks; prices are decimal-adjusted (Token B per Token A).
+ */
+
+import { SimulationResult } from '../types';
+import { tickToPriceWithDecimals } from './tickMath';
+import { runSimulation } from './simulation';
+import {
+  assessILCurve,
+  calculateAmplificationFactor,
+  getAmountsForLiquidity,
+  ILCurvePoint,
+  PositionHealth,
+} from './clmmMath';
+import { generateILCurve } from './position';
+import { getAmountsForCapital } from './rangeOptimizer';
+
+export const MIN_COMPARISON_RANGES = 2;
+export const MAX_COMPARISON_RANGES = 5;
+
+export interface ComparisonRange {
+  id: string;
+  label: string;
+  tickLower: number;
+  tickUpper: number;
+}
+
+export interface RangeComparisonConfig {
+  currentPrice: number;       // Token B per Token A
+  capital: number;            // Position value in Token B terms, shared by every range
+  quotePriceUSD: number;      // USD value of 1 Token B
+  decimalsA: number;
+  decimalsB: number;
+  feeRate: number;
+  dailyVolume: number;
+  totalPoolTVL: number;
+  annualVolatility: number;
+  priceChangeRange: { min: number; max: number; steps: number }; // Same x-axis for every curve
+  // Optional measured fee share for a range (e.g. from tick-level liquidity)
+  getFeeShare?: (tickLower: number, tickUpper: number, amountA: number, amountB: number) => number | undefined;
+}
+
+export interface RangeComparisonRow {
+  range: ComparisonRange;
+  priceLower: number;
+  priceUpper: number;
+  rangeWidthPercent: number;  // (Pb - Pa) / P × 100
+  amountA: number;            // Deposit split for the shared capital
+  amountB: number;
+  isInRange: boolean;
+  result: SimulationResult;
+  ilCurve: ILCurvePoint[];
+  apy: number;
+  capitalEfficiency: number;  // × full-range liquidity for the same capital
+  breakEvenDays: number;
+  amplificationFactor: number;
+  health: PositionHealth;
+}
+
+/**
+ * Liquidity per unit of capital relative to a full-range position
+ */
+export function calculateCapitalEfficiency(currentPrice: number, priceLower: number, priceUpper: number): number {
+  const unit = getAmountsForLiquidity(Math.sqrt(currentPrice), Math.sqrt(priceLower), Math.sqrt(priceUpper), 1);
+  const unitValue = unit.amount0 * currentPrice + unit.amount1;
+  return unitValue > 0 ? (2 * Math.sqrt(currentPrice)) / unitValue : 0;
+}
+
+/**
+ * Simulate every range with the same capital, in input order
+ */
+export function compareRanges(ranges: ComparisonRange[], config: RangeComparisonConfig): RangeComparisonRow[] {
+  const {
+    currentPrice,
+    capital,
+    quotePriceUSD,
+    decimalsA,
+    decimalsB,
+    feeRate,
+    dailyVolume,
+    totalPoolTVL,
+    annualVolatility,
+    priceChangeRange,
+    getFeeShare,
+  } = config;
+
+  if (ranges.length < MIN_COMPARISON_RANGES || ranges.length > MAX_COMPARISON_RANGES) {
+    throw new Error(`Compare between ${MIN_COMPARISON_RANGES} and ${MAX_COMPARISON_RANGES} ranges`);
+  }
+  if (currentPrice <= 0 || capital <= 0) {
+    throw new Error('Current price and capital must be positive');
+  }
+
+  return ranges.map(range => {
+    if (range.tickLower >= range.tickUpper) {
+      throw new Error(`${range.label}: tick lower must be less than tick upper`);
+    }
+
+    const priceLower = tickToPriceWithDecimals(range.tickLower, decimalsA, decimalsB);
+    const priceUpper = tickToPriceWithDecimals(range.tickUpper, decimalsA, decimalsB);
+    const { amountA, amountB } = getAmountsForCapital(capital, currentPrice, priceLower, priceUpper);
+
+    const isInRange = currentPrice >= priceLower && currentPrice <= priceUpper;
+    const capitalEfficiency = calculateCapitalEfficiency(currentPrice, priceLower, priceUpper);
+    const feeShare = getFeeShare?.(range.tickLower, range.tickUpper, amountA, amountB)
+      ?? (totalPoolTVL > 0 && isInRange ? Math.min(1, (capital * quotePriceUSD / totalPoolTVL) * capitalEfficiency) : 0);
+
+    const result = runSimulation(
+      amountA,
+      amountB,
+      currentPrice * quotePriceUSD,
+      quotePriceUSD,
+      range.tickLower,
+      range.tickUpper,
+      decimalsA,
+      decimalsB,
+      feeRate,
+      dailyVolume,
+      totalPoolTVL,
+      feeShare,
+      annualVolatility
+    );
+    const ilCurve = generateILCurve(currentPrice, priceLower, priceUpper, amountA, amountB, priceChangeRange);
+    const { positionHealth } = assessILCurve(ilCurve, currentPrice, priceLower, priceUpper, result.estimatedAPY);
+
+    return {
+      range,
+      priceLower,
+      priceUpper,
+      rangeWidthPercent: ((priceUpper - priceLower) / currentPrice) * 100,
+      amountA,
+      amountB,
+      isInRange,
+      result,
+      ilCurve,
+      apy: result.estimatedAPY,
+      capitalEfficiency,
+      breakEvenDays: result.breakEvenDays,
+      amplificationFactor: calculateAmplificationFactor(priceLower, priceUpper),
+      health: positionHealth,
+    };
+  });
+}
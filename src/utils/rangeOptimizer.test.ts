@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { findOptimalRanges, RangeCandidate, RangeOptimizerConfig } from './rangeOptimizer';
+import { priceToTickWithDecimals } from './tickMath';
+
+// SUI/USDC-like pool: 2 Token B per Token A
+const config: RangeOptimizerConfig = {
+  currentPrice: 2,
+  currentTick: priceToTickWithDecimals(2, 9, 6),
+  tickSpacing: 60,
+  decimalsA: 9,
+  decimalsB: 6,
+  capital: 1000,
+  quotePriceUSD: 1,
+  annualVolatility: 0.8,
+  horizonDays: 30,
+  dailyVolume: 5_000_000,
+  feeRate: 0.0025,
+  totalPoolTVL: 20_000_000,
+};
+
+// Candidates in sweep order, so runs with different scores line up
+const byRange = (candidates: RangeCandidate[]) =>
+  [...candidates].sort((a, b) => a.tickLower - b.tickLower || a.tickUpper - b.tickUpper);
+
+describe('findOptimalRanges', () => {
+  it('returns fees in Token B when the quote token is not worth 1 USD', () => {
+    const withShare = { ...config, getFeeShare: () => 0.001 };
+    const atOneUSD = byRange(findOptimalRanges(withShare).ranked);
+    const atTwoUSD = byRange(findOptimalRanges({ ...withShare, quotePriceUSD: 2 }).ranked);
+
+    // A measured share earns the same USD fees, worth half as many Token B
+    atOneUSD.forEach((candidate, i) => {
+      expect(atTwoUSD[i].tickLower).toBe(candidate.tickLower);
+      expect(atTwoUSD[i].expectedFees).toBeCloseTo(candidate.expectedFees / 2, 9);
+      expect(atTwoUSD[i].expectedIL).toBeCloseTo(candidate.expectedIL, 9);
+    });
+  });
+
+  it('sizes the TVL share from the capital in USD', () => {
+    const atOneUSD = byRange(findOptimalRanges(config).ranked);
+    const atTwoUSD = byRange(findOptimalRanges({ ...config, quotePriceUSD: 2, capital: config.capital / 2 }).ranked);
+
+    // Same USD capital: the same share of USD fees, counted in Token B
+    atOneUSD.forEach((candidate, i) => {
+      expect(atTwoUSD[i].expectedFees).toBeCloseTo(candidate.expectedFees / 2, 9);
+    });
+  });
+
+  it('skips the sweep without a quote price', () => {
+    expect(findOptimalRanges({ ...config, quotePriceUSD: 0 }).ranked).toEqual([]);
+  });
+});
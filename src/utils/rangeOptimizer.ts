@@ -0,0 +1,253 @@
+/**
+ * Optimal Range Finder
+ *
+ * Sweeps candidate tick ranges (aligned to the pool's tick spacing) and scores
+ * each one by expected fees minus expected impermanent loss over a horizon,
+ * assuming log-normal price moves with the given annual volatility:
+ *
+ *   ln(P_t / P_0) ~ N(0, σ²·t)
+ *   E[time in range] = (1/T) ∫ P(Pa ≤ P_t ≤ Pb) dt
+ *   E[IL] = ∫ (V_pool(P_T) - V_hold(P_T)) · φ(z) dz
+ *
+ * Values are in Token B (quote) terms, price = Token B per Token A. Volume and
+ * TVL are USD, so fees are estimated in USD and converted back to Token B.
+ */
+
+import { alignTickToSpacing, tickToPriceWithDecimals } from './tickMath';
+import { calculateCLMMAPY, getAmountsForLiquidity } from './clmmMath';
+import { calculateCLMM_IL } from './position';
+
+export interface RangeOptimizerConfig {
+  currentPrice: number;
+  currentTick: number;        // On-chain tick of the pool
+  tickSpacing: number;
+  decimalsA: number;
+  decimalsB: number;
+  capital: number;            // Position value in Token B terms
+  quotePriceUSD: number;      // USD value of 1 Token B
+  annualVolatility: number;   // σ, e.g. 0.8 = 80%
+  horizonDays: number;
+  dailyVolume: number;        // USD
+  feeRate: number;
+  totalPoolTVL: number;       // USD
+  maxRangePercent?: number;   // Widest half-range to consider (default 200%)
+  // Optional measured fee share for a candidate (e.g. from tick-level liquidity)
+  getFeeShare?: (tickLower: number, tickUpper: number, amountA: number, amountB: number) => number | undefined;
+}
+
+export interface RangeCandidate {
+  tickLower: number;
+  tickUpper: number;
+  priceLower: number;
+  priceUpper: number;
+  rangeWidthPercent: number;  // (Pb - Pa) / P × 100
+  expectedTimeInRange: number; // 0-1
+  expectedFees: number;
+  expectedIL: number;         // Expected value lost vs HODL (≤ 0)
+  expectedILPercent: number;
+  score: number;              // expectedFees + expectedIL
+  isEfficient: boolean;       // On the fees vs IL efficient frontier
+}
+
+export interface RangeOptimizerResult {
+  ranked: RangeCandidate[];   // Best score first
+  frontier: RangeCandidate[]; // Efficient candidates, lowest IL risk first
+}
+
+// Standard normal CDF (Abramowitz-Stegun 7.1.26)
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t
+    * Math.exp(-(x * x) / 2);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Probability-weighted fraction of the horizon spent inside [Pa, Pb]
+ */
+function expectedTimeInRange(
+  currentPrice: number,
+  priceLower: number,
+  priceUpper: number,
+  annualVolatility: number,
+  horizonDays: number,
+  samples: number = 12
+): number {
+  if (annualVolatility <= 0) {
+    return currentPrice >= priceLower && currentPrice <= priceUpper ? 1 : 0;
+  }
+  const logLower = Math.log(priceLower / currentPrice);
+  const logUpper = Math.log(priceUpper / currentPrice);
+
+  let total = 0;
+  for (let i = 1; i <= samples; i++) {
+    const t = (horizonDays / 365) * (i / samples);
+    const stdDev = annualVolatility * Math.sqrt(t);
+    total += normalCdf(logUpper / stdDev) - normalCdf(logLower / stdDev);
+  }
+  return total / samples;
+}
+
+/**
+ * Expected value lost vs HODL at the horizon (quadrature over z ∈ [-4, 4])
+ */
+function expectedImpermanentLoss(
+  currentPrice: number,
+  priceLower: number,
+  priceUpper: number,
+  amountA: number,
+  amountB: number,
+  annualVolatility: number,
+  horizonDays: number,
+  steps: number = 64
+): number {
+  const stdDev = annualVolatility * Math.sqrt(horizonDays / 365);
+  if (stdDev <= 0) return 0;
+
+  const dz = 8 / steps;
+  let expected = 0;
+  let weightSum = 0;
+
+  for (let i = 0; i <= steps; i++) {
+    const z = -4 + i * dz;
+    const weight = Math.exp(-(z * z) / 2);
+    const targetPrice = currentPrice * Math.exp(stdDev * z - 0.5 * stdDev * stdDev);
+    const il = calculateCLMM_IL(currentPrice, targetPrice, priceLower, priceUpper, amountA, amountB);
+    expected += (il.valuePool - il.valueHold) * weight;
+    weightSum += weight;
+  }
+
+  return expected / weightSum;
+}
+
+/**
+ * Split capital into the token ratio the range requires at current price
+ */
+export function getAmountsForCapital(
+  capital: number,
+  currentPrice: number,
+  priceLower: number,
+  priceUpper: number
+): { amountA: number; amountB: number } {
+  const unit = getAmountsForLiquidity(Math.sqrt(currentPrice), Math.sqrt(priceLower), Math.sqrt(priceUpper), 1);
+  const unitValue = unit.amount0 * currentPrice + unit.amount1;
+  const scale = unitValue > 0 ? capital / unitValue : 0;
+  return { amountA: unit.amount0 * scale, amountB: unit.amount1 * scale };
+}
+
+/**
+ * Candidate half-widths in ticks: geometric series from one tick spacing
+ * up to maxRangePercent, deduplicated after alignment
+ */
+function getCandidateHalfWidths(tickSpacing: number, maxRangePercent: number, count: number = 16): number[] {
+  const maxTicks = Math.ceil(Math.log(1 + maxRangePercent / 100) / Math.log(1.0001));
+  const minTicks = tickSpacing;
+  if (maxTicks <= minTicks) return [minTicks];
+
+  const widths = new Set<number>();
+  for (let i = 0; i < count; i++) {
+    const raw = minTicks * Math.pow(maxTicks / minTicks, i / (count - 1));
+    widths.add(Math.max(tickSpacing, alignTickToSpacing(raw, tickSpacing, true)));
+  }
+  return [...widths].sort((a, b) => a - b);
+}
+
+/**
+ * Mark candidates that are not dominated on (higher fees, smaller IL)
+ */
+function markEfficientFrontier(candidates: RangeCandidate[]): RangeCandidate[] {
+  const byRisk = [...candidates].sort((a, b) => b.expectedIL - a.expectedIL || b.expectedFees - a.expectedFees);
+  const frontier: RangeCandidate[] = [];
+  let bestFees = -Infinity;
+
+  for (const candidate of byRisk) {
+    if (candidate.expectedFees > bestFees) {
+      candidate.isEfficient = true;
+      frontier.push(candidate);
+      bestFees = candidate.expectedFees;
+    }
+  }
+  return frontier;
+}
+
+/**
+ * Find and rank candidate ranges for the selected pool
+ */
+export function findOptimalRanges(config: RangeOptimizerConfig): RangeOptimizerResult {
+  const {
+    currentPrice,
+    currentTick,
+    tickSpacing,
+    decimalsA,
+    decimalsB,
+    capital,
+    quotePriceUSD,
+    annualVolatility,
+    horizonDays,
+    dailyVolume,
+    feeRate,
+    totalPoolTVL,
+    maxRangePercent = 200,
+    getFeeShare,
+  } = config;
+
+  if (currentPrice <= 0 || capital <= 0 || tickSpacing <= 0 || quotePriceUSD <= 0) {
+    return { ranked: [], frontier: [] };
+  }
+
+  const halfWidths = getCandidateHalfWidths(tickSpacing, maxRangePercent);
+  const skews = [0.5, 1, 2]; // lower width relative to upper width
+  const seen = new Set<string>();
+  const candidates: RangeCandidate[] = [];
+  const capitalUSD = capital * quotePriceUSD;
+
+  for (const upperWidth of halfWidths) {
+    for (const skew of skews) {
+      const tickLower = alignTickToSpacing(currentTick - upperWidth * skew, tickSpacing, false);
+      const tickUpper = alignTickToSpacing(currentTick + upperWidth, tickSpacing, true);
+      const key = `${tickLower}:${tickUpper}`;
+      if (tickLower >= tickUpper || seen.has(key)) continue;
+      seen.add(key);
+
+      const priceLower = tickToPriceWithDecimals(tickLower, decimalsA, decimalsB);
+      const priceUpper = tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB);
+      if (currentPrice < priceLower || currentPrice > priceUpper) continue;
+
+      const rangeWidth = (priceUpper - priceLower) / currentPrice;
+      const { amountA, amountB } = getAmountsForCapital(capital, currentPrice, priceLower, priceUpper);
+
+      const timeInRange = expectedTimeInRange(currentPrice, priceLower, priceUpper, annualVolatility, horizonDays);
+      const { dailyFees: dailyFeesUSD } = calculateCLMMAPY(
+        dailyVolume,
+        feeRate,
+        capitalUSD,
+        totalPoolTVL,
+        rangeWidth,
+        getFeeShare?.(tickLower, tickUpper, amountA, amountB)
+      );
+      const expectedFees = (dailyFeesUSD / quotePriceUSD) * horizonDays * timeInRange;
+      const expectedIL = expectedImpermanentLoss(
+        currentPrice, priceLower, priceUpper, amountA, amountB, annualVolatility, horizonDays
+      );
+
+      candidates.push({
+        tickLower,
+        tickUpper,
+        priceLower,
+        priceUpper,
+        rangeWidthPercent: rangeWidth * 100,
+        expectedTimeInRange: timeInRange,
+        expectedFees,
+        expectedIL,
+        expectedILPercent: (expectedIL / capital) * 100,
+        score: expectedFees + expectedIL,
+        isEfficient: false,
+      });
+    }
+  }
+
+  const frontier = markEfficientFrontier(candidates);
+  const ranked = [...candidates].sort((a, b) => b.score - a.score);
+
+  return { ranked, frontier };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { CETUS_LP_FEE_SHARE } from './clmmMath';
+import { buildRangeOrderTicks, simulateRangeOrder } from './rangeOrder';
+import { priceToTickWithDecimals, tickToPriceWithDecimals } from './tickMath';
+
+const ORDER = {
+  currentPrice: 2,
+  tickSpacing: 60,
+  decimalsA: 9,
+  decimalsB: 6,
+  feeRate: 0.0025,
+  annualVolatility: 0.8,
+  horizonDays: 7,
+};
+const currentTick = priceToTickWithDecimals(2, 9, 6);
+
+describe('buildRangeOrderTicks', () => {
+  it('places a sell one spacing wide, starting at the target and above the price', () => {
+    const { tickLower, tickUpper, isTargetAdjusted } = buildRangeOrderTicks(2, 2.2, 'sell', 60, 9, 6);
+    expect(isTargetAdjusted).toBe(false);
+    expect(Math.abs(tickLower % 60)).toBe(0);
+    expect(tickUpper - tickLower).toBe(60);
+    expect(tickLower).toBeGreaterThan(currentTick);
+    expect(tickToPriceWithDecimals(tickLower, 9, 6)).toBeLessThanOrEqual(2.2);
+  });
+
+  it('places a buy one spacing wide, ending at the target and below the price', () => {
+    const { tickLower, tickUpper, isTargetAdjusted } = buildRangeOrderTicks(2, 1.8, 'buy', 60, 9, 6);
+    expect(isTargetAdjusted).toBe(false);
+    expect(Math.abs(tickUpper % 60)).toBe(0);
+    expect(tickUpper - tickLower).toBe(60);
+    expect(tickUpper).toBeLessThanOrEqual(currentTick);
+    expect(tickToPriceWithDecimals(tickUpper, 9, 6)).toBeGreaterThanOrEqual(1.8);
+  });
+
+  it('moves a target on the wrong side to the nearest valid spacing', () => {
+    const sell = buildRangeOrderTicks(2, 1.5, 'sell', 60, 9, 6);
+    expect(sell.isTargetAdjusted).toBe(true);
+    expect(sell.tickLower).toBeGreaterThan(currentTick);
+    expect(sell.tickLower - 60).toBeLessThanOrEqual(currentTick);
+
+    const buy = buildRangeOrderTicks(2, 2.5, 'buy', 60, 9, 6);
+    expect(buy.isTargetAdjusted).toBe(true);
+    expect(buy.tickUpper).toBeLessThanOrEqual(currentTick);
+    expect(buy.tickUpper + 60).toBeGreaterThan(currentTick);
+  });
+});
+
+describe('simulateRangeOrder', () => {
+  it('deposits only Token A on a sell and fills in Token B at the geometric mean', () => {
+    const result = simulateRangeOrder({ ...ORDER, targetPrice: 2.2, side: 'sell', size: 10 });
+
+    expect(result.depositA).toBeCloseTo(10, 9);
+    expect(result.depositB).toBe(0);
+    expect(result.executionPrice).toBeCloseTo(Math.sqrt(result.priceLower * result.priceUpper), 9);
+    expect(result.filledAmount).toBeCloseTo(10 * result.executionPrice, 9);
+    expect(result.triggerPrice).toBe(result.priceUpper);
+    expect(result.reversalPrice).toBe(result.priceLower);
+  });
+
+  it('deposits only Token B on a buy and fills in Token A', () => {
+    const result = simulateRangeOrder({ ...ORDER, targetPrice: 1.8, side: 'buy', size: 20 });
+
+    expect(result.depositA).toBe(0);
+    expect(result.depositB).toBeCloseTo(20, 9);
+    expect(result.executionPrice).toBeCloseTo(Math.sqrt(result.priceLower * result.priceUpper), 9);
+    expect(result.filledAmount).toBeCloseTo(20 / result.executionPrice, 9);
+    expect(result.triggerPrice).toBe(result.priceLower);
+  });
+
+  it('adds the LP share of the fee paid on the converted amount', () => {
+    const result = simulateRangeOrder({ ...ORDER, targetPrice: 2.2, side: 'sell', size: 10 });
+    expect(result.feesEarned).toBeCloseTo(result.filledAmount * (0.0025 / 0.9975) * CETUS_LP_FEE_SHARE, 12);
+    expect(result.effectivePrice).toBeGreaterThan(result.executionPrice);
+    expect(result.spotDiffPercent).toBeGreaterThan(0);
+  });
+
+  it('is likelier to fill near the price and with more time', () => {
+    const near = simulateRangeOrder({ ...ORDER, targetPrice: 2.05, side: 'sell', size: 10 });
+    const far = simulateRangeOrder({ ...ORDER, targetPrice: 3, side: 'sell', size: 10 });
+    const longer = simulateRangeOrder({ ...ORDER, targetPrice: 3, side: 'sell', size: 10, horizonDays: 90 });
+
+    expect(near.fillProbability).toBeGreaterThan(far.fillProbability);
+    expect(longer.fillProbability).toBeGreaterThan(far.fillProbability);
+    expect(simulateRangeOrder({ ...ORDER, annualVolatility: 0, targetPrice: 3, side: 'sell', size: 10 }).fillProbability).toBe(0);
+  });
+
+  it('rejects non-positive inputs', () => {
+    expect(() => simulateRangeOrder({ ...ORDER, targetPrice: 2.2, side: 'sell', size: 0 })).toThrow('must be positive');
+    expect(() => simulateRangeOrder({ ...ORDER, tickSpacing: 0, targetPrice: 2.2, side: 'sell', size: 1 }))
+      .toThrow('Tick spacing must be positive');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Range Order (Limit Order) Simulator
+ *
+ * A single-tick-spacing position placed entirely on one side of the current
+ * price holds only one token. When price crosses the whole range the position
+ * is fully converted, like a filled limit order:
+ *
+ *   Sell A: range above P, deposit Token A, filled once P ≥ Pb
+ *   Buy A:  range below P, deposit Token B, filled once P ≤ Pa
+ *
+ * Average execution price is √(Pa·Pb), and the LP earns the swap fee on the
+ * volume that converts it. The catch: until withdrawn, a retrace converts the
+ * position back.
+ *
+ * Price moves are modelled as driftless log-normal, barrier hits via the
+ * reflection principle: P(max ln(P_t/P_0) ≥ b) = 2·(1 - Φ(b / σ√t)).
+ *
+ * Amounts are human units, price = Token B per Token A, ticks are on-chain.
+ */
+
+import { alignTickToSpacing, priceToTickWithDecimals, tickToPriceWithDecimals } from './tickMath';
+import { getAmountsForLiquidity, getLiquidityFromAmounts, CETUS_LP_FEE_SHARE } from './clmmMath';
+import { normalCdf } from './rangeOptimizer';
+
+export type RangeOrderSide = 'buy' | 'sell'; // Buy or sell Token A
+
+export interface RangeOrderConfig {
+  currentPrice: number;
+  targetPrice: number;
+  side: RangeOrderSide;
+  size: number;             // Token A to sell, or Token B to spend
+  tickSpacing: number;
+  decimalsA: number;
+  decimalsB: number;
+  feeRate: number;
+  annualVolatility: number;
+  horizonDays: number;      // Window for the order to fill
+  reactionHours?: number;   // Delay between fill and withdrawal (default 1h)
+}
+
+export interface RangeOrderResult {
+  side: RangeOrderSide;
+  tickLower: number;
+  tickUpper: number;
+  priceLower: number;
+  priceUpper: number;
+  isTargetAdjusted: boolean;    // Target was on the wrong side of current price
+  liquidity: number;
+  depositA: number;
+  depositB: number;
+  filledAmount: number;         // Token B received on a sell, Token A on a buy
+  executionPrice: number;       // Average fill, Token B per Token A
+  effectivePrice: number;       // Incl. LP fees earned while crossing
+  feesEarned: number;           // In the filled token
+  feesEarnedValue: number;      // Token B terms, at the execution price
+  targetDiffPercent: number;    // Effective vs target, > 0 = better than target
+  spotDiffPercent: number;      // Effective vs swapping now at spot, > 0 = better
+  triggerPrice: number;         // Far edge, fully filled here
+  triggerDistancePercent: number;
+  fillProbability: number;      // Far edge touched within the horizon
+  reversalPrice: number;        // Near edge, fully reverted here
+  reversalRetracePercent: number;
+  reversalProbability: number;  // Full reversal within reactionHours of the fill
+}
+
+// Probability a driftless log-price touches a level |logDistance| away within t years
+function touchProbability(logDistance: number, annualVolatility: number, years: number): number {
+  if (logDistance <= 0) return 1;
+  const stdDev = annualVolatility * Math.sqrt(years);
+  if (stdDev <= 0) return 0;
+  return Math.min(1, 2 * (1 - normalCdf(logDistance / stdDev)));
+}
+
+/**
+ * Narrowest single-spacing range on the correct side of current price
+ */
+export function buildRangeOrderTicks(
+  currentPrice: number,
+  targetPrice: number,
+  side: RangeOrderSide,
+  tickSpacing: number,
+  decimalsA: number,
+  decimalsB: number
+): { tickLower: number; tickUpper: number; isTargetAdjusted: boolean } {
+  const currentTick = priceToTickWithDecimals(currentPrice, decimalsA, decimalsB);
+  const targetTick = priceToTickWithDecimals(targetPrice, decimalsA, decimalsB);
+
+  if (side === 'sell') {
+    // Range must start strictly above the current tick to hold only Token A
+    let tickLower = alignTickToSpacing(targetTick, tickSpacing, false);
+    const isTargetAdjusted = tickLower <= currentTick;
+    if (isTargetAdjusted) tickLower = alignTickToSpacing(currentTick + 1, tickSpacing, true);
+    return { tickLower, tickUpper: tickLower + tickSpacing, isTargetAdjusted };
+  }
+
+  // Range must end at or below the current price to hold only Token B
+  let tickUpper = alignTickToSpacing(targetTick, tickSpacing, true);
+  const isTargetAdjusted = tickUpper > currentTick;
+  if (isTargetAdjusted) tickUpper = alignTickToSpacing(currentTick, tickSpacing, false);
+  return { tickLower: tickUpper - tickSpacing, tickUpper, isTargetAdjusted };
+}
+
+/**
+ * Simulate a range order from placement to fill
+ */
+export function simulateRangeOrder(config: RangeOrderConfig): RangeOrderResult {
+  const {
+    currentPrice,
+    targetPrice,
+    side,
+    size,
+    tickSpacing,
+    decimalsA,
+    decimalsB,
+    feeRate,
+    annualVolatility,
+    horizonDays,
+    reactionHours = 1,
+  } = config;
+
+  if (currentPrice <= 0 || targetPrice <= 0 || size <= 0) {
+    throw new Error('Price, target and size must be positive');
+  }
+  if (tickSpacing <= 0) {
+    throw new Error('Tick spacing must be positive');
+  }
+
+  const { tickLower, tickUpper, isTargetAdjusted } = buildRangeOrderTicks(
+    currentPrice,
+    targetPrice,
+    side,
+    tickSpacing,
+    decimalsA,
+    decimalsB
+  );
+  const priceLower = tickToPriceWithDecimals(tickLower, decimalsA, decimalsB);
+  const priceUpper = tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB);
+  const sqrtPriceLower = Math.sqrt(priceLower);
+  const sqrtPriceUpper = Math.sqrt(priceUpper);
+  const isSell = side === 'sell';
+
+  const liquidity = getLiquidityFromAmounts(
+    Math.sqrt(currentPrice),
+    sqrtPriceLower,
+    sqrtPriceUpper,
+    isSell ? size : 0,
+    isSell ? 0 : size
+  );
+  const deposit = getAmountsForLiquidity(Math.sqrt(currentPrice), sqrtPriceLower, sqrtPriceUpper, liquidity);
+
+  // Position once price has crossed the far edge
+  const filled = getAmountsForLiquidity(isSell ? sqrtPriceUpper : sqrtPriceLower, sqrtPriceLower, sqrtPriceUpper, liquidity);
+  const filledAmount = isSell ? filled.amount1 : filled.amount0;
+
+  // Traders pay the fee on top of what converts our liquidity; LPs keep 80%
+  const feesEarned = filledAmount * (feeRate / (1 - feeRate)) * CETUS_LP_FEE_SHARE;
+
+  const executionPrice = isSell ? filledAmount / size : size / filledAmount;
+  const effectivePrice = isSell ? (filledAmount + feesEarned) / size : size / (filledAmount + feesEarned);
+  const feesEarnedValue = isSell ? feesEarned : feesEarned * executionPrice;
+
+  // Positive = better for the order's side
+  const improvement = (price: number, reference: number) =>
+    (isSell ? price / reference - 1 : reference / price - 1) * 100;
+
+  const triggerPrice = isSell ? priceUpper : priceLower;
+  const reversalPrice = isSell ? priceLower : priceUpper;
+
+  return {
+    side,
+    tickLower,
+    tickUpper,
+    priceLower,
+    priceUpper,
+    isTargetAdjusted,
+    liquidity,
+    depositA: deposit.amount0,
+    depositB: deposit.amount1,
+    filledAmount,
+    executionPrice,
+    effectivePrice,
+    feesEarned,
+    feesEarnedValue,
+    targetDiffPercent: improvement(effectivePrice, targetPrice),
+    spotDiffPercent: improvement(effectivePrice, currentPrice),
+    triggerPrice,
+    triggerDistancePercent: (triggerPrice / currentPrice - 1) * 100,
+    fillProbability: touchProbability(Math.abs(Math.log(triggerPrice / currentPrice)), annualVolatility, horizonDays / 365),
+    reversalPrice,
+    reversalRetracePercent: (reversalPrice / triggerPrice - 1) * 100,
+    reversalProbability: touchProbability(Math.log(priceUpper / priceLower), annualVolatility, reactionHours / (24 * 365)),
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { generateILCurve } from './position';
+import { buildSimulationReport, escapeCsvField, ReportInput, reportToCSV, reportToHTML, reportToJSON } from './report';
+import { runSimulation } from './simulation';
+import { priceToTickWithDecimals } from './tickMath';
+
+const GRID = { min: -50, max: 100, steps: 6 };
+
+function input(lower: number, upper: number, overrides: Partial<ReportInput> = {}): ReportInput {
+  const result = runSimulation(
+    100, 500, 2, 1, priceToTickWithDecimals(lower, 9, 6), priceToTickWithDecimals(upper, 9, 6), 9, 6, 0.0025, 1_000_000, 5_000_000
+  );
+  return {
+    poolId: '0xpool',
+    pair: 'SUI/USDC',
+    tokenASymbol: 'SUI',
+    tokenBSymbol: 'USDC',
+    feeRate: 0.0025,
+    currentPrice: 2,
+    priceLower: lower,
+    priceUpper: upper,
+    amountA: 100,
+    amountB: 500,
+    volume24h: 1_000_000,
+    tvl: 5_000_000,
+    quotePriceUSD: 1,
+    result,
+    ilCurve: generateILCurve(2, lower, upper, 100, 500, GRID),
+    ...overrides,
+  };
+}
+
+const REBALANCE = {
+  newPriceLower: 1.8,
+  newPriceUpper: 2.2,
+  gasCostUSD: 0.05,
+  newAPY: 40,
+  breakEvenDays: Infinity,
+  recommendation: 'neutral' as const,
+  reason: 'Fees "roughly" equal, gas wasted',
+};
+
+describe('escapeCsvField', () => {
+  it('quotes fields with commas, quotes or newlines and doubles inner quotes', () => {
+    expect(escapeCsvField('plain')).toBe('plain');
+    expect(escapeCsvField('a,b')).toBe('"a,b"');
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('writes numbers and booleans as-is and nullish as empty', () => {
+    expect(escapeCsvField(1.5)).toBe('1.5');
+    expect(escapeCsvField(false)).toBe('false');
+    expect(escapeCsvField(null)).toBe('');
+    expect(escapeCsvField(undefined)).toBe('');
+  });
+});
+
+describe('buildSimulationReport', () => {
+  it('reports the deposited amounts, not the input', () => {
+    const simulation = input(1.5, 2.5);
+    const report = buildSimulationReport(simulation);
+    expect(report.position.amountA).toBe(simulation.result.depositedAmountA);
+    expect(report.position.amountB).toBe(simulation.result.depositedAmountB);
+    expect(report.position.amountB).toBeLessThan(500); // Excess Token B stays in the wallet
+    expect(report.position.liquidity).toMatch(/^\d+$/);
+  });
+
+  it('turns a never-reached break-even into null', () => {
+    // Out of range: no fees, so the position never breaks even
+    const report = buildSimulationReport(input(2.5, 3));
+    expect(report.summary.dailyFees).toBe(0);
+    expect(report.summary.breakEvenDays).toBeNull();
+  });
+});
+
+describe('reportToJSON', () => {
+  it('writes Infinity and NaN as null', () => {
+    const report = buildSimulationReport(input(1.5, 2.5, { rebalance: REBALANCE }));
+    report.ilCurve[0].amplificationFactor = NaN;
+
+    const parsed = JSON.parse(reportToJSON(report));
+    expect(parsed.rebalance.breakEvenDays).toBeNull();
+    expect(parsed.ilCurve[0].amplificationFactor).toBeNull();
+    expect(parsed.pool.pair).toBe('SUI/USDC');
+  });
+});
+
+describe('reportToCSV', () => {
+  it('writes titled sections separated by blank lines', () => {
+    const csv = reportToCSV(buildSimulationReport(input(1.5, 2.5)));
+    const sections = csv.trimEnd().split('\n\n');
+
+    expect(sections.map(s => s.split('\n')[0])).toEqual(['Summary', 'IL Curve', 'Warnings']);
+    expect(sections[1].split('\n')).toHaveLength(2 + GRID.steps + 1);
+    expect(csv.endsWith('\n')).toBe(true);
+  });
+
+  it('adds the rebalance section with escaped text and an empty never break-even', () => {
+    const csv = reportToCSV(buildSimulationReport(input(2.5, 3, { rebalance: REBALANCE })));
+    const rebalance = csv.trimEnd().split('\n\n').pop()!.split('\n');
+
+    expect(rebalance[0]).toBe('Rebalance');
+    expect(rebalance[2]).toBe('1.8,2.2,0.05,40,,neutral,"Fees ""roughly"" equal, gas wasted"');
+    expect(csv).toContain('\nbreak_even_days,\n');
+  });
+});
+
+describe('reportToHTML', () => {
+  it('escapes pool text and embeds charts', () => {
+    const report = buildSimulationReport(input(1.5, 2.5, { pair: '<b>SUI</b>/USDC', tokenBSymbol: 'U&C' }));
+    const html = reportToHTML(report, [{ title: 'IL "curve"', dataUrl: 'data:image/png;base64,AAAA' }]);
+
+    expect(html).toContain('<title>&lt;b&gt;SUI&lt;/b&gt;/USDC LP Simulation Report</title>');
+    expect(html).not.toContain('<b>SUI</b>');
+    expect(html).toContain('U&amp;C');
+    expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="IL &quot;curve&quot;">');
+  });
+
+  it('shows a never-reached break-even as ∞', () => {
+    const html = reportToHTML(buildSimulationReport(input(2.5, 3)));
+    expect(html).toContain('<th>Break-even (20% move)</th><td>∞ days</td>');
+  });
+});
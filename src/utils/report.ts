@@ -0,0 +1,308 @@
+/**
+ * Simulation Report Export
+ *
+ * Serializes a simulation (result, CLMM IL curve, health, warnings and an
+ * optional rebalance scenario) to JSON, CSV and a self-contained HTML page
+ * that prints cleanly to PDF.
+ */
+
+import { SimulationResult, RiskAssessment } from '../types';
+import { ILCurvePoint, ILWarning, PositionHealth, RebalanceScenario, assessILCurve } from './clmmMath';
+
+export interface ReportInput {
+  poolId: string;
+  pair: string;
+  tokenASymbol: string;
+  tokenBSymbol: string;
+  feeRate: number;
+  currentPrice: number;   // Token B per Token A
+  priceLower: number;
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  volume24h: number;
+  tvl: number;
+  quotePriceUSD: number;
+  result: SimulationResult;
+  ilCurve: ILCurvePoint[];
+  rebalance?: RebalanceScenario | null;
+}
+
+export interface SimulationReport {
+  generatedAt: string;
+  pool: {
+    poolId: string;
+    pair: string;
+    tokenASymbol: string;
+    tokenBSymbol: string;
+    feeRate: number;
+    currentPrice: number;
+    volume24h: number;
+    tvl: number;
+    quotePriceUSD: number;
+  };
+  position: {
+    amountA: number;
+    amountB: number;
+    priceLower: number;
+    priceUpper: number;
+    liquidity: string;
+  };
+  summary: {
+    initialValueUSD: number;
+    estimatedAPY: number;
+    dailyFees: number;
+    yearlyFees: number;
+    breakEvenDays: number | null; // null = never
+  };
+  risks: RiskAssessment;
+  health: PositionHealth;
+  warnings: ILWarning[];
+  ilCurve: ILCurvePoint[];
+  rebalance: RebalanceScenario | null;
+}
+
+export interface ReportChart {
+  title: string;
+  dataUrl: string; // PNG data URL from the chart canvas
+}
+
+const finiteOrNull = (value: number): number | null => (isFinite(value) ? value : null);
+
+export function buildSimulationReport(input: ReportInput): SimulationReport {
+  const { result, ilCurve } = input;
+  const { positionHealth, ilWarnings } = assessILCurve(
+    ilCurve,
+    input.currentPrice,
+    input.priceLower,
+    input.priceUpper,
+    result.estimatedAPY
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    pool: {
+      poolId: input.poolId,
+      pair: input.pair,
+      tokenASymbol: input.tokenASymbol,
+      tokenBSymbol: input.tokenBSymbol,
+      feeRate: input.feeRate,
+      currentPrice: input.currentPrice,
+      volume24h: input.volume24h,
+      tvl: input.tvl,
+      quotePriceUSD: input.quotePriceUSD,
+    },
+    position: {
+      // What the range actually takes; any leftover input stays in the wallet
+      amountA: result.depositedAmountA,
+      amountB: result.depositedAmountB,
+      priceLower: input.priceLower,
+      priceUpper: input.priceUpper,
+      liquidity: result.liquidity.toString(),
+    },
+    summary: {
+      initialValueUSD: result.initialValueUSD,
+      estimatedAPY: result.estimatedAPY,
+      dailyFees: result.dailyFees,
+      yearlyFees: result.yearlyFees,
+      breakEvenDays: finiteOrNull(result.breakEvenDays),
+    },
+    risks: result.risks,
+    health: positionHealth,
+    warnings: ilWarnings,
+    ilCurve,
+    rebalance: input.rebalance ?? null,
+  };
+}
+
+export function reportToJSON(report: SimulationReport): string {
+  // Infinity is not valid JSON
+  return JSON.stringify(report, (_key, value) => (typeof value === 'number' && !isFinite(value) ? null : value), 2);
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+export function escapeCsvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvRow = (fields: (string | number | boolean | null | undefined)[]) => fields.map(escapeCsvField).join(',');
+
+/**
+ * Sectioned CSV: each section is a title row, a header row and its rows,
+ * separated by a blank line
+ */
+export function reportToCSV(report: SimulationReport): string {
+  const { pool, position, summary, risks, health } = report;
+
+  const sections: string[][] = [
+    [
+      csvRow(['Summary']),
+      csvRow(['field', 'value']),
+      ...([
+        ['generated_at', report.generatedAt],
+        ['pool_id', pool.poolId],
+        ['pair', pool.pair],
+        ['fee_rate', pool.feeRate],
+        ['current_price', pool.currentPrice],
+        ['volume_24h_usd', pool.volume24h],
+        ['tvl_usd', pool.tvl],
+        ['quote_price_usd', pool.quotePriceUSD],
+        ['amount_a', position.amountA],
+        ['amount_b', position.amountB],
+        ['price_lower', position.priceLower],
+        ['price_upper', position.priceUpper],
+        ['liquidity', position.liquidity],
+        ['initial_value_usd', summary.initialValueUSD],
+        ['estimated_apy', summary.estimatedAPY],
+        ['daily_fees_usd', summary.dailyFees],
+        ['yearly_fees_usd', summary.yearlyFees],
+        ['break_even_days', summary.breakEvenDays],
+        ['overall_risk', risks.overallRisk],
+        ['out_of_range_risk', risks.outOfRangeRisk],
+        ['volatility_risk', risks.volatilityRisk],
+        ['il_risk', risks.ilRisk],
+        ['health_score', health.score],
+        ['health_status', health.status],
+      ] as [string, string | number | null][]).map(csvRow),
+    ],
+    [
+      csvRow(['IL Curve']),
+      csvRow(['price_change', 'target_price', 'il_percentage', 'il_v2_percentage', 'amplification', 'value_hold', 'value_pool', 'range_status']),
+      ...report.ilCurve.map(p => csvRow([
+        p.priceChange,
+        p.targetPrice,
+        p.ilPercentage,
+        p.ilV2Percentage,
+        p.amplificationFactor,
+        p.valueHold,
+        p.valuePool,
+        p.outOfRangeDirection,
+      ])),
+    ],
+    [
+      csvRow(['Warnings']),
+      csvRow(['level', 'message', 'recommendation']),
+      ...report.warnings.map(w => csvRow([w.level, w.message, w.recommendation])),
+      ...risks.warnings.map(w => csvRow(['risk', w, ''])),
+    ],
+  ];
+
+  if (report.rebalance) {
+    const r = report.rebalance;
+    sections.push([
+      csvRow(['Rebalance']),
+      csvRow(['new_price_lower', 'new_price_upper', 'gas_cost_usd', 'new_apy', 'break_even_days', 'recommendation', 'reason']),
+      csvRow([r.newPriceLower, r.newPriceUpper, r.gasCostUSD, r.newAPY, finiteOrNull(r.breakEvenDays), r.recommendation, r.reason]),
+    ]);
+  }
+
+  return sections.map(rows => rows.join('\n')).join('\n\n') + '\n';
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fmt = (value: number | null, digits = 2): string => (value === null || !isFinite(value) ? '∞' : value.toFixed(digits));
+
+/**
+ * Standalone HTML report; charts are embedded as data URLs
+ */
+export function reportToHTML(report: SimulationReport, charts: ReportChart[] = []): string {
+  const { pool, position, summary, risks, health } = report;
+  const b = escapeHtml(pool.tokenBSymbol);
+
+  const rows = (pairs: [string, string][]) =>
+    pairs.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('');
+
+  const curveRows = report.ilCurve
+    .map(p => `<tr class="${p.isOutOfRange ? 'out' : ''}"><td>${fmt(p.priceChange, 1)}%</td><td>${fmt(p.targetPrice, 6)}</td>` +
+      `<td>${fmt(p.ilPercentage)}%</td><td>${fmt(p.ilV2Percentage)}%</td><td>${fmt(p.valueHold)}</td><td>${fmt(p.valuePool)}</td></tr>`)
+    .join('');
+
+  const warnings = [
+    ...report.warnings.map(w => `<li class="${w.level}"><strong>${escapeHtml(w.message)}</strong><br>${escapeHtml(w.recommendation)}</li>`),
+    ...risks.warnings.map(w => `<li class="warning">${escapeHtml(w)}</li>`),
+  ].join('');
+
+  const rebalance = report.rebalance
+    ? `<h2>Rebalance Scenario</h2><table>${rows([
+        ['New range', `${fmt(report.rebalance.newPriceLower, 4)} – ${fmt(report.rebalance.newPriceUpper, 4)} ${pool.tokenBSymbol}`],
+        ['Gas cost', `$${fmt(report.rebalance.gasCostUSD, 4)}`],
+        ['New APY', `${fmt(report.rebalance.newAPY)}%`],
+        ['Break-even', `${fmt(finiteOrNull(report.rebalance.breakEvenDays), 1)} days`],
+        ['Recommendation', `${report.rebalance.recommendation}: ${report.rebalance.reason}`],
+      ])}</table>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(pool.pair)} LP Simulation Report</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2rem; border-bottom: 2px solid #00d4aa; padding-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.85rem; word-break: break-all; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: left; }
+  th { background: #f9fafb; width: 35%; }
+  thead th { width: auto; }
+  tr.out td { color: #b91c1c; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+  img { max-width: 100%; border: 1px solid #e5e7eb; background: #111827; }
+  li { margin-bottom: 0.5rem; }
+  li.danger { color: #b91c1c; }
+  li.warning { color: #b45309; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } table, img { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(pool.pair)} Liquidity Position Report</h1>
+<p class="meta">Pool ${escapeHtml(pool.poolId)} • Generated ${escapeHtml(report.generatedAt)}</p>
+
+<div class="grid">
+  <div>
+    <h2>Position</h2>
+    <table>${rows([
+      ['Deposit', `${position.amountA} ${pool.tokenASymbol} + ${position.amountB} ${pool.tokenBSymbol}`],
+      ['Range', `${fmt(position.priceLower, 6)} – ${fmt(position.priceUpper, 6)} ${pool.tokenBSymbol}`],
+      ['Current price', `${fmt(pool.currentPrice, 6)} ${pool.tokenBSymbol}`],
+      ['Fee tier', `${fmt(pool.feeRate * 100)}%`],
+      ['Volume 24h / TVL', `$${fmt(pool.volume24h, 0)} / $${fmt(pool.tvl, 0)}`],
+      [`${pool.tokenBSymbol} price`, `$${fmt(pool.quotePriceUSD, 4)}`],
+    ])}</table>
+  </div>
+  <div>
+    <h2>Returns &amp; Risk</h2>
+    <table>${rows([
+      ['Initial value', `$${fmt(summary.initialValueUSD)}`],
+      ['Estimated APY', `${fmt(summary.estimatedAPY)}%`],
+      ['Daily / yearly fees', `$${fmt(summary.dailyFees, 4)} / $${fmt(summary.yearlyFees)}`],
+      ['Break-even (20% move)', `${fmt(summary.breakEvenDays, 0)} days`],
+      ['Overall risk', risks.overallRisk],
+      ['Health', `${health.score}/100 (${health.status})`],
+    ])}</table>
+  </div>
+</div>
+<p>${escapeHtml(health.summary)}</p>
+
+${charts.map(c => `<h2>${escapeHtml(c.title)}</h2><img src="${c.dataUrl}" alt="${escapeHtml(c.title)}">`).join('\n')}
+
+${warnings ? `<h2>Warnings</h2><ul>${warnings}</ul>` : ''}
+
+${rebalance}
+
+<h2>IL Curve</h2>
+<table>
+  <thead><tr><th>Price change</th><th>Price (${b})</th><th>CLMM IL</th><th>V2 IL</th><th>Hold value</th><th>Pool value</th></tr></thead>
+  <tbody>${curveRows}</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { priceToTickWithDecimals } from './tickMath';
+import { runSimulation } from './simulation';
+
+const tick = (price: number) => priceToTickWithDecimals(price, 9, 6);
+
+// SUI/USDC at 2 USDC per SUI, 1M volume on 5M TVL
+const simulate = (lower: number, upper: number, activeLiquidityShare?: number) =>
+  runSimulation(100, 200, 2, 1, tick(lower), tick(upper), 9, 6, 0.0025, 1_000_000, 5_000_000, activeLiquidityShare);
+
+describe('runSimulation', () => {
+  it('earns fees while the price is in range', () => {
+    const result = simulate(1.5, 2.5);
+    expect(result.dailyFees).toBeGreaterThan(0);
+    expect(result.estimatedAPY).toBeGreaterThan(0);
+  });
+
+  it('earns no fees when the entry price is below the range', () => {
+    const result = simulate(2.5, 3);
+    expect(result.dailyFees).toBe(0);
+    expect(result.yearlyFees).toBe(0);
+    expect(result.estimatedAPY).toBe(0);
+    expect(result.breakEvenDays).toBe(Infinity);
+  });
+
+  it('earns no fees above the range, even with a measured active share', () => {
+    const result = simulate(1, 1.5, 0.01);
+    expect(result.dailyFees).toBe(0);
+    expect(result.estimatedAPY).toBe(0);
+  });
+});
@@ -1,91 +1,26 @@
-import BN from 'bn.js';
 import { ILDataPoint, RiskAssessment, SimulationResult } from '../types';
-import { priceToSqrtPriceX64, tickToPrice } from './tickMath';
-import { getCoinAmountsFromLiquidity, estimateLiquidityFromAmounts } from './liquidityMath';
+import { tickToPriceWithDecimals } from './tickMath';
+import { Position } from './position';
 
 /**
- * Calculate Impermanent Loss for a price change
- * 
- * For CLMM: IL depends on whether price stays in range
- * - In range: IL follows concentrated liquidity formula
- * - Out of range: Position is 100% in one token
+ * IL data points for a range of % moves in Token A, valued in USD
+ * (Token B values from the position engine × Token B's USD price)
  */
-export function calculateImpermanentLoss(
-  initialPriceA: number,
-  newPriceA: number,
-  priceB: number, // Assuming stablecoin = $1
-  tickLower: number,
-  tickUpper: number,
-  initialAmountA: BN,
-  initialAmountB: BN,
-  liquidity: BN,
-  decimalsA: number,
-  decimalsB: number
-): ILDataPoint {
-  const priceChange = ((newPriceA - initialPriceA) / initialPriceA) * 100;
-  
-  // Value if held (no LP)
-  const holdValueA = initialAmountA.toNumber() / Math.pow(10, decimalsA) * newPriceA;
-  const holdValueB = initialAmountB.toNumber() / Math.pow(10, decimalsB) * priceB;
-  const valueIfHold = holdValueA + holdValueB;
-
-  // Calculate new sqrt price
-  const newSqrtPriceX64 = priceToSqrtPriceX64(newPriceA / priceB, decimalsA, decimalsB);
-  
-  // Get new amounts in pool at new price
-  const { amountA: newAmountA, amountB: newAmountB } = getCoinAmountsFromLiquidity(
-    liquidity,
-    newSqrtPriceX64,
-    tickLower,
-    tickUpper
-  );
-
-  // Value in pool
-  const poolValueA = newAmountA.toNumber() / Math.pow(10, decimalsA) * newPriceA;
-  const poolValueB = newAmountB.toNumber() / Math.pow(10, decimalsB) * priceB;
-  const valueInPool = poolValueA + poolValueB;
-
-  // IL = (valueInPool / valueIfHold) - 1
-  const impermanentLoss = valueIfHold > 0 ? ((valueInPool / valueIfHold) - 1) * 100 : 0;
-
-  return {
-    priceChange,
-    newPrice: newPriceA,
-    impermanentLoss,
-    valueIfHold,
-    valueInPool,
-  };
-}
-
-/**
- * Generate IL data points for a range of price changes
- */
-export function generateILCurve(
-  currentPriceA: number,
+export function generateILDataPoints(
+  position: Position,
   priceB: number,
-  tickLower: number,
-  tickUpper: number,
-  initialAmountA: BN,
-  initialAmountB: BN,
-  liquidity: BN,
-  decimalsA: number,
-  decimalsB: number,
   priceChangeSteps: number[] = [-50, -40, -30, -20, -10, 0, 10, 20, 30, 50, 75, 100]
 ): ILDataPoint[] {
   return priceChangeSteps.map(changePercent => {
-    const newPriceA = currentPriceA * (1 + changePercent / 100);
-    return calculateImpermanentLoss(
-      currentPriceA,
-      newPriceA,
-      priceB,
-      tickLower,
-      tickUpper,
-      initialAmountA,
-      initialAmountB,
-      liquidity,
-      decimalsA,
-      decimalsB
-    );
+    const targetPrice = position.entryPrice * (1 + changePercent / 100);
+    const il = position.impermanentLossAt(targetPrice);
+    return {
+      priceChange: changePercent,
+      newPrice: targetPrice * priceB,
+      impermanentLoss: il.ilPercentage,
+      valueIfHold: il.valueHold * priceB,
+      valueInPool: il.valuePool * priceB,
+    };
   });
 }
 
@@ -122,7 +57,7 @@ export function assessRisk(
   currentPrice: number,
   priceLower: number,
   priceUpper: number,
-  _volatility: number = 0.5, // Default 50% annual volatility (reserved for future use)
+  volatility: number = 0.5, // Default 50% annual volatility
   rangeWidth: number
 ): RiskAssessment {
   const warnings: string[] = [];
@@ -144,6 +79,13 @@ export function assessRisk(
     outOfRangeRisk = 'LOW';
   }
 
+  // Expected 1σ move over 30 days from annual volatility
+  const expectedMove30d = volatility * Math.sqrt(30 / 365);
+  if (minDistance > 0 && expectedMove30d > minDistance) {
+    if (outOfRangeRisk === 'LOW') outOfRangeRisk = 'MEDIUM';
+    warnings.push(`A 1σ 30-day move (~${(expectedMove30d * 100).toFixed(0)}%) would take price out of range.`);
+  }
+
   // Volatility risk based on range width
   let volatilityRisk: 'LOW' | 'MEDIUM' | 'HIGH';
   if (rangeWidth < 0.2) {
@@ -198,66 +140,54 @@ export function calculateBreakEvenDays(
 export function runSimulation(
   amountAInput: number,
   amountBInput: number,
-  currentPriceA: number,
-  priceB: number,
-  tickLower: number,
+  currentPriceA: number, // USD price of Token A
+  priceB: number,        // USD price of Token B
+  tickLower: number,     // On-chain ticks
   tickUpper: number,
   decimalsA: number,
   decimalsB: number,
   feeRate: number,
   volume24h: number,
-  totalLiquidityUSD: number
+  totalLiquidityUSD: number,
+  activeLiquidityShare?: number, // Measured from tick-level liquidity distribution
+  volatility: number = 0.5 // Annual volatility assumption for risk assessment
 ): SimulationResult {
   // Validate inputs
   if (amountAInput <= 0 && amountBInput <= 0) {
     throw new Error('At least one amount must be positive');
   }
   
-  // Convert amounts to BN with proper decimals
-  const amountA = new BN(Math.floor(Math.max(0, amountAInput) * Math.pow(10, decimalsA)));
-  const amountB = new BN(Math.floor(Math.max(0, amountBInput) * Math.pow(10, decimalsB)));
-  
-  // Calculate current sqrt price
-  const currentSqrtPriceX64 = priceToSqrtPriceX64(currentPriceA / priceB, decimalsA, decimalsB);
-  
-  // Estimate liquidity
-  const liquidity = estimateLiquidityFromAmounts(
-    currentSqrtPriceX64,
-    tickLower,
-    tickUpper,
-    amountA,
-    amountB
-  );
-
-  // Calculate initial position value
-  const initialValueUSD = (amountAInput * currentPriceA) + (amountBInput * priceB);
-
-  // Generate IL curve
-  const ilByPriceChange = generateILCurve(
-    currentPriceA,
-    priceB,
-    tickLower,
-    tickUpper,
-    amountA,
-    amountB,
-    liquidity,
-    decimalsA,
-    decimalsB
+  const poolPrice = currentPriceA / priceB;
+  const priceLower = tickToPriceWithDecimals(tickLower, decimalsA, decimalsB);
+  const priceUpper = tickToPriceWithDecimals(tickUpper, decimalsA, decimalsB);
+
+  // Only the part of the input that fits the range ratio is deposited
+  const position = Position.fromAmounts(
+    { currentPrice: poolPrice, feeRate, coinDecimalsA: decimalsA, coinDecimalsB: decimalsB },
+    { priceLower, priceUpper },
+    amountAInput,
+    amountBInput
   );
-
-  // Calculate fees
-  const positionShare = totalLiquidityUSD > 0 ? initialValueUSD / totalLiquidityUSD : 0;
-  const dailyFees = volume24h * feeRate * positionShare;
+  const deposited = position.deposited;
+  const initialValueUSD = position.valueAt(poolPrice) * priceB;
+
+  // IL curve (HODL baseline = deposited amounts, leftover stays in the wallet either way)
+  const ilByPriceChange = generateILDataPoints(position, priceB);
+
+  // Fees (prefer measured share of active liquidity over TVL share)
+  const fees = position.estimateFees({
+    dailyVolume: volume24h,
+    poolTVL: totalLiquidityUSD,
+    quotePriceUSD: priceB,
+    activeLiquidityShare,
+  });
+  const dailyFees = fees.dailyFeesUSD;
   const yearlyFees = dailyFees * 365;
+  const estimatedAPY = fees.apy;
 
-  // Calculate APY
-  const estimatedAPY = calculateAPY(dailyFees, initialValueUSD);
-
-  // Assess risks
-  const priceLower = tickToPrice(tickLower);
-  const priceUpper = tickToPrice(tickUpper);
-  const rangeWidth = (priceUpper - priceLower) / currentPriceA;
-  const risks = assessRisk(currentPriceA, priceLower, priceUpper, 0.5, rangeWidth);
+  // Assess risks (tick prices are Token B per Token A, not USD)
+  const rangeWidth = (priceUpper - priceLower) / poolPrice;
+  const risks = assessRisk(poolPrice, priceLower, priceUpper, volatility, rangeWidth);
 
   // Break-even calculation (using 20% price move IL as reference)
   const il20 = ilByPriceChange.find(d => Math.abs(d.priceChange - 20) < 5);
@@ -265,8 +195,12 @@ export function runSimulation(
   const breakEvenDays = calculateBreakEvenDays(potentialIL20, dailyFees);
 
   return {
-    liquidity,
+    liquidity: position.rawLiquidity(),
     initialValueUSD,
+    depositedAmountA: deposited.amountA,
+    depositedAmountB: deposited.amountB,
+    leftoverAmountA: position.leftoverA,
+    leftoverAmountB: position.leftoverB,
     ilByPriceChange,
     estimatedAPY,
     dailyFees,
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountsForLiquidity, getLiquidityFromAmounts } from './clmmMath';
+import { pricePathToHistory, runStrategyBacktest, StrategyBacktestConfig } from './strategyBacktest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// No volume, so fees never accrue and value moves only through price, gas and swaps
+const history = pricePathToHistory([1, 1.05, 1.3, 1.3, 1.25], 0, DAY_MS, 0);
+
+const config: StrategyBacktestConfig = {
+  priceLower: 0.9,
+  priceUpper: 1.1,
+  amountA: 1000,
+  amountB: 1000,
+  feeRate: 0.0025,
+  feeShare: 0.01,
+  gasCostPerRebalance: 0.5,
+  strategies: [{ id: 'oor', label: 'Out of range', trigger: { type: 'out-of-range' }, rangePercent: 10 }],
+};
+
+describe('runStrategyBacktest', () => {
+  it('charges the re-ratio swap fee once', () => {
+    const [run] = runStrategyBacktest(history, config).strategies;
+    expect(run.rebalances).toHaveLength(1);
+
+    const [rebalance] = run.rebalances;
+    expect(rebalance.swapFee).toBeGreaterThan(0);
+
+    // Above the old range the position is all Token B; that, less the swap fee, is re-minted
+    const liquidity = getLiquidityFromAmounts(1, Math.sqrt(config.priceLower), Math.sqrt(config.priceUpper), config.amountA, config.amountB);
+    const withdrawn = getAmountsForLiquidity(Math.sqrt(rebalance.price), Math.sqrt(config.priceLower), Math.sqrt(config.priceUpper), liquidity);
+    expect(withdrawn.amount0).toBe(0);
+    const point = run.points.find(p => p.timestamp === rebalance.timestamp)!;
+    expect(point.positionValue).toBeCloseTo(withdrawn.amount1 - rebalance.swapFee, 6);
+
+    // Only gas is deducted on top of the position value
+    expect(run.totalSwapFees).toBeCloseTo(rebalance.swapFee, 12);
+    run.points.forEach(p => {
+      expect(p.netValue).toBeCloseTo(p.positionValue + p.cumulativeFees - p.cumulativeCosts, 9);
+    });
+    expect(point.cumulativeCosts).toBe(config.gasCostPerRebalance);
+  });
+});
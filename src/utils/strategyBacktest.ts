@@ -0,0 +1,372 @@
+/**
+ * Rebalancing Strategy Backtester
+ *
+ * Replays rule-based rebalancing strategies over a price/volume series and
+ * compares them with the passive position (never rebalanced):
+ * - Fees accrue while in range; our fee share scales with liquidity L relative
+ *   to the starting position, so narrower or larger positions earn more
+ * - On a rebalance the position is withdrawn (realizing IL vs holding the
+ *   tokens of that leg), swapped to the new range's ratio (paying the swap
+ *   fee), re-minted at P·(1 ± X%), and gas is charged
+ *
+ * Triggers:
+ *   out-of-range  P < Pa or P > Pb
+ *   edge          |P - center| ≥ threshold × half-width (0.8 = 80% of range)
+ *   interval      every N days
+ *
+ * All values are in Token B (quote) terms, price = Token B per Token A.
+ */
+
+import { HistoricalData } from '../types';
+import { getAmountsForLiquidity, getLiquidityFromAmounts, CETUS_LP_FEE_SHARE } from './clmmMath';
+
+export type RebalanceTrigger =
+  | { type: 'passive' }
+  | { type: 'out-of-range' }
+  | { type: 'edge'; threshold: number }   // 0-1 of the half-width
+  | { type: 'interval'; days: number };
+
+export interface RebalanceStrategy {
+  id: string;
+  label: string;
+  trigger: RebalanceTrigger;
+  rangePercent: number;   // New range = P·(1 ± rangePercent/100)
+}
+
+export interface StrategyBacktestConfig {
+  priceLower: number;       // Starting range, shared by every strategy
+  priceUpper: number;
+  amountA: number;
+  amountB: number;
+  feeRate: number;
+  feeShare: number;         // 0-1, share of in-range swap fees for the starting position
+  gasCostPerRebalance: number; // Token B terms (remove + swap + add)
+  swapFeeRate?: number;     // Fee paid to re-ratio (default feeRate)
+  strategies: RebalanceStrategy[];
+}
+
+export interface StrategyBacktestPoint {
+  timestamp: number;
+  price: number;
+  priceLower: number;
+  priceUpper: number;
+  positionValue: number;
+  cumulativeFees: number;
+  cumulativeCosts: number;  // Gas (swap fees already left the swapped amounts)
+  netValue: number;         // positionValue + cumulativeFees - cumulativeCosts
+  inRange: boolean;
+}
+
+export interface RebalanceEvent {
+  timestamp: number;
+  price: number;
+  oldPriceLower: number;
+  oldPriceUpper: number;
+  newPriceLower: number;
+  newPriceUpper: number;
+  realizedIL: number;       // Position vs holding this leg's deposit, at withdrawal
+  swapFee: number;
+  gasCost: number;
+}
+
+export interface StrategyBacktestResult {
+  strategy: RebalanceStrategy;
+  points: StrategyBacktestPoint[];
+  rebalances: RebalanceEvent[];
+  initialValue: number;
+  finalValue: number;       // Net of gas and swap fees
+  finalHoldValue: number;
+  totalFees: number;
+  totalGas: number;
+  totalSwapFees: number;
+  totalRealizedIL: number;
+  finalUnrealizedIL: number; // Open leg at the end of the series
+  netPnL: number;
+  netPnLVsHodl: number;
+  netPnLVsPassive: number;
+  timeInRangePercent: number;
+  feeAPR: number;
+}
+
+export interface StrategyComparisonResult {
+  passive: StrategyBacktestResult;
+  strategies: StrategyBacktestResult[];   // Same order as config.strategies
+  best: StrategyBacktestResult;           // Highest final value, passive included
+  durationDays: number;
+}
+
+export const PASSIVE_STRATEGY: RebalanceStrategy = {
+  id: 'passive',
+  label: 'Passive',
+  trigger: { type: 'passive' },
+  rangePercent: 0,
+};
+
+/**
+ * Human-readable strategy name, e.g. "Re-center ±10% at 80% of range"
+ */
+export function getStrategyLabel(trigger: RebalanceTrigger, rangePercent: number): string {
+  const width = `±${parseFloat(rangePercent.toFixed(2))}%`;
+  switch (trigger.type) {
+    case 'passive':
+      return 'Passive';
+    case 'out-of-range':
+      return `Re-center ${width} when out of range`;
+    case 'edge':
+      return `Re-center ${width} at ${Math.round(trigger.threshold * 100)}% of range`;
+    case 'interval':
+      return trigger.days === 7 ? `Weekly re-center ${width}` : `Re-center ${width} every ${trigger.days}d`;
+  }
+}
+
+/**
+ * Preset strategies re-centering at the given width
+ */
+export function getDefaultRebalanceStrategies(rangePercent: number): RebalanceStrategy[] {
+  const width = Math.max(1, Math.min(99, Math.round(rangePercent)));
+  const triggers: { id: string; trigger: RebalanceTrigger }[] = [
+    { id: 'out-of-range', trigger: { type: 'out-of-range' } },
+    { id: 'edge-80', trigger: { type: 'edge', threshold: 0.8 } },
+    { id: 'weekly', trigger: { type: 'interval', days: 7 } },
+  ];
+  return triggers.map(({ id, trigger }) => ({ id, label: getStrategyLabel(trigger, width), trigger, rangePercent: width }));
+}
+
+/**
+ * Turn a simulated price path into a series the backtester can replay
+ */
+export function pricePathToHistory(
+  prices: number[],
+  startTimestamp: number,
+  stepMs: number,
+  dailyVolume: number
+): HistoricalData[] {
+  const volumePerStep = dailyVolume * (stepMs / (24 * 60 * 60 * 1000));
+  return prices.map((price, i) => ({
+    timestamp: startTimestamp + i * stepMs,
+    price,
+    volume: volumePerStep,
+    fees: 0,
+  }));
+}
+
+function shouldRebalance(
+  trigger: RebalanceTrigger,
+  price: number,
+  priceLower: number,
+  priceUpper: number,
+  timestamp: number,
+  lastRebalanceAt: number
+): boolean {
+  switch (trigger.type) {
+    case 'passive':
+      return false;
+    case 'out-of-range':
+      return price < priceLower || price > priceUpper;
+    case 'edge': {
+      const center = (priceLower + priceUpper) / 2;
+      const halfWidth = (priceUpper - priceLower) / 2;
+      return Math.abs(price - center) >= trigger.threshold * halfWidth;
+    }
+    case 'interval':
+      return timestamp - lastRebalanceAt >= trigger.days * 24 * 60 * 60 * 1000;
+  }
+}
+
+/**
+ * Swap holdings to the ratio a range needs at price, paying the fee on the input
+ * Closed form of (a - s) / (b + s·P·(1 - f)) = x₁ / y₁ (and the mirror for B)
+ */
+export function swapToRangeRatio(
+  amountA: number,
+  amountB: number,
+  price: number,
+  priceLower: number,
+  priceUpper: number,
+  swapFeeRate: number
+): { amountA: number; amountB: number; swapFee: number } {
+  const unit = getAmountsForLiquidity(Math.sqrt(price), Math.sqrt(priceLower), Math.sqrt(priceUpper), 1);
+  const x1 = unit.amount0;
+  const y1 = unit.amount1;
+  const keep = 1 - swapFeeRate;
+  const excessA = amountA * y1 - amountB * x1; // > 0 → too much A
+
+  if (excessA > 0) {
+    const sellA = Math.min(amountA, excessA / (y1 + price * keep * x1));
+    return { amountA: amountA - sellA, amountB: amountB + sellA * keep * price, swapFee: sellA * swapFeeRate * price };
+  }
+  if (excessA < 0) {
+    const sellB = Math.min(amountB, -excessA / (x1 + (keep * y1) / price));
+    return { amountA: amountA + (sellB * keep) / price, amountB: amountB - sellB, swapFee: sellB * swapFeeRate };
+  }
+  return { amountA, amountB, swapFee: 0 };
+}
+
+function replayStrategy(
+  series: HistoricalData[],
+  config: StrategyBacktestConfig,
+  strategy: RebalanceStrategy
+): Omit<StrategyBacktestResult, 'netPnLVsPassive'> {
+  const { amountA, amountB, feeRate, feeShare, gasCostPerRebalance, swapFeeRate = feeRate } = config;
+  const entryPrice = series[0].price;
+
+  let priceLower = config.priceLower;
+  let priceUpper = config.priceUpper;
+  let liquidity = getLiquidityFromAmounts(
+    Math.sqrt(entryPrice),
+    Math.sqrt(priceLower),
+    Math.sqrt(priceUpper),
+    amountA,
+    amountB
+  );
+  if (!isFinite(liquidity) || liquidity <= 0) {
+    throw new Error('Initial amounts do not mint any liquidity for this range');
+  }
+  const initialLiquidity = liquidity;
+
+  // Actual deposit (excess of one token is never added to the pool)
+  const initial = getAmountsForLiquidity(Math.sqrt(entryPrice), Math.sqrt(priceLower), Math.sqrt(priceUpper), liquidity);
+  const initialValue = initial.amount0 * entryPrice + initial.amount1;
+  let leg = initial; // Tokens deposited by the current leg
+
+  const points: StrategyBacktestPoint[] = [];
+  const rebalances: RebalanceEvent[] = [];
+  let cumulativeFees = 0;
+  let totalGas = 0;
+  let totalSwapFees = 0;
+  let totalRealizedIL = 0;
+  let stepsInRange = 0;
+  let lastRebalanceAt = series[0].timestamp;
+
+  series.forEach((point, index) => {
+    const sqrtPrice = Math.sqrt(point.price);
+    const inRange = point.price >= priceLower && point.price <= priceUpper;
+
+    // The entry point opens the position, so its period earns nothing
+    if (index > 0 && inRange) {
+      const poolFees = point.fees > 0 ? point.fees : point.volume * feeRate;
+      const share = Math.min(1, feeShare * (liquidity / initialLiquidity));
+      cumulativeFees += poolFees * share * CETUS_LP_FEE_SHARE;
+    }
+    if (inRange) stepsInRange++;
+
+    const isLast = index === series.length - 1;
+    if (index > 0 && !isLast && shouldRebalance(strategy.trigger, point.price, priceLower, priceUpper, point.timestamp, lastRebalanceAt)) {
+      const held = getAmountsForLiquidity(sqrtPrice, Math.sqrt(priceLower), Math.sqrt(priceUpper), liquidity);
+      const realizedIL = (held.amount0 * point.price + held.amount1) - (leg.amount0 * point.price + leg.amount1);
+
+      const ratio = Math.min(0.99, strategy.rangePercent / 100);
+      const newPriceLower = point.price * (1 - ratio);
+      const newPriceUpper = point.price * (1 + ratio);
+      const swapped = swapToRangeRatio(held.amount0, held.amount1, point.price, newPriceLower, newPriceUpper, swapFeeRate);
+
+      liquidity = getLiquidityFromAmounts(
+        sqrtPrice,
+        Math.sqrt(newPriceLower),
+        Math.sqrt(newPriceUpper),
+        swapped.amountA,
+        swapped.amountB
+      );
+      leg = getAmountsForLiquidity(sqrtPrice, Math.sqrt(newPriceLower), Math.sqrt(newPriceUpper), liquidity);
+
+      rebalances.push({
+        timestamp: point.timestamp,
+        price: point.price,
+        oldPriceLower: priceLower,
+        oldPriceUpper: priceUpper,
+        newPriceLower,
+        newPriceUpper,
+        realizedIL,
+        swapFee: swapped.swapFee,
+        gasCost: gasCostPerRebalance,
+      });
+      totalRealizedIL += realizedIL;
+      totalSwapFees += swapped.swapFee;
+      totalGas += gasCostPerRebalance;
+      priceLower = newPriceLower;
+      priceUpper = newPriceUpper;
+      lastRebalanceAt = point.timestamp;
+    }
+
+    const { amount0, amount1 } = getAmountsForLiquidity(sqrtPrice, Math.sqrt(priceLower), Math.sqrt(priceUpper), liquidity);
+    const positionValue = amount0 * point.price + amount1;
+    // Swap fees are already out of the position via swapToRangeRatio; only gas is external
+    const cumulativeCosts = totalGas;
+
+    points.push({
+      timestamp: point.timestamp,
+      price: point.price,
+      priceLower,
+      priceUpper,
+      positionValue,
+      cumulativeFees,
+      cumulativeCosts,
+      netValue: positionValue + cumulativeFees - cumulativeCosts,
+      inRange,
+    });
+  });
+
+  const last = points[points.length - 1];
+  const lastPrice = last.price;
+  const finalHoldValue = initial.amount0 * lastPrice + initial.amount1;
+  const durationDays = (last.timestamp - points[0].timestamp) / (24 * 60 * 60 * 1000);
+
+  return {
+    strategy,
+    points,
+    rebalances,
+    initialValue,
+    finalValue: last.netValue,
+    finalHoldValue,
+    totalFees: cumulativeFees,
+    totalGas,
+    totalSwapFees,
+    totalRealizedIL,
+    finalUnrealizedIL: last.positionValue - (leg.amount0 * lastPrice + leg.amount1),
+    netPnL: last.netValue - initialValue,
+    netPnLVsHodl: last.netValue - finalHoldValue,
+    timeInRangePercent: (stepsInRange / points.length) * 100,
+    feeAPR: durationDays > 0 && initialValue > 0 ? (cumulativeFees / initialValue) * (365 / durationDays) * 100 : 0,
+  };
+}
+
+/**
+ * Replay every strategy plus the passive baseline over a series
+ */
+export function runStrategyBacktest(history: HistoricalData[], config: StrategyBacktestConfig): StrategyComparisonResult {
+  if (config.priceLower >= config.priceUpper) {
+    throw new Error('Price lower must be less than price upper');
+  }
+  config.strategies.forEach(strategy => {
+    if (strategy.trigger.type !== 'passive' && (strategy.rangePercent <= 0 || strategy.rangePercent >= 100)) {
+      throw new Error(`${strategy.label}: range must be between 0% and 100%`);
+    }
+    if (strategy.trigger.type === 'interval' && strategy.trigger.days <= 0) {
+      throw new Error(`${strategy.label}: interval must be positive`);
+    }
+  });
+
+  const series = history
+    .filter(p => isFinite(p.price) && p.price > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (series.length < 2) {
+    throw new Error('Price series needs at least two valid points');
+  }
+
+  const passiveRun = replayStrategy(series, config, PASSIVE_STRATEGY);
+  const passive: StrategyBacktestResult = { ...passiveRun, netPnLVsPassive: 0 };
+  const strategies = config.strategies.map(strategy => {
+    const run = replayStrategy(series, config, strategy);
+    return { ...run, netPnLVsPassive: run.finalValue - passive.finalValue };
+  });
+
+  const best = strategies.reduce((a, b) => (b.finalValue > a.finalValue ? b : a), passive);
+
+  return {
+    passive,
+    strategies,
+    best,
+    durationDays: (series[series.length - 1].timestamp - series[0].timestamp) / (24 * 60 * 60 * 1000),
+  };
+}
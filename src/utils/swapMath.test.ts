@@ -0,0 +1,50 @@
+import BN from 'bn.js';
+import { describe, expect, it } from 'vitest';
+import { computeSwap, SwapPoolState } from './swapMath';
+import { tickToSqrtPriceX64 } from './tickMath';
+
+// Three nested positions around tick 0, ticks given out of order
+const LIQUIDITY = new BN('1000000000000');
+const pool: SwapPoolState = {
+  currentSqrtPrice: tickToSqrtPriceX64(0),
+  currentTickIndex: 0,
+  liquidity: LIQUIDITY.muln(3),
+  feeRate: 2500,
+  ticks: [
+    { index: 600, liquidityNet: LIQUIDITY.neg().toString() },
+    { index: -1200, liquidityNet: LIQUIDITY.toString() },
+    { index: 1200, liquidityNet: LIQUIDITY.neg().toString() },
+    { index: -600, liquidityNet: LIQUIDITY.toString() },
+    { index: -1800, liquidityNet: LIQUIDITY.toString() },
+    { index: 1800, liquidityNet: LIQUIDITY.neg().toString() },
+  ],
+};
+
+describe('computeSwap', () => {
+  it('crosses initialized ticks downwards in order when selling Token A', () => {
+    const result = computeSwap(pool, new BN('170000000000'), true, true);
+
+    expect(result.crossedTicks).toEqual([-600, -1200]);
+    expect(result.nextLiquidity.eq(LIQUIDITY)).toBe(true);
+    expect(result.nextTickIndex).toBeLessThan(-1200);
+    expect(result.nextTickIndex).toBeGreaterThanOrEqual(-1800);
+    expect(result.isExceed).toBe(false);
+  });
+
+  it('crosses initialized ticks upwards in order when selling Token B', () => {
+    const result = computeSwap(pool, new BN('170000000000'), false, true);
+
+    expect(result.crossedTicks).toEqual([600, 1200]);
+    expect(result.nextLiquidity.eq(LIQUIDITY)).toBe(true);
+    expect(result.nextTickIndex).toBeGreaterThanOrEqual(1200);
+    expect(result.nextTickIndex).toBeLessThan(1800);
+  });
+
+  it('flags a swap that runs past the last initialized tick', () => {
+    const result = computeSwap(pool, new BN('10000000000000'), true, true);
+
+    expect(result.crossedTicks).toEqual([-600, -1200, -1800]);
+    expect(result.nextLiquidity.isZero()).toBe(true);
+    expect(result.isExceed).toBe(true);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Swap Simulation (exact integer math)
+ *
+ * Port of Cetus `clmm_math::compute_swap_step` and the tick-walking loop of
+ * `pool::swap_in_pool`, using BN so amounts round exactly like on-chain:
+ * - Amount in and fees round up, amount out rounds down
+ * - Fee is taken from the input before it moves price (by amount in)
+ * - Crossing a tick adds liquidity_net going up (b→a) and subtracts it going down (a→b)
+ *
+ * All amounts are raw on-chain units, sqrt prices are Q64.64.
+ * Fee rates use the on-chain denominator (1_000_000, e.g. 2500 = 0.25%).
+ */
+
+import BN from 'bn.js';
+import {
+  tickToSqrtPriceX64,
+  sqrtPriceX64ToTick,
+  MIN_SQRT_PRICE_X64,
+  MAX_SQRT_PRICE_X64,
+} from './tickMath';
+import { TickLiquidity } from './liquidityDistribution';
+
+export const FEE_RATE_DENOMINATOR = new BN(1_000_000);
+
+// Cetus tick_math sqrt price bounds
+export { MIN_SQRT_PRICE_X64, MAX_SQRT_PRICE_X64 };
+
+const U64_MAX = new BN(1).shln(64).subn(1);
+
+export interface SwapPoolState {
+  currentSqrtPrice: BN;
+  currentTickIndex: number;
+  liquidity: BN;          // Active liquidity at the current tick
+  feeRate: number;        // On-chain fee rate, denominator 1_000_000
+  ticks: TickLiquidity[]; // Initialized ticks (any order)
+}
+
+export interface SwapStepResult {
+  amountIn: BN;
+  amountOut: BN;
+  nextSqrtPrice: BN;
+  feeAmount: BN;
+}
+
+export interface SwapResult {
+  amountIn: BN;
+  amountOut: BN;
+  feeAmount: BN;
+  startSqrtPrice: BN;
+  nextSqrtPrice: BN;
+  nextTickIndex: number;
+  nextLiquidity: BN;
+  crossedTicks: number[];
+  steps: number;
+  isExceed: boolean;      // Ran out of liquidity before the amount was filled
+}
+
+/**
+ * Δa = L · |√P1 - √P0| · 2^64 / (√P0 · √P1)
+ */
+export function getDeltaA(sqrtPrice0: BN, sqrtPrice1: BN, liquidity: BN, roundUp: boolean): BN {
+  const diff = sqrtPrice0.sub(sqrtPrice1).abs();
+  if (diff.isZero() || liquidity.isZero()) return new BN(0);
+
+  const numerator = liquidity.mul(diff).shln(64);
+  const denominator = sqrtPrice0.mul(sqrtPrice1);
+  const { div, mod } = numerator.divmod(denominator);
+  const result = roundUp && !mod.isZero() ? div.addn(1) : div;
+
+  if (result.gt(U64_MAX)) {
+    throw new Error('Token A delta overflows u64');
+  }
+  return result;
+}
+
+/**
+ * Δb = L · |√P1 - √P0| / 2^64
+ */
+export function getDeltaB(sqrtPrice0: BN, sqrtPrice1: BN, liquidity: BN, roundUp: boolean): BN {
+  const diff = sqrtPrice0.sub(sqrtPrice1).abs();
+  if (diff.isZero() || liquidity.isZero()) return new BN(0);
+
+  const product = liquidity.mul(diff);
+  const result = roundUp && !product.maskn(64).isZero() ? product.shrn(64).addn(1) : product.shrn(64);
+
+  if (result.gt(U64_MAX)) {
+    throw new Error('Token B delta overflows u64');
+  }
+  return result;
+}
+
+/**
+ * Next sqrt price after adding (or removing) token A, rounded up
+ * √P' = L · √P · 2^64 / (L · 2^64 ± Δa · √P)
+ */
+function getNextSqrtPriceAUp(sqrtPrice: BN, liquidity: BN, amount: BN, byAmountIn: boolean): BN {
+  if (amount.isZero()) return sqrtPrice;
+
+  const numerator = sqrtPrice.mul(liquidity).shln(64);
+  const liquidityShl = liquidity.shln(64);
+  const product = amount.mul(sqrtPrice);
+  const denominator = byAmountIn ? liquidityShl.add(product) : liquidityShl.sub(product);
+
+  if (denominator.lten(0)) {
+    throw new Error('Not enough liquidity for output amount');
+  }
+
+  const { div, mod } = numerator.divmod(denominator);
+  const next = mod.isZero() ? div : div.addn(1);
+  if (next.lt(MIN_SQRT_PRICE_X64) || next.gt(MAX_SQRT_PRICE_X64)) {
+    throw new Error('Sqrt price out of bounds');
+  }
+  return next;
+}
+
+/**
+ * Next sqrt price after adding (or removing) token B
+ * √P' = √P ± Δb · 2^64 / L (rounded toward the smaller move for output)
+ */
+function getNextSqrtPriceBDown(sqrtPrice: BN, liquidity: BN, amount: BN, byAmountIn: boolean): BN {
+  const { div, mod } = amount.shln(64).divmod(liquidity);
+  const delta = !byAmountIn && !mod.isZero() ? div.addn(1) : div;
+  const next = byAmountIn ? sqrtPrice.add(delta) : sqrtPrice.sub(delta);
+
+  if (next.lt(MIN_SQRT_PRICE_X64) || next.gt(MAX_SQRT_PRICE_X64)) {
+    throw new Error('Sqrt price out of bounds');
+  }
+  return next;
+}
+
+function getNextSqrtPriceFromInput(sqrtPrice: BN, liquidity: BN, amount: BN, aToB: boolean): BN {
+  return aToB
+    ? getNextSqrtPriceAUp(sqrtPrice, liquidity, amount, true)
+    : getNextSqrtPriceBDown(sqrtPrice, liquidity, amount, true);
+}
+
+function getNextSqrtPriceFromOutput(sqrtPrice: BN, liquidity: BN, amount: BN, aToB: boolean): BN {
+  return aToB
+    ? getNextSqrtPriceBDown(sqrtPrice, liquidity, amount, false)
+    : getNextSqrtPriceAUp(sqrtPrice, liquidity, amount, false);
+}
+
+function getDeltaUpFromInput(current: BN, target: BN, liquidity: BN, aToB: boolean): BN {
+  return aToB ? getDeltaA(target, current, liquidity, true) : getDeltaB(current, target, liquidity, true);
+}
+
+function getDeltaDownFromOutput(current: BN, target: BN, liquidity: BN, aToB: boolean): BN {
+  return aToB ? getDeltaB(target, current, liquidity, false) : getDeltaA(current, target, liquidity, false);
+}
+
+function mulDivCeil(a: BN, b: BN, denominator: BN): BN {
+  const { div, mod } = a.mul(b).divmod(denominator);
+  return mod.isZero() ? div : div.addn(1);
+}
+
+/**
+ * One swap step within a single liquidity segment (clmm_math::compute_swap_step)
+ */
+export function computeSwapStep(
+  currentSqrtPrice: BN,
+  targetSqrtPrice: BN,
+  liquidity: BN,
+  amount: BN,
+  feeRate: number,
+  aToB: boolean,
+  byAmountIn: boolean
+): SwapStepResult {
+  const empty = { amountIn: new BN(0), amountOut: new BN(0), nextSqrtPrice: targetSqrtPrice, feeAmount: new BN(0) };
+  if (liquidity.isZero()) return empty;
+
+  if (aToB ? currentSqrtPrice.lt(targetSqrtPrice) : currentSqrtPrice.gte(targetSqrtPrice)) {
+    throw new Error('Target sqrt price is on the wrong side of the current price');
+  }
+
+  const fee = new BN(feeRate);
+  const feeComplement = FEE_RATE_DENOMINATOR.sub(fee);
+
+  if (byAmountIn) {
+    const amountRemain = amount.mul(feeComplement).div(FEE_RATE_DENOMINATOR);
+    const maxAmountIn = getDeltaUpFromInput(currentSqrtPrice, targetSqrtPrice, liquidity, aToB);
+
+    let amountIn: BN;
+    let feeAmount: BN;
+    let nextSqrtPrice: BN;
+    if (maxAmountIn.gt(amountRemain)) {
+      amountIn = amountRemain;
+      feeAmount = amount.sub(amountRemain);
+      nextSqrtPrice = getNextSqrtPriceFromInput(currentSqrtPrice, liquidity, amountRemain, aToB);
+    } else {
+      amountIn = maxAmountIn;
+      feeAmount = mulDivCeil(amountIn, fee, feeComplement);
+      nextSqrtPrice = targetSqrtPrice;
+    }
+    const amountOut = getDeltaDownFromOutput(currentSqrtPrice, nextSqrtPrice, liquidity, aToB);
+    return { amountIn, amountOut, nextSqrtPrice, feeAmount };
+  }
+
+  const maxAmountOut = getDeltaDownFromOutput(currentSqrtPrice, targetSqrtPrice, liquidity, aToB);
+  let amountOut: BN;
+  let nextSqrtPrice: BN;
+  if (maxAmountOut.gt(amount)) {
+    amountOut = amount;
+    nextSqrtPrice = getNextSqrtPriceFromOutput(currentSqrtPrice, liquidity, amount, aToB);
+  } else {
+    amountOut = maxAmountOut;
+    nextSqrtPrice = targetSqrtPrice;
+  }
+  const amountIn = getDeltaUpFromInput(currentSqrtPrice, nextSqrtPrice, liquidity, aToB);
+  const feeAmount = mulDivCeil(amountIn, fee, feeComplement);
+  return { amountIn, amountOut, nextSqrtPrice, feeAmount };
+}
+
+/**
+ * Simulate a swap against the pool, walking initialized ticks
+ * (pool::swap_in_pool without the on-chain state writes)
+ */
+export function computeSwap(
+  pool: SwapPoolState,
+  amount: BN,
+  aToB: boolean,
+  byAmountIn: boolean,
+  sqrtPriceLimit?: BN
+): SwapResult {
+  const limit = sqrtPriceLimit ?? (aToB ? MIN_SQRT_PRICE_X64 : MAX_SQRT_PRICE_X64);
+  if (limit.lt(MIN_SQRT_PRICE_X64) || limit.gt(MAX_SQRT_PRICE_X64)) {
+    throw new Error('Sqrt price limit is outside the valid range');
+  }
+  if (aToB ? limit.gt(pool.currentSqrtPrice) : limit.lt(pool.currentSqrtPrice)) {
+    throw new Error('Sqrt price limit is on the wrong side of the current price');
+  }
+
+  const ticks = [...pool.ticks].sort((a, b) => a.index - b.index);
+  // Cursor on the next initialized tick in the swap direction; only moves when a tick is crossed
+  const firstAbove = ticks.findIndex(t => t.index > pool.currentTickIndex);
+  let tickCursor = aToB
+    ? (firstAbove === -1 ? ticks.length : firstAbove) - 1
+    : firstAbove;
+
+  let remaining = amount.clone();
+  let currentSqrtPrice = pool.currentSqrtPrice.clone();
+  let currentTickIndex = pool.currentTickIndex;
+  let liquidity = pool.liquidity.clone();
+
+  let amountIn = new BN(0);
+  let amountOut = new BN(0);
+  let feeAmount = new BN(0);
+  const crossedTicks: number[] = [];
+  let steps = 0;
+  let isExceed = false;
+
+  while (!remaining.isZero() && !currentSqrtPrice.eq(limit)) {
+    // Next initialized tick in the swap direction
+    const nextTick = tickCursor >= 0 ? ticks[tickCursor] : undefined;
+    if (!nextTick) {
+      isExceed = true;
+      break;
+    }
+
+    const tickSqrtPrice = tickToSqrtPriceX64(nextTick.index);
+    const targetSqrtPrice = aToB ? BN.max(limit, tickSqrtPrice) : BN.min(limit, tickSqrtPrice);
+
+    const step = computeSwapStep(currentSqrtPrice, targetSqrtPrice, liquidity, remaining, pool.feeRate, aToB, byAmountIn);
+
+    if (!step.amountIn.isZero() || !step.feeAmount.isZero()) {
+      remaining = byAmountIn
+        ? remaining.sub(step.amountIn).sub(step.feeAmount)
+        : remaining.sub(step.amountOut);
+      amountIn = amountIn.add(step.amountIn);
+      amountOut = amountOut.add(step.amountOut);
+      feeAmount = feeAmount.add(step.feeAmount);
+    }
+
+    if (step.nextSqrtPrice.eq(tickSqrtPrice)) {
+      currentSqrtPrice = tickSqrtPrice;
+      currentTickIndex = aToB ? nextTick.index - 1 : nextTick.index;
+      const liquidityNet = new BN(nextTick.liquidityNet);
+      liquidity = aToB ? liquidity.sub(liquidityNet) : liquidity.add(liquidityNet);
+      if (liquidity.isNeg()) {
+        throw new Error(`Active liquidity went negative crossing tick ${nextTick.index}`);
+      }
+      crossedTicks.push(nextTick.index);
+      tickCursor += aToB ? -1 : 1;
+    } else if (!step.nextSqrtPrice.eq(currentSqrtPrice)) {
+      currentSqrtPrice = step.nextSqrtPrice;
+      currentTickIndex = sqrtPriceX64ToTick(currentSqrtPrice);
+    }
+    steps++;
+  }
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    startSqrtPrice: pool.currentSqrtPrice,
+    nextSqrtPrice: currentSqrtPrice,
+    nextTickIndex: currentTickIndex,
+    nextLiquidity: liquidity,
+    crossedTicks,
+    steps,
+    isExceed,
+  };
+}
+
+/**
+ * Price impact of a swap in percent ((√P'/√P)² - 1)
+ */
+export function calculatePriceImpact(result: SwapResult): number {
+  const ratio = parseFloat(result.nextSqrtPrice.toString()) / parseFloat(result.startSqrtPrice.toString());
+  return (ratio * ratio - 1) * 100;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import BN from 'bn.js';
+import vectors from '../fixtures/tickMathVectors.json';
+import {
+  MIN_TICK,
+  MAX_TICK,
+  MIN_SQRT_PRICE_X64,
+  MAX_SQRT_PRICE_X64,
+  tickToSqrtPriceX64,
+  sqrtPriceX64ToTick,
+  priceToSqrtPriceX64,
+  priceToTickWithDecimals,
+} from './tickMath';
+
+describe('tick bounds', () => {
+  it('match the reference bounds', () => {
+    expect(MIN_TICK).toBe(vectors.bounds.minTick);
+    expect(MAX_TICK).toBe(vectors.bounds.maxTick);
+    expect(MIN_SQRT_PRICE_X64.toString()).toBe(vectors.bounds.minSqrtPriceX64);
+    expect(MAX_SQRT_PRICE_X64.toString()).toBe(vectors.bounds.maxSqrtPriceX64);
+  });
+
+  it('round-trip at MIN_TICK and MAX_TICK', () => {
+    expect(tickToSqrtPriceX64(MIN_TICK).eq(MIN_SQRT_PRICE_X64)).toBe(true);
+    expect(tickToSqrtPriceX64(MAX_TICK).eq(MAX_SQRT_PRICE_X64)).toBe(true);
+    expect(sqrtPriceX64ToTick(MIN_SQRT_PRICE_X64)).toBe(MIN_TICK);
+    expect(sqrtPriceX64ToTick(MAX_SQRT_PRICE_X64)).toBe(MAX_TICK);
+    expect(sqrtPriceX64ToTick(tickToSqrtPriceX64(MIN_TICK + 1))).toBe(MIN_TICK + 1);
+    expect(sqrtPriceX64ToTick(tickToSqrtPriceX64(MAX_TICK - 1))).toBe(MAX_TICK - 1);
+  });
+
+  it('reject ticks outside the bounds', () => {
+    expect(() => tickToSqrtPriceX64(MIN_TICK - 1)).toThrow();
+    expect(() => tickToSqrtPriceX64(MAX_TICK + 1)).toThrow();
+    expect(() => tickToSqrtPriceX64(0.5)).toThrow();
+  });
+
+  it('reject sqrt prices outside the bounds', () => {
+    expect(() => sqrtPriceX64ToTick(MIN_SQRT_PRICE_X64.subn(1))).toThrow();
+    expect(() => sqrtPriceX64ToTick(MAX_SQRT_PRICE_X64.addn(1))).toThrow();
+    expect(() => sqrtPriceX64ToTick(new BN(0))).toThrow();
+  });
+});
+
+describe('tickToSqrtPriceX64', () => {
+  it.each(vectors.tickToSqrtPrice)('tick $tick', ({ tick, sqrtPriceX64 }) => {
+    expect(tickToSqrtPriceX64(tick).toString()).toBe(sqrtPriceX64);
+  });
+});
+
+describe('sqrtPriceX64ToTick', () => {
+  it.each(vectors.sqrtPriceToTick)('sqrt price $sqrtPriceX64', ({ sqrtPriceX64, tick }) => {
+    expect(sqrtPriceX64ToTick(new BN(sqrtPriceX64))).toBe(tick);
+  });
+
+  it('returns the floor tick just below each tick boundary', () => {
+    for (const { tick } of vectors.tickToSqrtPrice) {
+      if (tick === MIN_TICK) continue;
+      expect(sqrtPriceX64ToTick(tickToSqrtPriceX64(tick))).toBe(tick);
+      expect(sqrtPriceX64ToTick(tickToSqrtPriceX64(tick).subn(1))).toBe(tick - 1);
+    }
+  });
+});
+
+describe('priceToSqrtPriceX64', () => {
+  it.each(vectors.priceToSqrtPrice)('price $price ($decimalsA/$decimalsB decimals)', v => {
+    expect(priceToSqrtPriceX64(v.price, v.decimalsA, v.decimalsB).toString()).toBe(v.sqrtPriceX64);
+    expect(priceToTickWithDecimals(v.price, v.decimalsA, v.decimalsB)).toBe(v.tick);
+  });
+});
@@ -2,13 +2,28 @@ import BN from 'bn.js';
 
 // Constants
 const Q64 = new BN(1).shln(64); // 2^64
-const LOG_B_2_X64 = new BN('18446744073709551616'); // log_b(2) * 2^64 where b = 1.0001
+
+// Cetus CLMM tick bounds (same as on-chain tick_math)
+export const MIN_TICK = -443636;
+export const MAX_TICK = 443636;
+
+// Sqrt prices at MIN_TICK / MAX_TICK
+export const MIN_SQRT_PRICE_X64 = new BN('4295048016');
+export const MAX_SQRT_PRICE_X64 = new BN('79226673515401279992447579055');
+
+// log_sqrt(1.0001)(2) * 2^32, and the error bounds used to bracket the tick (tick_math.move)
+const LOG_SQRT_10001_2_X32 = new BN('59543866431366');
+const TICK_LOW_ERROR_X64 = new BN('184467440737095516');
+const TICK_HIGH_ERROR_X64 = new BN('15793534762490258745');
 
 /**
  * Converts a tick index to sqrt price X64
  * Formula: sqrt(1.0001^tick) * 2^64
  */
 export function tickToSqrtPriceX64(tick: number): BN {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} is outside [${MIN_TICK}, ${MAX_TICK}]`);
+  }
   if (tick >= 0) {
     return positiveTickToSqrtPriceX64(tick);
   } else {
@@ -16,106 +31,320 @@ export function tickToSqrtPriceX64(tick: number): BN {
   }
 }
 
+// Ratios for sqrt(1.0001^bit), same as Cetus tick_math::get_sqrt_price_at_tick
+// Positive ticks use Q96 precision and shift down to Q64 at the end
+const POSITIVE_TICK_RATIOS_X96: [number, string][] = [
+  [0x2, '79236085330515764027303304731'],
+  [0x4, '79244008939048815603706035061'],
+  [0x8, '79259858533276714757314932305'],
+  [0x10, '79291567232598584799939703904'],
+  [0x20, '79355022692464371645785046466'],
+  [0x40, '79482085999252804386437311141'],
+  [0x80, '79736823300114093921829183326'],
+  [0x100, '80248749790819932309965073892'],
+  [0x200, '81282483887344747381513967011'],
+  [0x400, '83390072131320151908154831281'],
+  [0x800, '87770609709833776024991924138'],
+  [0x1000, '97234110755111693312479820773'],
+  [0x2000, '119332217159966728226237229890'],
+  [0x4000, '179736315981702064433883588727'],
+  [0x8000, '407748233172238350107850275304'],
+  [0x10000, '2098478828474011932436660412517'],
+  [0x20000, '55581415166113811149459800483533'],
+  [0x40000, '38992368544603139932233054999993551'],
+];
+
+const NEGATIVE_TICK_RATIOS_X64: [number, string][] = [
+  [0x2, '18444899583751176498'],
+  [0x4, '18443055278223354162'],
+  [0x8, '18439367220385604838'],
+  [0x10, '18431993317065449817'],
+  [0x20, '18417254355718160513'],
+  [0x40, '18387811781193591352'],
+  [0x80, '18329067761203520168'],
+  [0x100, '18212142134806087854'],
+  [0x200, '17980523815641551639'],
+  [0x400, '17526086738831147013'],
+  [0x800, '16651378430235024244'],
+  [0x1000, '15030750278693429944'],
+  [0x2000, '12247334978882834399'],
+  [0x4000, '8131365268884726200'],
+  [0x8000, '3584323654723342297'],
+  [0x10000, '696457651847595233'],
+  [0x20000, '26294789957452057'],
+  [0x40000, '37481735321082'],
+];
+
 function positiveTickToSqrtPriceX64(tick: number): BN {
   // sqrt(1.0001^tick) = 1.0001^(tick/2)
-  let ratio = Q64;
-  
-  if (tick & 1) ratio = ratio.mul(new BN('18446920394820956382')).shrn(64);
-  if (tick & 2) ratio = ratio.mul(new BN('18447543041086839124')).shrn(64);
-  if (tick & 4) ratio = ratio.mul(new BN('18448788321568618856')).shrn(64);
-  if (tick & 8) ratio = ratio.mul(new BN('18451278912259688804')).shrn(64);
-  if (tick & 16) ratio = ratio.mul(new BN('18456260700440286180')).shrn(64);
-  if (tick & 32) ratio = ratio.mul(new BN('18466227088285128992')).shrn(64);
-  if (tick & 64) ratio = ratio.mul(new BN('18486176269077767396')).shrn(64);
-  if (tick & 128) ratio = ratio.mul(new BN('18526121399127943904')).shrn(64);
-  if (tick & 256) ratio = ratio.mul(new BN('18606151220093388560')).shrn(64);
-  if (tick & 512) ratio = ratio.mul(new BN('18766697328019620032')).shrn(64);
-  if (tick & 1024) ratio = ratio.mul(new BN('19089995656998392688')).shrn(64);
-  if (tick & 2048) ratio = ratio.mul(new BN('19744342969342036992')).shrn(64);
-  if (tick & 4096) ratio = ratio.mul(new BN('21082570671088890880')).shrn(64);
-  if (tick & 8192) ratio = ratio.mul(new BN('23877027239886474240')).shrn(64);
-  if (tick & 16384) ratio = ratio.mul(new BN('30652171879639855104')).shrn(64);
-  if (tick & 32768) ratio = ratio.mul(new BN('50462168082356239360')).shrn(64);
-  if (tick & 65536) ratio = ratio.mul(new BN('136757009941330165760')).shrn(64);
-  if (tick & 131072) ratio = ratio.mul(new BN('1005195981313053343232')).shrn(64);
-  if (tick & 262144) ratio = ratio.mul(new BN('54353303137758275584000')).shrn(64);
-  
-  return ratio;
+  let ratio = new BN(tick & 1 ? '79232123823359799118286999567' : '79228162514264337593543950336');
+
+  for (const [bit, factor] of POSITIVE_TICK_RATIOS_X96) {
+    if (tick & bit) ratio = ratio.mul(new BN(factor)).shrn(96);
+  }
+
+  return ratio.shrn(32);
 }
 
 function negativeTickToSqrtPriceX64(tick: number): BN {
   const absTick = Math.abs(tick);
-  const sqrtPrice = positiveTickToSqrtPriceX64(absTick);
-  
-  // Invert: 2^128 / sqrtPrice
-  const Q128 = new BN(1).shln(128);
-  return Q128.div(sqrtPrice);
+  let ratio = new BN(absTick & 1 ? '18445821805675392311' : '18446744073709551616');
+
+  for (const [bit, factor] of NEGATIVE_TICK_RATIOS_X64) {
+    if (absTick & bit) ratio = ratio.mul(new BN(factor)).shrn(64);
+  }
+
+  return ratio;
+}
+
+// Arithmetic shift right (floor), BN.shrn truncates toward zero on negatives
+function shrFloor(value: BN, bits: number): BN {
+  if (!value.isNeg()) return value.shrn(bits);
+  const mask = new BN(1).shln(bits).subn(1);
+  return value.neg().add(mask).shrn(bits).neg();
 }
 
 /**
- * Converts sqrt price X64 to tick index
+ * Converts sqrt price X64 to tick index (floor), exact port of on-chain
+ * tick_math::get_tick_at_sqrt_price: integer log2 found bit by bit, then
+ * scaled to base sqrt(1.0001) and resolved against tickToSqrtPriceX64
  */
 export function sqrtPriceX64ToTick(sqrtPriceX64: BN): number {
-  // tick = log_{1.0001}(sqrtPrice^2)
-  // = 2 * log_{1.0001}(sqrtPrice)
-  // = 2 * log(sqrtPrice) / log(1.0001)
-  
-  const sqrtPriceNum = sqrtPriceX64.toNumber() / Math.pow(2, 64);
-  const tick = Math.floor(Math.log(sqrtPriceNum * sqrtPriceNum) / Math.log(1.0001));
-  return tick;
+  if (sqrtPriceX64.lt(MIN_SQRT_PRICE_X64) || sqrtPriceX64.gt(MAX_SQRT_PRICE_X64)) {
+    throw new Error(`Sqrt price ${sqrtPriceX64.toString()} is outside the valid range`);
+  }
+
+  // Integer part of log2: most significant bit
+  const msb = sqrtPriceX64.bitLength() - 1;
+  let log2X32 = new BN(msb - 64).mul(new BN(1).shln(32)); // BN.shln rejects negatives
+
+  // Normalize to [2^63, 2^64) and square repeatedly for 14 fractional bits
+  let r = msb >= 64 ? sqrtPriceX64.shrn(msb - 63) : sqrtPriceX64.shln(63 - msb);
+  for (let shift = 31; shift >= 18; shift--) {
+    r = r.mul(r).shrn(63);
+    const bit = r.shrn(64).toNumber();
+    if (bit) log2X32 = log2X32.add(new BN(1).shln(shift));
+    r = r.shrn(bit);
+  }
+
+  const logSqrt10001 = log2X32.mul(LOG_SQRT_10001_2_X32);
+  const tickLow = shrFloor(logSqrt10001.sub(TICK_LOW_ERROR_X64), 64).toNumber();
+  const tickHigh = shrFloor(logSqrt10001.add(TICK_HIGH_ERROR_X64), 64).toNumber();
+
+  if (tickLow === tickHigh) return tickLow;
+  return tickToSqrtPriceX64(tickHigh).lte(sqrtPriceX64) ? tickHigh : tickLow;
 }
 
 /**
- * Convert price to tick
+ * Clamp a tick to [MIN_TICK, MAX_TICK]
+ */
+export function clampTick(tick: number): number {
+  return Math.min(MAX_TICK, Math.max(MIN_TICK, tick));
+}
+
+/**
+ * Clamp a sqrt price to [MIN_SQRT_PRICE_X64, MAX_SQRT_PRICE_X64]
+ */
+export function clampSqrtPriceX64(sqrtPriceX64: BN): BN {
+  if (sqrtPriceX64.lt(MIN_SQRT_PRICE_X64)) return MIN_SQRT_PRICE_X64;
+  if (sqrtPriceX64.gt(MAX_SQRT_PRICE_X64)) return MAX_SQRT_PRICE_X64;
+  return sqrtPriceX64;
+}
+
+/**
+ * Convert price to tick (floor), consistent with tickToPrice:
+ * the largest tick whose price does not exceed `price`, clamped to the tick bounds
  */
 export function priceToTick(price: number): number {
-  return Math.floor(Math.log(price) / Math.log(1.0001));
+  if (!(price > 0)) return MIN_TICK;
+  if (price === Infinity) return MAX_TICK;
+  let tick = clampTick(Math.floor(Math.log(price) / Math.log(1.0001)));
+
+  // Float log can be off by one near tick boundaries
+  while (tick > MIN_TICK && tickToPrice(tick) > price) tick--;
+  while (tick < MAX_TICK && tickToPrice(tick + 1) <= price) tick++;
+  return tick;
 }
 
 /**
- * Convert tick to price
+ * Convert tick to price, from the exact on-chain sqrt price
  */
 export function tickToPrice(tick: number): number {
-  return Math.pow(1.0001, tick);
+  return sqrtPriceX64ToPrice(tickToSqrtPriceX64(tick), 0, 0);
+}
+
+/**
+ * Convert an on-chain tick to a decimal-adjusted price (Token B per Token A)
+ */
+export function tickToPriceWithDecimals(tick: number, decimalsA: number, decimalsB: number): number {
+  return sqrtPriceX64ToPrice(tickToSqrtPriceX64(tick), decimalsA, decimalsB);
+}
+
+/**
+ * Convert a decimal-adjusted price (Token B per Token A) to the on-chain tick (floor),
+ * consistent with tickToPriceWithDecimals and clamped to the tick bounds
+ */
+export function priceToTickWithDecimals(price: number, decimalsA: number, decimalsB: number): number {
+  if (!(price > 0)) return MIN_TICK;
+  if (price === Infinity) return MAX_TICK;
+  const sqrtPriceX64 = priceToSqrtPriceX64(price, decimalsA, decimalsB);
+  let tick = sqrtPriceX64.lt(MIN_SQRT_PRICE_X64)
+    ? MIN_TICK
+    : sqrtPriceX64.gt(MAX_SQRT_PRICE_X64) ? MAX_TICK : sqrtPriceX64ToTick(sqrtPriceX64);
+
+  // A tick's price rounds to the nearest float, which can sit either side of the exact value
+  while (tick > MIN_TICK && tickToPriceWithDecimals(tick, decimalsA, decimalsB) > price) tick--;
+  while (tick < MAX_TICK && tickToPriceWithDecimals(tick + 1, decimalsA, decimalsB) <= price) tick++;
+  return tick;
+}
+
+/**
+ * Pool price kept exactly as the on-chain sqrt price plus the token decimals
+ * needed to read it (Token B per Token A)
+ */
+export interface DecimalPrice {
+  sqrtPriceX64: BN;
+  decimalsA: number;
+  decimalsB: number;
+}
+
+export function decimalPriceFromSqrtPriceX64(sqrtPriceX64: BN, decimalsA: number, decimalsB: number): DecimalPrice {
+  return { sqrtPriceX64, decimalsA, decimalsB };
+}
+
+export function decimalPriceFromTick(tick: number, decimalsA: number, decimalsB: number): DecimalPrice {
+  return { sqrtPriceX64: tickToSqrtPriceX64(tick), decimalsA, decimalsB };
+}
+
+export function decimalPriceFromNumber(price: number, decimalsA: number, decimalsB: number): DecimalPrice {
+  return { sqrtPriceX64: priceToSqrtPriceX64(price, decimalsA, decimalsB), decimalsA, decimalsB };
+}
+
+/**
+ * Nearest float to the price; never overflows, whatever the sqrt price size
+ */
+export function decimalPriceToNumber(price: DecimalPrice): number {
+  const rawX128 = price.sqrtPriceX64.sqr();
+  if (rawX128.isZero()) return 0;
+
+  // Keep the top 64 bits so the float conversion cannot overflow
+  const shift = Math.max(0, rawX128.bitLength() - 64);
+  const mantissa = parseFloat(rawX128.shrn(shift).toString());
+  return mantissa * Math.pow(2, shift - 128) * Math.pow(10, price.decimalsA - price.decimalsB);
+}
+
+/**
+ * Floor on-chain tick of the price
+ */
+export function decimalPriceToTick(price: DecimalPrice): number {
+  return sqrtPriceX64ToTick(price.sqrtPriceX64);
+}
+
+/**
+ * Exact decimal string of the price, truncated to `fractionDigits`
+ */
+export function formatDecimalPrice(price: DecimalPrice, fractionDigits: number = 18): string {
+  const decimalsDiff = price.decimalsA - price.decimalsB;
+  const scale = fractionDigits + decimalsDiff;
+
+  // price × 10^fractionDigits = sqrt² × 10^(decimalsDiff + fractionDigits) / 2^128
+  let numerator = price.sqrtPriceX64.sqr();
+  let denominator = new BN(1).shln(128);
+  if (scale >= 0) {
+    numerator = numerator.mul(new BN(10).pow(new BN(scale)));
+  } else {
+    denominator = denominator.mul(new BN(10).pow(new BN(-scale)));
+  }
+
+  const digits = numerator.div(denominator).toString().padStart(fractionDigits + 1, '0');
+  if (fractionDigits === 0) return digits;
+  return `${digits.slice(0, -fractionDigits)}.${digits.slice(-fractionDigits)}`;
 }
 
 /**
  * Convert sqrt price X64 to actual price
  */
 export function sqrtPriceX64ToPrice(sqrtPriceX64: BN, decimalsA: number, decimalsB: number): number {
-  const sqrtPrice = sqrtPriceX64.toNumber() / Math.pow(2, 64);
-  const price = sqrtPrice * sqrtPrice;
-  return price * Math.pow(10, decimalsA - decimalsB);
+  return decimalPriceToNumber({ sqrtPriceX64, decimalsA, decimalsB });
+}
+
+// Integer square root (floor), Newton's method
+function sqrtBN(value: BN): BN {
+  if (value.ltn(2)) return value.clone();
+  let x = new BN(1).shln(Math.ceil(value.bitLength() / 2));
+  for (;;) {
+    const next = x.add(value.div(x)).shrn(1);
+    if (next.gte(x)) return x;
+    x = next;
+  }
+}
+
+// Exact binary fraction of a finite positive float: value = mantissa × 2^exponent
+function floatToBinaryFraction(value: number): { mantissa: BN; exponent: number } {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  const high = view.getUint32(0);
+  const low = view.getUint32(4);
+  const biasedExponent = (high >>> 20) & 0x7ff;
+  const mantissa = new BN(high & 0xfffff).shln(32).add(new BN(low));
+
+  // Subnormals have no implicit leading bit
+  return biasedExponent === 0
+    ? { mantissa, exponent: -1074 }
+    : { mantissa: mantissa.add(new BN(1).shln(52)), exponent: biasedExponent - 1075 };
 }
 
 /**
- * Convert price to sqrt price X64
- * Handles large numbers safely using string representation
+ * Convert price to sqrt price X64, exact to the input float:
+ * floor(sqrt(price / 10^(decimalsA - decimalsB) × 2^128)) in integer math
  */
 export function priceToSqrtPriceX64(price: number, decimalsA: number, decimalsB: number): BN {
-  if (price <= 0) {
+  if (!(price > 0) || !isFinite(price)) {
     return new BN(0);
   }
-  
-  const adjustedPrice = price / Math.pow(10, decimalsA - decimalsB);
-  const sqrtPrice = Math.sqrt(adjustedPrice);
-  
-  // Use BigInt for large number arithmetic, then convert to BN
-  // 2^64 is too large for regular number, so we use string
-  const TWO_POW_64 = BigInt('18446744073709551616'); // 2^64
-  const sqrtPriceScaled = BigInt(Math.floor(sqrtPrice * 1e18)) * TWO_POW_64 / BigInt(1e18);
-  
-  return new BN(sqrtPriceScaled.toString());
+
+  const { mantissa, exponent } = floatToBinaryFraction(price);
+  const decimalsDiff = decimalsB - decimalsA;
+  const binaryShift = exponent + 128;
+
+  let numerator = mantissa;
+  let denominator = new BN(1);
+  if (decimalsDiff >= 0) {
+    numerator = numerator.mul(new BN(10).pow(new BN(decimalsDiff)));
+  } else {
+    denominator = denominator.mul(new BN(10).pow(new BN(-decimalsDiff)));
+  }
+  if (binaryShift >= 0) {
+    numerator = numerator.shln(binaryShift);
+  } else {
+    denominator = denominator.shln(-binaryShift);
+  }
+
+  return sqrtBN(numerator.div(denominator));
 }
 
 /**
- * Align tick to tick spacing
+ * Align tick to tick spacing, staying within the usable tick bounds
  */
 export function alignTickToSpacing(tick: number, tickSpacing: number, roundUp: boolean): number {
-  if (roundUp) {
-    return Math.ceil(tick / tickSpacing) * tickSpacing;
-  }
-  return Math.floor(tick / tickSpacing) * tickSpacing;
+  const aligned = roundUp
+    ? Math.ceil(tick / tickSpacing) * tickSpacing
+    : Math.floor(tick / tickSpacing) * tickSpacing;
+  return Math.min(getMaxTick(tickSpacing), Math.max(getMinTick(tickSpacing), aligned));
+}
+
+/**
+ * Lowest tick usable with a tick spacing
+ */
+export function getMinTick(tickSpacing: number): number {
+  return Math.ceil(MIN_TICK / tickSpacing) * tickSpacing;
+}
+
+/**
+ * Highest tick usable with a tick spacing
+ */
+export function getMaxTick(tickSpacing: number): number {
+  return Math.floor(MAX_TICK / tickSpacing) * tickSpacing;
 }
 
 /**
@@ -138,4 +367,4 @@ export function getDefaultTickRange(currentTick: number, tickSpacing: number, ra
   };
 }
 
-export { LOG_B_2_X64, Q64 };
+export { Q64 };
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountsForLiquidity } from './clmmMath';
+import { calculateZap, createConstantProductQuoter } from './zap';
+
+const RANGE = { currentPrice: 2, priceLower: 1.5, priceUpper: 2.5 };
+
+// Token A per Token B the range wants at a price, for L = 1
+const rangeRatio = (price: number) => {
+  const unit = getAmountsForLiquidity(Math.sqrt(price), Math.sqrt(1.5), Math.sqrt(2.5), 1);
+  return unit.amount0 / unit.amount1;
+};
+
+describe('createConstantProductQuoter', () => {
+  const quote = createConstantProductQuoter(2, 0.003, 20_000); // 5000 A + 10000 B
+
+  it('keeps x·y constant on the amount after fee', () => {
+    const { amountIn, amountOut, feeAmount } = quote(100, true);
+    expect(amountIn).toBe(100);
+    expect(feeAmount).toBeCloseTo(0.3, 12);
+    expect((5000 + 99.7) * (10_000 - amountOut)).toBeCloseTo(5000 * 10_000, 6);
+  });
+
+  it('moves the price against the trade', () => {
+    const sellA = quote(100, true);
+    const sellB = quote(200, false);
+    expect(sellA.priceImpact).toBeCloseTo((((10_000 - sellA.amountOut) / 5099.7) / 2 - 1) * 100, 9);
+    expect(sellA.priceImpact).toBeLessThan(0);
+    expect(sellB.priceImpact).toBeGreaterThan(0);
+  });
+
+  it('quotes at the spot price less fee when it has no depth', () => {
+    const flat = createConstantProductQuoter(2, 0.003, 0);
+    expect(flat(100, true)).toEqual({ amountIn: 100, amountOut: 99.7 * 2, feeAmount: 0.3, priceImpact: 0 });
+    expect(flat(100, false).amountOut).toBeCloseTo(99.7 / 2, 12);
+  });
+});
+
+describe('calculateZap', () => {
+  it('swaps at spot to the exact range ratio when the pool has no impact or fee', () => {
+    const result = calculateZap({ ...RANGE, tokenIn: 'A', amountIn: 10, quoteSwap: createConstantProductQuoter(2, 0, 0) });
+
+    expect(result.priceAfter).toBe(2);
+    expect(result.depositA / result.depositB).toBeCloseTo(rangeRatio(2), 9);
+    expect(result.leftoverA + result.leftoverB).toBeCloseTo(0, 9);
+    expect(result.zapCost).toBeCloseTo(0, 9);
+  });
+
+  it('finds the swap that matches the ratio at the post-swap price', () => {
+    const quoteSwap = createConstantProductQuoter(2, 0.0025, 2_000);
+    const result = calculateZap({ ...RANGE, tokenIn: 'B', amountIn: 100, quoteSwap });
+
+    expect(result.priceAfter).toBeGreaterThan(2);
+    expect(result.depositA / result.depositB).toBeCloseTo(rangeRatio(result.priceAfter), 6);
+    // Dust is negligible
+    expect(result.leftoverA + result.leftoverB).toBeLessThan(1e-9);
+    expect(result.swapFee).toBeCloseTo(result.swapAmountIn * 0.0025, 12);
+    expect(result.zapCost).toBeGreaterThan(result.swapFee * 0.999);
+  });
+
+  it('skips the swap when the range only needs the input token', () => {
+    const result = calculateZap({
+      ...RANGE,
+      priceLower: 2.5,
+      priceUpper: 3,
+      tokenIn: 'A',
+      amountIn: 10,
+      quoteSwap: createConstantProductQuoter(2, 0.0025, 2_000),
+    });
+    expect(result.swapAmountIn).toBe(0);
+    expect(result.depositA).toBeCloseTo(10, 9);
+    expect(result.depositB).toBe(0);
+    expect(result.zapCost).toBe(0);
+  });
+
+  it('sells everything when the range only needs the other token', () => {
+    const result = calculateZap({
+      ...RANGE,
+      priceLower: 2.5,
+      priceUpper: 3,
+      tokenIn: 'B',
+      amountIn: 10,
+      quoteSwap: createConstantProductQuoter(2, 0.0025, 2_000),
+    });
+    expect(result.swapAmountIn).toBe(10);
+    expect(result.depositB).toBe(0);
+    expect(result.depositA).toBeCloseTo(result.swapAmountOut, 9);
+  });
+
+  it('rejects empty inputs and inverted ranges', () => {
+    const quoteSwap = createConstantProductQuoter(2, 0, 0);
+    expect(() => calculateZap({ ...RANGE, tokenIn: 'A', amountIn: 0, quoteSwap })).toThrow('Amount and price must be positive');
+    expect(() => calculateZap({ ...RANGE, priceLower: 3, tokenIn: 'A', amountIn: 1, quoteSwap })).toThrow('below price upper');
+  });
+});
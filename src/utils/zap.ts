@@ -0,0 +1,182 @@
+/**
+ * Zap-in Calculator
+ *
+ * Turns a single-token deposit into a two-sided CLMM position:
+ * 1. Swap part of the input token so the holdings match the range's ratio
+ * 2. Deposit as much as the ratio allows; anything left is dust
+ *
+ * The swap moves the pool price, and the range's ratio depends on price, so the
+ * swap size s solves (at the post-swap price P'):
+ *
+ *   (held_in - s) / out(s) = x₁(P') / y₁(P')      (selling A; mirrored for B)
+ *
+ * where (x₁, y₁) are the amounts for L = 1. f(s) is monotonic, so bisection.
+ *
+ * Amounts are human units, price = Token B per Token A.
+ */
+
+import BN from 'bn.js';
+import { getAmountsForLiquidity, getDepositAmounts } from './clmmMath';
+import { computeSwap, calculatePriceImpact, SwapPoolState } from './swapMath';
+
+export type ZapToken = 'A' | 'B';
+
+export interface ZapSwapQuote {
+  amountIn: number;     // Input actually swapped incl. fee (less if liquidity runs out)
+  amountOut: number;
+  feeAmount: number;    // In the input token
+  priceImpact: number;  // % change of Token B per Token A price
+}
+
+// Quotes a swap of amountIn (input token, human units) against the pool
+export type ZapSwapQuoter = (amountIn: number, aToB: boolean) => ZapSwapQuote;
+
+export interface ZapConfig {
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  tokenIn: ZapToken;
+  amountIn: number;
+  quoteSwap: ZapSwapQuoter;
+  iterations?: number;  // Bisection steps (default 50)
+}
+
+export interface ZapResult {
+  tokenIn: ZapToken;
+  swapAmountIn: number;   // Input token sold, incl. fee
+  swapAmountOut: number;  // Other token received
+  swapFee: number;        // In the input token
+  priceImpact: number;
+  priceAfter: number;
+  depositA: number;
+  depositB: number;
+  leftoverA: number;      // Dust that does not fit the ratio
+  leftoverB: number;
+  depositValue: number;   // Token B terms, at the post-swap price
+  inputValue: number;     // Token B terms, at the pre-swap price
+  zapCost: number;        // inputValue - (deposit + leftover) value, fee + impact
+}
+
+/**
+ * Compute the swap + deposit for a single-token input
+ */
+export function calculateZap(config: ZapConfig): ZapResult {
+  const { currentPrice, priceLower, priceUpper, tokenIn, amountIn, quoteSwap, iterations = 50 } = config;
+
+  if (amountIn <= 0 || currentPrice <= 0) {
+    throw new Error('Amount and price must be positive');
+  }
+  if (priceLower <= 0 || priceLower >= priceUpper) {
+    throw new Error('Price lower must be positive and below price upper');
+  }
+
+  const aToB = tokenIn === 'A';
+
+  // Holdings after selling `sold` of the input token
+  const afterSwap = (sold: number) => {
+    const quote = sold > 0 ? quoteSwap(sold, aToB) : { amountIn: 0, amountOut: 0, feeAmount: 0, priceImpact: 0 };
+    const price = currentPrice * (1 + quote.priceImpact / 100);
+    return {
+      quote,
+      price,
+      holdingA: aToB ? amountIn - quote.amountIn : quote.amountOut,
+      holdingB: aToB ? quote.amountOut : amountIn - quote.amountIn,
+    };
+  };
+
+  // Excess of the input token vs the range ratio (> 0 → sell more)
+  const excess = (sold: number) => {
+    const { price, holdingA, holdingB } = afterSwap(sold);
+    const unit = getAmountsForLiquidity(Math.sqrt(price), Math.sqrt(priceLower), Math.sqrt(priceUpper), 1);
+    return aToB
+      ? holdingA * unit.amount1 - holdingB * unit.amount0
+      : holdingB * unit.amount0 - holdingA * unit.amount1;
+  };
+
+  let sold: number;
+  if (excess(0) <= 0) {
+    sold = 0; // Range only needs the input token
+  } else if (excess(amountIn) >= 0) {
+    sold = amountIn; // Range only needs the other token
+  } else {
+    let low = 0;
+    let high = amountIn;
+    for (let i = 0; i < iterations; i++) {
+      const mid = (low + high) / 2;
+      if (excess(mid) > 0) low = mid;
+      else high = mid;
+    }
+    // Sell slightly less than the root so dust stays in the input token
+    sold = low;
+  }
+
+  const { quote, price, holdingA, holdingB } = afterSwap(sold);
+  const { depositA, depositB, leftoverA, leftoverB } = getDepositAmounts(
+    price,
+    priceLower,
+    priceUpper,
+    Math.max(0, holdingA),
+    Math.max(0, holdingB)
+  );
+
+  const inputValue = aToB ? amountIn * currentPrice : amountIn;
+  const depositValue = depositA * price + depositB;
+  // Measured at the pre-swap price so the cost is not hidden by the price move
+  const endValue = (depositA + leftoverA) * currentPrice + depositB + leftoverB;
+
+  return {
+    tokenIn,
+    swapAmountIn: quote.amountIn,
+    swapAmountOut: quote.amountOut,
+    swapFee: quote.feeAmount,
+    priceImpact: quote.priceImpact,
+    priceAfter: price,
+    depositA,
+    depositB,
+    leftoverA,
+    leftoverB,
+    depositValue,
+    inputValue,
+    zapCost: inputValue - endValue,
+  };
+}
+
+/**
+ * Quoter for a constant-product pool holding `depthValue` (Token B terms), split
+ * evenly. Stand-in when tick-level liquidity is not loaded.
+ */
+export function createConstantProductQuoter(currentPrice: number, feeRate: number, depthValue: number): ZapSwapQuoter {
+  const reserveB = depthValue / 2;
+  const reserveA = reserveB / currentPrice;
+
+  return (amountIn, aToB) => {
+    const feeAmount = amountIn * feeRate;
+    const netIn = amountIn - feeAmount;
+    if (reserveA <= 0 || reserveB <= 0) {
+      return { amountIn, amountOut: aToB ? netIn * currentPrice : netIn / currentPrice, feeAmount, priceImpact: 0 };
+    }
+
+    const [reserveIn, reserveOut] = aToB ? [reserveA, reserveB] : [reserveB, reserveA];
+    const amountOut = (reserveOut * netIn) / (reserveIn + netIn);
+    const newReserveA = aToB ? reserveA + netIn : reserveA - amountOut;
+    const newReserveB = aToB ? reserveB - amountOut : reserveB + netIn;
+    return { amountIn, amountOut, feeAmount, priceImpact: ((newReserveB / newReserveA) / currentPrice - 1) * 100 };
+  };
+}
+
+/**
+ * Quoter backed by the exact tick-walking swap (swapMath.computeSwap)
+ */
+export function createTickSwapQuoter(pool: SwapPoolState, decimalsA: number, decimalsB: number): ZapSwapQuoter {
+  return (amountIn, aToB) => {
+    const [decimalsIn, decimalsOut] = aToB ? [decimalsA, decimalsB] : [decimalsB, decimalsA];
+    const raw = new BN(BigInt(Math.floor(amountIn * Math.pow(10, decimalsIn))).toString());
+    const result = computeSwap(pool, raw, aToB, true);
+    return {
+      amountIn: parseFloat(result.amountIn.add(result.feeAmount).toString()) / Math.pow(10, decimalsIn),
+      amountOut: parseFloat(result.amountOut.toString()) / Math.pow(10, decimalsOut),
+      feeAmount: parseFloat(result.feeAmount.toString()) / Math.pow(10, decimalsIn),
+      priceImpact: calculatePriceImpact(result),
+    };
+  };
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   define: {
     'process.env': {},
@@ -12,6 +12,10 @@ export default defineConfig({
       buffer: 'buffer',
     },
   },
+  build: {
+    // The SSR build is the liqsim CLI, it has no use for public assets
+    copyPublicDir: !isSsrBuild,
+  },
   optimizeDeps: {
     esbuildOptions: {
       define: {
@@ -19,4 +23,4 @@ export default defineConfig({
       },
     },
   },
-});
+}));